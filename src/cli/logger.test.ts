@@ -77,6 +77,23 @@ describe("cli/logger", () => {
 		});
 	});
 
+	describe("warn", () => {
+		test("should log the warning between blank lines without exiting", () => {
+			const consoleWarnSpy = vi
+				.spyOn(console, "warn")
+				.mockImplementation(() => {});
+			const loggerInstance = new Logger();
+
+			loggerInstance.warn("Careful now");
+
+			expect(consoleWarnSpy).toHaveBeenCalledWith(
+				expect.stringContaining("Careful now"),
+			);
+			expect(consoleLogSpy).toHaveBeenCalledTimes(2);
+			expect(processExitSpy).not.toHaveBeenCalled();
+		});
+	});
+
 	describe("end", () => {
 		test("should log end message with proper formatting", () => {
 			const loggerInstance = new Logger();
@@ -5,6 +5,8 @@ import animatedIntro from "./animated-intro";
 export const primaryText = (message: string) => chalk.hex("#FEA624")(message);
 export const defaultText = (message: string) => chalk.grey(message);
 export const dangerHighlight = (message: string) => chalk.bgRed(message);
+export const warningHighlight = (message: string) =>
+	chalk.bgYellow.black(message);
 
 /** Logger utilities for the CLI. */
 export class Logger {
@@ -27,6 +29,16 @@ export class Logger {
 		process.exit(1);
 	}
 
+	/**
+	 * Prints a warning message with a yellow background prefix; the process keeps running.
+	 * @param message - The warning message to display.
+	 */
+	warn(message: string) {
+		console.log();
+		console.warn(`${warningHighlight(" warning ")} ${message}`);
+		console.log();
+	}
+
 	/**
 	 * Prints an end message with a red background prefix and exits the process with code 0.
 	 * @param message - The end message to display.
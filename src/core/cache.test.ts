@@ -0,0 +1,275 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+	CACHE_TTL_ENV_VAR,
+	clearCache,
+	DEFAULT_CACHE_TTL_SECONDS,
+	getCacheDir,
+	getCacheKey,
+	getCacheTtlMs,
+	getDirSize,
+	isCacheEntryFresh,
+	isCommitSha,
+	listCacheEntries,
+	pruneCache,
+	readCacheEntry,
+	touchCacheEntry,
+	writeCacheEntry,
+} from "./cache";
+
+describe("core/cache", () => {
+	const originalEnv = { ...process.env };
+	let cacheHome: string;
+
+	beforeEach(() => {
+		process.env = { ...originalEnv };
+		delete process.env[CACHE_TTL_ENV_VAR];
+		cacheHome = fs.mkdtempSync(path.join(os.tmpdir(), "cache-test-"));
+		process.env.XDG_CACHE_HOME = cacheHome;
+	});
+
+	afterEach(() => {
+		process.env = originalEnv;
+		fs.rmSync(cacheHome, { recursive: true, force: true });
+	});
+
+	/** Write a subtree entry holding a single file. */
+	async function writeSubtree(subpath: string, registry = "github:a/b") {
+		return writeCacheEntry(
+			{ kind: "subtree", registry, subpath, validator: "v1" },
+			async (dir) => {
+				fs.writeFileSync(path.join(dir, "README.md"), "hello");
+				return undefined;
+			},
+		);
+	}
+
+	describe("getCacheDir", () => {
+		it("should honour XDG_CACHE_HOME", () => {
+			expect(getCacheDir()).toBe(path.join(cacheHome, "yehle"));
+		});
+
+		it("should default to ~/.cache/yehle", () => {
+			delete process.env.XDG_CACHE_HOME;
+
+			expect(getCacheDir()).toBe(path.join(os.homedir(), ".cache", "yehle"));
+		});
+	});
+
+	describe("getCacheTtlMs", () => {
+		it("should default to DEFAULT_CACHE_TTL_SECONDS", () => {
+			expect(getCacheTtlMs()).toBe(DEFAULT_CACHE_TTL_SECONDS * 1000);
+		});
+
+		it("should read YEHLE_CACHE_TTL in seconds and ignore invalid values", () => {
+			process.env[CACHE_TTL_ENV_VAR] = "0";
+			expect(getCacheTtlMs()).toBe(0);
+
+			process.env[CACHE_TTL_ENV_VAR] = "90";
+			expect(getCacheTtlMs()).toBe(90_000);
+
+			process.env[CACHE_TTL_ENV_VAR] = "soon";
+			expect(getCacheTtlMs()).toBe(DEFAULT_CACHE_TTL_SECONDS * 1000);
+		});
+	});
+
+	describe("isCommitSha", () => {
+		it("should only accept full hex SHAs", () => {
+			expect(isCommitSha("a".repeat(40))).toBe(true);
+			expect(isCommitSha("abc123")).toBe(false);
+			expect(isCommitSha("main")).toBe(false);
+			expect(isCommitSha(undefined)).toBe(false);
+		});
+	});
+
+	describe("getCacheKey", () => {
+		it("should differ by kind, registry and subpath", () => {
+			const key = getCacheKey("subtree", "github:a/b", "templates");
+
+			expect(key).toMatch(/^[0-9a-f]{32}$/);
+			expect(getCacheKey("listing", "github:a/b", "templates")).not.toBe(key);
+			expect(getCacheKey("subtree", "github:a/b#v1", "templates")).not.toBe(
+				key,
+			);
+			expect(getCacheKey("subtree", "github:a/b", "templates/x")).not.toBe(key);
+		});
+	});
+
+	describe("isCacheEntryFresh", () => {
+		it("should compare the entry age against the TTL", () => {
+			const now = 10_000_000;
+			const ttl = DEFAULT_CACHE_TTL_SECONDS * 1000;
+			const meta = { kind: "listing" as const, registry: "r", subpath: "s" };
+
+			expect(isCacheEntryFresh({ ...meta, fetchedAt: now - 1 }, now)).toBe(
+				true,
+			);
+			expect(isCacheEntryFresh({ ...meta, fetchedAt: now - ttl }, now)).toBe(
+				false,
+			);
+			expect(
+				isCacheEntryFresh({ ...meta, fetchedAt: 0, immutable: true }, now),
+			).toBe(true);
+		});
+	});
+
+	describe("writeCacheEntry / readCacheEntry", () => {
+		it("should store the payload and metadata under the cache key", async () => {
+			const entry = await writeSubtree("templates/typescript");
+
+			expect(entry.dataDir).toBe(
+				path.join(
+					getCacheDir(),
+					getCacheKey("subtree", "github:a/b", "templates/typescript"),
+					"data",
+				),
+			);
+			expect(
+				fs.readFileSync(path.join(entry.dataDir, "README.md"), "utf8"),
+			).toBe("hello");
+
+			const read = await readCacheEntry(
+				"subtree",
+				"github:a/b",
+				"templates/typescript",
+			);
+			expect(read).toEqual(entry);
+		});
+
+		it("should merge metadata returned by populate", async () => {
+			const entry = await writeCacheEntry(
+				{ kind: "subtree", registry: "ssh://x/y", subpath: "" },
+				async () => ({ validator: "abc123" }),
+			);
+
+			expect(entry.validator).toBe("abc123");
+			await expect(
+				readCacheEntry("subtree", "ssh://x/y", ""),
+			).resolves.toMatchObject({ validator: "abc123" });
+		});
+
+		it("should replace existing entries", async () => {
+			await writeSubtree("templates");
+			const entry = await writeCacheEntry(
+				{ kind: "subtree", registry: "github:a/b", subpath: "templates" },
+				async (dir) => {
+					fs.writeFileSync(path.join(dir, "NEW.md"), "new");
+					return undefined;
+				},
+			);
+
+			expect(fs.readdirSync(entry.dataDir)).toEqual(["NEW.md"]);
+		});
+
+		it("should leave no partial entry behind when populate fails", async () => {
+			await expect(
+				writeCacheEntry(
+					{ kind: "subtree", registry: "github:a/b", subpath: "broken" },
+					async () => {
+						throw new Error("download failed");
+					},
+				),
+			).rejects.toThrow("download failed");
+
+			expect(fs.readdirSync(getCacheDir())).toEqual([]);
+		});
+
+		it("should return null for missing or corrupt entries", async () => {
+			await expect(
+				readCacheEntry("subtree", "github:a/b", "missing"),
+			).resolves.toBeNull();
+
+			const entry = await writeSubtree("corrupt");
+			fs.writeFileSync(
+				path.join(getCacheDir(), entry.key, "meta.json"),
+				"{ not json",
+			);
+			await expect(
+				readCacheEntry("subtree", "github:a/b", "corrupt"),
+			).resolves.toBeNull();
+		});
+	});
+
+	describe("touchCacheEntry", () => {
+		it("should refresh fetchedAt and apply updates", async () => {
+			const entry = await writeSubtree("templates");
+			const stale = { ...entry, fetchedAt: 0 };
+
+			await touchCacheEntry(stale, { etag: '"new"' });
+
+			const read = await readCacheEntry("subtree", "github:a/b", "templates");
+			expect(read?.etag).toBe('"new"');
+			expect(read?.fetchedAt).toBeGreaterThan(0);
+		});
+	});
+
+	describe("listCacheEntries / clearCache / pruneCache", () => {
+		it("should list entries sorted by registry and subpath", async () => {
+			await writeSubtree("templates/z", "github:b/b");
+			await writeSubtree("templates/b");
+			await writeSubtree("templates/a");
+
+			const entries = await listCacheEntries();
+
+			expect(entries.map((e) => `${e.registry} ${e.subpath}`)).toEqual([
+				"github:a/b templates/a",
+				"github:a/b templates/b",
+				"github:b/b templates/z",
+			]);
+		});
+
+		it("should return no entries when the cache dir does not exist", async () => {
+			await expect(listCacheEntries()).resolves.toEqual([]);
+			await expect(pruneCache(0)).resolves.toBe(0);
+		});
+
+		it("should clear every entry", async () => {
+			await writeSubtree("templates/a");
+			await writeSubtree("templates/b");
+
+			await expect(clearCache()).resolves.toBe(2);
+			await expect(listCacheEntries()).resolves.toEqual([]);
+		});
+
+		it("should prune old entries, corrupt entries and staging leftovers", async () => {
+			const now = Date.now();
+			const old = await writeSubtree("templates/old");
+			const metaPath = path.join(getCacheDir(), old.key, "meta.json");
+			const meta = JSON.parse(fs.readFileSync(metaPath, "utf8"));
+			fs.writeFileSync(
+				metaPath,
+				JSON.stringify({ ...meta, fetchedAt: now - 10_000 }),
+			);
+			await writeSubtree("templates/new");
+			fs.mkdirSync(path.join(getCacheDir(), "corrupt"));
+			fs.mkdirSync(path.join(getCacheDir(), ".staging-abc"));
+
+			const removed = await pruneCache(5_000, now);
+
+			expect(removed).toBe(2);
+			const remaining = await listCacheEntries();
+			expect(remaining.map((e) => e.subpath)).toEqual(["templates/new"]);
+			expect(fs.readdirSync(getCacheDir())).toHaveLength(1);
+		});
+	});
+
+	describe("getDirSize", () => {
+		it("should sum file sizes recursively", async () => {
+			const entry = await writeCacheEntry(
+				{ kind: "subtree", registry: "github:a/b", subpath: "sized" },
+				async (dir) => {
+					fs.writeFileSync(path.join(dir, "a.txt"), "12345");
+					fs.mkdirSync(path.join(dir, "nested"));
+					fs.writeFileSync(path.join(dir, "nested", "b.txt"), "123");
+					return undefined;
+				},
+			);
+
+			await expect(getDirSize(entry.dataDir)).resolves.toBe(8);
+			await expect(getDirSize(path.join(cacheHome, "nope"))).resolves.toBe(0);
+		});
+	});
+});
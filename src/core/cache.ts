@@ -0,0 +1,327 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+/** Environment variable that overrides how long (in seconds) cached downloads are used without revalidation. */
+export const CACHE_TTL_ENV_VAR = "YEHLE_CACHE_TTL";
+
+/** Default time (in seconds) a cached download is used before it is revalidated. */
+export const DEFAULT_CACHE_TTL_SECONDS = 60 * 60;
+
+/** Default age (in days) after which `yehle cache prune` removes entries. */
+export const DEFAULT_CACHE_MAX_AGE_DAYS = 30;
+
+/** Filename of the metadata file stored next to each cached payload. */
+const CACHE_META_FILENAME = "meta.json";
+
+/** Directory name (inside each cache entry) that holds the cached payload. */
+const CACHE_DATA_DIRNAME = "data";
+
+/** Prefix of the staging directories that entries are written into before being moved into place. */
+const CACHE_STAGING_PREFIX = ".staging-";
+
+/**
+ * What a cache entry holds:
+ * - listing: a directory listing response from a provider API.
+ * - subtree: a downloaded repository subtree (or a full git checkout).
+ * - commit: the commit a registry's ref resolved to (stored as the validator; no payload).
+ */
+export type CacheEntryKind = "listing" | "subtree" | "commit";
+
+/** Metadata describing a cache entry (stored as meta.json). */
+export type CacheEntryMeta = {
+	kind: CacheEntryKind;
+	/** Registry the entry was fetched from, including its ref (e.g. "github:owner/repo#v1.2.0"). */
+	registry: string;
+	/** Repository subpath the entry was fetched for ("" for a full checkout). */
+	subpath: string;
+	/** HTTP ETag of the listing response, sent as If-None-Match on revalidation. */
+	etag?: string;
+	/** Fingerprint of the upstream content (listing hash or commit SHA) used to detect changes. */
+	validator?: string;
+	/** True when the entry was fetched at a commit SHA and can never go stale. */
+	immutable?: boolean;
+	/** Time (ms since epoch) the entry was last fetched or revalidated. */
+	fetchedAt: number;
+};
+
+/** A cache entry on disk. */
+export type CacheEntry = CacheEntryMeta & {
+	/** Cache key (directory name under the cache dir). */
+	key: string;
+	/** Absolute path to the entry's payload directory. */
+	dataDir: string;
+};
+
+/**
+ * Resolve the yehle cache directory following the XDG base directory spec.
+ * Uses $XDG_CACHE_HOME/yehle when set, otherwise ~/.cache/yehle.
+ * @returns Absolute path to the yehle cache directory (may not exist yet).
+ */
+export function getCacheDir(): string {
+	const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache");
+	return path.join(base, "yehle");
+}
+
+/**
+ * Get how long cached entries are used before they are revalidated.
+ * @returns TTL in milliseconds (YEHLE_CACHE_TTL seconds when set to a non-negative number, otherwise the default).
+ */
+export function getCacheTtlMs(): number {
+	const raw = process.env[CACHE_TTL_ENV_VAR];
+	const seconds =
+		raw === undefined || raw.trim() === "" ? Number.NaN : Number(raw);
+	return (
+		(Number.isFinite(seconds) && seconds >= 0
+			? seconds
+			: DEFAULT_CACHE_TTL_SECONDS) * 1000
+	);
+}
+
+/**
+ * Whether a ref names a full commit SHA (content behind it can never change).
+ * @param ref - Git ref, if any.
+ * @returns True for 40-character (SHA-1) or 64-character (SHA-256) hex strings.
+ */
+export function isCommitSha(ref?: string): boolean {
+	return typeof ref === "string" && /^([0-9a-f]{40}|[0-9a-f]{64})$/i.test(ref);
+}
+
+/**
+ * Compute the cache key for a registry + ref + subpath combination.
+ * @param kind - Entry kind.
+ * @param registry - Registry spec including its ref.
+ * @param subpath - Repository subpath.
+ * @returns Hex digest used as the entry's directory name.
+ */
+export function getCacheKey(
+	kind: CacheEntryKind,
+	registry: string,
+	subpath: string,
+): string {
+	return crypto
+		.createHash("sha256")
+		.update(`${kind}\n${registry}\n${subpath}`)
+		.digest("hex")
+		.slice(0, 32);
+}
+
+/**
+ * Whether an entry can be used without revalidating it upstream.
+ * @param entry - Cache entry.
+ * @param now - Current time in ms (for tests).
+ * @returns True for immutable entries and entries fetched within the TTL.
+ */
+export function isCacheEntryFresh(
+	entry: CacheEntryMeta,
+	now: number = Date.now(),
+): boolean {
+	if (entry.immutable) return true;
+	return now - entry.fetchedAt < getCacheTtlMs();
+}
+
+/**
+ * Read the metadata of the entry stored in a cache directory.
+ * @param key - Cache key (directory name).
+ * @returns Promise resolving to the entry, or null when it is missing or unreadable.
+ */
+async function readCacheEntryByKey(key: string): Promise<CacheEntry | null> {
+	const entryDir = path.join(getCacheDir(), key);
+	try {
+		const raw = await fs.promises.readFile(
+			path.join(entryDir, CACHE_META_FILENAME),
+			"utf8",
+		);
+		const meta = JSON.parse(raw) as CacheEntryMeta;
+		if (
+			!["listing", "subtree", "commit"].includes(meta.kind) ||
+			typeof meta.registry !== "string" ||
+			typeof meta.subpath !== "string" ||
+			typeof meta.fetchedAt !== "number"
+		)
+			return null;
+		return {
+			...meta,
+			key,
+			dataDir: path.join(entryDir, CACHE_DATA_DIRNAME),
+		};
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Look up a cache entry.
+ * @param kind - Entry kind.
+ * @param registry - Registry spec including its ref.
+ * @param subpath - Repository subpath.
+ * @returns Promise resolving to the entry, or null when nothing is cached.
+ */
+export async function readCacheEntry(
+	kind: CacheEntryKind,
+	registry: string,
+	subpath: string,
+): Promise<CacheEntry | null> {
+	return readCacheEntryByKey(getCacheKey(kind, registry, subpath));
+}
+
+/**
+ * Create or replace a cache entry. The payload is written into a staging directory
+ * which is then moved into place, so readers never see a half-written entry.
+ * @param meta - Entry metadata (fetchedAt is set to now).
+ * @param populate - Writes the payload into the given (empty) data directory; may return metadata learned while doing so (e.g. a commit SHA validator).
+ * @returns Promise resolving to the stored entry.
+ * @throws Error when the cache directory is not writable or populate fails.
+ */
+export async function writeCacheEntry(
+	meta: Omit<CacheEntryMeta, "fetchedAt">,
+	populate: (
+		dataDir: string,
+	) => Promise<Partial<Pick<CacheEntryMeta, "validator">> | undefined>,
+): Promise<CacheEntry> {
+	const root = getCacheDir();
+	await fs.promises.mkdir(root, { recursive: true });
+
+	const key = getCacheKey(meta.kind, meta.registry, meta.subpath);
+	const stagingDir = await fs.promises.mkdtemp(
+		path.join(root, CACHE_STAGING_PREFIX),
+	);
+	const entryDir = path.join(root, key);
+	let stored: CacheEntryMeta = { ...meta, fetchedAt: Date.now() };
+
+	try {
+		const stagingDataDir = path.join(stagingDir, CACHE_DATA_DIRNAME);
+		await fs.promises.mkdir(stagingDataDir);
+		const learned = await populate(stagingDataDir);
+		stored = { ...stored, ...learned, fetchedAt: Date.now() };
+		await fs.promises.writeFile(
+			path.join(stagingDir, CACHE_META_FILENAME),
+			`${JSON.stringify(stored, null, 2)}\n`,
+			"utf8",
+		);
+		await fs.promises.rm(entryDir, { recursive: true, force: true });
+		await fs.promises.rename(stagingDir, entryDir);
+	} catch (e) {
+		await fs.promises.rm(stagingDir, { recursive: true, force: true });
+		throw e;
+	}
+
+	return {
+		...stored,
+		key,
+		dataDir: path.join(entryDir, CACHE_DATA_DIRNAME),
+	};
+}
+
+/**
+ * Mark an entry as revalidated now (upstream content has not changed).
+ * @param entry - Cache entry to refresh.
+ * @param updates - Optional metadata changes (e.g. a new ETag).
+ * @returns Promise that resolves when the metadata has been rewritten.
+ */
+export async function touchCacheEntry(
+	entry: CacheEntry,
+	updates: Partial<Pick<CacheEntryMeta, "etag" | "validator">> = {},
+): Promise<void> {
+	const { key: _key, dataDir: _dataDir, ...meta } = entry;
+	const stored: CacheEntryMeta = { ...meta, ...updates, fetchedAt: Date.now() };
+	await fs.promises.writeFile(
+		path.join(getCacheDir(), entry.key, CACHE_META_FILENAME),
+		`${JSON.stringify(stored, null, 2)}\n`,
+		"utf8",
+	);
+}
+
+/**
+ * List all readable cache entries.
+ * @returns Promise resolving to the entries sorted by registry, then subpath.
+ */
+export async function listCacheEntries(): Promise<CacheEntry[]> {
+	let names: string[];
+	try {
+		names = await fs.promises.readdir(getCacheDir());
+	} catch {
+		return [];
+	}
+
+	const entries: CacheEntry[] = [];
+	for (const name of names) {
+		if (name.startsWith(CACHE_STAGING_PREFIX)) continue;
+		const entry = await readCacheEntryByKey(name);
+		if (entry) entries.push(entry);
+	}
+
+	return entries.sort(
+		(a, b) =>
+			a.registry.localeCompare(b.registry) ||
+			a.subpath.localeCompare(b.subpath) ||
+			a.kind.localeCompare(b.kind),
+	);
+}
+
+/**
+ * Remove every cache entry.
+ * @returns Promise resolving to the number of entries removed.
+ */
+export async function clearCache(): Promise<number> {
+	const entries = await listCacheEntries();
+	await fs.promises.rm(getCacheDir(), { recursive: true, force: true });
+	return entries.length;
+}
+
+/**
+ * Remove entries that have not been fetched or revalidated within maxAgeMs,
+ * plus unreadable entries and leftovers from interrupted writes.
+ * @param maxAgeMs - Maximum age (since the last fetch or revalidation) to keep.
+ * @param now - Current time in ms (for tests).
+ * @returns Promise resolving to the number of entries removed.
+ */
+export async function pruneCache(
+	maxAgeMs: number,
+	now: number = Date.now(),
+): Promise<number> {
+	const root = getCacheDir();
+	let names: string[];
+	try {
+		names = await fs.promises.readdir(root);
+	} catch {
+		return 0;
+	}
+
+	let removed = 0;
+	for (const name of names) {
+		const isStaging = name.startsWith(CACHE_STAGING_PREFIX);
+		const entry = isStaging ? null : await readCacheEntryByKey(name);
+		if (entry && now - entry.fetchedAt <= maxAgeMs) continue;
+
+		await fs.promises.rm(path.join(root, name), {
+			recursive: true,
+			force: true,
+		});
+		if (!isStaging) removed += 1;
+	}
+	return removed;
+}
+
+/**
+ * Compute the total size of the files below a directory.
+ * @param dir - Directory to measure.
+ * @returns Promise resolving to the size in bytes (0 when the directory is missing).
+ */
+export async function getDirSize(dir: string): Promise<number> {
+	let entries: fs.Dirent[];
+	try {
+		entries = await fs.promises.readdir(dir, { withFileTypes: true });
+	} catch {
+		return 0;
+	}
+
+	let total = 0;
+	for (const entry of entries) {
+		const entryPath = path.join(dir, entry.name);
+		if (entry.isDirectory()) total += await getDirSize(entryPath);
+		else if (entry.isFile()) total += (await fs.promises.stat(entryPath)).size;
+	}
+	return total;
+}
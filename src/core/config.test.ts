@@ -0,0 +1,122 @@
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("node:fs", () => ({
+	default: {
+		promises: {
+			readFile: vi.fn(),
+		},
+	},
+}));
+
+vi.mock("node:os", () => ({
+	default: {
+		homedir: vi.fn(() => "/home/tester"),
+	},
+}));
+
+// Import after mocks
+import fs from "node:fs";
+import {
+	getConfigDir,
+	readUserConfiguration,
+	USER_CONFIGURATION_FILENAME,
+} from "./config";
+
+describe("core/config", () => {
+	const originalEnv = { ...process.env };
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		process.env = { ...originalEnv };
+		delete process.env.XDG_CONFIG_HOME;
+	});
+
+	afterEach(() => {
+		process.env = originalEnv;
+	});
+
+	describe("getConfigDir", () => {
+		it("should default to ~/.config/yehle", () => {
+			expect(getConfigDir()).toBe(
+				path.join("/home/tester", ".config", "yehle"),
+			);
+		});
+
+		it("should honour XDG_CONFIG_HOME", () => {
+			process.env.XDG_CONFIG_HOME = "/xdg/config";
+
+			expect(getConfigDir()).toBe(path.join("/xdg/config", "yehle"));
+		});
+	});
+
+	describe("readUserConfiguration", () => {
+		it("should read config.yaml from the config dir", async () => {
+			vi.mocked(fs.promises.readFile).mockResolvedValue(
+				"registry: github:acme/templates\n",
+			);
+
+			const result = await readUserConfiguration();
+
+			expect(fs.promises.readFile).toHaveBeenCalledWith(
+				path.join(
+					"/home/tester",
+					".config",
+					"yehle",
+					USER_CONFIGURATION_FILENAME,
+				),
+				"utf8",
+			);
+			expect(result).toEqual({ registry: "github:acme/templates" });
+		});
+
+		it("should read the ref key", async () => {
+			vi.mocked(fs.promises.readFile).mockResolvedValue(
+				"registry: github:acme/templates\nref: v1.2.0\n",
+			);
+
+			await expect(readUserConfiguration()).resolves.toEqual({
+				registry: "github:acme/templates",
+				ref: "v1.2.0",
+			});
+		});
+
+		it("should read the githubToken key", async () => {
+			vi.mocked(fs.promises.readFile).mockResolvedValue(
+				"githubToken: ghp_secret\n",
+			);
+
+			await expect(readUserConfiguration()).resolves.toEqual({
+				githubToken: "ghp_secret",
+			});
+		});
+
+		it("should return an empty config when the file is missing", async () => {
+			vi.mocked(fs.promises.readFile).mockRejectedValue(new Error("ENOENT"));
+
+			await expect(readUserConfiguration()).resolves.toEqual({});
+		});
+
+		it("should return an empty config for invalid YAML", async () => {
+			vi.mocked(fs.promises.readFile).mockResolvedValue("registry: [oops");
+
+			await expect(readUserConfiguration()).resolves.toEqual({});
+		});
+
+		it("should return an empty config when the YAML is not an object", async () => {
+			vi.mocked(fs.promises.readFile).mockResolvedValue("just a string");
+
+			await expect(readUserConfiguration()).resolves.toEqual({});
+		});
+
+		it("should drop values of the wrong type and blank strings", async () => {
+			vi.mocked(fs.promises.readFile).mockResolvedValue(
+				"registry: 42\nunknown: true\n",
+			);
+			await expect(readUserConfiguration()).resolves.toEqual({});
+
+			vi.mocked(fs.promises.readFile).mockResolvedValue('registry: "  "\n');
+			await expect(readUserConfiguration()).resolves.toEqual({});
+		});
+	});
+});
@@ -0,0 +1,59 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+
+/** Schema for the user-level yehle configuration file. */
+export type YehleUserConfiguration = {
+	/** Template source registry (e.g. "github:owner/repo", "gitlab:group/repo", a git URL or a local path). */
+	registry?: string;
+	/** Git ref (branch, tag or commit SHA) to pin the configured registry to. */
+	ref?: string;
+	/** GitHub token used for API requests and downloads (GITHUB_TOKEN / GH_TOKEN take precedence). */
+	githubToken?: string;
+};
+
+/** Filename of the user-level configuration file inside the yehle config dir. */
+export const USER_CONFIGURATION_FILENAME = "config.yaml";
+
+/**
+ * Resolve the yehle config directory following the XDG base directory spec.
+ * Uses $XDG_CONFIG_HOME/yehle when set, otherwise ~/.config/yehle.
+ * @returns Absolute path to the yehle config directory (may not exist yet).
+ */
+export function getConfigDir(): string {
+	const base =
+		process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+	return path.join(base, "yehle");
+}
+
+/**
+ * Read the user-level configuration file (config.yaml in the yehle config dir).
+ * Unknown keys and values of the wrong type are dropped.
+ * @returns Promise resolving to the parsed configuration; empty when the file is missing or invalid.
+ */
+export async function readUserConfiguration(): Promise<YehleUserConfiguration> {
+	const filePath = path.join(getConfigDir(), USER_CONFIGURATION_FILENAME);
+
+	let data: unknown;
+	try {
+		const raw = await fs.promises.readFile(filePath, "utf8");
+		data = parseYaml(raw);
+	} catch {
+		// No file or invalid YAML
+		return {};
+	}
+
+	if (!data || typeof data !== "object") return {};
+	const cfg = data as Record<string, unknown>;
+
+	const config: YehleUserConfiguration = {};
+	if (typeof cfg.registry === "string" && cfg.registry.trim())
+		config.registry = cfg.registry.trim();
+	if (typeof cfg.ref === "string" && cfg.ref.trim())
+		config.ref = cfg.ref.trim();
+	if (typeof cfg.githubToken === "string" && cfg.githubToken.trim())
+		config.githubToken = cfg.githubToken.trim();
+
+	return config;
+}
@@ -0,0 +1,179 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	copyWithConflictResolution,
+	createStagingDirectory,
+	KEEP_BOTH_SUFFIX,
+	parseConflictResolutionFlag,
+	removeStagingDirectory,
+} from "./conflicts";
+
+describe("core/conflicts", () => {
+	let sourceDir: string;
+	let targetDir: string;
+
+	/**
+	 * Write a file, creating its parent directories.
+	 * @param dir - Base directory.
+	 * @param relative - Path relative to dir.
+	 * @param content - File content.
+	 */
+	function write(
+		dir: string,
+		relative: string,
+		content: string | Buffer,
+	): void {
+		const full = path.join(dir, relative);
+		fs.mkdirSync(path.dirname(full), { recursive: true });
+		fs.writeFileSync(full, content);
+	}
+
+	/**
+	 * Read a file of the target directory.
+	 * @param relative - Path relative to the target directory.
+	 * @returns The file content.
+	 */
+	function read(relative: string): string {
+		return fs.readFileSync(path.join(targetDir, relative), "utf8");
+	}
+
+	beforeEach(() => {
+		sourceDir = fs.mkdtempSync(path.join(os.tmpdir(), "conflicts-source-"));
+		targetDir = fs.mkdtempSync(path.join(os.tmpdir(), "conflicts-target-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(sourceDir, { recursive: true, force: true });
+		fs.rmSync(targetDir, { recursive: true, force: true });
+	});
+
+	describe("parseConflictResolutionFlag", () => {
+		it("should accept supported resolutions and pass through a missing flag", () => {
+			expect(parseConflictResolutionFlag("keep-both")).toBe("keep-both");
+			expect(parseConflictResolutionFlag(undefined)).toBeUndefined();
+		});
+
+		it("should reject unknown resolutions", () => {
+			expect(() => parseConflictResolutionFlag("theirs")).toThrow(
+				"Invalid --on-conflict value: theirs (valid: overwrite, skip, keep-both, merge)",
+			);
+		});
+	});
+
+	describe("createStagingDirectory / removeStagingDirectory", () => {
+		it("should create an empty temporary directory and remove it", async () => {
+			const dir = await createStagingDirectory();
+
+			expect(fs.readdirSync(dir)).toEqual([]);
+
+			await removeStagingDirectory(dir);
+
+			expect(fs.existsSync(dir)).toBe(false);
+		});
+	});
+
+	describe("copyWithConflictResolution", () => {
+		it("should write new and identical files without asking", async () => {
+			write(sourceDir, "src/index.ts", "export {};\n");
+			write(sourceDir, "LICENSE", "MIT\n");
+			write(targetDir, "LICENSE", "MIT\n");
+			const resolve = vi.fn();
+
+			const summary = await copyWithConflictResolution(
+				sourceDir,
+				targetDir,
+				resolve,
+			);
+
+			expect(resolve).not.toHaveBeenCalled();
+			expect(summary.written).toEqual(["LICENSE", "src/index.ts"]);
+			expect(read("src/index.ts")).toBe("export {};\n");
+		});
+
+		it("should resolve each conflicting file as the callback decides", async () => {
+			for (const file of ["a.txt", "b.txt", "c.txt", "d.txt", "e.txt"]) {
+				write(sourceDir, file, "shared\ngenerated\n");
+				write(targetDir, file, "shared\nmine\n");
+			}
+			write(sourceDir, "f.txt", "shared\nextra\n");
+			write(targetDir, "f.txt", "shared\n");
+			const resolutions = {
+				"a.txt": "overwrite",
+				"b.txt": "skip",
+				"c.txt": "keep-both",
+				"d.txt": "merge",
+				"e.txt": "merge",
+				"f.txt": "merge",
+			} as const;
+			write(targetDir, "e.txt", "shared\ngenerated\nmine\n");
+
+			const summary = await copyWithConflictResolution(
+				sourceDir,
+				targetDir,
+				async (file) => resolutions[file as keyof typeof resolutions],
+			);
+
+			expect(summary).toEqual({
+				written: [],
+				overwritten: ["a.txt"],
+				skipped: ["b.txt"],
+				keptBoth: ["c.txt"],
+				merged: ["e.txt", "f.txt"],
+				conflicted: ["d.txt"],
+			});
+			expect(read("a.txt")).toBe("shared\ngenerated\n");
+			expect(read("b.txt")).toBe("shared\nmine\n");
+			expect(read("c.txt")).toBe("shared\nmine\n");
+			expect(read(`c.txt${KEEP_BOTH_SUFFIX}`)).toBe("shared\ngenerated\n");
+			expect(read("d.txt")).toBe(
+				"shared\n<<<<<<< current\nmine\n=======\ngenerated\n>>>>>>> yehle\n",
+			);
+			expect(read("e.txt")).toBe("shared\ngenerated\nmine\n");
+			expect(read("f.txt")).toBe("shared\nextra\n");
+		});
+
+		it("should keep both versions of binary files instead of merging them", async () => {
+			write(sourceDir, "logo.png", Buffer.from([0, 1, 2]));
+			write(targetDir, "logo.png", Buffer.from([0, 3, 4]));
+
+			const summary = await copyWithConflictResolution(
+				sourceDir,
+				targetDir,
+				async () => "merge",
+			);
+
+			expect(summary.keptBoth).toEqual(["logo.png"]);
+			expect(
+				fs.readFileSync(path.join(targetDir, `logo.png${KEEP_BOTH_SUFFIX}`)),
+			).toEqual(Buffer.from([0, 1, 2]));
+		});
+
+		it("should report a directory in the way of a generated file before copying anything", async () => {
+			write(sourceDir, "LICENSE", "MIT\n");
+			write(sourceDir, "docs", "generated\n");
+			write(targetDir, "docs/guide.md", "mine\n");
+			const resolve = vi.fn();
+
+			await expect(
+				copyWithConflictResolution(sourceDir, targetDir, resolve),
+			).rejects.toThrow(
+				`Cannot write the generated file docs: ${path.join(targetDir, "docs")} is a directory.`,
+			);
+			expect(resolve).not.toHaveBeenCalled();
+			expect(fs.existsSync(path.join(targetDir, "LICENSE"))).toBe(false);
+		});
+
+		it("should report a file in the way of a generated file's directory", async () => {
+			write(sourceDir, "src/lib/index.ts", "export {};\n");
+			write(targetDir, "src/lib", "mine\n");
+
+			await expect(
+				copyWithConflictResolution(sourceDir, targetDir, vi.fn()),
+			).rejects.toThrow(
+				`Cannot write the generated file src/lib/index.ts: ${path.join(targetDir, "src/lib")} is a file, not a directory.`,
+			);
+		});
+	});
+});
@@ -0,0 +1,213 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { listFilesWithSizes } from "./dry-run";
+import { copyFileSafeAsync, writeFileAsync } from "./fs";
+import { mergeThreeWay } from "./three-way-merge";
+
+/** Ways to resolve a generated file that already exists in the target directory. */
+export const CONFLICT_RESOLUTIONS = [
+	"overwrite",
+	"skip",
+	"keep-both",
+	"merge",
+] as const;
+
+/** How to resolve a generated file that already exists in the target directory. */
+export type ConflictResolution = (typeof CONFLICT_RESOLUTIONS)[number];
+
+/** Suffix of the generated copy written next to an existing file with "keep-both". */
+export const KEEP_BOTH_SUFFIX = ".yehle-new";
+
+/** CLI flags that control generating into an existing directory. */
+export type ConflictFlags = {
+	/** Generate into this directory (relative to the current one) instead of a new one named after the project (--into). */
+	into?: string;
+	/** Generate into the project directory even when it is not empty (--force). */
+	force?: boolean;
+	/** Resolve every conflict this way instead of asking per file (--on-conflict). */
+	onConflict?: ConflictResolution;
+};
+
+/** Files written by copyWithConflictResolution, by outcome (paths relative to the target directory, forward slashes). */
+export type ConflictCopySummary = {
+	/** Files that did not exist, or existed with the same content. */
+	written: string[];
+	/** Existing files replaced by the generated version. */
+	overwritten: string[];
+	/** Existing files left untouched; the generated version was dropped. */
+	skipped: string[];
+	/** Existing files left untouched, with the generated version written next to them with KEEP_BOTH_SUFFIX. */
+	keptBoth: string[];
+	/** Existing files merged with the generated version without conflicts. */
+	merged: string[];
+	/** Existing files merged with the generated version that now contain conflict markers. */
+	conflicted: string[];
+};
+
+/**
+ * Check whether a value is a supported conflict resolution.
+ * @param value - Value to check (e.g. from --on-conflict).
+ * @returns True when value is one of CONFLICT_RESOLUTIONS.
+ */
+export function isConflictResolution(
+	value: unknown,
+): value is ConflictResolution {
+	return (CONFLICT_RESOLUTIONS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Parse the --on-conflict flag.
+ * @param value - Raw flag value; undefined when the flag was not passed.
+ * @returns The resolution, or undefined when the flag was not passed.
+ * @throws Error when the value is not a supported resolution.
+ */
+export function parseConflictResolutionFlag(
+	value: unknown,
+): ConflictResolution | undefined {
+	if (value === undefined) return undefined;
+	if (!isConflictResolution(value))
+		throw new Error(
+			`Invalid --on-conflict value: ${String(value)} (valid: ${CONFLICT_RESOLUTIONS.join(", ")})`,
+		);
+	return value;
+}
+
+/**
+ * Create an empty temporary directory to generate a project in before copying it into an existing directory.
+ * @returns Promise resolving to the absolute path of the directory.
+ */
+export async function createStagingDirectory(): Promise<string> {
+	return fs.promises.mkdtemp(path.join(os.tmpdir(), "yehle-staging-"));
+}
+
+/**
+ * Remove a directory created by createStagingDirectory.
+ * @param dir - Directory to remove.
+ * @returns Promise that resolves when the directory has been removed.
+ */
+export async function removeStagingDirectory(dir: string): Promise<void> {
+	await fs.promises.rm(dir, { recursive: true, force: true });
+}
+
+/**
+ * Check whether file content looks binary (contains a NUL byte), so it can't be merged line by line.
+ * @param content - File content.
+ * @returns True when the content looks binary.
+ */
+export function isBinaryContent(content: Buffer): boolean {
+	return content.includes(0);
+}
+
+/**
+ * Read a file of the target directory that a generated file would be written to.
+ * @param targetDir - Directory the project is copied into.
+ * @param file - Path of the generated file, relative to targetDir (forward slashes).
+ * @returns Promise resolving to the current content, or undefined when the file does not exist.
+ * @throws Error when a directory is in the way of the file, or a file is in the way of one of its parent directories.
+ */
+async function readExistingFile(
+	targetDir: string,
+	file: string,
+): Promise<Buffer | undefined> {
+	try {
+		return await fs.promises.readFile(path.join(targetDir, file));
+	} catch (e) {
+		const code = (e as NodeJS.ErrnoException).code;
+		if (code === "ENOENT") return undefined;
+		if (code === "EISDIR")
+			throw new Error(
+				`Cannot write the generated file ${file}: ${path.join(targetDir, file)} is a directory. Move it out of the way and try again.`,
+			);
+		if (code === "ENOTDIR") {
+			const parts = file.split("/");
+			let blocking = parts[0];
+			for (let i = 1; i < parts.length; i++) {
+				const stat = await fs.promises.stat(path.join(targetDir, blocking));
+				if (!stat.isDirectory()) break;
+				blocking = `${blocking}/${parts[i]}`;
+			}
+			throw new Error(
+				`Cannot write the generated file ${file}: ${path.join(targetDir, blocking)} is a file, not a directory. Move it out of the way and try again.`,
+			);
+		}
+		throw e;
+	}
+}
+
+/**
+ * Copy every file of a generated project into a directory that may already contain some of them.
+ * Files that don't exist yet, or exist with the same content, are written as-is; every other file is a conflict,
+ * resolved as the callback decides. Binary files can't be merged and are kept both instead.
+ * @param sourceDir - Directory the project was generated in.
+ * @param targetDir - Directory to copy it into.
+ * @param resolve - Returns how to resolve a conflicting file (path relative to targetDir, forward slashes).
+ * @returns Promise resolving to the copied files by outcome.
+ * @throws Error when a file and a directory of the same name clash; nothing is copied then.
+ */
+export async function copyWithConflictResolution(
+	sourceDir: string,
+	targetDir: string,
+	resolve: (file: string) => Promise<ConflictResolution>,
+): Promise<ConflictCopySummary> {
+	const summary: ConflictCopySummary = {
+		written: [],
+		overwritten: [],
+		skipped: [],
+		keptBoth: [],
+		merged: [],
+		conflicted: [],
+	};
+
+	const files = [...(await listFilesWithSizes(sourceDir)).keys()].sort();
+	// Read every existing file first, so a file/directory clash stops the copy before anything is written
+	const existing = new Map<string, Buffer | undefined>();
+	for (const file of files)
+		existing.set(file, await readExistingFile(targetDir, file));
+
+	for (const file of files) {
+		const sourcePath = path.join(sourceDir, file);
+		const incoming = await fs.promises.readFile(sourcePath);
+		const targetPath = path.join(targetDir, file);
+		const current = existing.get(file);
+
+		if (!current || current.equals(incoming)) {
+			await copyFileSafeAsync(sourcePath, targetPath);
+			summary.written.push(file);
+			continue;
+		}
+
+		let resolution = await resolve(file);
+		if (
+			resolution === "merge" &&
+			(isBinaryContent(current) || isBinaryContent(incoming))
+		)
+			resolution = "keep-both";
+
+		switch (resolution) {
+			case "overwrite":
+				await copyFileSafeAsync(sourcePath, targetPath);
+				summary.overwritten.push(file);
+				break;
+			case "skip":
+				summary.skipped.push(file);
+				break;
+			case "keep-both":
+				await copyFileSafeAsync(sourcePath, `${targetPath}${KEEP_BOTH_SUFFIX}`);
+				summary.keptBoth.push(file);
+				break;
+			case "merge": {
+				const result = mergeThreeWay(
+					undefined,
+					current.toString("utf8"),
+					incoming.toString("utf8"),
+				);
+				await writeFileAsync(targetPath, result.content);
+				(result.conflicts > 0 ? summary.conflicted : summary.merged).push(file);
+				break;
+			}
+		}
+	}
+
+	return summary;
+}
@@ -3,22 +3,117 @@ export enum Language {
 	TYPESCRIPT = "typescript",
 }
 
+/** Kinds of template variables (each maps to a prompt type). */
+export const TEMPLATE_VARIABLE_TYPES = [
+	"text",
+	"select",
+	"confirm",
+	"multiselect",
+] as const;
+
+export type TemplateVariableType = (typeof TEMPLATE_VARIABLE_TYPES)[number];
+
+/** A choice of a select or multiselect variable: a bare value or a labelled one. */
+export type TemplateVariableOption =
+	| string
+	| { label?: string; value: string; hint?: string };
+
+/** A variable declared under variables: in yehle.yaml, prompted for (or passed via --var) and merged into the mustache metadata. */
+export type TemplateVariable = {
+	type: TemplateVariableType;
+	/** Prompt message; defaults to the variable name. */
+	message?: string;
+	/** Choices for select and multiselect variables. */
+	options?: TemplateVariableOption[];
+	/** Default answer (string for text/select, boolean for confirm, string[] for multiselect). */
+	default?: string | boolean | string[];
+	/** Checks applied to the answer. */
+	validate?: {
+		/** Reject empty answers (text) or empty selections (multiselect). */
+		required?: boolean;
+		/** Regular expression text answers must match. */
+		pattern?: string;
+		/** Error shown when the pattern does not match. */
+		message?: string;
+	};
+	/**
+	 * Only ask when this holds for the answers so far (including lang, name, template and public):
+	 * a variable name ("useDocker"), its negation ("!useDocker"), or a map of names to expected values
+	 * (a list of values matches any of them).
+	 */
+	when?: string | Record<string, unknown>;
+	/** Whether the answer is sensitive (e.g. a token); secret answers are left out of the project manifest. */
+	secret?: boolean;
+};
+
+/** An optional part of a template declared under features: in yehle.yaml, chosen at generation time. */
+export type TemplateFeature = {
+	/** Shown next to the feature in the selection prompt. */
+	description?: string;
+	/** Whether the feature is selected unless the user chooses otherwise (defaults to true). */
+	default?: boolean;
+	/** Files and directories (relative to the project root) that are removed when the feature is not selected. */
+	files?: string[];
+	/** Fragment deep-merged into the generated package.json when the feature is selected. */
+	packageJson?: Record<string, unknown>;
+};
+
+/** Points during generation at which a template's hooks run. */
+export const TEMPLATE_HOOK_STAGES = [
+	"postCopy",
+	"postRender",
+	"postGenerate",
+] as const;
+
+export type TemplateHookStage = (typeof TEMPLATE_HOOK_STAGES)[number];
+
+/**
+ * Commands a template runs inside the generated project, by stage:
+ * - postCopy: after the template files are copied (before mustache rendering).
+ * - postRender: after the files are rendered and modified with the user's choices.
+ * - postGenerate: after everything is written, before the initial git commit.
+ */
+export type TemplateHooks = Partial<Record<TemplateHookStage, string[]>>;
+
+/** Ways a file is combined with the same file from earlier template layers. */
+export const TEMPLATE_MERGE_STRATEGIES = [
+	"replace",
+	"deep-merge",
+	"append",
+] as const;
+
+/**
+ * How a file is combined with the same file from earlier template layers:
+ * - replace: the later file replaces the earlier one (the default).
+ * - deep-merge: JSON/YAML objects are merged key by key; arrays and other values of the later file replace earlier ones.
+ * - append: like deep-merge, but arrays are appended to (entries already present are not repeated).
+ * With deep-merge and append, a value of "$delete" removes the key.
+ */
+export type TemplateMergeStrategy = (typeof TEMPLATE_MERGE_STRATEGIES)[number];
+
 /** Schema for yehle.yaml. */
 export type YehleConfiguration = {
+	/** Template this template builds on ("<lang>/<projectSpec>/<template>"); its files are copied first and overlaid by this template's files. */
+	extends?: string;
 	/** Tooling instructions (tool/framework best-practice rules) to apply for this template or project-spec. */
 	toolingInstructions?: string[];
 	/** Workflow skills to apply for this template or project-spec (e.g. deploy-versioned-release, optimise-api-performance). */
 	skills?: string[];
 	/** Subagents to apply for this template or project-spec (e.g. researcher, planner, implementer, verifier). */
 	subagents?: string[];
+	/** Template variables by name, asked in declaration order. */
+	variables?: Record<string, TemplateVariable>;
+	/** Optional template features by name, in the order they are offered. */
+	features?: Record<string, TemplateFeature>;
+	/** Commands to run inside the generated project (a single command or a list per stage). */
+	hooks?: Partial<Record<TemplateHookStage, string | string[]>>;
+	/** Merge strategies by file path (relative to the template root, e.g. "biome.json"). */
+	merge?: Record<string, TemplateMergeStrategy>;
 };
 
 /** Filename for the yehle configuration file in a template or project-spec dir. */
 export const YEHLE_CONFIGURATION_FILENAME = "yehle.yaml";
 
-/** When true, use local templates (and instructions under ./templates/instructions/ and ./templates/<lang>/...); otherwise fetch from GitHub. */
-export const IS_LOCAL_MODE = process.env.YEHLE_LOCAL_TEMPLATES === "true";
-
 /** Default GitHub owner for remote templates and instructions. */
 export const DEFAULT_GITHUB_OWNER = "agrawal-rohit";
 
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, formatUnifiedDiff, splitLines } from "./diff";
+
+describe("core/diff", () => {
+	describe("splitLines", () => {
+		it("should keep line breaks and the last line without one", () => {
+			expect(splitLines("a\nb\nc")).toEqual(["a\n", "b\n", "c"]);
+			expect(splitLines("")).toEqual([]);
+		});
+	});
+
+	describe("diffLines", () => {
+		it("should return the regions that differ", () => {
+			expect(
+				diffLines(["a\n", "b\n", "c\n"], ["a\n", "x\n", "c\n", "d\n"]),
+			).toEqual([
+				{ oldStart: 1, oldEnd: 2, newStart: 1, newEnd: 2 },
+				{ oldStart: 3, oldEnd: 3, newStart: 3, newEnd: 4 },
+			]);
+		});
+	});
+
+	describe("formatUnifiedDiff", () => {
+		it("should return an empty string when nothing changed", () => {
+			expect(formatUnifiedDiff("a.txt", "a\n", "a\n")).toBe("");
+		});
+
+		it("should show changes with context and merge nearby hunks", () => {
+			const before = "1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n11\n12\n13\n14\n15\n";
+			const after = "1\nTWO\n3\n4\n5\n6\n7\n8\nNINE\n10\n11\n12\n13\n14\n15\n";
+
+			expect(formatUnifiedDiff("n.txt", before, after)).toBe(
+				[
+					"diff --git a/n.txt b/n.txt",
+					"--- a/n.txt",
+					"+++ b/n.txt",
+					"@@ -1,12 +1,12 @@",
+					" 1",
+					"-2",
+					"+TWO",
+					" 3",
+					" 4",
+					" 5",
+					" 6",
+					" 7",
+					" 8",
+					"-9",
+					"+NINE",
+					" 10",
+					" 11",
+					" 12",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("should describe added and deleted files", () => {
+			expect(formatUnifiedDiff("new.txt", undefined, "x\n")).toBe(
+				[
+					"diff --git a/new.txt b/new.txt",
+					"new file mode 100644",
+					"--- /dev/null",
+					"+++ b/new.txt",
+					"@@ -0,0 +1,1 @@",
+					"+x",
+					"",
+				].join("\n"),
+			);
+			expect(formatUnifiedDiff("old.txt", "x", undefined)).toBe(
+				[
+					"diff --git a/old.txt b/old.txt",
+					"deleted file mode 100644",
+					"--- a/old.txt",
+					"+++ /dev/null",
+					"@@ -1,1 +0,0 @@",
+					"-x",
+					"\\ No newline at end of file",
+					"",
+				].join("\n"),
+			);
+		});
+	});
+});
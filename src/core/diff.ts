@@ -0,0 +1,190 @@
+/** A region where two versions differ: old lines [oldStart, oldEnd) became new lines [newStart, newEnd). */
+export type LineHunk = {
+	oldStart: number;
+	oldEnd: number;
+	newStart: number;
+	newEnd: number;
+};
+
+/** Lines of unchanged context shown around each change in a unified diff. */
+const DEFAULT_CONTEXT_LINES = 3;
+
+/** Largest old × new line product diffed line by line; larger files are treated as changed as a whole. */
+const MAX_DIFF_CELLS = 25_000_000;
+
+/**
+ * Split content into lines, keeping each line's line break.
+ * @param content - Text to split.
+ * @returns Lines; empty for empty content.
+ */
+export function splitLines(content: string): string[] {
+	return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Find the longest common subsequence of two line lists.
+ * @param a - First lines.
+ * @param b - Second lines.
+ * @returns Matched index pairs [indexInA, indexInB], in order.
+ */
+export function longestCommonSubsequence(
+	a: string[],
+	b: string[],
+): Array<[number, number]> {
+	// Trim the common prefix and suffix so the table only covers the changed middle
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix])
+		prefix += 1;
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	)
+		suffix += 1;
+
+	const pairs: Array<[number, number]> = [];
+	for (let i = 0; i < prefix; i++) pairs.push([i, i]);
+
+	const n = a.length - prefix - suffix;
+	const m = b.length - prefix - suffix;
+	if (n > 0 && m > 0 && n * m <= MAX_DIFF_CELLS) {
+		// lengths[i * (m + 1) + j] = LCS length of a[prefix + i..] and b[prefix + j..]
+		const lengths = new Uint32Array((n + 1) * (m + 1));
+		for (let i = n - 1; i >= 0; i--)
+			for (let j = m - 1; j >= 0; j--)
+				lengths[i * (m + 1) + j] =
+					a[prefix + i] === b[prefix + j]
+						? lengths[(i + 1) * (m + 1) + j + 1] + 1
+						: Math.max(
+								lengths[(i + 1) * (m + 1) + j],
+								lengths[i * (m + 1) + j + 1],
+							);
+
+		let i = 0;
+		let j = 0;
+		while (i < n && j < m) {
+			if (a[prefix + i] === b[prefix + j]) {
+				pairs.push([prefix + i, prefix + j]);
+				i += 1;
+				j += 1;
+			} else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])
+				i += 1;
+			else j += 1;
+		}
+	}
+
+	for (let k = suffix; k > 0; k--) pairs.push([a.length - k, b.length - k]);
+	return pairs;
+}
+
+/**
+ * Diff two versions line by line.
+ * @param oldLines - Lines of the old version.
+ * @param newLines - Lines of the new version.
+ * @returns The regions that differ, in order.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): LineHunk[] {
+	const hunks: LineHunk[] = [];
+	let oldIndex = 0;
+	let newIndex = 0;
+	for (const [matchedOld, matchedNew] of [
+		...longestCommonSubsequence(oldLines, newLines),
+		[oldLines.length, newLines.length] as [number, number],
+	]) {
+		if (matchedOld > oldIndex || matchedNew > newIndex)
+			hunks.push({
+				oldStart: oldIndex,
+				oldEnd: matchedOld,
+				newStart: newIndex,
+				newEnd: matchedNew,
+			});
+		oldIndex = matchedOld + 1;
+		newIndex = matchedNew + 1;
+	}
+	return hunks;
+}
+
+/**
+ * Format one line of a unified diff, marking a missing trailing line break the way git does.
+ * @param prefix - " ", "-" or "+".
+ * @param line - Line, with its line break when it has one.
+ * @returns The formatted line, ending with a line break.
+ */
+function formatDiffLine(prefix: string, line: string): string {
+	return line.endsWith("\n")
+		? `${prefix}${line}`
+		: `${prefix}${line}\n\\ No newline at end of file\n`;
+}
+
+/**
+ * Format the change of a file as a unified diff that `git apply` accepts.
+ * @param file - Path relative to the project root, using forward slashes.
+ * @param oldContent - Content before the change; undefined when the file is added.
+ * @param newContent - Content after the change; undefined when the file is deleted.
+ * @param contextLines - Lines of unchanged context around each change.
+ * @returns The diff, or an empty string when nothing changed.
+ */
+export function formatUnifiedDiff(
+	file: string,
+	oldContent: string | undefined,
+	newContent: string | undefined,
+	contextLines = DEFAULT_CONTEXT_LINES,
+): string {
+	if (oldContent === newContent) return "";
+	const oldLines = splitLines(oldContent ?? "");
+	const newLines = splitLines(newContent ?? "");
+
+	const header = [`diff --git a/${file} b/${file}`];
+	if (oldContent === undefined) header.push("new file mode 100644");
+	if (newContent === undefined) header.push("deleted file mode 100644");
+	header.push(
+		oldContent === undefined ? "--- /dev/null" : `--- a/${file}`,
+		newContent === undefined ? "+++ /dev/null" : `+++ b/${file}`,
+	);
+
+	const hunks = diffLines(oldLines, newLines);
+	if (hunks.length === 0) return "";
+
+	// Hunks closer together than twice the context are shown as one
+	const groups: LineHunk[][] = [];
+	for (const hunk of hunks) {
+		const last = groups[groups.length - 1];
+		if (
+			last &&
+			hunk.oldStart - last[last.length - 1].oldEnd <= 2 * contextLines
+		)
+			last.push(hunk);
+		else groups.push([hunk]);
+	}
+
+	const output = [`${header.join("\n")}\n`];
+	for (const group of groups) {
+		const first = group[0];
+		const last = group[group.length - 1];
+		const oldStart = Math.max(0, first.oldStart - contextLines);
+		const oldEnd = Math.min(oldLines.length, last.oldEnd + contextLines);
+		const newStart = first.newStart - (first.oldStart - oldStart);
+		const newEnd = last.newEnd + (oldEnd - last.oldEnd);
+
+		const range = (start: number, count: number) =>
+			`${count === 0 ? start : start + 1},${count}`;
+		output.push(
+			`@@ -${range(oldStart, oldEnd - oldStart)} +${range(newStart, newEnd - newStart)} @@\n`,
+		);
+
+		let oldIndex = oldStart;
+		for (const hunk of group) {
+			for (; oldIndex < hunk.oldStart; oldIndex++)
+				output.push(formatDiffLine(" ", oldLines[oldIndex]));
+			for (let i = hunk.oldStart; i < hunk.oldEnd; i++)
+				output.push(formatDiffLine("-", oldLines[i]));
+			for (let i = hunk.newStart; i < hunk.newEnd; i++)
+				output.push(formatDiffLine("+", newLines[i]));
+			oldIndex = hunk.oldEnd;
+		}
+		for (; oldIndex < oldEnd; oldIndex++)
+			output.push(formatDiffLine(" ", oldLines[oldIndex]));
+	}
+	return output.join("");
+}
@@ -0,0 +1,116 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	findProjectDrift,
+	formatProjectDriftPatch,
+	matchesDriftPattern,
+	parseAllowFlags,
+} from "./drift";
+
+describe("core/drift", () => {
+	let tmpDir: string;
+	let projectDir: string;
+	let templateDir: string;
+
+	/**
+	 * Write a file under one of the test directories.
+	 * @param dir - Directory to write into.
+	 * @param relative - Path relative to the directory.
+	 * @param content - File content.
+	 */
+	function write(dir: string, relative: string, content: string): void {
+		const full = path.join(dir, relative);
+		fs.mkdirSync(path.dirname(full), { recursive: true });
+		fs.writeFileSync(full, content);
+	}
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "drift-test-"));
+		projectDir = path.join(tmpDir, "project");
+		templateDir = path.join(tmpDir, "template");
+		fs.mkdirSync(projectDir);
+		fs.mkdirSync(templateDir);
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("findProjectDrift", () => {
+		it("should report files the template adds, removes and changes, ignoring the project's own files", async () => {
+			write(templateDir, "README.md", "# v2\n");
+			write(projectDir, "README.md", "# mine\n");
+			write(templateDir, "same.txt", "same\n");
+			write(projectDir, "same.txt", "same\n");
+			write(templateDir, "src/new.ts", "export {};\n");
+			write(projectDir, "cliff.toml", "[changelog]\n");
+			write(projectDir, "src/own.ts", "export {};\n");
+
+			await expect(
+				findProjectDrift({
+					projectDir,
+					templateDir,
+					recordedFiles: {
+						"cliff.toml": "f00d",
+						"README.md": "f00d",
+						"same.txt": "f00d",
+					},
+				}),
+			).resolves.toEqual([
+				{ path: "README.md", status: "changed" },
+				{ path: "cliff.toml", status: "removed" },
+				{ path: "src/new.ts", status: "added" },
+			]);
+		});
+	});
+
+	describe("formatProjectDriftPatch", () => {
+		it("should diff the project against the template", async () => {
+			write(templateDir, "a.txt", "template\n");
+			write(projectDir, "a.txt", "mine\n");
+
+			await expect(
+				formatProjectDriftPatch(projectDir, templateDir, [
+					{ path: "a.txt", status: "changed" },
+				]),
+			).resolves.toBe(
+				[
+					"diff --git a/a.txt b/a.txt",
+					"--- a/a.txt",
+					"+++ b/a.txt",
+					"@@ -1,1 +1,1 @@",
+					"-mine",
+					"+template",
+					"",
+				].join("\n"),
+			);
+		});
+	});
+
+	describe("matchesDriftPattern", () => {
+		it("should match globs relative to the project root", () => {
+			expect(matchesDriftPattern("src/index.ts", "src/*.ts")).toBe(true);
+			expect(matchesDriftPattern("src/a/index.ts", "src/*.ts")).toBe(false);
+			expect(matchesDriftPattern("src/a/index.ts", "src/**")).toBe(true);
+			expect(matchesDriftPattern("src/a/index.ts", "src/**/*.ts")).toBe(true);
+			expect(matchesDriftPattern("src/index.ts", "./src/**/*.ts")).toBe(true);
+			expect(matchesDriftPattern(".github/ci.yml", ".github/")).toBe(true);
+			expect(matchesDriftPattern("README.mdx", "README.md")).toBe(false);
+		});
+
+		it("should match patterns without a slash against the file name", () => {
+			expect(matchesDriftPattern("docs/README.md", "README.md")).toBe(true);
+			expect(matchesDriftPattern("a/b/tsconfig.json", "tsconfig.*")).toBe(true);
+		});
+	});
+
+	describe("parseAllowFlags", () => {
+		it("should accept a single value or repeated values", () => {
+			expect(parseAllowFlags(undefined)).toEqual([]);
+			expect(parseAllowFlags("README.md")).toEqual(["README.md"]);
+			expect(parseAllowFlags(["src/**", " "])).toEqual(["src/**"]);
+		});
+	});
+});
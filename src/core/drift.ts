@@ -0,0 +1,129 @@
+import path from "node:path";
+import { hashProjectFiles } from "./manifest";
+import { formatFilePatch, readOptionalFile } from "./update";
+
+/** How a file of the project differs from its template, from the template's side: it adds, removes or changes the file. */
+export type ProjectDriftStatus = "added" | "removed" | "changed";
+
+/** A file of the project that differs from its template. */
+export type ProjectFileDrift = {
+	/** Path relative to the project root, using forward slashes. */
+	path: string;
+	/** How the template differs from the project. */
+	status: ProjectDriftStatus;
+};
+
+/** Inputs of findProjectDrift. */
+export type ProjectDriftSources = {
+	/** Root of the project. */
+	projectDir: string;
+	/** The template rendered with the project's answers. */
+	templateDir: string;
+	/** Hashes of the files as generated, from the project manifest; files outside them and the template are the project's own. */
+	recordedFiles: Record<string, string>;
+};
+
+/**
+ * Compare a project with its rendered template file by file.
+ * Files the project added itself are not drift; only files the template renders or the project was generated with count.
+ * @param sources - The project, its rendered template and the recorded hashes.
+ * @returns Promise resolving to the files that differ, sorted by path.
+ */
+export async function findProjectDrift(
+	sources: ProjectDriftSources,
+): Promise<ProjectFileDrift[]> {
+	const { projectDir, templateDir, recordedFiles } = sources;
+	const files = [
+		...new Set([
+			...Object.keys(await hashProjectFiles(templateDir)),
+			...Object.keys(recordedFiles),
+		]),
+	].sort();
+
+	const drift: ProjectFileDrift[] = [];
+	for (const file of files) {
+		const template = await readOptionalFile(path.join(templateDir, file));
+		const current = await readOptionalFile(path.join(projectDir, file));
+		if (template && !current) drift.push({ path: file, status: "added" });
+		else if (!template && current)
+			drift.push({ path: file, status: "removed" });
+		else if (template && current && !template.equals(current))
+			drift.push({ path: file, status: "changed" });
+	}
+	return drift;
+}
+
+/**
+ * Format drift as a patch that would bring the project back in line with its template.
+ * @param projectDir - Root of the project.
+ * @param templateDir - The template rendered with the project's answers.
+ * @param drift - Files that differ, from findProjectDrift.
+ * @returns Promise resolving to the patch; empty when nothing differs.
+ */
+export async function formatProjectDriftPatch(
+	projectDir: string,
+	templateDir: string,
+	drift: ProjectFileDrift[],
+): Promise<string> {
+	const parts: string[] = [];
+	for (const { path: file } of drift)
+		parts.push(
+			formatFilePatch(
+				file,
+				await readOptionalFile(path.join(projectDir, file)),
+				await readOptionalFile(path.join(templateDir, file)),
+			),
+		);
+	return parts.join("");
+}
+
+/**
+ * Convert a glob to a regular expression: "**" matches across directories, "*" and "?" within one.
+ * @param pattern - Glob relative to the project root.
+ * @returns The regular expression, anchored at both ends.
+ */
+function globToRegExp(pattern: string): RegExp {
+	let source = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (pattern.startsWith("**/", i)) {
+			source += "(?:.*/)?";
+			i += 2;
+		} else if (pattern.startsWith("**", i)) {
+			source += ".*";
+			i += 1;
+		} else if (char === "*") source += "[^/]*";
+		else if (char === "?") source += "[^/]";
+		else source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a file matches an allow-list pattern.
+ * Patterns are globs relative to the project root; a pattern without a slash matches the file name in any directory
+ * and a pattern ending with a slash matches everything in that directory.
+ * @param file - Path relative to the project root, using forward slashes.
+ * @param pattern - Allow-list pattern (e.g. "README.md", "src/**", ".github/").
+ * @returns True when the pattern matches the file.
+ */
+export function matchesDriftPattern(file: string, pattern: string): boolean {
+	const normalized = pattern
+		.trim()
+		.replaceAll("\\", "/")
+		.replace(/^(\.\/)+/, "")
+		.replace(/\/$/, "/**");
+	if (!normalized.includes("/"))
+		return globToRegExp(normalized).test(path.posix.basename(file));
+	return globToRegExp(normalized).test(file);
+}
+
+/**
+ * Parse repeated --allow flags.
+ * @param raw - Raw option value from cac (undefined, a single value or an array of values).
+ * @returns Non-empty patterns in the order given.
+ */
+export function parseAllowFlags(raw: unknown): string[] {
+	const flags = raw === undefined ? [] : Array.isArray(raw) ? raw : [raw];
+	return flags.map((flag) => String(flag).trim()).filter(Boolean);
+}
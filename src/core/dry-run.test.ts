@@ -0,0 +1,130 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./setup", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("./setup")>();
+	return {
+		...actual,
+		resolveTemplateLayers: vi.fn(),
+	};
+});
+
+// Import after mocks
+import {
+	createDryRunDirectory,
+	describeDryRunFiles,
+	formatFileTree,
+	removeDryRunDirectory,
+	traceTemplateFileOrigins,
+} from "./dry-run";
+import { resolveTemplateLayers } from "./setup";
+
+describe("core/dry-run", () => {
+	let tmpDir: string;
+
+	/**
+	 * Write a file under the temporary directory.
+	 * @param relative - Path relative to the temporary directory.
+	 * @param content - File content.
+	 */
+	function write(relative: string, content = ""): void {
+		const full = path.join(tmpDir, relative);
+		fs.mkdirSync(path.dirname(full), { recursive: true });
+		fs.writeFileSync(full, content);
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "dry-run-test-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("createDryRunDirectory / removeDryRunDirectory", () => {
+		it("should create an empty temporary directory and remove it", async () => {
+			const dir = await createDryRunDirectory();
+
+			expect(dir.startsWith(os.tmpdir())).toBe(true);
+			expect(fs.readdirSync(dir)).toEqual([]);
+
+			await removeDryRunDirectory(dir);
+
+			expect(fs.existsSync(dir)).toBe(false);
+		});
+	});
+
+	describe("describeDryRunFiles", () => {
+		it("should list nested files sorted by path with their sizes and origins", async () => {
+			write("src/index.ts", "export {};\n");
+			write("README.md", "# pkg\n");
+
+			await expect(
+				describeDryRunFiles(tmpDir, (file) =>
+					file === "README.md" ? "shared" : undefined,
+				),
+			).resolves.toEqual([
+				{ path: "README.md", size: 6, origin: "shared" },
+				{ path: "src/index.ts", size: 11, origin: undefined },
+			]);
+		});
+	});
+
+	describe("traceTemplateFileOrigins", () => {
+		it("should attribute each output file to the layers it came from", async () => {
+			write("shared/README.mustache.md");
+			write("shared/biome.json");
+			write("shared/playground/index.html");
+			write("shared/yehle.yaml", "merge:\n  biome.json: deep-merge\n");
+			write("react/biome.json");
+			write("react/README.md");
+			write("react/src/{{name}}.ts");
+			write("react/playground.yehle-delete");
+			write("react/instructions/setup.md");
+			vi.mocked(resolveTemplateLayers).mockResolvedValue([
+				{ id: "typescript/shared", dir: path.join(tmpDir, "shared") },
+				{ id: "typescript/package/react", dir: path.join(tmpDir, "react") },
+			]);
+
+			const origins = await traceTemplateFileOrigins(
+				"typescript",
+				"package",
+				"react",
+			);
+
+			expect(origins.resolve("README.md")).toBe("typescript/package/react");
+			expect(origins.resolve("biome.json")).toBe(
+				"typescript/shared + typescript/package/react",
+			);
+			expect(origins.resolve("src/my-package.ts")).toBe(
+				"typescript/package/react",
+			);
+			expect(origins.resolve("playground/index.html")).toBeUndefined();
+			expect(origins.resolve("instructions/setup.md")).toBeUndefined();
+			expect(origins.resolve("LICENSE")).toBeUndefined();
+		});
+	});
+
+	describe("formatFileTree", () => {
+		it("should draw directories before files with sizes and origins", () => {
+			expect(
+				formatFileTree("my-package", [
+					{ path: "README.md", size: 2048, origin: "shared" },
+					{ path: ".github/workflows/ci.yml", size: 10 },
+					{ path: "src/index.ts", size: 5, origin: "typescript/package/basic" },
+				]),
+			).toEqual([
+				"my-package/",
+				"├── .github/",
+				"│   └── workflows/",
+				"│       └── ci.yml (10 B)",
+				"├── src/",
+				"│   └── index.ts (5 B, typescript/package/basic)",
+				"└── README.md (2.0 KB, shared)",
+			]);
+		});
+	});
+});
@@ -0,0 +1,238 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { TemplateMergeStrategy } from "./constants";
+import { DELETION_MARKER_SUFFIX } from "./inheritance";
+import { readTemplateMergeStrategies } from "./merge";
+import { listTemplateLayerFiles, resolveTemplateLayers } from "./setup";
+import { formatBytes } from "./utils";
+
+/** CLI flags that control dry runs. */
+export type DryRunFlags = {
+	/** Generate into a temporary directory and only print the files that would be created (--dry-run). */
+	dryRun?: boolean;
+};
+
+/** A file a dry run would create. */
+export type DryRunFile = {
+	/** Path relative to the project root, using forward slashes. */
+	path: string;
+	/** Size in bytes. */
+	size: number;
+	/** Where the file came from (template layers, "instructions", "generated"); omitted when unknown. */
+	origin?: string;
+};
+
+/** Template layers each output file of a template comes from. */
+export type TemplateFileOrigins = {
+	/**
+	 * Get the layers a generated file came from.
+	 * @param file - Path relative to the project root, using forward slashes.
+	 * @returns Layer names joined with " + " (several when the file is merged across layers), or undefined when no layer has the file.
+	 */
+	resolve: (file: string) => string | undefined;
+};
+
+/**
+ * Create an empty temporary directory to run the generation pipeline in.
+ * @returns Promise resolving to the absolute path of the directory.
+ */
+export async function createDryRunDirectory(): Promise<string> {
+	return fs.promises.mkdtemp(path.join(os.tmpdir(), "yehle-dry-run-"));
+}
+
+/**
+ * Remove a directory created by createDryRunDirectory.
+ * @param dir - Directory to remove.
+ * @returns Promise that resolves when the directory has been removed.
+ */
+export async function removeDryRunDirectory(dir: string): Promise<void> {
+	await fs.promises.rm(dir, { recursive: true, force: true });
+}
+
+/**
+ * List every file under a directory with its size.
+ * @param dir - Directory to scan.
+ * @returns Promise resolving to sizes by path relative to the directory (forward slashes); empty when it does not exist.
+ */
+export async function listFilesWithSizes(
+	dir: string,
+): Promise<Map<string, number>> {
+	const files = new Map<string, number>();
+	const walk = async (current: string, prefix: string) => {
+		let entries: fs.Dirent[] = [];
+		try {
+			entries = await fs.promises.readdir(current, { withFileTypes: true });
+		} catch {
+			return;
+		}
+		for (const entry of entries) {
+			const full = path.join(current, entry.name);
+			const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+			if (entry.isDirectory()) await walk(full, relative);
+			else if (entry.isFile())
+				files.set(relative, (await fs.promises.stat(full)).size);
+		}
+	};
+	await walk(dir, "");
+	return files;
+}
+
+/**
+ * Describe the files generated into a dry-run directory.
+ * @param dir - Directory the pipeline wrote into.
+ * @param getOrigin - Returns where a file (path relative to dir) came from.
+ * @returns Promise resolving to the files with their sizes and origins, sorted by path.
+ */
+export async function describeDryRunFiles(
+	dir: string,
+	getOrigin: (file: string) => string | undefined,
+): Promise<DryRunFile[]> {
+	const files = await listFilesWithSizes(dir);
+	return [...files.entries()]
+		.map(([file, size]) => ({ path: file, size, origin: getOrigin(file) }))
+		.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Turn a layer file path into the path it is written to: ".mustache." is dropped from file names,
+ * and name segments with mustache tags match any rendered name.
+ * @param file - Path relative to the layer directory.
+ * @returns The output path and, when a segment is templated, a pattern matching its rendered paths.
+ */
+function toOutputPath(file: string): { path: string; pattern?: RegExp } {
+	const outputPath = file.replace(/\.mustache\.(?=[^/]*$)/i, ".");
+	if (!outputPath.includes("{{")) return { path: outputPath };
+
+	const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	const source = outputPath
+		.split(/\{\{[\s\S]*?\}\}/)
+		.map(escapeRegExp)
+		.join("[^/]+");
+	return { path: outputPath, pattern: new RegExp(`^${source}$`) };
+}
+
+/**
+ * List the deletion markers of a template layer.
+ * @param layerDir - Absolute path to the layer directory.
+ * @returns Promise resolving to marker paths relative to the layer directory, using forward slashes.
+ */
+async function listDeletionMarkers(layerDir: string): Promise<string[]> {
+	const files = await listFilesWithSizes(layerDir);
+	return [...files.keys()].filter((file) =>
+		file.endsWith(DELETION_MARKER_SUFFIX),
+	);
+}
+
+/**
+ * Trace which template layers each file of a generated project comes from.
+ * A later layer's file replaces the earlier one unless a merge strategy is declared for it; deletion markers remove inherited files.
+ * @param lang - Programming language.
+ * @param projectSpec - Project spec (e.g. "package").
+ * @param template - Template name.
+ * @returns Promise resolving to a lookup of output file origins.
+ * @throws Error when a template cannot be resolved or a yehle.yaml is invalid.
+ */
+export async function traceTemplateFileOrigins(
+	lang: string,
+	projectSpec: string,
+	template: string,
+): Promise<TemplateFileOrigins> {
+	const layers = await resolveTemplateLayers(lang, projectSpec, template);
+
+	const strategies: Record<string, TemplateMergeStrategy> = {};
+	for (const layer of layers)
+		Object.assign(strategies, await readTemplateMergeStrategies(layer.dir));
+
+	const origins = new Map<string, { pattern?: RegExp; layers: string[] }>();
+	for (const layer of layers) {
+		for (const file of await listTemplateLayerFiles(layer.dir)) {
+			const output = toOutputPath(file);
+			const existing = origins.get(output.path);
+			const strategy = strategies[file] ?? "replace";
+			origins.set(output.path, {
+				pattern: output.pattern,
+				layers:
+					existing && strategy !== "replace"
+						? [...existing.layers, layer.id]
+						: [layer.id],
+			});
+		}
+
+		// Deletion markers (skipped by listTemplateLayerFiles) remove inherited files and directories
+		for (const marker of await listDeletionMarkers(layer.dir)) {
+			const deleted = marker.slice(0, -DELETION_MARKER_SUFFIX.length);
+			for (const output of [...origins.keys()])
+				if (output === deleted || output.startsWith(`${deleted}/`))
+					origins.delete(output);
+		}
+	}
+
+	return {
+		resolve: (file) => {
+			const exact = origins.get(file);
+			if (exact) return exact.layers.join(" + ");
+			for (const origin of origins.values())
+				if (origin.pattern?.test(file)) return origin.layers.join(" + ");
+			return undefined;
+		},
+	};
+}
+
+/**
+ * Format the files a dry run would create as a tree, with each file's size and origin.
+ * @param rootName - Name shown for the root directory (e.g. the package directory).
+ * @param files - Files to show.
+ * @returns Lines of the tree, root first.
+ */
+export function formatFileTree(
+	rootName: string,
+	files: DryRunFile[],
+): string[] {
+	type Node = { dirs: Map<string, Node>; files: DryRunFile[] };
+	const root: Node = { dirs: new Map(), files: [] };
+	for (const file of files) {
+		const segments = file.path.split("/");
+		let node = root;
+		for (const segment of segments.slice(0, -1)) {
+			let child = node.dirs.get(segment);
+			if (!child) {
+				child = { dirs: new Map(), files: [] };
+				node.dirs.set(segment, child);
+			}
+			node = child;
+		}
+		node.files.push(file);
+	}
+
+	const lines = [`${rootName}/`];
+	const render = (node: Node, indent: string) => {
+		const entries = [
+			...[...node.dirs.entries()]
+				.sort(([a], [b]) => a.localeCompare(b))
+				.map(([name, child]) => ({ name, child, file: undefined })),
+			...[...node.files]
+				.sort((a, b) => a.path.localeCompare(b.path))
+				.map((file) => ({
+					name: path.posix.basename(file.path),
+					child: undefined,
+					file,
+				})),
+		];
+		entries.forEach(({ name, child, file }, i) => {
+			const last = i === entries.length - 1;
+			const branch = last ? "└── " : "├── ";
+			if (child) {
+				lines.push(`${indent}${branch}${name}/`);
+				render(child, `${indent}${last ? "    " : "│   "}`);
+			} else if (file) {
+				const details = [formatBytes(file.size), file.origin]
+					.filter(Boolean)
+					.join(", ");
+				lines.push(`${indent}${branch}${name} (${details})`);
+			}
+		});
+	};
+	render(root, "");
+	return lines;
+}
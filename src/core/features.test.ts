@@ -0,0 +1,225 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { TemplateFeature } from "./constants";
+import {
+	getSelectedPackageJsonFragments,
+	getUnselectedFeatureFiles,
+	isFeatureSelectedByDefault,
+	parseFeatureFlags,
+	readTemplateFeatures,
+	removeUnselectedFeatureFiles,
+	resolveFeatureFlags,
+	validateFeatureDefinition,
+} from "./features";
+
+describe("core/features", () => {
+	const definitions: Record<string, TemplateFeature> = {
+		playground: {
+			files: ["playground", "./vite.config.ts"],
+			packageJson: { scripts: { playground: "vite" } },
+		},
+		husky: {
+			default: false,
+			files: [".husky/", "lint-staged.config.js"],
+			packageJson: { scripts: { prepare: "husky" } },
+		},
+		commitlint: {
+			files: [".husky/commit-msg", "commitlint.config.js", "vite.config.ts"],
+		},
+	};
+
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "features-test-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("parseFeatureFlags", () => {
+		it("should parse repeated and comma-separated flags", () => {
+			expect(parseFeatureFlags(undefined)).toEqual([]);
+			expect(parseFeatureFlags("playground")).toEqual(["playground"]);
+			expect(parseFeatureFlags(["husky, stryker", "husky", ""])).toEqual([
+				"husky",
+				"stryker",
+			]);
+		});
+	});
+
+	describe("validateFeatureDefinition", () => {
+		it("should accept well-formed definitions", () => {
+			for (const [name, feature] of Object.entries(definitions))
+				expect(() => validateFeatureDefinition(name, feature)).not.toThrow();
+			expect(() => validateFeatureDefinition("empty", {})).not.toThrow();
+		});
+
+		it.each([
+			["not a mapping", ["playground"], "expected a mapping"],
+			["bad default", { default: "yes" }, "default must be a boolean"],
+			["bad files", { files: "playground" }, "files must be a list of paths"],
+			["escaping file", { files: ["../outside"] }, 'file "../outside" must be'],
+			[
+				"absolute file",
+				{ files: ["/etc/passwd"] },
+				'file "/etc/passwd" must be',
+			],
+			["bad packageJson", { packageJson: [] }, "packageJson must be a mapping"],
+		])("should reject %s", (_case, definition, message) => {
+			expect(() => validateFeatureDefinition("f", definition)).toThrow(
+				`Invalid template feature "f": ${message}`,
+			);
+		});
+	});
+
+	describe("readTemplateFeatures", () => {
+		it("should return no features when yehle.yaml or the section is missing", async () => {
+			await expect(readTemplateFeatures(tmpDir)).resolves.toEqual({});
+
+			fs.writeFileSync(path.join(tmpDir, "yehle.yaml"), "subagents: []\n");
+			await expect(readTemplateFeatures(tmpDir)).resolves.toEqual({});
+		});
+
+		it("should read features in declaration order", async () => {
+			fs.writeFileSync(
+				path.join(tmpDir, "yehle.yaml"),
+				[
+					"features:",
+					"  stryker:",
+					"    files: [stryker.config.mjs]",
+					"    packageJson:",
+					"      devDependencies:",
+					'        "@stryker-mutator/core": ^9.4.0',
+					"  docs:",
+					"",
+				].join("\n"),
+			);
+
+			const features = await readTemplateFeatures(tmpDir);
+
+			expect(Object.keys(features)).toEqual(["stryker", "docs"]);
+			expect(features.stryker.packageJson).toEqual({
+				devDependencies: { "@stryker-mutator/core": "^9.4.0" },
+			});
+			expect(features.docs).toEqual({});
+		});
+
+		it("should throw on invalid sections and definitions", async () => {
+			const file = path.join(tmpDir, "yehle.yaml");
+
+			fs.writeFileSync(file, "features: [a]\n");
+			await expect(readTemplateFeatures(tmpDir)).rejects.toThrow(
+				"Invalid features",
+			);
+
+			fs.writeFileSync(file, "features:\n  a:\n    default: maybe\n");
+			await expect(readTemplateFeatures(tmpDir)).rejects.toThrow(
+				'Invalid template feature "a"',
+			);
+		});
+	});
+
+	describe("resolveFeatureFlags", () => {
+		it("should select and deselect the named features only", () => {
+			expect(
+				resolveFeatureFlags(
+					definitions,
+					{ enableFeatures: ["husky"], disableFeatures: ["playground"] },
+					"react",
+				),
+			).toEqual({ husky: true, playground: false });
+			expect(resolveFeatureFlags(definitions, {}, "react")).toEqual({});
+		});
+
+		it("should reject unknown and conflicting features", () => {
+			expect(() =>
+				resolveFeatureFlags(definitions, { enableFeatures: ["docs"] }, "react"),
+			).toThrow(
+				'Unknown feature "docs" for template "react" (declared: playground, husky, commitlint).',
+			);
+			expect(() =>
+				resolveFeatureFlags({}, { disableFeatures: ["docs"] }, "basic"),
+			).toThrow("(declared: none)");
+			expect(() =>
+				resolveFeatureFlags(
+					definitions,
+					{ enableFeatures: ["husky"], disableFeatures: ["husky"] },
+					"react",
+				),
+			).toThrow(
+				'Feature "husky" was passed to both --feature and --no-feature.',
+			);
+		});
+	});
+
+	describe("isFeatureSelectedByDefault", () => {
+		it("should default to selected", () => {
+			expect(isFeatureSelectedByDefault({})).toBe(true);
+			expect(isFeatureSelectedByDefault({ default: false })).toBe(false);
+		});
+	});
+
+	describe("getUnselectedFeatureFiles", () => {
+		it("should list files of unselected features not owned by selected ones", () => {
+			expect(getUnselectedFeatureFiles(definitions, {})).toEqual([
+				".husky",
+				"lint-staged.config.js",
+			]);
+			expect(
+				getUnselectedFeatureFiles(definitions, {
+					playground: false,
+					commitlint: false,
+				}),
+			).toEqual([
+				"playground",
+				"vite.config.ts",
+				".husky",
+				"lint-staged.config.js",
+				".husky/commit-msg",
+				"commitlint.config.js",
+			]);
+			expect(
+				getUnselectedFeatureFiles(definitions, { playground: false }),
+			).toEqual(["playground", ".husky", "lint-staged.config.js"]);
+		});
+	});
+
+	describe("getSelectedPackageJsonFragments", () => {
+		it("should return fragments of selected features in declaration order", () => {
+			expect(
+				getSelectedPackageJsonFragments(definitions, { husky: true }),
+			).toEqual([
+				{ scripts: { playground: "vite" } },
+				{ scripts: { prepare: "husky" } },
+			]);
+			expect(
+				getSelectedPackageJsonFragments(definitions, { playground: false }),
+			).toEqual([]);
+		});
+	});
+
+	describe("removeUnselectedFeatureFiles", () => {
+		it("should remove files and directories of unselected features", async () => {
+			fs.mkdirSync(path.join(tmpDir, "playground", "src"), { recursive: true });
+			fs.writeFileSync(path.join(tmpDir, "playground", "src", "App.tsx"), "");
+			fs.mkdirSync(path.join(tmpDir, ".husky"));
+			fs.writeFileSync(path.join(tmpDir, ".husky", "commit-msg"), "");
+			fs.writeFileSync(path.join(tmpDir, "vite.config.ts"), "");
+			fs.writeFileSync(path.join(tmpDir, "commitlint.config.js"), "");
+
+			await removeUnselectedFeatureFiles(tmpDir, definitions, {
+				playground: false,
+				husky: true,
+				commitlint: false,
+			});
+
+			expect(fs.readdirSync(tmpDir).sort()).toEqual([".husky"]);
+			expect(fs.readdirSync(path.join(tmpDir, ".husky"))).toEqual([]);
+		});
+	});
+});
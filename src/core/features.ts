@@ -0,0 +1,240 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import {
+	type TemplateFeature,
+	YEHLE_CONFIGURATION_FILENAME,
+} from "./constants";
+
+/** Whether each declared feature is selected, by feature name. */
+export type TemplateFeatureSelection = Record<string, boolean>;
+
+/** CLI flags that select or deselect template features. */
+export type TemplateFeatureFlags = {
+	/** Features passed via --feature. */
+	enableFeatures?: string[];
+	/** Features passed via --no-feature. */
+	disableFeatures?: string[];
+};
+
+/**
+ * Parse repeated --feature / --no-feature flags.
+ * @param raw - Raw option value from cac (undefined, a single value or an array of values); values may be comma-separated.
+ * @returns Unique feature names in the order given.
+ */
+export function parseFeatureFlags(raw: unknown): string[] {
+	const flags = raw === undefined ? [] : Array.isArray(raw) ? raw : [raw];
+	const names = flags
+		.flatMap((flag) => String(flag).split(","))
+		.map((name) => name.trim())
+		.filter(Boolean);
+	return [...new Set(names)];
+}
+
+/**
+ * Normalize a feature file path for comparison ("./playground/" -> "playground").
+ * @param file - Path relative to the project root.
+ * @returns The path with forward slashes and without leading "./" or trailing slashes.
+ */
+function normalizeFeatureFile(file: string): string {
+	return path.posix
+		.normalize(file.replaceAll("\\", "/"))
+		.replace(/^(\.\/)+/, "")
+		.replace(/\/+$/, "");
+}
+
+/**
+ * Check that a feature definition is well-formed.
+ * @param name - Feature name.
+ * @param feature - Raw definition from yehle.yaml.
+ * @returns Nothing; the definition is valid when no error is thrown.
+ * @throws Error describing the first problem found.
+ */
+export function validateFeatureDefinition(
+	name: string,
+	feature: unknown,
+): asserts feature is TemplateFeature {
+	const fail = (reason: string): never => {
+		throw new Error(`Invalid template feature "${name}": ${reason}.`);
+	};
+
+	if (!feature || typeof feature !== "object" || Array.isArray(feature))
+		fail("expected a mapping");
+	const def = feature as Record<string, unknown>;
+	if (def.description !== undefined && typeof def.description !== "string")
+		fail("description must be a string");
+	if (def.default !== undefined && typeof def.default !== "boolean")
+		fail("default must be a boolean");
+
+	if (def.files !== undefined) {
+		if (!Array.isArray(def.files)) fail("files must be a list of paths");
+		for (const file of def.files as unknown[]) {
+			if (typeof file !== "string" || !file.trim())
+				fail("files must be a list of paths");
+			const normalized = normalizeFeatureFile(file as string);
+			if (
+				path.posix.isAbsolute(normalized) ||
+				path.win32.isAbsolute(normalized) ||
+				normalized === "." ||
+				normalized === ".." ||
+				normalized.startsWith("../")
+			)
+				fail(`file "${file}" must be a path inside the project`);
+		}
+	}
+
+	const packageJson = def.packageJson;
+	if (
+		packageJson !== undefined &&
+		(!packageJson ||
+			typeof packageJson !== "object" ||
+			Array.isArray(packageJson))
+	)
+		fail("packageJson must be a mapping");
+}
+
+/**
+ * Read the optional features declared in a template's yehle.yaml.
+ * @param templateDir - Absolute path to the template directory.
+ * @returns Promise resolving to the feature definitions by name, in declaration order; empty when there is no yehle.yaml or no features: section.
+ * @throws Error when yehle.yaml cannot be parsed or a feature definition is invalid.
+ */
+export async function readTemplateFeatures(
+	templateDir: string,
+): Promise<Record<string, TemplateFeature>> {
+	const filePath = path.join(templateDir, YEHLE_CONFIGURATION_FILENAME);
+
+	let raw: string;
+	try {
+		raw = await fs.promises.readFile(filePath, "utf8");
+	} catch {
+		// No yehle.yaml
+		return {};
+	}
+
+	let data: unknown;
+	try {
+		data = parseYaml(raw);
+	} catch (e) {
+		const msg = e instanceof Error ? e.message : String(e);
+		throw new Error(`Failed to parse ${filePath}: ${msg}`);
+	}
+
+	const features = (data as { features?: unknown } | null)?.features;
+	if (features === undefined || features === null) return {};
+	if (typeof features !== "object" || Array.isArray(features))
+		throw new Error(
+			`Invalid features in ${filePath}: expected a mapping of feature names to definitions.`,
+		);
+
+	for (const [name, feature] of Object.entries(features))
+		validateFeatureDefinition(name, feature ?? {});
+	return Object.fromEntries(
+		Object.entries(features).map(([name, feature]) => [name, feature ?? {}]),
+	);
+}
+
+/**
+ * Turn --feature / --no-feature flags into a (partial) selection.
+ * @param definitions - Feature definitions of the chosen template.
+ * @param flags - Feature names passed via --feature and --no-feature.
+ * @param template - Template name (for error messages).
+ * @returns Selection for the features named by a flag; features without a flag are left out.
+ * @throws Error when a flag names an undeclared feature or a feature is both enabled and disabled.
+ */
+export function resolveFeatureFlags(
+	definitions: Record<string, TemplateFeature>,
+	flags: TemplateFeatureFlags,
+	template: string,
+): TemplateFeatureSelection {
+	const declared = Object.keys(definitions);
+	const enabled = flags.enableFeatures ?? [];
+	const disabled = flags.disableFeatures ?? [];
+
+	for (const name of [...enabled, ...disabled]) {
+		if (!declared.includes(name))
+			throw new Error(
+				`Unknown feature "${name}" for template "${template}" (declared: ${declared.join(", ") || "none"}).`,
+			);
+	}
+	const conflicting = enabled.filter((name) => disabled.includes(name));
+	if (conflicting.length > 0)
+		throw new Error(
+			`Feature "${conflicting[0]}" was passed to both --feature and --no-feature.`,
+		);
+
+	return {
+		...Object.fromEntries(enabled.map((name) => [name, true])),
+		...Object.fromEntries(disabled.map((name) => [name, false])),
+	};
+}
+
+/**
+ * Whether a feature is selected by default.
+ * @param feature - Feature definition.
+ * @returns The declared default, or true when none is declared.
+ */
+export function isFeatureSelectedByDefault(feature: TemplateFeature): boolean {
+	return feature.default ?? true;
+}
+
+/**
+ * Get the files owned by unselected features.
+ * Files that a selected feature also owns are kept.
+ * @param definitions - Feature definitions of the chosen template.
+ * @param selection - Selected features; features missing from the selection use their default.
+ * @returns Normalized paths (relative to the project root) to remove.
+ */
+export function getUnselectedFeatureFiles(
+	definitions: Record<string, TemplateFeature>,
+	selection: TemplateFeatureSelection,
+): string[] {
+	const kept = new Set<string>();
+	const removed = new Set<string>();
+	for (const [name, feature] of Object.entries(definitions)) {
+		const selected = selection[name] ?? isFeatureSelectedByDefault(feature);
+		for (const file of feature.files ?? [])
+			(selected ? kept : removed).add(normalizeFeatureFile(file));
+	}
+	return [...removed].filter((file) => !kept.has(file));
+}
+
+/**
+ * Get the package.json fragments of the selected features.
+ * @param definitions - Feature definitions of the chosen template.
+ * @param selection - Selected features; features missing from the selection use their default.
+ * @returns Fragments in declaration order.
+ */
+export function getSelectedPackageJsonFragments(
+	definitions: Record<string, TemplateFeature>,
+	selection: TemplateFeatureSelection,
+): Record<string, unknown>[] {
+	return Object.entries(definitions)
+		.filter(
+			([name, feature]) =>
+				selection[name] ?? isFeatureSelectedByDefault(feature),
+		)
+		.flatMap(([, feature]) =>
+			feature.packageJson ? [feature.packageJson] : [],
+		);
+}
+
+/**
+ * Remove the files and directories owned by unselected features from a generated project.
+ * @param targetDir - Project root directory.
+ * @param definitions - Feature definitions of the chosen template.
+ * @param selection - Selected features; features missing from the selection use their default.
+ * @returns Promise that resolves when the files have been removed (missing files are ignored).
+ */
+export async function removeUnselectedFeatureFiles(
+	targetDir: string,
+	definitions: Record<string, TemplateFeature>,
+	selection: TemplateFeatureSelection,
+): Promise<void> {
+	for (const file of getUnselectedFeatureFiles(definitions, selection)) {
+		await fs.promises.rm(path.join(targetDir, file), {
+			recursive: true,
+			force: true,
+		});
+	}
+}
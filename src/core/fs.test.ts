@@ -9,10 +9,12 @@ import {
 	copyFileSafeAsync,
 	ensureDirAsync,
 	isDirAsync,
+	mergeIntoJSONFile,
+	readMustachePartials,
 	removeFilesByBasename,
 	removeMatchingFilesRecursively,
 	renderMustacheTemplates,
-	stripKeyFromJSONFile,
+	upsertMarkdownSection,
 	writeFileAsync,
 } from "./fs";
 
@@ -91,40 +93,103 @@ describe("core/fs", () => {
 		});
 	});
 
-	describe("stripKeyFromJSONFile", () => {
-		it("removes the specified key from a JSON file", async () => {
+	describe("mergeIntoJSONFile", () => {
+		it("deep-merges fragments in order", async () => {
 			const root = makeTempDir();
-			const file = path.join(root, "config.json");
+			const file = path.join(root, "package.json");
 			fs.writeFileSync(
 				file,
-				JSON.stringify({ root: false, other: "value" }, null, "\t"),
+				JSON.stringify({ name: "pkg", scripts: { build: "tsdown" } }),
 				"utf8",
 			);
 
-			await stripKeyFromJSONFile(file, "root");
+			await mergeIntoJSONFile(file, [
+				{ scripts: { playground: "vite" }, files: ["dist"] },
+				{ scripts: { build: "tsc" } },
+			]);
 
-			const data = JSON.parse(fs.readFileSync(file, "utf8"));
-			expect(data).toEqual({ other: "value" });
-			expect(data.root).toBeUndefined();
+			expect(JSON.parse(fs.readFileSync(file, "utf8"))).toEqual({
+				name: "pkg",
+				scripts: { build: "tsc", playground: "vite" },
+				files: ["dist"],
+			});
 		});
 
-		it("no-ops when file does not exist", async () => {
+		it("no-ops without fragments or when the file does not exist", async () => {
 			const root = makeTempDir();
-			const file = path.join(root, "missing.json");
+			const file = path.join(root, "config.json");
+			fs.writeFileSync(file, '{ "a": 1 }', "utf8");
 
-			await expect(stripKeyFromJSONFile(file, "root")).resolves.toBeUndefined();
+			await mergeIntoJSONFile(file, []);
+			await mergeIntoJSONFile(path.join(root, "missing.json"), [{ a: 2 }]);
+
+			expect(fs.readFileSync(file, "utf8")).toBe('{ "a": 1 }');
+			expect(fs.existsSync(path.join(root, "missing.json"))).toBe(false);
 		});
 
-		it("leaves JSON unchanged when key does not exist", async () => {
+		it("throws for invalid JSON and non-object roots", async () => {
 			const root = makeTempDir();
-			const file = path.join(root, "config.json");
-			const original = { foo: "bar", baz: 42 };
-			fs.writeFileSync(file, JSON.stringify(original, null, "\t"), "utf8");
+			const invalid = path.join(root, "invalid.json");
+			const list = path.join(root, "list.json");
+			fs.writeFileSync(invalid, "{ nope", "utf8");
+			fs.writeFileSync(list, "[]", "utf8");
+
+			await expect(mergeIntoJSONFile(invalid, [{ a: 1 }])).rejects.toThrow(
+				"Failed to parse",
+			);
+			await expect(mergeIntoJSONFile(list, [{ a: 1 }])).rejects.toThrow(
+				"expected a JSON object",
+			);
+		});
+	});
+
+	describe("upsertMarkdownSection", () => {
+		it("creates the file with the section when missing", async () => {
+			const file = path.join(makeTempDir(), "docs", "AGENTS.md");
+			await upsertMarkdownSection(file, "essential/style", "# Style\n");
+
+			expect(fs.readFileSync(file, "utf8")).toBe(
+				"<!-- yehle:begin essential/style -->\n# Style\n<!-- yehle:end essential/style -->\n",
+			);
+		});
+
+		it("appends new sections and replaces existing ones, keeping other content", async () => {
+			const file = path.join(makeTempDir(), "notes.md");
+			writeFileSync(file, "# Hand-written\n");
+
+			await upsertMarkdownSection(file, "a", "first");
+			await upsertMarkdownSection(file, "b", "second");
+			await upsertMarkdownSection(file, "a", "updated");
+
+			expect(fs.readFileSync(file, "utf8")).toBe(
+				[
+					"# Hand-written",
+					"",
+					"<!-- yehle:begin a -->",
+					"updated",
+					"<!-- yehle:end a -->",
+					"",
+					"<!-- yehle:begin b -->",
+					"second",
+					"<!-- yehle:end b -->",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("inserts new sections in order when given a comparison", async () => {
+			const file = path.join(makeTempDir(), "AGENTS.md");
+			const byNumber = (a: string, b: string) => Number(a) - Number(b);
 
-			await stripKeyFromJSONFile(file, "nonexistent");
+			await upsertMarkdownSection(file, "3", "three", byNumber);
+			await upsertMarkdownSection(file, "1", "one", byNumber);
+			await upsertMarkdownSection(file, "2", "two", byNumber);
 
-			const data = JSON.parse(fs.readFileSync(file, "utf8"));
-			expect(data).toEqual(original);
+			expect(
+				[...fs.readFileSync(file, "utf8").matchAll(/yehle:begin (\d)/g)].map(
+					(match) => match[1],
+				),
+			).toEqual(["1", "2", "3"]);
 		});
 	});
 
@@ -378,5 +443,107 @@ describe("core/fs", () => {
 				renderMustacheTemplates(root, { foo: "bar" }),
 			).resolves.toBeUndefined();
 		});
+
+		it("renders partials with the same data and masking", async () => {
+			const root = makeTempDir();
+			writeFileSync(
+				path.join(root, "README.mustache.md"),
+				"# {{name}}\n{{> badges}}\n{{> ci/token}}\n",
+			);
+
+			await renderMustacheTemplates(
+				root,
+				{ name: "app" },
+				{
+					badges: "![{{name}}](https://img.shields.io/npm/v/{{name}})\n",
+					"ci/token": "token: ${{ secrets.NPM_TOKEN }}\n",
+				},
+			);
+
+			expect(fs.readFileSync(path.join(root, "README.md"), "utf8")).toBe(
+				"# app\n![app](https://img.shields.io/npm/v/app)\ntoken: ${{ secrets.NPM_TOKEN }}\n",
+			);
+		});
+	});
+
+	describe("renderMustacheTemplates with templated names", () => {
+		it("renders file and directory names", async () => {
+			const root = makeTempDir();
+			writeFileSync(
+				path.join(root, "packages", "{{ name }}", "src", "{{name}}.ts"),
+				"plain",
+			);
+			writeFileSync(
+				path.join(root, "packages", "{{ name }}", "{{name}}.mustache.md"),
+				"# {{name}}",
+			);
+
+			await renderMustacheTemplates(root, { name: "my-lib" });
+
+			const pkgDir = path.join(root, "packages", "my-lib");
+			expect(fs.readdirSync(path.join(root, "packages"))).toEqual(["my-lib"]);
+			expect(
+				fs.readFileSync(path.join(pkgDir, "src", "my-lib.ts"), "utf8"),
+			).toBe("plain");
+			expect(fs.readFileSync(path.join(pkgDir, "my-lib.md"), "utf8")).toBe(
+				"# my-lib",
+			);
+			expect(fs.readdirSync(pkgDir).sort()).toEqual(["my-lib.md", "src"]);
+		});
+
+		it("reports a name that renders to an existing path", async () => {
+			const root = makeTempDir();
+			writeFileSync(path.join(root, "index.ts"), "existing");
+			writeFileSync(path.join(root, "{{entry}}.ts"), "templated");
+
+			await expect(
+				renderMustacheTemplates(root, { entry: "index" }),
+			).rejects.toThrow(
+				`Cannot render "${path.join(root, "{{entry}}.ts")}": "${path.join(root, "index.ts")}" already exists.`,
+			);
+		});
+
+		it("reports names that render to the same path", async () => {
+			const root = makeTempDir();
+			writeFileSync(path.join(root, "{{a}}.ts"), "a");
+			writeFileSync(path.join(root, "{{b}}.ts"), "b");
+
+			await expect(
+				renderMustacheTemplates(root, { a: "same", b: "same" }),
+			).rejects.toThrow("is also rendered from");
+		});
+
+		it.each([
+			["an empty name", "{{missing}}"],
+			["a path separator", "{{name}}.ts"],
+		])("rejects a name that renders to %s", async (_case, name) => {
+			const root = makeTempDir();
+			writeFileSync(path.join(root, name), "");
+
+			await expect(
+				renderMustacheTemplates(root, { name: "@scope/pkg" }),
+			).rejects.toThrow("which is not a valid file name");
+		});
+	});
+
+	describe("readMustachePartials", () => {
+		it("names partials by relative path without .mustache and the extension", async () => {
+			const root = makeTempDir();
+			writeFileSync(path.join(root, "badges.md"), "badges");
+			writeFileSync(path.join(root, "ci", "setup.mustache.yml"), "setup");
+			writeFileSync(path.join(root, "LICENSE"), "license");
+
+			await expect(readMustachePartials(root)).resolves.toEqual({
+				badges: "badges",
+				"ci/setup": "setup",
+				LICENSE: "license",
+			});
+		});
+
+		it("returns no partials when the directory does not exist", async () => {
+			const root = path.join(makeTempDir(), "partials");
+
+			await expect(readMustachePartials(root)).resolves.toEqual({});
+		});
 	});
 });
@@ -1,6 +1,7 @@
 import fs from "node:fs";
 import path from "node:path";
 import mustache from "mustache";
+import { deepMerge, isPlainObject } from "./utils";
 
 /**
  * Check whether a path exists and is a directory.
@@ -147,89 +148,310 @@ export async function removeFilesByBasename(
 }
 
 /**
- * Read a JSON file, remove a key from the root object if present, and write it back.
- * No-op when the file does not exist or is invalid JSON.
+ * Read a JSON file, deep-merge fragments into its root object in order, and write it back.
+ * No-op when there are no fragments or the file does not exist.
  * @param filePath - Absolute path to the JSON file.
- * @param key - Key to remove from the root object.
- * @returns Promise that resolves when the file has been updated, or when the file is missing/invalid.
+ * @param fragments - Objects to merge; nested objects are merged, other values replace existing ones.
+ * @returns Promise that resolves when the file has been updated.
+ * @throws Error when the file exists but is not a JSON object.
  */
-export async function stripKeyFromJSONFile(
+export async function mergeIntoJSONFile(
 	filePath: string,
-	key: string,
+	fragments: Record<string, unknown>[],
 ): Promise<void> {
+	if (fragments.length === 0) return;
+
+	let content: string;
+	try {
+		content = await fs.promises.readFile(filePath, "utf8");
+	} catch {
+		// File missing; nothing to merge into
+		return;
+	}
+
+	let config: unknown;
+	try {
+		config = JSON.parse(content);
+	} catch (e) {
+		const msg = e instanceof Error ? e.message : String(e);
+		throw new Error(`Failed to parse ${filePath}: ${msg}`);
+	}
+	if (!isPlainObject(config))
+		throw new Error(`Cannot merge into ${filePath}: expected a JSON object.`);
+
+	const merged = fragments.reduce<Record<string, unknown>>(
+		(acc, fragment) => deepMerge(acc, fragment),
+		config,
+	);
+	await fs.promises.writeFile(
+		filePath,
+		`${JSON.stringify(merged, null, "\t")}\n`,
+	);
+}
+
+/**
+ * Write a section of a markdown file that yehle manages, between `<!-- yehle:begin id -->` and `<!-- yehle:end id -->`.
+ * An existing section with the same id is replaced in place; otherwise the section is appended,
+ * or with compare, inserted before the first managed section that sorts after it.
+ * Everything outside the markers is left untouched, so the file can also hold hand-written content.
+ * @param filePath - Absolute path to the markdown file (created when missing).
+ * @param id - Section identifier (e.g. "essential/code-style").
+ * @param content - Section body, without the markers.
+ * @param compare - Optional ordering of section ids (negative when the first sorts before the second).
+ * @returns Promise that resolves when the file has been written.
+ */
+export async function upsertMarkdownSection(
+	filePath: string,
+	id: string,
+	content: string,
+	compare?: (a: string, b: string) => number,
+): Promise<void> {
+	let existing = "";
 	try {
-		await fs.promises.access(filePath);
-		const content = await fs.promises.readFile(filePath, "utf8");
-		const config = JSON.parse(content) as Record<string, unknown>;
-		delete config[key];
-		await fs.promises.writeFile(
+		existing = await fs.promises.readFile(filePath, "utf8");
+	} catch {
+		// File missing; start a new one
+	}
+
+	const begin = `<!-- yehle:begin ${id} -->`;
+	const end = `<!-- yehle:end ${id} -->`;
+	const section = `${begin}\n${content.trim()}\n${end}`;
+
+	const beginIndex = existing.indexOf(begin);
+	const endIndex = beginIndex === -1 ? -1 : existing.indexOf(end, beginIndex);
+	if (endIndex !== -1) {
+		await writeFileAsync(
 			filePath,
-			`${JSON.stringify(config, null, "\t")}\n`,
+			existing.slice(0, beginIndex) +
+				section +
+				existing.slice(endIndex + end.length),
 		);
-	} catch {
-		// File missing or invalid JSON; ignore
+		return;
+	}
+
+	const next = compare
+		? [...existing.matchAll(/<!-- yehle:begin (\S+) -->/g)].find(
+				(match) => compare(match[1], id) > 0,
+			)
+		: undefined;
+	const updated =
+		next?.index !== undefined
+			? `${existing.slice(0, next.index)}${section}\n\n${existing.slice(next.index)}`
+			: existing.trim()
+				? `${existing.trimEnd()}\n\n${section}\n`
+				: `${section}\n`;
+	await writeFileAsync(filePath, updated);
+}
+
+/** GitHub Actions expressions (e.g. ${{ secrets.X }}), which mustache would otherwise read as tags. */
+export const GITHUB_EXPRESSION_PATTERN = /\$\{\{[\s\S]*?\}\}/g;
+
+/**
+ * Render mustache content the way template files are rendered: without HTML escaping
+ * and leaving GitHub Actions expressions untouched.
+ * @param template - Mustache template.
+ * @param data - Key/value pairs used for mustache interpolation.
+ * @param partials - Partials by name, available as {{> name}}.
+ * @returns The rendered content.
+ */
+export function renderMustacheContent(
+	template: string,
+	data: Record<string, unknown>,
+	partials: Record<string, string> = {},
+): string {
+	// Preserve GitHub Actions expressions like ${{ secrets.X }} by masking them before rendering.
+	const ghExprs: string[] = [];
+	const mask = (content: string) =>
+		content.replaceAll(GITHUB_EXPRESSION_PATTERN, (m) => {
+			const token = `__GH_EXPR_${ghExprs.length}__`;
+			ghExprs.push(m);
+			return token;
+		});
+	const masked = mask(template);
+	const maskedPartials = Object.fromEntries(
+		Object.entries(partials).map(([partialName, content]) => [
+			partialName,
+			mask(content),
+		]),
+	);
+
+	const previousEscape = mustache.escape;
+	try {
+		// Disable HTML escaping to preserve literal "/" and other characters during render
+		// This is safe because the rendered content is written to files, not directly to HTML output
+		mustache.escape = (s: string) => s;
+
+		let rendered = mustache.render(masked, data, maskedPartials);
+
+		// Restore masked GitHub Actions expressions
+		ghExprs.forEach((expr, i) => {
+			const token = `__GH_EXPR_${i}__`;
+			rendered = rendered.split(token).join(expr);
+		});
+		return rendered;
+	} finally {
+		// Restore original Mustache escape behavior
+		mustache.escape = previousEscape;
 	}
 }
 
+/**
+ * Render a file or directory name that contains mustache tags.
+ * @param dir - Directory containing the entry (for error messages).
+ * @param name - Entry name, e.g. "{{ name }}.ts".
+ * @param data - Key/value pairs used for mustache interpolation.
+ * @returns The rendered name (unchanged when it has no tags).
+ * @throws Error when the name renders to an empty name, "." / "..", or a name containing a path separator.
+ */
+function renderMustacheName(
+	dir: string,
+	name: string,
+	data: Record<string, unknown>,
+): string {
+	if (!name.includes("{{")) return name;
+
+	const previousEscape = mustache.escape;
+	let rendered: string;
+	try {
+		mustache.escape = (s: string) => s;
+		rendered = mustache.render(name, data);
+	} finally {
+		mustache.escape = previousEscape;
+	}
+
+	if (
+		!rendered ||
+		rendered === "." ||
+		rendered === ".." ||
+		/[\\/]/.test(rendered)
+	)
+		throw new Error(
+			`Cannot render "${path.join(dir, name)}": the name renders to "${rendered}", which is not a valid file name.`,
+		);
+	return rendered;
+}
+
 /**
  * Recursively find all *.mustache.* files in targetDir, render them using the provided data,
  * write the rendered content to the same path with ".mustache." removed, and remove the original.
  * Example: package.mustache.json -> package.json, config.mustache.ts -> config.ts
+ * File and directory names containing mustache tags are rendered too (e.g. src/{{ name }}.ts -> src/my-lib.ts).
  * @param targetDir - Root directory to search.
  * @param data - Key/value pairs used for mustache interpolation.
+ * @param partials - Partial templates by name, available as {{> name}}.
  * @returns Promise that resolves when all mustache files have been rendered and replaced.
+ * @throws Error when a templated name is invalid once rendered, or renders to a path that already exists or that another entry renders to.
  */
 export async function renderMustacheTemplates(
 	targetDir: string,
 	data: Record<string, unknown>,
+	partials: Record<string, string> = {},
 ): Promise<void> {
-	let entries: fs.Dirent[] = [];
-	try {
-		entries = await fs.promises.readdir(targetDir, { withFileTypes: true });
-	} catch {
-		return;
-	}
+	// Rendered paths of templated names, mapped to the entry they were rendered from
+	const renderedFrom = new Map<string, string>();
 
-	for (const entry of entries) {
-		const full = path.join(targetDir, entry.name);
-		if (entry.isDirectory()) {
-			await renderMustacheTemplates(full, data);
-		} else if (entry.isFile() && /\.mustache\./i.test(entry.name)) {
-			const raw = await fs.promises.readFile(full, "utf8");
-
-			// Preserve GitHub Actions expressions like ${{ secrets.X }} by masking them before rendering.
-			const ghExprPattern = /\$\{\{[\s\S]*?\}\}/g;
-			const ghExprs: string[] = [];
-			const masked = raw.replaceAll(ghExprPattern, (m) => {
-				const token = `__GH_EXPR_${ghExprs.length}__`;
-				ghExprs.push(m);
-				return token;
-			});
-
-			const previousEscape = mustache.escape;
-			try {
-				// Disable HTML escaping to preserve literal "/" and other characters during render
-				// This is safe because the rendered content is written to files, not directly to HTML output
-				mustache.escape = (s: string) => s;
-
-				let rendered = mustache.render(masked, data);
-
-				// Restore masked GitHub Actions expressions
-				ghExprs.forEach((expr, i) => {
-					const token = `__GH_EXPR_${i}__`;
-					rendered = rendered.split(token).join(expr);
-				});
-
-				const dest = path.join(
-					path.dirname(full),
-					entry.name.replace(/\.mustache\./i, "."),
+	/**
+	 * Claim the destination of a templated name, reporting collisions.
+	 * @param source - Original path of the entry.
+	 * @param dest - Path the entry renders to.
+	 */
+	const claim = async (source: string, dest: string): Promise<void> => {
+		const other = renderedFrom.get(dest);
+		if (other)
+			throw new Error(
+				`Cannot render "${source}": "${dest}" is also rendered from "${other}".`,
+			);
+		let exists = true;
+		try {
+			await fs.promises.access(dest);
+		} catch {
+			exists = false;
+		}
+		if (exists)
+			throw new Error(`Cannot render "${source}": "${dest}" already exists.`);
+		renderedFrom.set(dest, source);
+	};
+
+	const renderDir = async (dir: string): Promise<void> => {
+		let entries: fs.Dirent[] = [];
+		try {
+			entries = await fs.promises.readdir(dir, { withFileTypes: true });
+		} catch {
+			return;
+		}
+
+		for (const entry of entries) {
+			let full = path.join(dir, entry.name);
+			const name = renderMustacheName(dir, entry.name, data);
+
+			if (entry.isDirectory()) {
+				if (name !== entry.name) {
+					const dest = path.join(dir, name);
+					await claim(full, dest);
+					await fs.promises.rename(full, dest);
+					full = dest;
+				}
+				await renderDir(full);
+			} else if (entry.isFile()) {
+				const isMustacheFile = /\.mustache\./i.test(name);
+				const dest = path.join(dir, name.replace(/\.mustache\./i, "."));
+				if (name !== entry.name) await claim(full, dest);
+				if (!isMustacheFile) {
+					if (dest !== full) await fs.promises.rename(full, dest);
+					continue;
+				}
+
+				const raw = await fs.promises.readFile(full, "utf8");
+				await fs.promises.writeFile(
+					dest,
+					renderMustacheContent(raw, data, partials),
+					"utf8",
 				);
-				await fs.promises.writeFile(dest, rendered, "utf8");
 				await fs.promises.rm(full, { force: true });
-			} finally {
-				// Restore original Mustache escape behavior
-				mustache.escape = previousEscape;
 			}
 		}
-	}
+	};
+
+	await renderDir(targetDir);
+}
+
+/**
+ * Read mustache partials from a directory tree.
+ * Each file is named by its path relative to the directory without ".mustache" and its extension
+ * (e.g. badges.md -> "badges", ci/setup.mustache.yml -> "ci/setup").
+ * @param partialsDir - Directory containing the partials.
+ * @returns Promise resolving to the partial contents by name; empty when the directory does not exist.
+ */
+export async function readMustachePartials(
+	partialsDir: string,
+): Promise<Record<string, string>> {
+	const partials: Record<string, string> = {};
+
+	/** Read the partials of a subdirectory, naming them relative to partialsDir. */
+	const readDir = async (dir: string): Promise<void> => {
+		let entries: fs.Dirent[] = [];
+		try {
+			entries = await fs.promises.readdir(dir, { withFileTypes: true });
+		} catch {
+			return;
+		}
+
+		for (const entry of entries) {
+			const full = path.join(dir, entry.name);
+			if (entry.isDirectory()) await readDir(full);
+			else if (entry.isFile()) {
+				const relative = path
+					.relative(partialsDir, full)
+					.split(path.sep)
+					.join("/");
+				const name = relative
+					.replace(/\.mustache(?=\.|$)/i, "")
+					.replace(/(?<=[^/])\.[^./]+$/, "");
+				partials[name] = await fs.promises.readFile(full, "utf8");
+			}
+		}
+	};
+
+	await readDir(partialsDir);
+	return partials;
 }
@@ -5,6 +5,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
 	getGitEmail,
 	getGitUsername,
+	getHeadCommit,
 	initGitRepo,
 	isGitRepo,
 	makeInitialCommit,
@@ -85,6 +86,28 @@ describe("core/git", () => {
 		});
 	});
 
+	describe("getHeadCommit", () => {
+		it("returns the trimmed HEAD commit", async () => {
+			runAsyncSpy.mockResolvedValue("abc123\n");
+
+			const result = await getHeadCommit("/repo");
+
+			expect(runAsyncSpy).toHaveBeenCalledWith("git rev-parse HEAD", {
+				cwd: "/repo",
+				stdio: "pipe",
+			});
+			expect(result).toBe("abc123");
+		});
+
+		it("returns undefined when git fails", async () => {
+			runAsyncSpy.mockRejectedValue(new Error("not a git repository"));
+
+			const result = await getHeadCommit("/tmp");
+
+			expect(result).toBeUndefined();
+		});
+	});
+
 	describe("isGitRepo", () => {
 		it("returns true when .git directory exists", () => {
 			const cwd = "/project/root";
@@ -34,6 +34,21 @@ export async function getGitEmail(): Promise<string | undefined> {
 	return await readGitConfig("user.email");
 }
 
+/**
+ * Get the commit SHA that HEAD points at in a git checkout.
+ * @param cwd - Absolute path to a directory inside the checkout.
+ * @returns The full commit SHA, or undefined when cwd is not a git checkout or has no commits.
+ */
+export async function getHeadCommit(cwd: string): Promise<string | undefined> {
+	try {
+		const out = await runAsync("git rev-parse HEAD", { cwd, stdio: "pipe" });
+		const sha = out.trim();
+		return sha.length ? sha : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
 /**
  * Determine whether a directory already contains a git repository.
  * @param cwd - Absolute path to the target directory.
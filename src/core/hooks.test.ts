@@ -0,0 +1,130 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./shell", () => ({
+	runAsync: vi.fn(),
+}));
+
+// Import after mocks
+import {
+	listTemplateHookCommands,
+	mergeTemplateHooks,
+	readTemplateHooks,
+	runTemplateHook,
+} from "./hooks";
+import { runAsync } from "./shell";
+
+describe("core/hooks", () => {
+	let templateDir: string;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		templateDir = fs.mkdtempSync(path.join(os.tmpdir(), "hooks-test-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(templateDir, { recursive: true, force: true });
+	});
+
+	describe("readTemplateHooks", () => {
+		it("should return no hooks when yehle.yaml or the section is missing", async () => {
+			await expect(readTemplateHooks(templateDir)).resolves.toEqual({});
+
+			fs.writeFileSync(path.join(templateDir, "yehle.yaml"), "features:\n");
+			await expect(readTemplateHooks(templateDir)).resolves.toEqual({});
+		});
+
+		it("should turn single commands into lists", async () => {
+			fs.writeFileSync(
+				path.join(templateDir, "yehle.yaml"),
+				[
+					"hooks:",
+					"  postGenerate:",
+					"    - pnpm install",
+					"    - ' pnpm exec biome format --write '",
+					"  postCopy: node scripts/setup.js",
+					"  postRender:",
+					"",
+				].join("\n"),
+			);
+
+			await expect(readTemplateHooks(templateDir)).resolves.toEqual({
+				postGenerate: ["pnpm install", "pnpm exec biome format --write"],
+				postCopy: ["node scripts/setup.js"],
+			});
+		});
+
+		it("should throw on invalid YAML, sections, stages and commands", async () => {
+			const file = path.join(templateDir, "yehle.yaml");
+
+			fs.writeFileSync(file, "hooks: [\n");
+			await expect(readTemplateHooks(templateDir)).rejects.toThrow(
+				"Failed to parse",
+			);
+
+			fs.writeFileSync(file, "hooks:\n  - pnpm install\n");
+			await expect(readTemplateHooks(templateDir)).rejects.toThrow(
+				"Invalid hooks",
+			);
+
+			fs.writeFileSync(file, "hooks:\n  preCopy: echo hi\n");
+			await expect(readTemplateHooks(templateDir)).rejects.toThrow(
+				'unknown stage "preCopy"',
+			);
+
+			fs.writeFileSync(file, "hooks:\n  postGenerate: [pnpm install, 1]\n");
+			await expect(readTemplateHooks(templateDir)).rejects.toThrow(
+				"postGenerate must be a command or a list of commands.",
+			);
+		});
+	});
+
+	describe("mergeTemplateHooks", () => {
+		it("should concatenate each stage's commands in layer order", () => {
+			expect(
+				mergeTemplateHooks([
+					{ postGenerate: ["pnpm install"] },
+					{},
+					{ postCopy: ["node copy.js"], postGenerate: ["pnpm build"] },
+				]),
+			).toEqual({
+				postCopy: ["node copy.js"],
+				postGenerate: ["pnpm install", "pnpm build"],
+			});
+			expect(mergeTemplateHooks([])).toEqual({});
+		});
+	});
+
+	describe("listTemplateHookCommands", () => {
+		it("should list commands in stage order", () => {
+			expect(
+				listTemplateHookCommands({
+					postGenerate: ["pnpm install"],
+					postCopy: ["node a.js", "node b.js"],
+				}),
+			).toEqual(["node a.js", "node b.js", "pnpm install"]);
+			expect(listTemplateHookCommands({})).toEqual([]);
+		});
+	});
+
+	describe("runTemplateHook", () => {
+		it("should run the command in the project directory", async () => {
+			await runTemplateHook("/path/to/project", "pnpm install");
+
+			expect(runAsync).toHaveBeenCalledWith("pnpm install", {
+				cwd: "/path/to/project",
+				timeoutMs: expect.any(Number),
+			});
+		});
+
+		it("should name the hook when the command fails", async () => {
+			vi.mocked(runAsync).mockRejectedValueOnce(new Error("exit code 1"));
+
+			await expect(
+				runTemplateHook("/path/to/project", "pnpm install"),
+			).rejects.toThrow('Hook "pnpm install" failed: exit code 1');
+		});
+	});
+});
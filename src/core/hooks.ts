@@ -0,0 +1,116 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import {
+	TEMPLATE_HOOK_STAGES,
+	type TemplateHookStage,
+	type TemplateHooks,
+	YEHLE_CONFIGURATION_FILENAME,
+} from "./constants";
+import { runAsync } from "./shell";
+
+/** CLI flags that control template hooks. */
+export type TemplateHookFlags = {
+	/** Skip every hook (--no-hooks). */
+	skipHooks?: boolean;
+};
+
+/** Time a single hook command may run before it is stopped. */
+const HOOK_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Read the hooks declared in a template's yehle.yaml.
+ * @param templateDir - Absolute path to the template directory.
+ * @returns Promise resolving to the commands by stage (single commands are turned into lists); empty when there is no yehle.yaml or no hooks: section.
+ * @throws Error when yehle.yaml cannot be parsed or the hooks are invalid.
+ */
+export async function readTemplateHooks(
+	templateDir: string,
+): Promise<TemplateHooks> {
+	const filePath = path.join(templateDir, YEHLE_CONFIGURATION_FILENAME);
+
+	let raw: string;
+	try {
+		raw = await fs.promises.readFile(filePath, "utf8");
+	} catch {
+		// No yehle.yaml
+		return {};
+	}
+
+	let data: unknown;
+	try {
+		data = parseYaml(raw);
+	} catch (e) {
+		const msg = e instanceof Error ? e.message : String(e);
+		throw new Error(`Failed to parse ${filePath}: ${msg}`);
+	}
+
+	const hooks = (data as { hooks?: unknown } | null)?.hooks;
+	if (hooks === undefined || hooks === null) return {};
+	if (typeof hooks !== "object" || Array.isArray(hooks))
+		throw new Error(
+			`Invalid hooks in ${filePath}: expected a mapping of ${TEMPLATE_HOOK_STAGES.join(", ")} to commands.`,
+		);
+
+	const result: TemplateHooks = {};
+	for (const [stage, value] of Object.entries(hooks)) {
+		if (!TEMPLATE_HOOK_STAGES.includes(stage as TemplateHookStage))
+			throw new Error(
+				`Invalid hooks in ${filePath}: unknown stage "${stage}" (expected ${TEMPLATE_HOOK_STAGES.join(", ")}).`,
+			);
+		if (value === null || value === undefined) continue;
+
+		const commands = Array.isArray(value) ? value : [value];
+		if (commands.some((cmd) => typeof cmd !== "string" || !cmd.trim()))
+			throw new Error(
+				`Invalid hooks in ${filePath}: ${stage} must be a command or a list of commands.`,
+			);
+		result[stage as TemplateHookStage] = commands.map((cmd: string) =>
+			cmd.trim(),
+		);
+	}
+	return result;
+}
+
+/**
+ * Merge the hooks of every template layer, stage by stage.
+ * @param layers - Hooks of each layer, in the order the layers are applied.
+ * @returns Commands by stage, with the commands of earlier layers first.
+ */
+export function mergeTemplateHooks(layers: TemplateHooks[]): TemplateHooks {
+	const result: TemplateHooks = {};
+	for (const stage of TEMPLATE_HOOK_STAGES) {
+		const commands = layers.flatMap((hooks) => hooks[stage] ?? []);
+		if (commands.length > 0) result[stage] = commands;
+	}
+	return result;
+}
+
+/**
+ * List every command of a template's hooks in the order they run.
+ * @param hooks - Hooks by stage.
+ * @returns Commands of postCopy, then postRender, then postGenerate.
+ */
+export function listTemplateHookCommands(hooks: TemplateHooks): string[] {
+	return TEMPLATE_HOOK_STAGES.flatMap((stage) => hooks[stage] ?? []);
+}
+
+/**
+ * Run a hook command inside the generated project.
+ * Commands are split into arguments and run without a shell, so pipes, redirects and && are not supported.
+ * @param targetDir - Project root directory (the working directory of the command).
+ * @param command - Command to run (e.g. "pnpm install").
+ * @returns Promise that resolves when the command has exited successfully.
+ * @throws Error naming the hook when the command cannot be started, fails or times out.
+ */
+export async function runTemplateHook(
+	targetDir: string,
+	command: string,
+): Promise<void> {
+	try {
+		await runAsync(command, { cwd: targetDir, timeoutMs: HOOK_TIMEOUT_MS });
+	} catch (e) {
+		const msg = e instanceof Error ? e.message : String(e);
+		throw new Error(`Hook "${command}" failed: ${msg}`);
+	}
+}
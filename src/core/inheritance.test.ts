@@ -0,0 +1,169 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./templates", () => ({
+	resolveTemplatesDir: vi.fn(),
+}));
+
+// Import after mocks
+import {
+	applyDeletionMarkers,
+	mergeInheritedLists,
+	parseTemplateReference,
+	readTemplateExtends,
+	resolveTemplateChain,
+} from "./inheritance";
+import { resolveTemplatesDir } from "./templates";
+
+describe("core/inheritance", () => {
+	let tmpDir: string;
+
+	/**
+	 * Create a template directory under the temporary templates root.
+	 * @param reference - Template reference (e.g. "typescript/package/react").
+	 * @param yaml - Optional yehle.yaml content.
+	 * @returns Absolute path to the template directory.
+	 */
+	function createTemplate(reference: string, yaml?: string): string {
+		const dir = path.join(tmpDir, reference);
+		fs.mkdirSync(dir, { recursive: true });
+		if (yaml !== undefined)
+			fs.writeFileSync(path.join(dir, "yehle.yaml"), yaml);
+		return dir;
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "inheritance-test-"));
+		vi.mocked(resolveTemplatesDir).mockImplementation(async (lang, resource) =>
+			path.join(tmpDir, lang, resource ?? ""),
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("parseTemplateReference", () => {
+		it("should split a reference into its parts", () => {
+			expect(parseTemplateReference("typescript/package/react")).toEqual({
+				lang: "typescript",
+				projectSpec: "package",
+				template: "react",
+			});
+		});
+
+		it.each([
+			"react",
+			"typescript/react",
+			"typescript/package/../react",
+			"a//b",
+		])("should reject %s", (reference) => {
+			expect(() => parseTemplateReference(reference)).toThrow(
+				`Invalid template reference "${reference}"`,
+			);
+		});
+	});
+
+	describe("readTemplateExtends", () => {
+		it("should return undefined when yehle.yaml or extends: is missing", async () => {
+			const dir = createTemplate("typescript/package/basic");
+			await expect(readTemplateExtends(dir)).resolves.toBeUndefined();
+
+			fs.writeFileSync(path.join(dir, "yehle.yaml"), "subagents: []\n");
+			await expect(readTemplateExtends(dir)).resolves.toBeUndefined();
+		});
+
+		it("should read the extended template", async () => {
+			const dir = createTemplate(
+				"typescript/package/library",
+				"extends: typescript/package/react\n",
+			);
+
+			await expect(readTemplateExtends(dir)).resolves.toBe(
+				"typescript/package/react",
+			);
+		});
+
+		it("should throw on invalid YAML and references", async () => {
+			const dir = createTemplate("typescript/package/library", "extends: [\n");
+			await expect(readTemplateExtends(dir)).rejects.toThrow("Failed to parse");
+
+			fs.writeFileSync(path.join(dir, "yehle.yaml"), "extends: [react]\n");
+			await expect(readTemplateExtends(dir)).rejects.toThrow("Invalid extends");
+
+			fs.writeFileSync(path.join(dir, "yehle.yaml"), "extends: react\n");
+			await expect(readTemplateExtends(dir)).rejects.toThrow(
+				'Invalid template reference "react"',
+			);
+		});
+	});
+
+	describe("resolveTemplateChain", () => {
+		it("should return the template alone when it extends nothing", async () => {
+			const dir = createTemplate("typescript/package/basic");
+
+			await expect(
+				resolveTemplateChain("typescript", "package", "basic"),
+			).resolves.toEqual([{ id: "typescript/package/basic", dir }]);
+		});
+
+		it("should order the chain from the root base template", async () => {
+			const react = createTemplate("typescript/package/react");
+			const library = createTemplate(
+				"typescript/package/library",
+				"extends: typescript/package/react\n",
+			);
+			const docs = createTemplate(
+				"typescript/package/docs",
+				"extends: typescript/package/library\n",
+			);
+
+			const chain = await resolveTemplateChain("typescript", "package", "docs");
+
+			expect(chain.map((layer) => layer.dir)).toEqual([react, library, docs]);
+		});
+
+		it("should report cycles", async () => {
+			createTemplate("typescript/package/a", "extends: typescript/package/b\n");
+			createTemplate("typescript/package/b", "extends: typescript/package/a\n");
+
+			await expect(
+				resolveTemplateChain("typescript", "package", "a"),
+			).rejects.toThrow(
+				"Template inheritance cycle: typescript/package/a extends typescript/package/b extends typescript/package/a.",
+			);
+		});
+	});
+
+	describe("applyDeletionMarkers", () => {
+		it("should remove markers and the files and directories they name", async () => {
+			fs.mkdirSync(path.join(tmpDir, "playground", "src"), { recursive: true });
+			fs.mkdirSync(path.join(tmpDir, "src"));
+			fs.writeFileSync(path.join(tmpDir, "src", "button.tsx"), "");
+			fs.writeFileSync(path.join(tmpDir, "src", "button.tsx.yehle-delete"), "");
+			fs.writeFileSync(path.join(tmpDir, "src", "index.ts"), "");
+			fs.writeFileSync(path.join(tmpDir, "playground.yehle-delete"), "");
+			fs.writeFileSync(path.join(tmpDir, "missing.yehle-delete"), "");
+
+			await applyDeletionMarkers(tmpDir);
+
+			expect(fs.readdirSync(tmpDir)).toEqual(["src"]);
+			expect(fs.readdirSync(path.join(tmpDir, "src"))).toEqual(["index.ts"]);
+		});
+	});
+
+	describe("mergeInheritedLists", () => {
+		it("should keep the first occurrence of each entry", () => {
+			expect(
+				mergeInheritedLists([
+					["react", "planner"],
+					[],
+					["planner", "verifier"],
+				]),
+			).toEqual(["react", "planner", "verifier"]);
+		});
+	});
+});
@@ -0,0 +1,143 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { YEHLE_CONFIGURATION_FILENAME } from "./constants";
+import { resolveTemplatesDir } from "./templates";
+
+/** Suffix of a marker file that deletes the inherited file or directory it is named after (e.g. "playground.yehle-delete"). */
+export const DELETION_MARKER_SUFFIX = ".yehle-delete";
+
+/** A template in an inheritance chain. */
+export type TemplateLayer = {
+	/** Reference to the template (e.g. "typescript/package/react"). */
+	id: string;
+	/** Absolute path to the template directory. */
+	dir: string;
+};
+
+/**
+ * Split a template reference into its parts.
+ * @param reference - Reference of the form "<lang>/<projectSpec>/<template>".
+ * @returns The language, project spec and template name.
+ * @throws Error when the reference does not have exactly three segments.
+ */
+export function parseTemplateReference(reference: string): {
+	lang: string;
+	projectSpec: string;
+	template: string;
+} {
+	const parts = reference.split("/").map((part) => part.trim());
+	if (parts.length !== 3 || parts.some((part) => !part || part === ".."))
+		throw new Error(
+			`Invalid template reference "${reference}": expected <lang>/<projectSpec>/<template> (e.g. typescript/package/react).`,
+		);
+	const [lang, projectSpec, template] = parts as [string, string, string];
+	return { lang, projectSpec, template };
+}
+
+/**
+ * Read the template a template extends from its yehle.yaml.
+ * @param templateDir - Absolute path to the template directory.
+ * @returns Promise resolving to the reference under extends:, or undefined when there is no yehle.yaml or no extends: key.
+ * @throws Error when yehle.yaml cannot be parsed or extends: is not a template reference.
+ */
+export async function readTemplateExtends(
+	templateDir: string,
+): Promise<string | undefined> {
+	const filePath = path.join(templateDir, YEHLE_CONFIGURATION_FILENAME);
+
+	let raw: string;
+	try {
+		raw = await fs.promises.readFile(filePath, "utf8");
+	} catch {
+		// No yehle.yaml
+		return undefined;
+	}
+
+	let data: unknown;
+	try {
+		data = parseYaml(raw);
+	} catch (e) {
+		const msg = e instanceof Error ? e.message : String(e);
+		throw new Error(`Failed to parse ${filePath}: ${msg}`);
+	}
+
+	const base = (data as { extends?: unknown } | null)?.extends;
+	if (base === undefined || base === null) return undefined;
+	if (typeof base !== "string")
+		throw new Error(
+			`Invalid extends in ${filePath}: expected a template reference such as typescript/package/react.`,
+		);
+	parseTemplateReference(base);
+	return base.trim();
+}
+
+/**
+ * Resolve a template and the templates it extends, following extends: in each yehle.yaml.
+ * @param lang - Language of the template.
+ * @param projectSpec - Project spec of the template (e.g. "package").
+ * @param template - Template name.
+ * @returns Promise resolving to the chain ordered from the root base template to the requested template (a single layer when it extends nothing).
+ * @throws Error when a template cannot be resolved or the chain contains a cycle.
+ */
+export async function resolveTemplateChain(
+	lang: string,
+	projectSpec: string,
+	template: string,
+): Promise<TemplateLayer[]> {
+	const chain: TemplateLayer[] = [];
+	let reference: string | undefined = `${lang}/${projectSpec}/${template}`;
+
+	while (reference) {
+		const current = parseTemplateReference(reference);
+		const id = `${current.lang}/${current.projectSpec}/${current.template}`;
+		const seen = chain.map((layer) => layer.id);
+		if (seen.includes(id))
+			throw new Error(
+				`Template inheritance cycle: ${[...seen, id].join(" extends ")}.`,
+			);
+
+		const dir = await resolveTemplatesDir(
+			current.lang,
+			`${current.projectSpec}/${current.template}`,
+		);
+		chain.push({ id, dir });
+		reference = await readTemplateExtends(dir);
+	}
+
+	return chain.reverse();
+}
+
+/**
+ * Apply the deletion markers of a copied template layer: remove each marker
+ * and the file or directory next to it that it is named after.
+ * @param targetDir - Project root directory the layer was copied into.
+ * @returns Promise that resolves when every marker has been applied (targets that do not exist are ignored).
+ */
+export async function applyDeletionMarkers(targetDir: string): Promise<void> {
+	let entries: fs.Dirent[] = [];
+	try {
+		entries = await fs.promises.readdir(targetDir, { withFileTypes: true });
+	} catch {
+		return;
+	}
+
+	for (const entry of entries) {
+		const full = path.join(targetDir, entry.name);
+		if (entry.isDirectory()) await applyDeletionMarkers(full);
+		else if (entry.isFile() && entry.name.endsWith(DELETION_MARKER_SUFFIX)) {
+			const deleted = full.slice(0, -DELETION_MARKER_SUFFIX.length);
+			await fs.promises.rm(deleted, { recursive: true, force: true });
+			await fs.promises.rm(full, { force: true });
+		}
+	}
+}
+
+/**
+ * Merge lists declared by each template of a chain, keeping the first occurrence of each entry.
+ * @param lists - Lists in chain order (root base template first).
+ * @returns Unique entries, base entries first.
+ */
+export function mergeInheritedLists(lists: string[][]): string[] {
+	return [...new Set(lists.flat())];
+}
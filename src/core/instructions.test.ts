@@ -1,7 +1,16 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-
-/** Toggled by tests to switch between local and remote mode. */
-let isLocalMode = false;
+import type { TemplateRegistry } from "./registry";
+
+/** Registry backend returned by getTemplateRegistry. */
+const mockRegistry = {
+	source: { kind: "github", owner: "acme", repo: "templates" },
+	isLocal: false,
+	listDirs: vi.fn(),
+	listFiles: vi.fn(),
+	exists: vi.fn(),
+	materialize: vi.fn(),
+	resolveCommit: vi.fn(),
+} satisfies TemplateRegistry;
 
 const mockReadDir = vi.fn();
 const mockReadFile = vi.fn();
@@ -26,34 +35,13 @@ vi.mock("yaml", () => ({
 	parse: vi.fn(),
 }));
 
-vi.mock("./constants", async (importOriginal) => {
-	const actual = await importOriginal<typeof import("./constants")>();
-	return {
-		...actual,
-		get IS_LOCAL_MODE() {
-			return isLocalMode;
-		},
-	};
-});
-
-vi.mock("./fs", () => ({
-	isDirAsync: vi.fn(),
-}));
-
-vi.mock("./registry.local", () => ({
-	getLocalRoot: vi.fn(),
-	resolveLocalTemplatesSubpath: vi.fn(),
-}));
-
-vi.mock("./registry.remote", () => ({
-	listRemoteFilesViaAPI: vi.fn(),
-	resolveRemoteSubpath: vi.fn(),
+vi.mock("./registry", () => ({
+	getTemplateRegistry: () => mockRegistry,
 }));
 
 // Import after mocks
 import matter from "gray-matter";
 import { parse as parseYaml } from "yaml";
-import { isDirAsync } from "./fs";
 import {
 	getInstructionWithFrontmatter,
 	InstructionCategory,
@@ -63,13 +51,10 @@ import {
 	readToolingInstructionsMapping,
 	resolveInstructionsDir,
 } from "./instructions";
-import { getLocalRoot, resolveLocalTemplatesSubpath } from "./registry.local";
-import { listRemoteFilesViaAPI, resolveRemoteSubpath } from "./registry.remote";
 
 describe("core/instructions", () => {
 	beforeEach(() => {
 		vi.clearAllMocks();
-		isLocalMode = false;
 	});
 
 	describe("InstructionCategory", () => {
@@ -126,317 +111,98 @@ describe("core/instructions", () => {
 			});
 		});
 
-		describe("local mode", () => {
-			beforeEach(() => {
-				isLocalMode = true;
-			});
-
-			it("should resolve ESSENTIAL instructions dir", async () => {
-				vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValueOnce(
-					"/local/templates/instructions/essential",
-				);
-				vi.mocked(isDirAsync).mockResolvedValue(true);
-
-				const result = await resolveInstructionsDir(
-					InstructionCategory.ESSENTIAL,
-				);
-
-				expect(resolveLocalTemplatesSubpath).toHaveBeenCalledWith(
-					"templates/instructions/essential",
-				);
-				expect(result).toBe("/local/templates/instructions/essential");
-			});
-
-			it("should resolve SKILLS instructions dir", async () => {
-				vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValueOnce(
-					"/local/templates/instructions/skills",
-				);
-				vi.mocked(isDirAsync).mockResolvedValue(true);
-
-				const result = await resolveInstructionsDir(InstructionCategory.SKILLS);
-
-				expect(resolveLocalTemplatesSubpath).toHaveBeenCalledWith(
-					"templates/instructions/skills",
-				);
-				expect(result).toBe("/local/templates/instructions/skills");
-			});
-
-			it("should resolve SUBAGENTS instructions dir", async () => {
-				vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValueOnce(
-					"/local/templates/instructions/subagents",
-				);
-				vi.mocked(isDirAsync).mockResolvedValue(true);
-
-				const result = await resolveInstructionsDir(
-					InstructionCategory.SUBAGENTS,
-				);
-
-				expect(resolveLocalTemplatesSubpath).toHaveBeenCalledWith(
-					"templates/instructions/subagents",
-				);
-				expect(result).toBe("/local/templates/instructions/subagents");
-			});
-
-			it("should resolve TOOLING instructions dir", async () => {
-				vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValueOnce(
-					"/local/templates/instructions/tooling",
-				);
-				vi.mocked(isDirAsync).mockResolvedValue(true);
-
-				const result = await resolveInstructionsDir(
-					InstructionCategory.TOOLING,
-				);
-
-				expect(resolveLocalTemplatesSubpath).toHaveBeenCalledWith(
-					"templates/instructions/tooling",
-				);
-				expect(result).toBe("/local/templates/instructions/tooling");
-			});
-
-			it("should resolve LANGUAGE instructions dir with context", async () => {
-				vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(
-					"/local/templates/typescript/instructions",
-				);
-				vi.mocked(isDirAsync).mockResolvedValue(true);
-
-				const result = await resolveInstructionsDir(
-					InstructionCategory.LANGUAGE,
-					{ lang: "typescript" },
-				);
-
-				expect(resolveLocalTemplatesSubpath).toHaveBeenCalledWith(
-					"templates/typescript/instructions",
-				);
-				expect(result).toBe("/local/templates/typescript/instructions");
-			});
-
-			it("should resolve PROJECT_SPEC instructions dir with context", async () => {
-				vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(
-					"/local/templates/typescript/package/instructions",
-				);
-				vi.mocked(isDirAsync).mockResolvedValue(true);
-
-				const result = await resolveInstructionsDir(
-					InstructionCategory.PROJECT_SPEC,
-					{ lang: "typescript", projectSpec: "package" },
-				);
-
-				expect(resolveLocalTemplatesSubpath).toHaveBeenCalledWith(
-					"templates/typescript/package/instructions",
-				);
-				expect(result).toBe("/local/templates/typescript/package/instructions");
-			});
-
-			it("should resolve TEMPLATE instructions dir with context", async () => {
-				vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(
-					"/local/templates/typescript/package/basic/instructions",
-				);
-				vi.mocked(isDirAsync).mockResolvedValue(true);
-
-				const result = await resolveInstructionsDir(
-					InstructionCategory.TEMPLATE,
-					{
-						lang: "typescript",
-						projectSpec: "package",
-						template: "basic",
-					},
-				);
-
-				expect(resolveLocalTemplatesSubpath).toHaveBeenCalledWith(
-					"templates/typescript/package/basic/instructions",
-				);
-				expect(result).toBe(
-					"/local/templates/typescript/package/basic/instructions",
-				);
-			});
-
-			it("should throw when resolved path is not a directory", async () => {
-				vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(
-					"/local/templates/instructions/essential",
-				);
-				vi.mocked(isDirAsync).mockResolvedValue(false);
-				vi.mocked(getLocalRoot).mockResolvedValue("/local/templates");
-
-				await expect(
-					resolveInstructionsDir(InstructionCategory.ESSENTIAL),
-				).rejects.toThrow(/Local instructions not found for category/);
-			});
-
-			it("should throw when no local templates root", async () => {
-				vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(null);
-				vi.mocked(getLocalRoot).mockResolvedValue(null);
-
-				await expect(
-					resolveInstructionsDir(InstructionCategory.ESSENTIAL),
-				).rejects.toThrow("No local templates root found.");
-			});
-
-			it("should throw with expected path in error when dir not found", async () => {
-				vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(null);
-				vi.mocked(getLocalRoot).mockResolvedValue("/local/templates");
-				vi.mocked(isDirAsync).mockResolvedValue(false);
-
-				await expect(
-					resolveInstructionsDir(InstructionCategory.ESSENTIAL),
-				).rejects.toThrow(
-					/Local instructions not found for category "essential". Expected directory at/,
-				);
-			});
+		it.each([
+			[
+				InstructionCategory.ESSENTIAL,
+				undefined,
+				"templates/instructions/essential",
+			],
+			[
+				InstructionCategory.TOOLING,
+				undefined,
+				"templates/instructions/tooling",
+			],
+			[InstructionCategory.SKILLS, undefined, "templates/instructions/skills"],
+			[
+				InstructionCategory.SUBAGENTS,
+				undefined,
+				"templates/instructions/subagents",
+			],
+			[
+				InstructionCategory.LANGUAGE,
+				{ lang: "typescript" },
+				"templates/typescript/instructions",
+			],
+			[
+				InstructionCategory.PROJECT_SPEC,
+				{ lang: "typescript", projectSpec: "package" },
+				"templates/typescript/package/instructions",
+			],
+			[
+				InstructionCategory.TEMPLATE,
+				{ lang: "typescript", projectSpec: "package", template: "basic" },
+				"templates/typescript/package/basic/instructions",
+			],
+		])("should materialize the %s instructions dir from the registry", async (category, context, subpath) => {
+			mockRegistry.materialize.mockResolvedValue(`/registry/${subpath}`);
+
+			const result = await resolveInstructionsDir(category, context);
+
+			expect(mockRegistry.materialize).toHaveBeenCalledWith(
+				subpath,
+				"yehle-instructions-",
+			);
+			expect(result).toBe(`/registry/${subpath}`);
 		});
 
-		describe("remote mode", () => {
-			it("should resolve ESSENTIAL via download", async () => {
-				vi.mocked(resolveRemoteSubpath).mockResolvedValue(
-					"/tmp/yehle-instructions-xxx/templates/instructions/essential",
-				);
-
-				const result = await resolveInstructionsDir(
-					InstructionCategory.ESSENTIAL,
-				);
-
-				expect(resolveRemoteSubpath).toHaveBeenCalledWith(
-					"templates/instructions/essential",
-					"yehle-instructions-",
-					expect.any(Function),
-				);
-				expect(result).toBe(
-					"/tmp/yehle-instructions-xxx/templates/instructions/essential",
-				);
-			});
-
-			it("should resolve LANGUAGE with context via download", async () => {
-				vi.mocked(resolveRemoteSubpath).mockResolvedValue(
-					"/tmp/yehle-instructions-xxx/templates/typescript/instructions",
-				);
-
-				const result = await resolveInstructionsDir(
-					InstructionCategory.LANGUAGE,
-					{ lang: "typescript" },
-				);
-
-				expect(resolveRemoteSubpath).toHaveBeenCalledWith(
-					"templates/typescript/instructions",
-					"yehle-instructions-",
-					expect.any(Function),
-				);
-				expect(result).toBe(
-					"/tmp/yehle-instructions-xxx/templates/typescript/instructions",
-				);
-			});
-
-			it("should return downloadedDir when candidate subpath is not a directory", async () => {
-				const downloadedDir = "/tmp/yehle-instructions-abc";
-				vi.mocked(resolveRemoteSubpath).mockImplementation(
-					async (_subpath, _tmpPrefix, normalize) => {
-						const result = normalize
-							? await normalize(downloadedDir)
-							: downloadedDir;
-						return result;
-					},
-				);
-				// Candidate path (downloadedDir/templates/instructions/essential) does not exist
-				vi.mocked(isDirAsync).mockResolvedValue(false);
-
-				const result = await resolveInstructionsDir(
-					InstructionCategory.ESSENTIAL,
-				);
+		it("should propagate registry errors", async () => {
+			mockRegistry.materialize.mockRejectedValue(
+				new Error("Local templates path does not exist: /x."),
+			);
 
-				expect(result).toBe(downloadedDir);
-			});
+			await expect(
+				resolveInstructionsDir(InstructionCategory.ESSENTIAL),
+			).rejects.toThrow("Local templates path does not exist: /x.");
 		});
 	});
 
 	describe("listAvailableInstructions", () => {
-		describe("local mode", () => {
-			beforeEach(() => {
-				isLocalMode = true;
-			});
-
-			it("should return empty array when subpath not found", async () => {
-				vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(null);
-
-				const result = await listAvailableInstructions(
-					InstructionCategory.ESSENTIAL,
-				);
+		it("should list .mdc and .md files from the registry", async () => {
+			mockRegistry.listFiles.mockResolvedValue(["code-style", "testing"]);
 
-				expect(result).toEqual([]);
-			});
-
-			it("should return sorted instruction names from directory", async () => {
-				vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(
-					"/local/instructions/essential",
-				);
-				vi.mocked(isDirAsync).mockResolvedValue(true);
-				mockReadDir.mockResolvedValue([
-					{ name: "code-style.mdc", isFile: () => true },
-					{ name: "testing.md", isFile: () => true },
-					{ name: "readme.txt", isFile: () => true },
-				]);
-
-				const result = await listAvailableInstructions(
-					InstructionCategory.ESSENTIAL,
-				);
-
-				expect(result).toEqual(["code-style", "testing"]);
-			});
-
-			it("should return empty array when dir does not exist", async () => {
-				vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(
-					"/local/instructions/essential",
-				);
-				vi.mocked(isDirAsync).mockResolvedValue(false);
-
-				const result = await listAvailableInstructions(
-					InstructionCategory.ESSENTIAL,
-				);
+			const result = await listAvailableInstructions(
+				InstructionCategory.ESSENTIAL,
+			);
 
-				expect(result).toEqual([]);
-			});
+			expect(mockRegistry.listFiles).toHaveBeenCalledWith(
+				"templates/instructions/essential",
+				[".mdc", ".md"],
+			);
+			expect(result).toEqual(["code-style", "testing"]);
 		});
 
-		describe("remote mode", () => {
-			it("should return names from listRemoteFilesViaAPI", async () => {
-				vi.mocked(listRemoteFilesViaAPI).mockResolvedValue([
-					"code-style",
-					"testing",
-				]);
+		it("should pass correct subpath for LANGUAGE with context", async () => {
+			mockRegistry.listFiles.mockResolvedValue([]);
 
-				const result = await listAvailableInstructions(
-					InstructionCategory.ESSENTIAL,
-				);
-
-				expect(listRemoteFilesViaAPI).toHaveBeenCalledWith(
-					"templates/instructions/essential",
-					[".mdc", ".md"],
-				);
-				expect(result).toEqual(["code-style", "testing"]);
+			await listAvailableInstructions(InstructionCategory.LANGUAGE, {
+				lang: "typescript",
 			});
 
-			it("should pass correct subpath for LANGUAGE with context", async () => {
-				vi.mocked(listRemoteFilesViaAPI).mockResolvedValue([]);
-
-				await listAvailableInstructions(InstructionCategory.LANGUAGE, {
-					lang: "typescript",
-				});
-
-				expect(listRemoteFilesViaAPI).toHaveBeenCalledWith(
-					"templates/typescript/instructions",
-					[".mdc", ".md"],
-				);
-			});
+			expect(mockRegistry.listFiles).toHaveBeenCalledWith(
+				"templates/typescript/instructions",
+				[".mdc", ".md"],
+			);
 		});
 	});
 
 	describe("getInstructionWithFrontmatter", () => {
 		beforeEach(() => {
-			isLocalMode = true;
+			mockRegistry.materialize.mockResolvedValue(
+				"/local/instructions/essential",
+			);
 		});
 
 		it("should resolve dir, find .mdc file, and parse content", async () => {
-			vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(
-				"/local/instructions/essential",
-			);
-			vi.mocked(isDirAsync).mockResolvedValue(true);
 			mockAccess.mockRejectedValueOnce(new Error("not found")); // .mdc first
 			mockAccess.mockResolvedValueOnce(undefined); // .md exists
 			mockReadFile.mockResolvedValue(
@@ -459,10 +225,6 @@ describe("core/instructions", () => {
 		});
 
 		it("should use .mdc when it exists before .md", async () => {
-			vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(
-				"/local/instructions/essential",
-			);
-			vi.mocked(isDirAsync).mockResolvedValue(true);
 			mockAccess.mockResolvedValue(undefined); // .mdc exists
 			mockReadFile.mockResolvedValue("---\n---\nBody");
 			vi.mocked(matter).mockReturnValue({
@@ -483,10 +245,6 @@ describe("core/instructions", () => {
 		});
 
 		it("should throw when instruction file not found", async () => {
-			vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(
-				"/local/instructions/essential",
-			);
-			vi.mocked(isDirAsync).mockResolvedValue(true);
 			mockAccess.mockRejectedValue(new Error("not found"));
 
 			await expect(
@@ -500,10 +258,6 @@ describe("core/instructions", () => {
 		});
 
 		it("should normalize frontmatter (description, paths, alwaysApply)", async () => {
-			vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(
-				"/local/instructions/essential",
-			);
-			vi.mocked(isDirAsync).mockResolvedValue(true);
 			mockAccess.mockResolvedValue(undefined);
 			mockReadFile.mockResolvedValue("body");
 			vi.mocked(matter).mockReturnValue({
@@ -529,10 +283,6 @@ describe("core/instructions", () => {
 		});
 
 		it("should trim content and ignore invalid frontmatter values", async () => {
-			vi.mocked(resolveLocalTemplatesSubpath).mockResolvedValue(
-				"/local/instructions/essential",
-			);
-			vi.mocked(isDirAsync).mockResolvedValue(true);
 			mockAccess.mockResolvedValue(undefined);
 			mockReadFile.mockResolvedValue("  \n\n  body  \n");
 			vi.mocked(matter).mockReturnValue({
@@ -3,13 +3,10 @@ import path from "node:path";
 import matter from "gray-matter";
 import { parse as parseYaml } from "yaml";
 import {
-	IS_LOCAL_MODE,
 	YEHLE_CONFIGURATION_FILENAME,
 	type YehleConfiguration,
 } from "./constants";
-import { isDirAsync } from "./fs";
-import { getLocalRoot, resolveLocalTemplatesSubpath } from "./registry.local";
-import { listRemoteFilesViaAPI, resolveRemoteSubpath } from "./registry.remote";
+import { getTemplateRegistry } from "./registry";
 
 /** Path segment for the instructions tree under templates. */
 const INSTRUCTIONS_PATH = "instructions";
@@ -63,29 +60,6 @@ export type InstructionWithFrontmatter = {
 	frontmatter: RuleFrontmatter;
 };
 
-/**
- * List instruction file names in a directory.
- * @param dir - Directory to list instruction files from.
- * @returns Sorted array of instruction file names.
- */
-async function listInstructionFiles(dir: string): Promise<string[]> {
-	if (!(await isDirAsync(dir))) return [];
-	const entries = await fs.promises.readdir(dir, { withFileTypes: true });
-	const names = new Set<string>();
-
-	// We need to filter out the entries that are not files.
-	for (const entry of entries) {
-		if (!entry.isFile()) continue;
-		for (const extension of INSTRUCTION_EXTENSIONS) {
-			if (entry.name.endsWith(extension)) {
-				names.add(entry.name.slice(0, -extension.length));
-				break;
-			}
-		}
-	}
-	return Array.from(names).sort((a, b) => a.localeCompare(b));
-}
-
 /**
  * Parse instruction file content and frontmatter.
  * @param raw - Raw instruction file content.
@@ -192,61 +166,19 @@ function getInstructionsSubpath(
 }
 
 /**
- * Download a remote instructions category to a temp directory.
- * Path matches local layout (same as getLocalInstructionsDir).
- * @param category - Instruction category.
- * @param context - Required for language, project-spec, template.
- * @returns Promise resolving to the path of the downloaded category directory.
- * @throws Error when context is missing for scoped category or download fails.
- */
-async function downloadRemoteInstructionsDir(
-	category: InstructionCategory,
-	context?: InstructionContext,
-): Promise<string> {
-	const subpath = getInstructionsSubpath(category, context);
-	const remoteDir = await resolveRemoteSubpath(
-		subpath,
-		"yehle-instructions-",
-		async (downloadedDir) => {
-			const candidateDir = path.join(downloadedDir, ...subpath.split("/"));
-			return (await isDirAsync(candidateDir)) ? candidateDir : downloadedDir;
-		},
-	);
-	return remoteDir;
-}
-
-/**
- * Resolve the directory for an instruction category (local or remote).
+ * Resolve the directory for an instruction category in the active registry (downloaded first when remote).
  * For language, project-spec, template a context with lang (and projectSpec, template as needed) must be provided.
  * @param category - Instruction category.
  * @param context - Required for language, project-spec, template (lang, projectSpec, template).
  * @returns Promise resolving to the absolute path of the category directory.
- * @throws Error when the category is not found (local) or download fails (remote).
+ * @throws Error when context is missing for a scoped category, or the category is not found or cannot be downloaded.
  */
 export async function resolveInstructionsDir(
 	category: InstructionCategory,
 	context?: InstructionContext,
 ): Promise<string> {
-	// Local mode
-	if (IS_LOCAL_MODE) {
-		const subpath = getInstructionsSubpath(category, context);
-		const dir = await resolveLocalTemplatesSubpath(subpath);
-		if (dir && (await isDirAsync(dir))) return dir;
-
-		const root = await getLocalRoot("templates");
-		if (!root) throw new Error(`No local templates root found.`);
-
-		const expectedPath = getInstructionsSubpath(category, context);
-		throw new Error(
-			`Local instructions not found for category "${category}". Expected directory at ${path.join(
-				root,
-				...expectedPath.split("/").slice(1),
-			)}.`,
-		);
-	}
-
-	// Remote mode
-	return await downloadRemoteInstructionsDir(category, context);
+	const subpath = getInstructionsSubpath(category, context);
+	return getTemplateRegistry().materialize(subpath, "yehle-instructions-");
 }
 
 /**
@@ -255,23 +187,14 @@ export async function resolveInstructionsDir(
  * @param category - Instruction category.
  * @param context - Required for language, project-spec, template.
  * @returns Promise resolving to a sorted array of instruction names.
- * @throws Error when the GitHub API fails in remote mode.
+ * @throws Error when a remote registry cannot be listed.
  */
 export async function listAvailableInstructions(
 	category: InstructionCategory,
 	context?: InstructionContext,
 ): Promise<string[]> {
 	const subpath = getInstructionsSubpath(category, context);
-
-	// Local mode
-	if (IS_LOCAL_MODE) {
-		const dir = await resolveLocalTemplatesSubpath(subpath);
-		if (!dir) return [];
-		return listInstructionFiles(dir);
-	}
-
-	// Remote mode
-	return listRemoteFilesViaAPI(subpath, INSTRUCTION_EXTENSIONS);
+	return getTemplateRegistry().listFiles(subpath, INSTRUCTION_EXTENSIONS);
 }
 
 /**
@@ -0,0 +1,186 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+	buildSampleMetadata,
+	findUndefinedVariables,
+	lintInstructionFrontmatter,
+	lintTemplates,
+} from "./lint";
+import { DEFAULT_REGISTRY_SOURCE, setRegistrySource } from "./registry.source";
+
+describe("core/lint", () => {
+	describe("findUndefinedVariables", () => {
+		const data = buildSampleMetadata("typescript", "basic", {}, ["docs"], true);
+
+		it("should accept defined variables, nested keys and section contexts", () => {
+			const template = [
+				"{{name}} {{{authorName}}} {{&template}}",
+				"{{#public}}{{feature.docs}}{{/public}}",
+				"{{#missing}}{{/missing}}{{^missing}}none{{/missing}}",
+				"{{#variables}}{{.}}{{/variables}}",
+				// A GitHub Actions expression, which is not a Mustache tag
+				["uses: $", "{{ secrets.NPM_TOKEN }}"].join(""),
+			].join("\n");
+
+			expect(findUndefinedVariables(template, data)).toEqual([]);
+		});
+
+		it("should report undefined variables and partials with their lines", () => {
+			const template = "# {{name}}\n\n{{descripton}}\n{{> footer}}\n";
+
+			expect(findUndefinedVariables(template, data, { badges: "" })).toEqual([
+				{ line: 3, message: 'Undefined variable "descripton".' },
+				{ line: 4, message: 'Undefined partial "footer".' },
+			]);
+		});
+
+		it("should throw on unclosed sections", () => {
+			expect(() => findUndefinedVariables("{{#public}}x", data)).toThrow(
+				'Unclosed section "public"',
+			);
+		});
+	});
+
+	describe("lintInstructionFrontmatter", () => {
+		it("should accept files without frontmatter and valid frontmatter", () => {
+			expect(lintInstructionFrontmatter("# Title\n")).toEqual([]);
+			expect(
+				lintInstructionFrontmatter(
+					"---\ndescription: Testing\npaths:\n  - src/**\nalwaysApply: false\n---\n# Title\n",
+				),
+			).toEqual([]);
+		});
+
+		it("should report invalid values with their lines", () => {
+			expect(
+				lintInstructionFrontmatter(
+					"---\ndescription: Testing\npaths: src/**\nalwaysApply: sometimes\n---\n",
+				),
+			).toEqual([
+				{ line: 3, message: 'Frontmatter "paths" must be a list of strings.' },
+				{ line: 4, message: 'Frontmatter "alwaysApply" must be a boolean.' },
+			]);
+		});
+
+		it("should report unclosed and unparseable frontmatter", () => {
+			expect(lintInstructionFrontmatter("---\ndescription: x\n")).toEqual([
+				{ line: 1, message: "Frontmatter is not closed with ---." },
+			]);
+			expect(
+				lintInstructionFrontmatter("---\ndescription: [x\n---\n")[0]?.message,
+			).toMatch(/^Invalid frontmatter: /);
+		});
+	});
+
+	describe("lintTemplates", () => {
+		let tmpDir: string;
+
+		/**
+		 * Write a file under the temporary templates directory.
+		 * @param relative - Path relative to templates/.
+		 * @param content - File content.
+		 */
+		function write(relative: string, content: string): void {
+			const full = path.join(tmpDir, "templates", relative);
+			fs.mkdirSync(path.dirname(full), { recursive: true });
+			fs.writeFileSync(full, content);
+		}
+
+		beforeEach(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "lint-test-"));
+			setRegistrySource({ kind: "local", path: tmpDir });
+			write("instructions/tooling/pnpm.md", "# pnpm\n");
+			write("instructions/skills/.gitkeep", "");
+			write("instructions/subagents/.gitkeep", "");
+			write("shared/.gitkeep", "");
+			write("typescript/shared/.gitkeep", "");
+			write("typescript/package/shared/README.mustache.md", "# {{name}}\n");
+		});
+
+		afterEach(() => {
+			setRegistrySource(DEFAULT_REGISTRY_SOURCE);
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		it("should find no problems in the templates shipped with yehle", async () => {
+			setRegistrySource({
+				kind: "local",
+				path: path.resolve(__dirname, "../.."),
+			});
+
+			await expect(lintTemplates()).resolves.toEqual([]);
+		});
+
+		it("should find no problems in a valid tree", async () => {
+			write(
+				"typescript/package/basic/yehle.yaml",
+				"toolingInstructions:\n  - pnpm\nfeatures:\n  docs:\n    description: Docs site\n",
+			);
+			write(
+				"typescript/package/basic/package.mustache.json",
+				'{\n\t"name": "{{name}}"{{#feature.docs}},\n\t"docs": true{{/feature.docs}}\n}\n',
+			);
+
+			await expect(lintTemplates()).resolves.toEqual([]);
+		});
+
+		it("should report each problem with its file and line", async () => {
+			write(
+				"typescript/package/basic/yehle.yaml",
+				"toolingInstructions:\n  - pnpm\n  - npm\n",
+			);
+			write(
+				"typescript/package/basic/package.mustache.json",
+				'{\n\t"name": "{{name}}",\n\t"version": "{{version}}"{{#public}},{{/public}}\n}\n',
+			);
+			write(
+				"typescript/package/basic/tsconfig.json",
+				"{\n\t'strict': true\n}\n",
+			);
+			write(
+				"typescript/package/basic/instructions/template.md",
+				"---\nalwaysApply: yes please\n---\n",
+			);
+			write("typescript/package/broken/yehle.yaml", "variables: [\n");
+
+			const problems = await lintTemplates();
+
+			expect(problems).toEqual([
+				{
+					file: "typescript/package/basic/instructions/template.md",
+					line: 2,
+					message: 'Frontmatter "alwaysApply" must be a boolean.',
+				},
+				{
+					file: "typescript/package/basic/package.mustache.json",
+					line: 3,
+					message: 'Undefined variable "version".',
+				},
+				expect.objectContaining({
+					file: "typescript/package/basic/package.mustache.json",
+					message: expect.stringMatching(
+						/^Invalid JSON: .* \(after rendering with public: true, line 4 of the output\)$/,
+					),
+				}),
+				expect.objectContaining({
+					file: "typescript/package/basic/tsconfig.json",
+					line: 2,
+					message: expect.stringMatching(/^Invalid JSON: /),
+				}),
+				{
+					file: "typescript/package/basic/yehle.yaml",
+					line: 3,
+					message:
+						'toolingInstructions entry "npm" has no instruction in instructions/tooling (available: pnpm).',
+				},
+				expect.objectContaining({
+					file: "typescript/package/broken/yehle.yaml",
+					message: expect.stringMatching(/^Failed to parse /),
+				}),
+			]);
+		});
+	});
+});
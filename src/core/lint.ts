@@ -0,0 +1,515 @@
+import fs from "node:fs";
+import path from "node:path";
+import mustache from "mustache";
+import { isMap, isScalar, isSeq, LineCounter, parseDocument } from "yaml";
+import { type Language, YEHLE_CONFIGURATION_FILENAME } from "./constants";
+import { readTemplateFeatures } from "./features";
+import { GITHUB_EXPRESSION_PATTERN, renderMustacheContent } from "./fs";
+import { readTemplateHooks } from "./hooks";
+import { InstructionCategory, listAvailableInstructions } from "./instructions";
+import { readTemplateMergeStrategies } from "./merge";
+import { getTemplateRegistry } from "./registry";
+import {
+	listTemplateLayerFiles,
+	readTemplatePartials,
+	resolveTemplateLayerDirs,
+} from "./setup";
+import {
+	listAvailableTemplates,
+	listLanguageNames,
+	listProjectSpecNames,
+} from "./templates";
+import { isPlainObject } from "./utils";
+import { getVariableDefault, readTemplateVariables } from "./variables";
+
+/** A problem found in a templates tree. */
+export type TemplateLintProblem = {
+	/** Path of the file, relative to the templates directory (e.g. "typescript/package/react/yehle.yaml"). */
+	file: string;
+	/** 1-based line of the problem, when it can be determined. */
+	line?: number;
+	message: string;
+};
+
+/** yehle.yaml lists that name instructions, with the category their entries must exist in. */
+const INSTRUCTION_MAPPINGS = [
+	{ key: "toolingInstructions", category: InstructionCategory.TOOLING },
+	{ key: "skills", category: InstructionCategory.SKILLS },
+	{ key: "subagents", category: InstructionCategory.SUBAGENTS },
+] as const;
+
+/** Frontmatter keys of instruction files and the type each must have. */
+const FRONTMATTER_TYPES: Record<string, "string" | "boolean" | "string[]"> = {
+	description: "string",
+	paths: "string[]",
+	alwaysApply: "boolean",
+	model: "string",
+	readonly: "boolean",
+};
+
+/**
+ * Get the 1-based line of a character offset.
+ * @param text - Text containing the offset.
+ * @param index - Character offset.
+ * @returns The line number.
+ */
+function lineAt(text: string, index: number): number {
+	return text.slice(0, index).split("\n").length;
+}
+
+/**
+ * Get the 1-based line reported in a parse error message ("at line 3" or "at position 42").
+ * @param message - Error message.
+ * @param text - Parsed text (to convert positions to lines).
+ * @returns The line number, or undefined when the message names no location.
+ */
+function lineFromErrorMessage(
+	message: string,
+	text?: string,
+): number | undefined {
+	const line = /\bline (\d+)/i.exec(message);
+	if (line) return Number(line[1]);
+	const position = /\b(?:position|at) (\d+)\b/i.exec(message);
+	if (position && text !== undefined) return lineAt(text, Number(position[1]));
+	return undefined;
+}
+
+/**
+ * Build metadata like the one generated packages are rendered with, using sample answers.
+ * @param lang - Language of the template.
+ * @param template - Template name.
+ * @param variables - Variable answers (defaults of the declared variables).
+ * @param features - Feature names declared by the template.
+ * @param isPublic - Whether to render the public variant (public sections, all features) or the private one (no features).
+ * @returns Sample metadata.
+ */
+export function buildSampleMetadata(
+	lang: string,
+	template: string,
+	variables: Record<string, unknown>,
+	features: string[],
+	isPublic: boolean,
+): Record<string, unknown> {
+	const feature = Object.fromEntries(features.map((name) => [name, isPublic]));
+	return {
+		packageManagerVersion: "pnpm@10.0.0",
+		templateHasPlayground: isPublic,
+		feature,
+		...variables,
+		lang,
+		name: "sample-package",
+		template,
+		public: isPublic,
+		includeInstructions: false,
+		authorName: "Sample Author",
+		authorGitUsername: "sample-author",
+		authorGitEmail: "sample-author@example.com",
+		variables,
+		features: feature,
+	};
+}
+
+/**
+ * Look up a mustache name the way mustache does: the first segment in the nearest context that has it, then each further segment.
+ * @param name - Name such as "name", "feature.stryker" or ".".
+ * @param stack - Context stack, innermost last.
+ * @returns Whether the name resolves, and its value.
+ */
+function lookupName(
+	name: string,
+	stack: unknown[],
+): { found: boolean; value?: unknown } {
+	if (name === ".") return { found: true, value: stack[stack.length - 1] };
+
+	const [first, ...rest] = name.split(".");
+	for (let i = stack.length - 1; i >= 0; i--) {
+		const context = stack[i];
+		if (!isPlainObject(context) || !(first in context)) continue;
+
+		let value: unknown = context[first];
+		for (const segment of rest) {
+			if (!isPlainObject(value) || !(segment in value)) return { found: false };
+			value = value[segment];
+		}
+		return { found: true, value };
+	}
+	return { found: false };
+}
+
+/**
+ * Find the variables a mustache template uses that the data does not define.
+ * Sections ({{#x}} and {{^x}}) may name undefined keys, since an undefined key is simply false.
+ * GitHub Actions expressions (${{ ... }}) are not mustache tags and are ignored.
+ * @param template - Mustache template.
+ * @param data - Metadata the template is rendered with.
+ * @param partials - Partials available to the template.
+ * @returns Problems with their 1-based lines.
+ * @throws Error when the template cannot be parsed (e.g. an unclosed tag or section).
+ */
+export function findUndefinedVariables(
+	template: string,
+	data: Record<string, unknown>,
+	partials: Record<string, string> = {},
+): Array<{ line: number; message: string }> {
+	const problems: Array<{ line: number; message: string }> = [];
+
+	type Token = [string, string, number, number, Token[]?];
+	const walk = (tokens: Token[], stack: unknown[]) => {
+		for (const [type, name, start, , children] of tokens) {
+			if (type === "name" || type === "&" || type === "{") {
+				if (!lookupName(name, stack).found)
+					problems.push({
+						line: lineAt(template, start),
+						message: `Undefined variable "${name}".`,
+					});
+			} else if (type === ">") {
+				if (!(name in partials))
+					problems.push({
+						line: lineAt(template, start),
+						message: `Undefined partial "${name}".`,
+					});
+			} else if (type === "#") {
+				const { value } = lookupName(name, stack);
+				const context = Array.isArray(value) ? value[0] : value;
+				walk(
+					children ?? [],
+					isPlainObject(context) || Array.isArray(value)
+						? [...stack, context]
+						: stack,
+				);
+			} else if (type === "^") walk(children ?? [], stack);
+		}
+	};
+
+	// GitHub Actions expressions are left untouched when rendering; blank them out (keeping line breaks) so positions still match
+	const masked = template.replaceAll(GITHUB_EXPRESSION_PATTERN, (m) =>
+		m.replace(/[^\n]/g, " "),
+	);
+	walk(mustache.parse(masked) as Token[], [data]);
+	return problems;
+}
+
+/**
+ * Check the frontmatter of an instruction file.
+ * @param raw - Instruction file content.
+ * @returns Problems with their 1-based lines; empty when there is no frontmatter or it is valid.
+ */
+export function lintInstructionFrontmatter(
+	raw: string,
+): Array<{ line?: number; message: string }> {
+	const match = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/.exec(raw);
+	if (!match) {
+		return /^---\r?\n/.test(raw)
+			? [{ line: 1, message: "Frontmatter is not closed with ---." }]
+			: [];
+	}
+
+	// Frontmatter content starts on line 2
+	const lineCounter = new LineCounter();
+	const doc = parseDocument(match[1], { lineCounter });
+	const lineOf = (offset: number | undefined) =>
+		offset === undefined ? undefined : lineCounter.linePos(offset).line + 1;
+
+	if (doc.errors.length > 0)
+		return doc.errors.map((error) => ({
+			line: lineOf(error.pos[0]),
+			message: `Invalid frontmatter: ${error.message.split("\n")[0]}`,
+		}));
+	if (doc.contents === null) return [];
+	if (!isMap(doc.contents))
+		return [{ line: 2, message: "Frontmatter must be a mapping." }];
+
+	const problems: Array<{ line?: number; message: string }> = [];
+	for (const pair of doc.contents.items) {
+		const key = isScalar(pair.key) ? String(pair.key.value) : "";
+		const expected = FRONTMATTER_TYPES[key];
+		if (!expected) continue;
+
+		const value = (pair.value as { toJSON?: () => unknown } | null)?.toJSON?.();
+		const valid =
+			expected === "string[]"
+				? Array.isArray(value) && value.every((v) => typeof v === "string")
+				: typeof value === expected;
+		if (!valid)
+			problems.push({
+				line: lineOf(isScalar(pair.key) ? pair.key.range?.[0] : undefined),
+				message: `Frontmatter "${key}" must be ${expected === "string[]" ? "a list of strings" : `a ${expected}`}.`,
+			});
+	}
+	return problems;
+}
+
+/**
+ * Check that rendered JSON or YAML content parses.
+ * @param fileName - File name after rendering (its extension decides the format).
+ * @param content - Rendered content.
+ * @returns The problem, or undefined when the content parses or is neither JSON nor YAML.
+ */
+function lintStructuredContent(
+	fileName: string,
+	content: string,
+): { line?: number; message: string } | undefined {
+	const extension = path.extname(fileName);
+	if (extension === ".json") {
+		try {
+			JSON.parse(content);
+		} catch (e) {
+			const msg = e instanceof Error ? e.message : String(e);
+			return {
+				line: lineFromErrorMessage(msg, content),
+				message: `Invalid JSON: ${msg}`,
+			};
+		}
+	} else if (extension === ".yml" || extension === ".yaml") {
+		const doc = parseDocument(content);
+		const [error] = doc.errors;
+		if (error)
+			return {
+				line: error.linePos?.[0]?.line,
+				message: `Invalid YAML: ${error.message.split("\n")[0]}`,
+			};
+	}
+	return undefined;
+}
+
+/**
+ * Lint the instruction files of every instructions directory in the templates tree.
+ * @param templatesRoot - Absolute path to the templates directory.
+ * @param report - Callback receiving each problem.
+ * @returns Promise that resolves when every instructions directory has been checked.
+ */
+async function lintInstructionsDirs(
+	templatesRoot: string,
+	report: (problem: TemplateLintProblem) => void,
+): Promise<void> {
+	const walk = async (dir: string) => {
+		let entries: fs.Dirent[] = [];
+		try {
+			entries = await fs.promises.readdir(dir, { withFileTypes: true });
+		} catch {
+			return;
+		}
+		for (const entry of entries) {
+			const full = path.join(dir, entry.name);
+			if (entry.isDirectory()) await walk(full);
+			else if (
+				entry.isFile() &&
+				/\.mdc?$/.test(entry.name) &&
+				full.split(path.sep).includes("instructions")
+			) {
+				const raw = await fs.promises.readFile(full, "utf8");
+				const file = path
+					.relative(templatesRoot, full)
+					.split(path.sep)
+					.join("/");
+				for (const problem of lintInstructionFrontmatter(raw))
+					report({ file, ...problem });
+			}
+		}
+	};
+	await walk(templatesRoot);
+}
+
+/**
+ * Lint a template's yehle.yaml: every section must be valid and every instruction it names must exist.
+ * @param templateDir - Absolute path to the template directory.
+ * @param file - Path of the yehle.yaml relative to the templates directory.
+ * @param report - Callback receiving each problem.
+ * @returns Promise resolving to true when the configuration is valid enough to render the template.
+ */
+async function lintTemplateConfiguration(
+	templateDir: string,
+	file: string,
+	report: (problem: TemplateLintProblem) => void,
+): Promise<boolean> {
+	let raw: string;
+	try {
+		raw = await fs.promises.readFile(
+			path.join(templateDir, YEHLE_CONFIGURATION_FILENAME),
+			"utf8",
+		);
+	} catch {
+		// No yehle.yaml
+		return true;
+	}
+
+	let valid = true;
+	for (const read of [
+		readTemplateVariables,
+		readTemplateFeatures,
+		readTemplateHooks,
+		readTemplateMergeStrategies,
+	]) {
+		try {
+			await read(templateDir);
+		} catch (e) {
+			const msg = e instanceof Error ? e.message : String(e);
+			if (valid || !msg.startsWith("Failed to parse"))
+				report({ file, line: lineFromErrorMessage(msg), message: msg });
+			valid = false;
+		}
+	}
+	if (!valid) return false;
+
+	const lineCounter = new LineCounter();
+	const doc = parseDocument(raw, { lineCounter });
+	for (const { key, category } of INSTRUCTION_MAPPINGS) {
+		const list = doc.get(key, true);
+		if (!isSeq(list)) continue;
+
+		const available = await listAvailableInstructions(category);
+		for (const item of list.items) {
+			const name = isScalar(item) ? String(item.value) : "";
+			if (available.includes(name)) continue;
+			const offset = isScalar(item) ? item.range?.[0] : undefined;
+			report({
+				file,
+				line:
+					offset === undefined ? undefined : lineCounter.linePos(offset).line,
+				message: `${key} entry "${name}" has no instruction in instructions/${category} (available: ${available.join(", ") || "none"}).`,
+			});
+		}
+	}
+	return true;
+}
+
+/**
+ * Lint the files a template generates: render every mustache file (and templated name) with sample metadata,
+ * report undefined variables and partials, and check that JSON and YAML files still parse.
+ * @param lang - Language of the template.
+ * @param projectSpec - Project spec of the template.
+ * @param template - Template name.
+ * @param templatesRoot - Absolute path to the templates directory.
+ * @param report - Callback receiving each problem.
+ * @returns Promise that resolves when every file has been checked.
+ */
+async function lintTemplateFiles(
+	lang: string,
+	projectSpec: string,
+	template: string,
+	templatesRoot: string,
+	report: (problem: TemplateLintProblem) => void,
+): Promise<void> {
+	const templateDir = path.join(templatesRoot, lang, projectSpec, template);
+	const variables = Object.fromEntries(
+		Object.entries(await readTemplateVariables(templateDir)).map(
+			([name, variable]) => [name, getVariableDefault(variable)],
+		),
+	);
+	const features = Object.keys(await readTemplateFeatures(templateDir));
+	const samples = [true, false].map((isPublic) =>
+		buildSampleMetadata(lang, template, variables, features, isPublic),
+	);
+	const partials = await readTemplatePartials(lang, projectSpec, template);
+
+	for (const layerDir of await resolveTemplateLayerDirs(
+		lang,
+		projectSpec,
+		template,
+	)) {
+		for (const relative of await listTemplateLayerFiles(layerDir)) {
+			const full = path.join(layerDir, relative);
+			const file = path.relative(templatesRoot, full).split(path.sep).join("/");
+
+			for (const segment of relative.split("/").filter((s) => s.includes("{{")))
+				for (const problem of findUndefinedVariables(segment, samples[0]))
+					report({ file, message: `In the file name: ${problem.message}` });
+
+			const raw = await fs.promises.readFile(full, "utf8");
+			const baseName = path.basename(relative);
+			if (!/\.mustache\./i.test(baseName)) {
+				const problem = lintStructuredContent(baseName, raw);
+				if (problem) report({ file, ...problem });
+				continue;
+			}
+
+			try {
+				for (const problem of findUndefinedVariables(raw, samples[0], partials))
+					report({ file, ...problem });
+			} catch (e) {
+				const msg = e instanceof Error ? e.message : String(e);
+				report({
+					file,
+					line: lineFromErrorMessage(msg, raw),
+					message: `Invalid mustache: ${msg}`,
+				});
+				continue;
+			}
+
+			const renderedName = baseName.replace(/\.mustache\./i, ".");
+			for (const sample of samples) {
+				const problem = lintStructuredContent(
+					renderedName,
+					renderMustacheContent(raw, sample, partials),
+				);
+				if (problem)
+					report({
+						file,
+						...problem,
+						message: `${problem.message} (after rendering with public: ${sample.public}${problem.line ? `, line ${problem.line} of the output` : ""})`,
+						line: undefined,
+					});
+			}
+		}
+	}
+}
+
+/**
+ * Lint every template in the active registry (normally a local templates directory).
+ * Checks each yehle.yaml (sections, extends: chains, instructions it names), the frontmatter of every instruction file,
+ * and renders every template's files with sample metadata to find undefined variables and invalid JSON/YAML.
+ * @returns Promise resolving to the problems found, sorted by file and line (each problem reported once).
+ */
+export async function lintTemplates(): Promise<TemplateLintProblem[]> {
+	const templatesRoot = await getTemplateRegistry().materialize(
+		"templates",
+		"yehle-templates-",
+	);
+	const problems = new Map<string, TemplateLintProblem>();
+	const report = (problem: TemplateLintProblem) => {
+		const key = `${problem.file}:${problem.line ?? ""}:${problem.message}`;
+		if (!problems.has(key)) problems.set(key, problem);
+	};
+
+	await lintInstructionsDirs(templatesRoot, report);
+
+	for (const lang of await listLanguageNames()) {
+		for (const projectSpec of await listProjectSpecNames(lang)) {
+			for (const template of await listAvailableTemplates(
+				lang as Language,
+				projectSpec,
+			)) {
+				const templateDir = path.join(
+					templatesRoot,
+					lang,
+					projectSpec,
+					template,
+				);
+				const file = `${lang}/${projectSpec}/${template}/${YEHLE_CONFIGURATION_FILENAME}`;
+
+				if (!(await lintTemplateConfiguration(templateDir, file, report)))
+					continue;
+				// Reported on yehle.yaml: a broken extends: chain or a missing shared directory
+				try {
+					await lintTemplateFiles(
+						lang,
+						projectSpec,
+						template,
+						templatesRoot,
+						report,
+					);
+				} catch (e) {
+					const msg = e instanceof Error ? e.message : String(e);
+					report({ file, message: msg });
+				}
+			}
+		}
+	}
+
+	return [...problems.values()].sort(
+		// Problems without a line come after the others of the same file
+		(a, b) =>
+			a.file.localeCompare(b.file) ||
+			(a.line ?? Number.MAX_SAFE_INTEGER) - (b.line ?? Number.MAX_SAFE_INTEGER),
+	);
+}
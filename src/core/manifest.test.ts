@@ -0,0 +1,156 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./fs", () => ({
+	writeFileAsync: vi.fn(),
+}));
+
+// Import after mocks
+import { writeFileAsync } from "./fs";
+import {
+	getProjectManifestPath,
+	hashFileContent,
+	hashProjectFiles,
+	PROJECT_MANIFEST_FILENAME,
+	type ProjectManifest,
+	readProjectManifest,
+	writeProjectManifest,
+	YEHLE_PROJECT_DIR,
+} from "./manifest";
+
+describe("core/manifest", () => {
+	const manifest: ProjectManifest = {
+		version: 1,
+		generatedAt: "2026-01-01T00:00:00.000Z",
+		source: {
+			registry: "github:acme/templates",
+			ref: "v1.2.0",
+			commit: "abc123",
+		},
+		template: { lang: "typescript", projectSpec: "package", name: "react" },
+		answers: {
+			name: "my-lib",
+			public: false,
+			variables: { framework: "react" },
+			features: { storybook: true },
+		},
+		files: { "README.md": "f00d" },
+	};
+
+	let tmpDir: string;
+
+	/**
+	 * Write a file under the temporary directory.
+	 * @param relative - Path relative to the temporary directory.
+	 * @param content - File content.
+	 */
+	function write(relative: string, content: string): void {
+		const full = path.join(tmpDir, relative);
+		fs.mkdirSync(path.dirname(full), { recursive: true });
+		fs.writeFileSync(full, content);
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "manifest-test-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("getProjectManifestPath", () => {
+		it("should point at .yehle/manifest.json in the project", () => {
+			expect(getProjectManifestPath("/project")).toBe(
+				path.join("/project", YEHLE_PROJECT_DIR, PROJECT_MANIFEST_FILENAME),
+			);
+		});
+	});
+
+	describe("writeProjectManifest", () => {
+		it("should write the manifest as formatted JSON", async () => {
+			await writeProjectManifest("/project", manifest);
+
+			expect(writeFileAsync).toHaveBeenCalledWith(
+				path.join("/project", ".yehle", "manifest.json"),
+				`${JSON.stringify(manifest, null, 2)}\n`,
+			);
+		});
+	});
+
+	describe("hashProjectFiles", () => {
+		it("should hash every file by path, skipping .yehle, .git and node_modules", async () => {
+			write("README.md", "# my-lib\n");
+			write("src/index.ts", "export {};\n");
+			write(".yehle/manifest.json", "{}");
+			write(".git/HEAD", "ref: refs/heads/main\n");
+			write("node_modules/x/index.js", "");
+
+			await expect(hashProjectFiles(tmpDir)).resolves.toEqual({
+				"README.md": hashFileContent("# my-lib\n"),
+				"src/index.ts": hashFileContent("export {};\n"),
+			});
+			expect(hashFileContent("")).toBe(
+				"e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+			);
+		});
+	});
+
+	describe("readProjectManifest", () => {
+		it("should return undefined when the project has no manifest", async () => {
+			await expect(readProjectManifest(tmpDir)).resolves.toBeUndefined();
+		});
+
+		it("should read a manifest", async () => {
+			write(".yehle/manifest.json", JSON.stringify(manifest));
+
+			await expect(readProjectManifest(tmpDir)).resolves.toEqual(manifest);
+		});
+
+		it("should read the single IDE format recorded by older manifests as a list", async () => {
+			write(
+				".yehle/manifest.json",
+				JSON.stringify({ ...manifest, instructions: { ideFormat: "cursor" } }),
+			);
+
+			await expect(readProjectManifest(tmpDir)).resolves.toEqual({
+				...manifest,
+				instructions: { ideFormats: ["cursor"] },
+			});
+		});
+
+		it("should reject manifests that cannot be parsed or lack fields", async () => {
+			write(".yehle/manifest.json", "{");
+			await expect(readProjectManifest(tmpDir)).rejects.toThrow(
+				"Failed to parse",
+			);
+
+			write(
+				".yehle/manifest.json",
+				JSON.stringify({ source: { registry: "github:acme/templates" } }),
+			);
+			await expect(readProjectManifest(tmpDir)).rejects.toThrow(
+				"Invalid project manifest in",
+			);
+			await expect(readProjectManifest(tmpDir)).rejects.toThrow(
+				"template is missing",
+			);
+		});
+
+		it("should reject refs and commits that git could read as options", async () => {
+			write(
+				".yehle/manifest.json",
+				JSON.stringify({
+					...manifest,
+					source: { ...manifest.source, commit: '--upload-pack="touch x"' },
+				}),
+			);
+
+			await expect(readProjectManifest(tmpDir)).rejects.toThrow(
+				"source.commit must be a branch, tag or commit SHA",
+			);
+		});
+	});
+});
@@ -0,0 +1,184 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { TemplateFeatureSelection } from "./features";
+import { writeFileAsync } from "./fs";
+import { isValidRegistryRef } from "./registry.source";
+import type { TemplateVariableValues } from "./variables";
+
+/** Directory (inside generated projects) that holds yehle's own metadata. */
+export const YEHLE_PROJECT_DIR = ".yehle";
+
+/** Filename of the project manifest inside YEHLE_PROJECT_DIR. */
+export const PROJECT_MANIFEST_FILENAME = "manifest.json";
+
+/** Version of the manifest format, bumped when fields change incompatibly. */
+export const PROJECT_MANIFEST_VERSION = 1;
+
+/** Directories that are never hashed into the manifest: yehle's own metadata, git and installed dependencies. */
+const UNHASHED_DIRS = new Set([YEHLE_PROJECT_DIR, ".git", "node_modules"]);
+
+/** Metadata recorded in a generated project so the scaffold can be reproduced, updated or audited. */
+export type ProjectManifest = {
+	/** Manifest format version (PROJECT_MANIFEST_VERSION). */
+	version: number;
+	/** When the project was generated (ISO 8601). */
+	generatedAt: string;
+	/** When the project was last brought up to date with `yehle update` (ISO 8601). */
+	updatedAt?: string;
+	source: {
+		/** Registry the templates were read from (e.g. "github:owner/repo" or a local path). */
+		registry: string;
+		/** Ref requested via --ref, a "#ref" suffix or the config file; omitted for the default branch. */
+		ref?: string;
+		/** Commit SHA the templates were read at, when it could be determined. */
+		commit?: string;
+	};
+	/** Template the project was generated from. */
+	template: {
+		/** Programming language (e.g. "typescript"). */
+		lang: string;
+		/** Project spec (e.g. "package"). */
+		projectSpec: string;
+		/** Template name (e.g. "react"). */
+		name: string;
+	};
+	/** Answers given during generation; answers to secret variables are left out. */
+	answers: {
+		/** Project name. */
+		name: string;
+		/** Whether the project was set up for publishing. */
+		public: boolean;
+		/** Author full name (public projects). */
+		authorName?: string;
+		/** Author git username (public projects). */
+		authorGitUsername?: string;
+		/** Author git email (public projects). */
+		authorGitEmail?: string;
+		/** Answers to the template's variables. */
+		variables: TemplateVariableValues;
+		/** Whether each optional template feature was included. */
+		features: TemplateFeatureSelection;
+	};
+	/** Agent instructions added during generation; omitted when none were added. */
+	instructions?: {
+		/** IDE formats the instructions were written for. */
+		ideFormats: string[];
+	};
+	/** SHA-256 of every generated file, by path relative to the project root (forward slashes). */
+	files: Record<string, string>;
+};
+
+/**
+ * Get the path of the project manifest for a generated project.
+ * @param targetDir - Root directory of the generated project.
+ * @returns Absolute path to .yehle/manifest.json.
+ */
+export function getProjectManifestPath(targetDir: string): string {
+	return path.join(targetDir, YEHLE_PROJECT_DIR, PROJECT_MANIFEST_FILENAME);
+}
+
+/**
+ * Hash file content the way it is recorded in the manifest.
+ * @param content - File content.
+ * @returns Hex-encoded SHA-256 digest.
+ */
+export function hashFileContent(content: string | Buffer): string {
+	return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Hash every file of a generated project, skipping yehle's metadata, .git and node_modules.
+ * @param targetDir - Root directory of the generated project.
+ * @returns Promise resolving to SHA-256 digests by path relative to targetDir (forward slashes), sorted by path.
+ */
+export async function hashProjectFiles(
+	targetDir: string,
+): Promise<Record<string, string>> {
+	const hashes: Array<[string, string]> = [];
+	const walk = async (current: string, prefix: string) => {
+		const entries = await fs.promises.readdir(current, { withFileTypes: true });
+		for (const entry of entries) {
+			const full = path.join(current, entry.name);
+			const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+			if (entry.isDirectory()) {
+				if (!UNHASHED_DIRS.has(entry.name)) await walk(full, relative);
+			} else if (entry.isFile())
+				hashes.push([
+					relative,
+					hashFileContent(await fs.promises.readFile(full)),
+				]);
+		}
+	};
+	await walk(targetDir, "");
+	return Object.fromEntries(hashes.sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Write the project manifest (.yehle/manifest.json) into a generated project.
+ * @param targetDir - Root directory of the generated project.
+ * @param manifest - Manifest contents.
+ * @returns Promise that resolves when the manifest has been written.
+ */
+export async function writeProjectManifest(
+	targetDir: string,
+	manifest: ProjectManifest,
+): Promise<void> {
+	await writeFileAsync(
+		getProjectManifestPath(targetDir),
+		`${JSON.stringify(manifest, null, 2)}\n`,
+	);
+}
+
+/**
+ * Read the project manifest (.yehle/manifest.json) of a generated project.
+ * @param targetDir - Root directory of the generated project.
+ * @returns Promise resolving to the manifest, or undefined when the project has none.
+ * @throws Error when the manifest cannot be parsed, lacks a required field or records an invalid ref.
+ */
+export async function readProjectManifest(
+	targetDir: string,
+): Promise<ProjectManifest | undefined> {
+	const filePath = getProjectManifestPath(targetDir);
+	if (!fs.existsSync(filePath)) return undefined;
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+	} catch (e) {
+		const msg = e instanceof Error ? e.message : String(e);
+		throw new Error(`Failed to parse ${filePath}: ${msg}`);
+	}
+
+	const fail = (reason: string): never => {
+		throw new Error(`Invalid project manifest in ${filePath}: ${reason}.`);
+	};
+	const isObject = (value: unknown) =>
+		Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+	if (!isObject(parsed)) fail("expected a JSON object");
+	const manifest = parsed as Partial<ProjectManifest>;
+	if (typeof manifest.source?.registry !== "string")
+		fail("source.registry must be a string");
+	for (const key of ["ref", "commit"] as const) {
+		const ref = manifest.source?.[key];
+		if (
+			ref !== undefined &&
+			(typeof ref !== "string" || !isValidRegistryRef(ref))
+		)
+			fail(`source.${key} must be a branch, tag or commit SHA`);
+	}
+	if (!isObject(manifest.template))
+		fail("template is missing (was the project generated by an older yehle?)");
+	if (!isObject(manifest.answers)) fail("answers is missing");
+	if (!isObject(manifest.files)) fail("files is missing");
+
+	// Manifests written before several IDE formats could be chosen record a single one
+	const instructions = manifest.instructions as
+		| { ideFormats?: string[]; ideFormat?: string }
+		| undefined;
+	if (instructions && !instructions.ideFormats && instructions.ideFormat)
+		manifest.instructions = { ideFormats: [instructions.ideFormat] };
+
+	return manifest as ProjectManifest;
+}
@@ -0,0 +1,211 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { parse as parseYaml } from "yaml";
+
+import {
+	copyTemplateLayer,
+	mergeLayeredValues,
+	readTemplateMergeStrategies,
+} from "./merge";
+
+describe("core/merge", () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "merge-test-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("readTemplateMergeStrategies", () => {
+		it("should return no strategies when yehle.yaml or the section is missing", async () => {
+			await expect(readTemplateMergeStrategies(tmpDir)).resolves.toEqual({});
+
+			fs.writeFileSync(path.join(tmpDir, "yehle.yaml"), "subagents: []\n");
+			await expect(readTemplateMergeStrategies(tmpDir)).resolves.toEqual({});
+		});
+
+		it("should read strategies by normalized path", async () => {
+			fs.writeFileSync(
+				path.join(tmpDir, "yehle.yaml"),
+				[
+					"merge:",
+					"  ./biome.json: deep-merge",
+					"  .github/workflows/ci.yml: append",
+					"  README.md: replace",
+					"",
+				].join("\n"),
+			);
+
+			await expect(readTemplateMergeStrategies(tmpDir)).resolves.toEqual({
+				"biome.json": "deep-merge",
+				".github/workflows/ci.yml": "append",
+				"README.md": "replace",
+			});
+		});
+
+		it.each([
+			["a list", "merge: [biome.json]\n", "expected a mapping"],
+			[
+				"unknown strategy",
+				"merge:\n  biome.json: concat\n",
+				'unknown strategy "concat"',
+			],
+			[
+				"escaping path",
+				"merge:\n  ../biome.json: append\n",
+				"must be a path inside",
+			],
+			["unmergeable file", "merge:\n  README.md: append\n", "cannot be merged"],
+		])("should reject %s", async (_case, yaml, message) => {
+			fs.writeFileSync(path.join(tmpDir, "yehle.yaml"), yaml);
+
+			await expect(readTemplateMergeStrategies(tmpDir)).rejects.toThrow(
+				message,
+			);
+		});
+	});
+
+	describe("mergeLayeredValues", () => {
+		const base = {
+			root: false,
+			files: { includes: ["**", "src/**"] },
+			linter: { enabled: true },
+		};
+		const overlay = {
+			files: { includes: ["src/**", "playground/**"] },
+			linter: "$delete",
+			css: { parser: { tailwindDirectives: true } },
+		};
+
+		it("should merge objects, replace arrays and remove $delete keys with deep-merge", () => {
+			expect(mergeLayeredValues(base, overlay, "deep-merge")).toEqual({
+				root: false,
+				files: { includes: ["src/**", "playground/**"] },
+				css: { parser: { tailwindDirectives: true } },
+			});
+		});
+
+		it("should append missing array entries with append", () => {
+			expect(mergeLayeredValues(base, overlay, "append")).toEqual({
+				root: false,
+				files: { includes: ["**", "src/**", "playground/**"] },
+				css: { parser: { tailwindDirectives: true } },
+			});
+		});
+
+		it("should not modify the inputs", () => {
+			const before = structuredClone(base);
+
+			mergeLayeredValues(base, overlay, "append");
+
+			expect(base).toEqual(before);
+		});
+	});
+
+	describe("copyTemplateLayer", () => {
+		let layerDir: string;
+		let targetDir: string;
+
+		beforeEach(() => {
+			layerDir = path.join(tmpDir, "layer");
+			targetDir = path.join(tmpDir, "target");
+			fs.mkdirSync(path.join(layerDir, ".github"), { recursive: true });
+			fs.mkdirSync(path.join(targetDir, ".github"), { recursive: true });
+		});
+
+		it("should merge declared files and replace the others", async () => {
+			fs.writeFileSync(
+				path.join(targetDir, "biome.json"),
+				JSON.stringify({ root: false, linter: { enabled: true } }),
+			);
+			fs.writeFileSync(
+				path.join(targetDir, ".github", "ci.yml"),
+				"on: [push]\njobs:\n  test:\n    steps: [checkout]\n",
+			);
+			fs.writeFileSync(path.join(targetDir, "README.md"), "old");
+			fs.writeFileSync(
+				path.join(layerDir, "biome.json"),
+				JSON.stringify({ root: "$delete", css: { enabled: true } }),
+			);
+			fs.writeFileSync(
+				path.join(layerDir, ".github", "ci.yml"),
+				"on: [pull_request]\njobs:\n  test:\n    steps: [test]\n",
+			);
+			fs.writeFileSync(path.join(layerDir, "README.md"), "new");
+
+			await copyTemplateLayer(layerDir, targetDir, {
+				"biome.json": "deep-merge",
+				".github/ci.yml": "append",
+				"README.md": "replace",
+			});
+
+			expect(
+				JSON.parse(fs.readFileSync(path.join(targetDir, "biome.json"), "utf8")),
+			).toEqual({ linter: { enabled: true }, css: { enabled: true } });
+			expect(
+				parseYaml(
+					fs.readFileSync(path.join(targetDir, ".github", "ci.yml"), "utf8"),
+				),
+			).toEqual({
+				on: ["push", "pull_request"],
+				jobs: { test: { steps: ["checkout", "test"] } },
+			});
+			expect(fs.readFileSync(path.join(targetDir, "README.md"), "utf8")).toBe(
+				"new",
+			);
+		});
+
+		it("should remove $delete keys from files no earlier layer wrote", async () => {
+			fs.writeFileSync(
+				path.join(layerDir, "biome.json"),
+				JSON.stringify({ root: "$delete", css: { enabled: true } }),
+			);
+
+			await copyTemplateLayer(layerDir, targetDir, {
+				"biome.json": "deep-merge",
+				"missing.json": "append",
+			});
+
+			expect(
+				JSON.parse(fs.readFileSync(path.join(targetDir, "biome.json"), "utf8")),
+			).toEqual({ css: { enabled: true } });
+			expect(fs.existsSync(path.join(targetDir, "missing.json"))).toBe(false);
+		});
+
+		it("should drop the root key of the shipped biome.json files from generated projects", async () => {
+			const templatesDir = path.resolve(
+				__dirname,
+				"../../templates/typescript",
+			);
+			const layers = [
+				path.join(templatesDir, "shared"),
+				path.join(templatesDir, "package/react"),
+			];
+			const strategies = {};
+			for (const layer of layers)
+				Object.assign(strategies, await readTemplateMergeStrategies(layer));
+
+			for (const layer of layers) {
+				await copyTemplateLayer(layer, targetDir, strategies);
+				const biome = JSON.parse(
+					fs.readFileSync(path.join(targetDir, "biome.json"), "utf8"),
+				);
+				expect(biome).not.toHaveProperty("root");
+			}
+		});
+
+		it("should throw when a file to merge is not valid JSON", async () => {
+			fs.writeFileSync(path.join(targetDir, "biome.json"), "{");
+			fs.writeFileSync(path.join(layerDir, "biome.json"), "{}");
+
+			await expect(
+				copyTemplateLayer(layerDir, targetDir, { "biome.json": "deep-merge" }),
+			).rejects.toThrow("Cannot merge");
+		});
+	});
+});
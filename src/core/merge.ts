@@ -0,0 +1,219 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import {
+	TEMPLATE_MERGE_STRATEGIES,
+	type TemplateMergeStrategy,
+	YEHLE_CONFIGURATION_FILENAME,
+} from "./constants";
+import { copyDirSafeAsync } from "./fs";
+import { isPlainObject } from "./utils";
+
+/** Value that removes a key when a file is merged into an earlier layer's file. */
+export const MERGE_DELETE_MARKER = "$delete";
+
+/** File extensions that can be merged (the others can only be replaced). */
+const MERGEABLE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/**
+ * Normalize a file path declared under merge: ("./.github//ci.yml" -> ".github/ci.yml").
+ * @param file - Path relative to the template root.
+ * @returns The path with forward slashes and without a leading "./".
+ */
+function normalizeMergeFile(file: string): string {
+	return path.posix
+		.normalize(file.trim().replaceAll("\\", "/"))
+		.replace(/^(\.\/)+/, "");
+}
+
+/**
+ * Read the merge strategies declared in a template layer's yehle.yaml.
+ * @param layerDir - Absolute path to the template (or shared) directory.
+ * @returns Promise resolving to the strategies by normalized file path; empty when there is no yehle.yaml or no merge: section.
+ * @throws Error when yehle.yaml cannot be parsed or a declaration is invalid.
+ */
+export async function readTemplateMergeStrategies(
+	layerDir: string,
+): Promise<Record<string, TemplateMergeStrategy>> {
+	const filePath = path.join(layerDir, YEHLE_CONFIGURATION_FILENAME);
+
+	let raw: string;
+	try {
+		raw = await fs.promises.readFile(filePath, "utf8");
+	} catch {
+		// No yehle.yaml
+		return {};
+	}
+
+	let data: unknown;
+	try {
+		data = parseYaml(raw);
+	} catch (e) {
+		const msg = e instanceof Error ? e.message : String(e);
+		throw new Error(`Failed to parse ${filePath}: ${msg}`);
+	}
+
+	const merge = (data as { merge?: unknown } | null)?.merge;
+	if (merge === undefined || merge === null) return {};
+	if (!isPlainObject(merge))
+		throw new Error(
+			`Invalid merge in ${filePath}: expected a mapping of file paths to ${TEMPLATE_MERGE_STRATEGIES.join(", ")}.`,
+		);
+
+	const strategies: Record<string, TemplateMergeStrategy> = {};
+	for (const [file, strategy] of Object.entries(merge)) {
+		const normalized = normalizeMergeFile(file);
+		if (
+			!normalized ||
+			normalized === "." ||
+			normalized === ".." ||
+			normalized.startsWith("../") ||
+			path.posix.isAbsolute(normalized)
+		)
+			throw new Error(
+				`Invalid merge in ${filePath}: "${file}" must be a path inside the template.`,
+			);
+		if (!TEMPLATE_MERGE_STRATEGIES.includes(strategy as TemplateMergeStrategy))
+			throw new Error(
+				`Invalid merge in ${filePath}: "${file}" has unknown strategy "${String(strategy)}" (expected ${TEMPLATE_MERGE_STRATEGIES.join(", ")}).`,
+			);
+		if (
+			strategy !== "replace" &&
+			!MERGEABLE_EXTENSIONS.includes(path.extname(normalized))
+		)
+			throw new Error(
+				`Invalid merge in ${filePath}: "${file}" cannot be merged (only ${MERGEABLE_EXTENSIONS.join(", ")} files can).`,
+			);
+		strategies[normalized] = strategy as TemplateMergeStrategy;
+	}
+	return strategies;
+}
+
+/**
+ * Merge a value from a later template layer into the value from earlier layers.
+ * Objects are merged key by key and keys set to "$delete" are removed.
+ * Arrays are appended to (skipping entries already present) with "append", and replaced otherwise.
+ * @param base - Value from earlier layers.
+ * @param overlay - Value from the later layer.
+ * @param strategy - Merge strategy of the file.
+ * @returns The merged value; neither input is modified.
+ */
+export function mergeLayeredValues(
+	base: unknown,
+	overlay: unknown,
+	strategy: Exclude<TemplateMergeStrategy, "replace">,
+): unknown {
+	if (isPlainObject(overlay)) {
+		const merged: Record<string, unknown> = isPlainObject(base)
+			? { ...base }
+			: {};
+		for (const [key, value] of Object.entries(overlay)) {
+			if (value === MERGE_DELETE_MARKER) delete merged[key];
+			else merged[key] = mergeLayeredValues(merged[key], value, strategy);
+		}
+		return merged;
+	}
+
+	if (strategy === "append" && Array.isArray(base) && Array.isArray(overlay)) {
+		const present = new Set(base.map((entry) => JSON.stringify(entry)));
+		return [
+			...base,
+			...overlay.filter((entry) => !present.has(JSON.stringify(entry))),
+		];
+	}
+
+	return overlay;
+}
+
+/**
+ * Check whether a path exists.
+ * @param filePath - Path to check.
+ * @returns Promise resolving to true when the path exists.
+ */
+async function pathExists(filePath: string): Promise<boolean> {
+	try {
+		await fs.promises.access(filePath);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Read and parse a JSON or YAML file by its extension.
+ * @param filePath - Absolute path to the file.
+ * @returns Promise resolving to the parsed content.
+ * @throws Error when the file cannot be parsed.
+ */
+async function readStructuredFile(filePath: string): Promise<unknown> {
+	const raw = await fs.promises.readFile(filePath, "utf8");
+	try {
+		return path.extname(filePath) === ".json"
+			? JSON.parse(raw)
+			: parseYaml(raw);
+	} catch (e) {
+		const msg = e instanceof Error ? e.message : String(e);
+		throw new Error(`Cannot merge ${filePath}: ${msg}`);
+	}
+}
+
+/**
+ * Serialize content to JSON (tab-indented) or YAML by the file's extension and write it.
+ * @param filePath - Absolute path to the file.
+ * @param content - Content to write.
+ * @returns Promise that resolves when the file has been written.
+ */
+async function writeStructuredFile(
+	filePath: string,
+	content: unknown,
+): Promise<void> {
+	const serialized =
+		path.extname(filePath) === ".json"
+			? `${JSON.stringify(content, null, "\t")}\n`
+			: stringifyYaml(content);
+	await fs.promises.writeFile(filePath, serialized, "utf8");
+}
+
+/**
+ * Copy a template layer into the target directory.
+ * Files with a deep-merge or append strategy are merged into the files written by earlier layers;
+ * every other file replaces the earlier one.
+ * @param layerDir - Template (or shared) directory to copy.
+ * @param targetDir - Project root directory.
+ * @param strategies - Merge strategies by normalized file path (collected from every layer's yehle.yaml).
+ * @returns Promise that resolves when the layer has been copied.
+ * @throws Error when a file to merge is not valid JSON/YAML.
+ */
+export async function copyTemplateLayer(
+	layerDir: string,
+	targetDir: string,
+	strategies: Record<string, TemplateMergeStrategy>,
+): Promise<void> {
+	const merges: Array<{
+		file: string;
+		strategy: Exclude<TemplateMergeStrategy, "replace">;
+		base: unknown;
+	}> = [];
+	for (const [file, strategy] of Object.entries(strategies)) {
+		if (strategy === "replace") continue;
+		if (!(await pathExists(path.join(layerDir, file)))) continue;
+
+		// Without an earlier file the layer's file is still merged, so "$delete" markers are removed
+		const destPath = path.join(targetDir, file);
+		const base = (await pathExists(destPath))
+			? await readStructuredFile(destPath)
+			: undefined;
+		merges.push({ file, strategy, base });
+	}
+
+	await copyDirSafeAsync(layerDir, targetDir);
+
+	for (const { file, strategy, base } of merges) {
+		const filePath = path.join(targetDir, file);
+		const overlay = await readStructuredFile(filePath);
+		await writeStructuredFile(
+			filePath,
+			mergeLayeredValues(base, overlay, strategy),
+		);
+	}
+}
@@ -12,93 +12,24 @@ vi.mock("./fs", () => ({
 	isDirAsync: vi.fn(),
 }));
 
+vi.mock("./git", () => ({
+	getHeadCommit: vi.fn(),
+}));
+
 // Import after mocks
 import fs from "node:fs";
+import path from "node:path";
 import { isDirAsync } from "./fs";
+import { getHeadCommit } from "./git";
 import {
-	getLocalRoot,
+	createLocalRegistry,
 	listLocalChildDirs,
 	listLocalFilesWithExtensions,
-	resolveLocalTemplatesSubpath,
 } from "./registry.local";
 
 describe("core/registry.local", () => {
 	beforeEach(() => {
 		vi.clearAllMocks();
-		vi.spyOn(process, "cwd").mockReturnValue("/test/project");
-	});
-
-	describe("getLocalRoot", () => {
-		it("should return path when directory exists", async () => {
-			vi.mocked(isDirAsync).mockResolvedValue(true);
-
-			const result = await getLocalRoot("templates");
-
-			expect(result).toBe("/test/project/templates");
-			expect(isDirAsync).toHaveBeenCalledWith("/test/project/templates");
-		});
-
-		it("should return null when directory does not exist", async () => {
-			vi.mocked(isDirAsync).mockResolvedValue(false);
-
-			const result = await getLocalRoot("templates");
-
-			expect(result).toBeNull();
-		});
-
-		it("should resolve path using process.cwd()", async () => {
-			vi.spyOn(process, "cwd").mockReturnValue("/custom/cwd");
-			vi.mocked(isDirAsync).mockResolvedValue(true);
-
-			const result = await getLocalRoot("data");
-
-			expect(result).toBe("/custom/cwd/data");
-		});
-	});
-
-	describe("resolveLocalTemplatesSubpath", () => {
-		it("should return path when templates root exists and subpath resolves to a directory", async () => {
-			vi.mocked(isDirAsync)
-				.mockResolvedValueOnce(true) // templates root
-				.mockResolvedValueOnce(true); // subpath
-
-			const result = await resolveLocalTemplatesSubpath("templates/typescript");
-
-			expect(result).toBe("/test/project/templates/typescript");
-		});
-
-		it("should return null when templates root does not exist", async () => {
-			vi.mocked(isDirAsync).mockResolvedValue(false);
-
-			const result = await resolveLocalTemplatesSubpath("templates/typescript");
-
-			expect(result).toBeNull();
-		});
-
-		it("should return null when subpath does not resolve to a directory", async () => {
-			vi.mocked(isDirAsync)
-				.mockResolvedValueOnce(true) // templates root
-				.mockResolvedValueOnce(false); // subpath
-
-			const result = await resolveLocalTemplatesSubpath(
-				"templates/nonexistent",
-			);
-
-			expect(result).toBeNull();
-		});
-
-		it("should handle subpath with multiple segments", async () => {
-			vi.mocked(isDirAsync)
-				.mockResolvedValueOnce(true)
-				.mockResolvedValueOnce(true)
-				.mockResolvedValueOnce(true);
-
-			const result = await resolveLocalTemplatesSubpath(
-				"templates/typescript/package/basic",
-			);
-
-			expect(result).toBe("/test/project/templates/typescript/package/basic");
-		});
 	});
 
 	describe("listLocalChildDirs", () => {
@@ -247,4 +178,81 @@ describe("core/registry.local", () => {
 			expect(result).toEqual(["rule"]);
 		});
 	});
+
+	describe("createLocalRegistry", () => {
+		const root = path.join("/test", "registry");
+		const registry = createLocalRegistry(root);
+
+		it("should describe itself as a local source", () => {
+			expect(registry.source).toEqual({ kind: "local", path: root });
+			expect(registry.isLocal).toBe(true);
+		});
+
+		it("should list directories and files relative to the root", async () => {
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+			vi.mocked(fs.promises.readdir).mockResolvedValue([
+				{ name: "package", isDirectory: () => true, isFile: () => false },
+				{ name: "rule.md", isDirectory: () => false, isFile: () => true },
+			] as never);
+
+			await expect(registry.listDirs("templates/typescript")).resolves.toEqual([
+				"package",
+			]);
+			await expect(
+				registry.listFiles("templates/instructions/essential", [".md"]),
+			).resolves.toEqual(["rule"]);
+			expect(fs.promises.readdir).toHaveBeenCalledWith(
+				path.join(root, "templates", "typescript"),
+				{ withFileTypes: true },
+			);
+		});
+
+		it("should read the root as the templates directory when it has no templates/ child", async () => {
+			const templatesDir = path.join("/test", "yehle", "templates");
+			vi.mocked(isDirAsync).mockImplementation(
+				async (dir) => dir !== path.join(templatesDir, "templates"),
+			);
+
+			await expect(
+				createLocalRegistry(templatesDir).materialize(
+					"templates/typescript/package",
+					"yehle-",
+				),
+			).resolves.toBe(path.join(templatesDir, "typescript", "package"));
+		});
+
+		it("should check subpaths with isDirAsync", async () => {
+			vi.mocked(isDirAsync).mockResolvedValue(false);
+
+			await expect(registry.exists("templates/go")).resolves.toBe(false);
+			expect(isDirAsync).toHaveBeenCalledWith(
+				path.join(root, "templates", "go"),
+			);
+		});
+
+		it("should materialize existing subpaths in place", async () => {
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+
+			await expect(
+				registry.materialize("templates/typescript", "yehle-"),
+			).resolves.toBe(path.join(root, "templates", "typescript"));
+		});
+
+		it("should throw when a materialized subpath does not exist", async () => {
+			vi.mocked(isDirAsync).mockResolvedValue(false);
+
+			await expect(
+				registry.materialize("templates/go", "yehle-"),
+			).rejects.toThrow(
+				`Local templates path does not exist: ${path.join(root, "templates", "go")}.`,
+			);
+		});
+
+		it("should resolve the commit from the root's git HEAD", async () => {
+			vi.mocked(getHeadCommit).mockResolvedValue("abc123");
+
+			await expect(registry.resolveCommit()).resolves.toBe("abc123");
+			expect(getHeadCommit).toHaveBeenCalledWith(root);
+		});
+	});
 });
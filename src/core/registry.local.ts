@@ -1,33 +1,8 @@
 import fs from "node:fs";
 import path from "node:path";
 import { isDirAsync } from "./fs";
-
-/**
- * Resolve a directory under process.cwd() and return its path if it exists.
- * @param dirName - Name of the directory under cwd (e.g. "templates").
- * @returns The absolute path if the directory exists, null otherwise.
- */
-export async function getLocalRoot(dirName: string): Promise<string | null> {
-	const root = path.resolve(process.cwd(), dirName);
-	if (await isDirAsync(root)) return root;
-	return null;
-}
-
-/**
- * Resolve a repository subpath against the local templates root.
- * @param subpath - Path under the templates root, using forward slashes (e.g. "templates/typescript").
- * @returns The absolute path if it exists, null otherwise.
- */
-export async function resolveLocalTemplatesSubpath(
-	subpath: string,
-): Promise<string | null> {
-	const root = await getLocalRoot("templates");
-	if (!root) return null;
-
-	const fullPath = path.join(root, ...subpath.split("/").slice(1));
-	if (await isDirAsync(fullPath)) return fullPath;
-	return null;
-}
+import { getHeadCommit } from "./git";
+import type { TemplateRegistry } from "./registry";
 
 /**
  * List child directory names for a local directory.
@@ -79,3 +54,39 @@ export async function listLocalFilesWithExtensions(
 
 	return Array.from(names).sort((a, b) => a.localeCompare(b));
 }
+
+/**
+ * Create a registry backend that reads templates and instructions in place from a directory on disk.
+ * The directory may be a checkout that contains templates/ or the templates/ directory itself,
+ * so template authors can point at their templates from anywhere (e.g. from inside a generated project).
+ * @param root - Absolute path to the registry root or to the templates directory.
+ * @returns The local template registry.
+ */
+export function createLocalRegistry(root: string): TemplateRegistry {
+	let templatesRoot: Promise<string> | undefined;
+	const resolve = async (subpath: string) => {
+		const [first, ...rest] = subpath.split("/").filter(Boolean);
+		if (first !== "templates") return path.join(root, ...subpath.split("/"));
+
+		templatesRoot ??= isDirAsync(path.join(root, "templates")).then((nested) =>
+			nested ? path.join(root, "templates") : root,
+		);
+		return path.join(await templatesRoot, ...rest);
+	};
+
+	return {
+		source: { kind: "local", path: root },
+		isLocal: true,
+		listDirs: async (subpath, exclude) =>
+			listLocalChildDirs(await resolve(subpath), exclude),
+		listFiles: async (subpath, extensions) =>
+			listLocalFilesWithExtensions(await resolve(subpath), extensions),
+		exists: async (subpath) => isDirAsync(await resolve(subpath)),
+		materialize: async (subpath) => {
+			const dir = await resolve(subpath);
+			if (await isDirAsync(dir)) return dir;
+			throw new Error(`Local templates path does not exist: ${dir}.`);
+		},
+		resolveCommit: () => getHeadCommit(root),
+	};
+}
@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 vi.mock("giget", () => ({
 	downloadTemplate: vi.fn(),
@@ -8,16 +8,27 @@ vi.mock("node:fs", () => ({
 	default: {
 		promises: {
 			mkdtemp: vi.fn(),
+			readFile: vi.fn(),
+			writeFile: vi.fn(),
 		},
 	},
 }));
 
+vi.mock("./cache", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("./cache")>();
+	return {
+		...actual,
+		readCacheEntry: vi.fn(),
+		touchCacheEntry: vi.fn(),
+		writeCacheEntry: vi.fn(),
+	};
+});
+
 vi.mock("./constants", () => ({
 	DEFAULT_GITHUB_OWNER: "agrawal-rohit",
 	DEFAULT_GITHUB_REPO: "yehle",
 	GITHUB_HEADERS: {
 		Accept: "application/vnd.github.v3+json",
-		Authorization: "token undefined",
 		"User-Agent": "yehle",
 	},
 }));
@@ -26,24 +37,70 @@ vi.mock("./fs", () => ({
 	isDirAsync: vi.fn(),
 }));
 
+vi.mock("./git", () => ({
+	getHeadCommit: vi.fn(),
+}));
+
+vi.mock("./registry.local", () => ({
+	listLocalChildDirs: vi.fn(),
+	listLocalFilesWithExtensions: vi.fn(),
+}));
+
+vi.mock("./shell", () => ({
+	runAsync: vi.fn(),
+}));
+
 // Import after mocks
 import fs from "node:fs";
 import { downloadTemplate } from "giget";
+import {
+	type CacheEntry,
+	readCacheEntry,
+	touchCacheEntry,
+	writeCacheEntry,
+} from "./cache";
 import { DEFAULT_GITHUB_OWNER, DEFAULT_GITHUB_REPO } from "./constants";
 import { isDirAsync } from "./fs";
+import { getHeadCommit } from "./git";
+import {
+	listLocalChildDirs,
+	listLocalFilesWithExtensions,
+} from "./registry.local";
 import {
 	buildContentsURL,
 	buildGigetSpec,
+	createRemoteRegistry,
 	downloadSubtreeToTemp,
 	listRemoteChildDirsViaAPI,
 	listRemoteFilesViaAPI,
 	remoteSubpathExists,
+	resolveRemoteCommit,
 	resolveRemoteSubpath,
 } from "./registry.remote";
+import {
+	GITHUB_TOKEN_ENV_VARS,
+	type RegistrySource,
+	setOfflineMode,
+} from "./registry.source";
+import { runAsync } from "./shell";
 
 describe("core/registry.remote", () => {
+	const originalEnv = { ...process.env };
+
 	beforeEach(() => {
 		vi.clearAllMocks();
+		setOfflineMode(false);
+		process.env = { ...originalEnv };
+		for (const name of GITHUB_TOKEN_ENV_VARS) delete process.env[name];
+
+		// Default to an empty, read-only cache so downloads go to temp dirs.
+		vi.mocked(readCacheEntry).mockResolvedValue(null);
+		vi.mocked(touchCacheEntry).mockResolvedValue();
+		vi.mocked(writeCacheEntry).mockRejectedValue(new Error("EACCES"));
+	});
+
+	afterEach(() => {
+		process.env = originalEnv;
 	});
 
 	describe("buildContentsURL", () => {
@@ -473,4 +530,1011 @@ describe("core/registry.remote", () => {
 			).rejects.toThrow(/No remote templates found at templates\/typescript/);
 		});
 	});
+
+	describe("non-GitHub registries", () => {
+		const gitlab: RegistrySource = {
+			kind: "gitlab",
+			owner: "acme/platform",
+			repo: "templates",
+		};
+
+		it("should build GitLab tree API URLs and giget specs", () => {
+			expect(buildContentsURL("templates/typescript", gitlab)).toBe(
+				"https://gitlab.com/api/v4/projects/acme%2Fplatform%2Ftemplates/repository/tree?path=templates%2Ftypescript&per_page=100",
+			);
+			expect(buildGigetSpec("templates/typescript", gitlab)).toBe(
+				"gitlab:acme/platform/templates/templates/typescript",
+			);
+		});
+
+		it("should normalize GitLab tree/blob entries", async () => {
+			vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				status: 200,
+				json: async () => [
+					{ name: "typescript", type: "tree" },
+					{ name: "rules.md", type: "blob" },
+				],
+			} as unknown as Response);
+
+			await expect(
+				listRemoteChildDirsViaAPI("templates", undefined, gitlab),
+			).resolves.toEqual(["typescript"]);
+			await expect(
+				listRemoteFilesViaAPI("templates", [".md"], gitlab),
+			).resolves.toEqual(["rules"]);
+		});
+
+		it("should follow GitLab pagination and cache the listing without an ETag", async () => {
+			const page = (entries: unknown[], nextPage: string) =>
+				({
+					ok: true,
+					status: 200,
+					headers: new Headers({ etag: '"page"', "x-next-page": nextPage }),
+					json: async () => entries,
+				}) as unknown as Response;
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockResolvedValueOnce(
+					page(
+						Array.from({ length: 100 }, (_, i) => ({
+							name: `rule-${i}`,
+							type: "blob",
+						})),
+						"2",
+					),
+				)
+				.mockResolvedValueOnce(
+					page([{ name: "typescript", type: "tree" }], ""),
+				);
+
+			await expect(
+				listRemoteChildDirsViaAPI("templates", undefined, gitlab),
+			).resolves.toEqual(["typescript"]);
+
+			expect(fetchSpy).toHaveBeenCalledTimes(2);
+			expect(fetchSpy).toHaveBeenNthCalledWith(
+				2,
+				"https://gitlab.com/api/v4/projects/acme%2Fplatform%2Ftemplates/repository/tree?path=templates&per_page=100&page=2",
+				expect.anything(),
+			);
+			expect(writeCacheEntry).toHaveBeenCalledWith(
+				expect.objectContaining({ kind: "listing", etag: undefined }),
+				expect.any(Function),
+			);
+		});
+
+		it("should report GitLab API failures with the provider name", async () => {
+			vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: false,
+				status: 404,
+				statusText: "Not Found",
+			} as unknown as Response);
+
+			await expect(
+				listRemoteChildDirsViaAPI("templates", undefined, gitlab),
+			).rejects.toThrow("Failed to fetch from GitLab API: 404 Not Found");
+		});
+
+		it("should treat an empty GitLab tree as a missing subpath", async () => {
+			vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				status: 200,
+				json: async () => [],
+			} as unknown as Response);
+
+			await expect(remoteSubpathExists("templates/x", gitlab)).resolves.toBe(
+				false,
+			);
+		});
+
+		it("should clone plain git registries once and list from the clone", async () => {
+			const git: RegistrySource = {
+				kind: "git",
+				url: "https://git.acme.io/listing.git",
+			};
+			vi.mocked(fs.promises.mkdtemp).mockResolvedValue("/tmp/yehle-git-1");
+			vi.mocked(runAsync).mockResolvedValue("");
+			vi.mocked(listLocalChildDirs).mockResolvedValue(["typescript"]);
+			vi.mocked(listLocalFilesWithExtensions).mockResolvedValue(["rules"]);
+
+			await expect(
+				listRemoteChildDirsViaAPI("templates", undefined, git),
+			).resolves.toEqual(["typescript"]);
+			await expect(
+				listRemoteFilesViaAPI("templates/instructions", [".md"], git),
+			).resolves.toEqual(["rules"]);
+
+			expect(runAsync).toHaveBeenCalledTimes(3);
+			expect(runAsync).toHaveBeenCalledWith(
+				"git fetch --depth 1 --quiet --end-of-options https://git.acme.io/listing.git HEAD",
+				{ cwd: "/tmp/yehle-git-1" },
+			);
+			expect(listLocalChildDirs).toHaveBeenCalledWith(
+				"/tmp/yehle-git-1/templates",
+				undefined,
+			);
+		});
+
+		it("should return the clone root when downloading from a git registry", async () => {
+			const git: RegistrySource = {
+				kind: "git",
+				url: "https://git.acme.io/download.git",
+			};
+			vi.mocked(fs.promises.mkdtemp).mockResolvedValue("/tmp/yehle-git-2");
+			vi.mocked(runAsync).mockResolvedValue("");
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+
+			await expect(remoteSubpathExists("templates", git)).resolves.toBe(true);
+			await expect(
+				downloadSubtreeToTemp("templates", "yehle-", git),
+			).resolves.toBe("/tmp/yehle-git-2");
+			expect(downloadTemplate).not.toHaveBeenCalled();
+		});
+
+		it("should surface clone failures", async () => {
+			const git: RegistrySource = {
+				kind: "git",
+				url: "https://git.acme.io/broken.git",
+			};
+			vi.mocked(fs.promises.mkdtemp).mockResolvedValue("/tmp/yehle-git-3");
+			vi.mocked(runAsync).mockRejectedValue(new Error("exit 128"));
+
+			await expect(
+				downloadSubtreeToTemp("templates", "yehle-", git),
+			).rejects.toThrow(
+				/Failed to fetch registry "https:\/\/git.acme.io\/broken.git"/,
+			);
+		});
+
+		it("should fetch git registries at the pinned ref", async () => {
+			const git: RegistrySource = {
+				kind: "git",
+				url: "https://git.acme.io/pinned.git",
+				ref: "v1.0.0",
+			};
+			vi.mocked(fs.promises.mkdtemp).mockResolvedValue("/tmp/yehle-git-4");
+			vi.mocked(runAsync).mockResolvedValue("");
+
+			await downloadSubtreeToTemp("templates", "yehle-", git);
+
+			expect(runAsync).toHaveBeenCalledWith(
+				"git fetch --depth 1 --quiet --end-of-options https://git.acme.io/pinned.git v1.0.0",
+				{ cwd: "/tmp/yehle-git-4" },
+			);
+			expect(runAsync).toHaveBeenCalledWith("git checkout --quiet FETCH_HEAD", {
+				cwd: "/tmp/yehle-git-4",
+			});
+		});
+
+		it("should use the API of self-hosted GitLab instances", async () => {
+			const selfHosted: RegistrySource = {
+				kind: "gitlab",
+				host: "https://gitlab.acme.io",
+				owner: "platform",
+				repo: "templates",
+			};
+			const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				status: 200,
+				json: async () => [{ id: "abc123" }],
+			} as unknown as Response);
+
+			expect(buildContentsURL("templates", selfHosted)).toBe(
+				"https://gitlab.acme.io/api/v4/projects/platform%2Ftemplates/repository/tree?path=templates&per_page=100",
+			);
+			await expect(resolveRemoteCommit(selfHosted)).resolves.toBe("abc123");
+			expect(fetchSpy.mock.calls[0][0]).toBe(
+				"https://gitlab.acme.io/api/v4/projects/platform%2Ftemplates/repository/commits?per_page=1",
+			);
+		});
+
+		it("should download from self-hosted GitLab instances with a custom giget provider", async () => {
+			const selfHosted: RegistrySource = {
+				kind: "gitlab",
+				host: "https://gitlab.acme.io",
+				owner: "platform",
+				repo: "templates",
+				ref: "v1",
+			};
+			vi.mocked(fs.promises.mkdtemp).mockResolvedValue("/tmp/yehle-gl");
+			vi.mocked(downloadTemplate).mockResolvedValue({
+				dir: "/tmp/yehle-gl",
+			} as never);
+
+			await downloadSubtreeToTemp("templates", "yehle-", selfHosted);
+
+			const options = vi.mocked(downloadTemplate).mock.calls[0][1];
+			const provider = options?.providers?.gitlab;
+			expect(provider).toBeTypeOf("function");
+			expect(await provider?.("", { auth: undefined } as never)).toMatchObject({
+				subdir: "/templates",
+				tar: "https://gitlab.acme.io/api/v4/projects/platform%2Ftemplates/repository/archive.tar.gz?sha=v1",
+			});
+		});
+
+		it("should download tarball registries once and list from the extracted archive", async () => {
+			const tarball: RegistrySource = {
+				kind: "tarball",
+				url: "https://acme.io/listing.tar.gz",
+			};
+			const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				status: 200,
+				headers: new Headers({ etag: '"v1"' }),
+			} as unknown as Response);
+			vi.mocked(fs.promises.mkdtemp).mockResolvedValue("/tmp/yehle-tarball-1");
+			vi.mocked(listLocalChildDirs).mockResolvedValue(["typescript"]);
+
+			await expect(
+				listRemoteChildDirsViaAPI("templates", undefined, tarball),
+			).resolves.toEqual(["typescript"]);
+			await listRemoteChildDirsViaAPI("templates", undefined, tarball);
+
+			expect(downloadTemplate).toHaveBeenCalledTimes(1);
+			expect(downloadTemplate).toHaveBeenCalledWith(
+				"https://acme.io/listing.tar.gz",
+				{ dir: "/tmp/yehle-tarball-1", force: true },
+			);
+			expect(fetchSpy).toHaveBeenCalledWith(
+				"https://acme.io/listing.tar.gz",
+				expect.objectContaining({ method: "HEAD" }),
+			);
+			expect(listLocalChildDirs).toHaveBeenCalledWith(
+				"/tmp/yehle-tarball-1/templates",
+				undefined,
+			);
+		});
+
+		it("should record the ETag of downloaded tarballs as the validator", async () => {
+			const tarball: RegistrySource = {
+				kind: "tarball",
+				url: "https://acme.io/cached.tar.gz",
+			};
+			vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				status: 200,
+				headers: new Headers({ etag: '"v2"' }),
+			} as unknown as Response);
+			vi.mocked(writeCacheEntry).mockImplementation(async (meta, populate) => {
+				const learned = await populate("/cache/yehle/tarball/data");
+				return {
+					...meta,
+					...learned,
+					fetchedAt: Date.now(),
+					key: "tarball",
+					dataDir: "/cache/yehle/tarball/data",
+				};
+			});
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+
+			await expect(
+				resolveRemoteSubpath("templates", "yehle-", undefined, tarball),
+			).resolves.toBe("/cache/yehle/tarball/data");
+
+			expect(writeCacheEntry).toHaveBeenCalledWith(
+				expect.objectContaining({
+					registry: "tarball:https://acme.io/cached.tar.gz",
+					subpath: "",
+				}),
+				expect.any(Function),
+			);
+			await expect(
+				vi.mocked(writeCacheEntry).mock.results[0].value,
+			).resolves.toMatchObject({ validator: '"v2"' });
+		});
+
+		it("should surface tarball download failures", async () => {
+			const tarball: RegistrySource = {
+				kind: "tarball",
+				url: "https://acme.io/broken.tar.gz",
+			};
+			vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("offline"));
+			vi.mocked(fs.promises.mkdtemp).mockResolvedValue("/tmp/yehle-tarball-2");
+			vi.mocked(downloadTemplate).mockRejectedValue(new Error("404"));
+
+			await expect(
+				downloadSubtreeToTemp("templates", "yehle-", tarball),
+			).rejects.toThrow(
+				/Failed to download registry "https:\/\/acme.io\/broken.tar.gz"/,
+			);
+		});
+
+		it("should report no commit for tarball registries", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+			await expect(
+				resolveRemoteCommit({ kind: "tarball", url: "https://acme.io/t.tgz" }),
+			).resolves.toBeUndefined();
+			expect(fetchSpy).not.toHaveBeenCalled();
+		});
+
+		it("should refuse to build API URLs or giget specs for tarballs", () => {
+			const tarball: RegistrySource = {
+				kind: "tarball",
+				url: "https://acme.io/t.tgz",
+			};
+
+			expect(() => buildContentsURL("templates", tarball)).toThrow(
+				"is a tarball and has no contents API",
+			);
+			expect(() => buildGigetSpec("templates", tarball)).toThrow(
+				"is a tarball and cannot be downloaded by subpath",
+			);
+		});
+
+		it("should refuse to fetch local registries remotely", () => {
+			expect(() =>
+				buildContentsURL("templates", { kind: "local", path: "/repo" }),
+			).toThrow(/is a local directory/);
+		});
+	});
+
+	describe("refs", () => {
+		const pinnedGithub: RegistrySource = {
+			kind: "github",
+			owner: "acme",
+			repo: "templates",
+			ref: "v1.2.0",
+		};
+		const pinnedGitlab: RegistrySource = {
+			kind: "gitlab",
+			owner: "acme",
+			repo: "templates",
+			ref: "release/1.x",
+		};
+
+		it("should pass the ref to the listing APIs", () => {
+			expect(buildContentsURL("templates", pinnedGithub)).toBe(
+				"https://api.github.com/repos/acme/templates/contents/templates?ref=v1.2.0",
+			);
+			expect(buildContentsURL("templates", pinnedGitlab)).toBe(
+				"https://gitlab.com/api/v4/projects/acme%2Ftemplates/repository/tree?path=templates&per_page=100&ref=release%2F1.x",
+			);
+		});
+
+		it("should pin giget downloads to the ref", () => {
+			expect(buildGigetSpec("templates/typescript", pinnedGithub)).toBe(
+				"github:acme/templates/templates/typescript#v1.2.0",
+			);
+		});
+
+		it("should honour the ref when listing via the Contents API", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				status: 200,
+				json: async () => [{ name: "typescript", type: "dir" }],
+			} as unknown as Response);
+
+			await listRemoteChildDirsViaAPI("templates", undefined, pinnedGithub);
+			await listRemoteFilesViaAPI("templates", [".md"], pinnedGithub);
+
+			for (const call of fetchSpy.mock.calls)
+				expect(String(call[0])).toContain("?ref=v1.2.0");
+		});
+	});
+
+	describe("resolveRemoteCommit", () => {
+		it("should resolve GitHub refs via the commits API", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				text: async () => "abc123\n",
+			} as unknown as Response);
+
+			await expect(
+				resolveRemoteCommit({
+					kind: "github",
+					owner: "acme",
+					repo: "templates",
+					ref: "v1.2.0",
+				}),
+			).resolves.toBe("abc123");
+			expect(fetchSpy).toHaveBeenCalledWith(
+				"https://api.github.com/repos/acme/templates/commits/v1.2.0",
+				expect.objectContaining({
+					headers: expect.objectContaining({
+						Accept: "application/vnd.github.sha",
+					}),
+				}),
+			);
+		});
+
+		it("should resolve the default branch of GitLab registries", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				json: async () => [{ id: "def456" }],
+			} as unknown as Response);
+
+			await expect(
+				resolveRemoteCommit({ kind: "gitlab", owner: "acme", repo: "t" }),
+			).resolves.toBe("def456");
+			expect(fetchSpy).toHaveBeenCalledWith(
+				"https://gitlab.com/api/v4/projects/acme%2Ft/repository/commits?per_page=1",
+				expect.anything(),
+			);
+		});
+
+		it("should read HEAD of the fetched checkout for git registries", async () => {
+			vi.mocked(fs.promises.mkdtemp).mockResolvedValue("/tmp/yehle-git-5");
+			vi.mocked(runAsync).mockResolvedValue("");
+			vi.mocked(getHeadCommit).mockResolvedValue("0123abc");
+
+			await expect(
+				resolveRemoteCommit({
+					kind: "git",
+					url: "https://git.acme.io/commit.git",
+				}),
+			).resolves.toBe("0123abc");
+			expect(getHeadCommit).toHaveBeenCalledWith("/tmp/yehle-git-5");
+		});
+
+		it("should return undefined when the lookup fails", async () => {
+			vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: false,
+				status: 404,
+			} as unknown as Response);
+
+			await expect(
+				resolveRemoteCommit({ kind: "github", owner: "a", repo: "b" }),
+			).resolves.toBeUndefined();
+
+			vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("offline"));
+			await expect(
+				resolveRemoteCommit({ kind: "github", owner: "a", repo: "b" }),
+			).resolves.toBeUndefined();
+		});
+	});
+
+	describe("persistent cache", () => {
+		const github: RegistrySource = {
+			kind: "github",
+			owner: "acme",
+			repo: "templates",
+		};
+
+		/** Build a cache entry for the given kind and subpath. */
+		function cacheEntry(overrides: Partial<CacheEntry>): CacheEntry {
+			return {
+				kind: "subtree",
+				registry: "github:acme/templates",
+				subpath: "templates/typescript",
+				fetchedAt: Date.now(),
+				key: "key",
+				dataDir: "/cache/key/data",
+				...overrides,
+			};
+		}
+
+		/** Make writeCacheEntry run the populate callback against a fake cache dir. */
+		function useWritableCache() {
+			vi.mocked(writeCacheEntry).mockImplementation(async (meta, populate) => {
+				const learned = await populate("/cache/new/data");
+				return {
+					...meta,
+					...learned,
+					fetchedAt: Date.now(),
+					key: "new",
+					dataDir: "/cache/new/data",
+				};
+			});
+		}
+
+		it("should serve fresh subtrees from the cache without network access", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch");
+			vi.mocked(readCacheEntry).mockResolvedValue(cacheEntry({}));
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+
+			await expect(
+				resolveRemoteSubpath(
+					"templates/typescript",
+					"yehle-",
+					undefined,
+					github,
+				),
+			).resolves.toBe("/cache/key/data");
+
+			expect(readCacheEntry).toHaveBeenCalledWith(
+				"subtree",
+				"github:acme/templates",
+				"templates/typescript",
+			);
+			expect(fetchSpy).not.toHaveBeenCalled();
+			expect(downloadTemplate).not.toHaveBeenCalled();
+		});
+
+		it("should download into the cache on a miss", async () => {
+			useWritableCache();
+			vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				status: 200,
+				headers: new Headers({ etag: '"abc"' }),
+				json: async () => [{ name: "package", type: "dir", sha: "1" }],
+			} as unknown as Response);
+			vi.mocked(downloadTemplate).mockResolvedValue({
+				dir: "/cache/new/data",
+			} as never);
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+
+			await expect(
+				resolveRemoteSubpath(
+					"templates/typescript",
+					"yehle-",
+					undefined,
+					github,
+				),
+			).resolves.toBe("/cache/new/data");
+
+			expect(downloadTemplate).toHaveBeenCalledWith(
+				"github:acme/templates/templates/typescript",
+				{ dir: "/cache/new/data", force: true },
+			);
+			expect(writeCacheEntry).toHaveBeenCalledWith(
+				expect.objectContaining({
+					kind: "listing",
+					etag: '"abc"',
+					immutable: false,
+				}),
+				expect.any(Function),
+			);
+			expect(writeCacheEntry).toHaveBeenCalledWith(
+				expect.objectContaining({
+					kind: "subtree",
+					subpath: "templates/typescript",
+					validator: expect.any(String),
+				}),
+				expect.any(Function),
+			);
+			expect(fs.promises.mkdtemp).not.toHaveBeenCalled();
+		});
+
+		it("should mark entries pinned to a commit SHA as immutable", async () => {
+			useWritableCache();
+			const sha = "a".repeat(40);
+			vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				status: 200,
+				json: async () => [{ name: "package", type: "dir" }],
+			} as unknown as Response);
+			vi.mocked(downloadTemplate).mockResolvedValue({ dir: "/x" } as never);
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+
+			await resolveRemoteSubpath("templates/typescript", "yehle-", undefined, {
+				...github,
+				ref: sha,
+			});
+
+			expect(writeCacheEntry).toHaveBeenCalledWith(
+				expect.objectContaining({
+					kind: "subtree",
+					registry: `github:acme/templates#${sha}`,
+					immutable: true,
+				}),
+				expect.any(Function),
+			);
+		});
+
+		it("should revalidate stale listings with If-None-Match and reuse them on 304", async () => {
+			const listing = cacheEntry({
+				kind: "listing",
+				subpath: "templates",
+				etag: '"abc"',
+				validator: "v1",
+				fetchedAt: 0,
+			});
+			vi.mocked(readCacheEntry).mockResolvedValue(listing);
+			vi.mocked(fs.promises.readFile).mockResolvedValue(
+				JSON.stringify([{ name: "typescript", type: "dir" }]),
+			);
+			const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: false,
+				status: 304,
+			} as unknown as Response);
+
+			await expect(
+				listRemoteChildDirsViaAPI("templates", undefined, github),
+			).resolves.toEqual(["typescript"]);
+
+			expect(fetchSpy).toHaveBeenCalledWith(
+				"https://api.github.com/repos/acme/templates/contents/templates",
+				{
+					headers: expect.objectContaining({ "If-None-Match": '"abc"' }),
+				},
+			);
+			expect(touchCacheEntry).toHaveBeenCalledWith(listing);
+		});
+
+		it("should keep a stale subtree when its listing has not changed", async () => {
+			const subtree = cacheEntry({ validator: "unchanged", fetchedAt: 0 });
+			const listing = cacheEntry({
+				kind: "listing",
+				validator: "unchanged",
+				fetchedAt: Date.now(),
+			});
+			vi.mocked(readCacheEntry).mockImplementation(async (kind) =>
+				kind === "subtree" ? subtree : listing,
+			);
+			vi.mocked(fs.promises.readFile).mockResolvedValue("[{}]");
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+
+			await expect(
+				resolveRemoteSubpath(
+					"templates/typescript",
+					"yehle-",
+					undefined,
+					github,
+				),
+			).resolves.toBe("/cache/key/data");
+
+			expect(touchCacheEntry).toHaveBeenCalledWith(subtree);
+			expect(downloadTemplate).not.toHaveBeenCalled();
+		});
+
+		it("should download a stale subtree again when its listing changed", async () => {
+			useWritableCache();
+			vi.mocked(readCacheEntry).mockImplementation(async (kind) =>
+				kind === "subtree"
+					? cacheEntry({ validator: "old", fetchedAt: 0 })
+					: null,
+			);
+			vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				status: 200,
+				json: async () => [{ name: "package", type: "dir", sha: "2" }],
+			} as unknown as Response);
+			vi.mocked(downloadTemplate).mockResolvedValue({
+				dir: "/cache/new/data",
+			} as never);
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+
+			await expect(
+				resolveRemoteSubpath(
+					"templates/typescript",
+					"yehle-",
+					undefined,
+					github,
+				),
+			).resolves.toBe("/cache/new/data");
+			expect(downloadTemplate).toHaveBeenCalled();
+		});
+
+		it("should keep a cached git checkout when ls-remote reports the same commit", async () => {
+			vi.mocked(readCacheEntry).mockResolvedValue(
+				cacheEntry({
+					registry: "https://git.acme.io/cached.git",
+					subpath: "",
+					validator: "abc123",
+					fetchedAt: 0,
+				}),
+			);
+			vi.mocked(runAsync).mockResolvedValue("abc123\tHEAD\n");
+			vi.mocked(listLocalChildDirs).mockResolvedValue(["typescript"]);
+
+			await expect(
+				listRemoteChildDirsViaAPI("templates", undefined, {
+					kind: "git",
+					url: "https://git.acme.io/cached.git",
+				}),
+			).resolves.toEqual(["typescript"]);
+
+			expect(runAsync).toHaveBeenCalledTimes(1);
+			expect(runAsync).toHaveBeenCalledWith(
+				"git ls-remote --end-of-options https://git.acme.io/cached.git HEAD",
+				{ stdio: "pipe" },
+			);
+			expect(listLocalChildDirs).toHaveBeenCalledWith(
+				"/cache/key/data/templates",
+				undefined,
+			);
+		});
+
+		it("should record the fetched commit as the validator of git checkouts", async () => {
+			useWritableCache();
+			vi.mocked(runAsync).mockResolvedValue("");
+			vi.mocked(getHeadCommit).mockResolvedValue("fedcba");
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+
+			await expect(
+				downloadSubtreeToTemp("templates", "yehle-", {
+					kind: "git",
+					url: "https://git.acme.io/fresh.git",
+				}),
+			).resolves.toBe("/cache/new/data");
+
+			expect(runAsync).toHaveBeenCalledWith("git init --quiet", {
+				cwd: "/cache/new/data",
+			});
+			expect(getHeadCommit).toHaveBeenCalledWith("/cache/new/data");
+		});
+	});
+
+	describe("offline mode", () => {
+		const github: RegistrySource = {
+			kind: "github",
+			owner: "acme",
+			repo: "templates",
+		};
+
+		beforeEach(() => {
+			setOfflineMode(true);
+		});
+
+		it("should serve descendants of a cached ancestor subtree, even when stale", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch");
+			vi.mocked(readCacheEntry).mockImplementation(async (kind, _r, subpath) =>
+				kind === "subtree" && subpath === "templates"
+					? {
+							kind: "subtree",
+							registry: "github:acme/templates",
+							subpath: "templates",
+							fetchedAt: 0,
+							key: "warm",
+							dataDir: "/cache/warm/data",
+						}
+					: null,
+			);
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+
+			await expect(
+				resolveRemoteSubpath(
+					"templates/typescript/package",
+					"yehle-",
+					undefined,
+					github,
+				),
+			).resolves.toBe("/cache/warm/data/typescript/package");
+			expect(fetchSpy).not.toHaveBeenCalled();
+			expect(downloadTemplate).not.toHaveBeenCalled();
+		});
+
+		it("should fail with a clear error when a subtree is not cached", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+			await expect(
+				resolveRemoteSubpath("templates/rust", "yehle-", undefined, github),
+			).rejects.toThrow(
+				'Not cached: "templates/rust" from github:acme/templates is not available offline.',
+			);
+			expect(fetchSpy).not.toHaveBeenCalled();
+		});
+
+		it("should fail with a clear error when a listing is not cached", async () => {
+			await expect(
+				listRemoteFilesViaAPI("instructions", [".md"], github),
+			).rejects.toThrow('Not cached: "instructions"');
+		});
+
+		it("should refuse to clone git registries that are not cached", async () => {
+			await expect(
+				listRemoteChildDirsViaAPI("templates", undefined, {
+					kind: "git",
+					url: "https://git.acme.io/offline.git",
+				}),
+			).rejects.toThrow(
+				'Not cached: "(repository)" from https://git.acme.io/offline.git',
+			);
+			expect(runAsync).not.toHaveBeenCalled();
+		});
+
+		it("should pin to the commit remembered by the last online run", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch");
+			vi.mocked(readCacheEntry).mockResolvedValue({
+				kind: "commit",
+				registry: "github:acme/templates",
+				subpath: "",
+				validator: "abc123",
+				fetchedAt: 0,
+				key: "commit",
+				dataDir: "/cache/commit/data",
+			});
+
+			await expect(resolveRemoteCommit(github)).resolves.toBe("abc123");
+			expect(readCacheEntry).toHaveBeenCalledWith(
+				"commit",
+				"github:acme/templates",
+				"",
+			);
+			expect(fetchSpy).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("resolveRemoteCommit caching", () => {
+		it("should return commit SHA refs without a lookup", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch");
+			const sha = "b".repeat(40);
+
+			await expect(
+				resolveRemoteCommit({
+					kind: "github",
+					owner: "a",
+					repo: "b",
+					ref: sha,
+				}),
+			).resolves.toBe(sha);
+			expect(fetchSpy).not.toHaveBeenCalled();
+		});
+
+		it("should remember resolved commits in the cache", async () => {
+			vi.mocked(writeCacheEntry).mockResolvedValue({} as CacheEntry);
+			vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				text: async () => "abc123\n",
+			} as unknown as Response);
+
+			await resolveRemoteCommit({ kind: "github", owner: "a", repo: "b" });
+
+			expect(writeCacheEntry).toHaveBeenCalledWith(
+				{
+					kind: "commit",
+					registry: "github:a/b",
+					subpath: "",
+					validator: "abc123",
+				},
+				expect.any(Function),
+			);
+		});
+	});
+
+	describe("GitHub authentication", () => {
+		const github: RegistrySource = {
+			kind: "github",
+			owner: "acme",
+			repo: "private-templates",
+		};
+
+		/** A 403 response carrying GitHub's rate-limit headers. */
+		function rateLimited(reset: number): Response {
+			return {
+				ok: false,
+				status: 403,
+				statusText: "Forbidden",
+				headers: new Headers({
+					"x-ratelimit-remaining": "0",
+					"x-ratelimit-reset": String(reset),
+				}),
+			} as unknown as Response;
+		}
+
+		it("should send the token to the Contents API and giget", async () => {
+			process.env.GH_TOKEN = "gh-secret";
+			const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				status: 200,
+				json: async () => [{ name: "package", type: "dir" }],
+			} as unknown as Response);
+			vi.mocked(fs.promises.mkdtemp).mockResolvedValue("/tmp/yehle-auth");
+			vi.mocked(downloadTemplate).mockResolvedValue({
+				dir: "/tmp/yehle-auth",
+			} as never);
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+
+			await resolveRemoteSubpath("templates", "yehle-", undefined, github);
+
+			expect(fetchSpy).toHaveBeenCalledWith(
+				"https://api.github.com/repos/acme/private-templates/contents/templates",
+				{
+					headers: expect.objectContaining({
+						Authorization: "Bearer gh-secret",
+					}),
+				},
+			);
+			expect(downloadTemplate).toHaveBeenCalledWith(
+				"github:acme/private-templates/templates",
+				{ dir: "/tmp/yehle-auth", force: true, auth: "gh-secret" },
+			);
+		});
+
+		it("should not send an Authorization header without a token", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				json: async () => [],
+			} as unknown as Response);
+
+			await listRemoteFilesViaAPI("instructions", [".md"], github);
+
+			const headers = fetchSpy.mock.calls[0]?.[1]?.headers as Record<
+				string,
+				string
+			>;
+			expect(headers).not.toHaveProperty("Authorization");
+		});
+
+		it("should report an exhausted rate limit with its reset time", async () => {
+			const reset = Math.floor(Date.now() / 1000) + 600;
+			vi.spyOn(globalThis, "fetch").mockResolvedValue(rateLimited(reset));
+			const resetAt = new Date(reset * 1000).toLocaleTimeString();
+
+			await expect(
+				listRemoteChildDirsViaAPI("templates", undefined, github),
+			).rejects.toThrow(
+				`GitHub API rate limit exceeded (resets at ${resetAt}). Set GITHUB_TOKEN or GH_TOKEN (or githubToken in config.yaml) to raise the limit.`,
+			);
+		});
+
+		it("should surface rate limits instead of reporting missing paths", async () => {
+			process.env.GITHUB_TOKEN = "exhausted";
+			vi.spyOn(globalThis, "fetch").mockResolvedValue(rateLimited(0));
+
+			await expect(
+				resolveRemoteSubpath("templates", "yehle-", undefined, github),
+			).rejects.toThrow(
+				"GitHub API rate limit exceeded. The limit applies to the configured token",
+			);
+			await expect(remoteSubpathExists("templates", github)).rejects.toThrow(
+				"GitHub API rate limit exceeded",
+			);
+			await expect(resolveRemoteCommit(github)).rejects.toThrow(
+				"GitHub API rate limit exceeded",
+			);
+		});
+
+		it("should keep treating other 403 responses as failures", async () => {
+			vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: false,
+				status: 403,
+				statusText: "Forbidden",
+				headers: new Headers({ "x-ratelimit-remaining": "42" }),
+			} as unknown as Response);
+
+			await expect(
+				listRemoteChildDirsViaAPI("templates", undefined, github),
+			).rejects.toThrow("Failed to fetch from GitHub API: 403 Forbidden");
+			await expect(remoteSubpathExists("templates", github)).resolves.toBe(
+				false,
+			);
+		});
+	});
+
+	describe("createRemoteRegistry", () => {
+		const github: RegistrySource = {
+			kind: "github",
+			owner: "acme",
+			repo: "templates",
+		};
+
+		it("should describe itself as a remote source", () => {
+			const registry = createRemoteRegistry(github);
+
+			expect(registry.source).toBe(github);
+			expect(registry.isLocal).toBe(false);
+		});
+
+		it("should list and check subpaths of its own source", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue({
+				ok: true,
+				status: 200,
+				json: async () => [
+					{ name: "typescript", type: "dir" },
+					{ name: "rules.md", type: "file" },
+				],
+			} as unknown as Response);
+			const registry = createRemoteRegistry(github);
+
+			await expect(registry.listDirs("templates")).resolves.toEqual([
+				"typescript",
+			]);
+			await expect(registry.listFiles("templates", [".md"])).resolves.toEqual([
+				"rules",
+			]);
+			await expect(registry.exists("templates")).resolves.toBe(true);
+			expect(fetchSpy.mock.calls[0][0]).toBe(
+				"https://api.github.com/repos/acme/templates/contents/templates",
+			);
+		});
+
+		it("should materialize subpaths through the cache", async () => {
+			vi.mocked(fs.promises.mkdtemp).mockResolvedValue("/tmp/yehle-m");
+			vi.mocked(downloadTemplate).mockResolvedValue({
+				dir: "/tmp/yehle-m/templates",
+			} as never);
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+
+			await expect(
+				createRemoteRegistry(github).materialize("templates", "yehle-m"),
+			).resolves.toBe("/tmp/yehle-m/templates");
+			expect(downloadTemplate).toHaveBeenCalledWith(
+				"github:acme/templates/templates",
+				expect.objectContaining({ dir: "/tmp/yehle-m" }),
+			);
+		});
+	});
 });
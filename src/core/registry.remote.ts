@@ -1,46 +1,710 @@
+import crypto from "node:crypto";
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import { downloadTemplate } from "giget";
+import { downloadTemplate, type TemplateProvider } from "giget";
 import {
-	DEFAULT_GITHUB_OWNER,
-	DEFAULT_GITHUB_REPO,
-	GITHUB_HEADERS,
-} from "./constants";
+	type CacheEntry,
+	type CacheEntryMeta,
+	isCacheEntryFresh,
+	isCommitSha,
+	readCacheEntry,
+	touchCacheEntry,
+	writeCacheEntry,
+} from "./cache";
+import { GITHUB_HEADERS } from "./constants";
 import { isDirAsync } from "./fs";
+import { getHeadCommit } from "./git";
+import type { TemplateRegistry } from "./registry";
+import {
+	listLocalChildDirs,
+	listLocalFilesWithExtensions,
+} from "./registry.local";
+import {
+	formatRegistrySource,
+	GITHUB_TOKEN_ENV_VARS,
+	getGithubToken,
+	getRegistrySource,
+	isOfflineMode,
+	type RegistrySource,
+} from "./registry.source";
+import { runAsync } from "./shell";
+
+/** Registry sources that are fetched over the network. */
+export type RemoteRegistrySource = Exclude<RegistrySource, { kind: "local" }>;
+
+/** Registry sources that have a listing API and are downloaded with giget. */
+type HostedRegistrySource = Extract<
+	RemoteRegistrySource,
+	{ kind: "github" | "gitlab" }
+>;
+
+/** Registry sources that are downloaded whole and then read like a local checkout. */
+type CheckoutRegistrySource = Extract<
+	RemoteRegistrySource,
+	{ kind: "git" | "tarball" }
+>;
+
+/** A directory entry normalized across the GitHub and GitLab listing APIs. */
+type RemoteEntry = { type: "dir" | "file"; name: string };
+
+/** A raw listing API response together with a fingerprint of its contents. */
+type RemoteListing = { data: unknown; validator: string };
+
+/** Filename of the listing response inside a cached listing entry. */
+const CACHED_LISTING_FILENAME = "listing.json";
+
+/** Entries per page of GitLab listings (the API maximum; the default is 20). */
+const GITLAB_PAGE_SIZE = 100;
+
+/** Headers for GitLab API requests. */
+const GITLAB_HEADERS = { "User-Agent": "yehle-cli" } as const;
+
+/** Start of the message of errors raised when the GitHub API rate limit is exhausted. */
+const RATE_LIMIT_MESSAGE = "GitHub API rate limit exceeded";
+
+/** Checkouts of git and tarball registries, keyed by registry spec (one checkout per process). */
+const checkouts = new Map<string, Promise<string>>();
+
+/**
+ * Build the headers for a GitHub API request, authenticated when a token is available.
+ * @param accept - Optional Accept header overriding the JSON default.
+ * @returns Request headers.
+ */
+function buildGithubHeaders(accept?: string): Record<string, string> {
+	const token = getGithubToken();
+	return {
+		...GITHUB_HEADERS,
+		...(accept ? { Accept: accept } : {}),
+		...(token ? { Authorization: `Bearer ${token}` } : {}),
+	};
+}
 
 /**
- * Build a GitHub Contents API URL for a repository subpath.
+ * Build the error for a GitHub response rejected because the API rate limit is exhausted.
+ * @param res - GitHub API response.
+ * @returns An error naming the reset time, or null when the response is not a rate-limit rejection.
+ */
+function rateLimitError(res: Response): Error | null {
+	if (
+		(res.status !== 403 && res.status !== 429) ||
+		res.headers?.get("x-ratelimit-remaining") !== "0"
+	)
+		return null;
+
+	const reset = Number(res.headers.get("x-ratelimit-reset"));
+	const resetAt =
+		Number.isFinite(reset) && reset > 0
+			? ` (resets at ${new Date(reset * 1000).toLocaleTimeString()})`
+			: "";
+	const hint = getGithubToken()
+		? "The limit applies to the configured token; wait for the reset or use another token."
+		: `Set ${GITHUB_TOKEN_ENV_VARS.join(" or ")} (or githubToken in config.yaml) to raise the limit.`;
+	return new Error(`${RATE_LIMIT_MESSAGE}${resetAt}. ${hint}`);
+}
+
+/**
+ * Whether an error was raised because the GitHub API rate limit is exhausted.
+ * Such errors are surfaced as-is rather than reported as missing paths.
+ * @param e - Caught error.
+ * @returns True for rate-limit errors.
+ */
+function isRateLimitError(e: unknown): boolean {
+	return e instanceof Error && e.message.startsWith(RATE_LIMIT_MESSAGE);
+}
+
+/**
+ * Get the registry source to use for a remote lookup.
+ * @param source - Explicit source; defaults to the active registry.
+ * @returns The remote registry source.
+ * @throws Error when the source is a local directory.
+ */
+function asRemoteSource(source?: RegistrySource): RemoteRegistrySource {
+	const resolved = source ?? getRegistrySource();
+	if (resolved.kind === "local")
+		throw new Error(
+			`Registry "${resolved.path}" is a local directory and cannot be fetched remotely.`,
+		);
+	return resolved;
+}
+
+/**
+ * Whether a remote source is read from a full checkout rather than through a listing API.
+ * @param source - Remote registry source.
+ * @returns True for plain git remotes and HTTP tarballs.
+ */
+function isCheckoutSource(
+	source: RemoteRegistrySource,
+): source is CheckoutRegistrySource {
+	return source.kind === "git" || source.kind === "tarball";
+}
+
+/**
+ * Get the API base URL of a GitLab registry.
+ * @param source - GitLab registry source.
+ * @returns The instance's REST API root (gitlab.com unless the source is self-hosted).
+ */
+function gitlabApiBase(
+	source: Extract<RegistrySource, { kind: "gitlab" }>,
+): string {
+	return `${source.host ?? "https://gitlab.com"}/api/v4`;
+}
+
+/**
+ * Build the error raised when offline mode needs something that is not in the cache.
+ * @param subpath - Repository subpath that was requested ("" for the whole repository).
+ * @param registry - Registry spec including its ref.
+ * @returns Error naming the missing subpath and how to fix it.
+ */
+function notCachedError(subpath: string, registry: string): Error {
+	return new Error(
+		`Not cached: "${subpath || "(repository)"}" from ${registry} is not available offline. ` +
+			`Run "yehle cache warm" with network access first, or drop --offline / YEHLE_OFFLINE.`,
+	);
+}
+
+/**
+ * Find a cached subtree that contains a subpath: an entry for the subpath itself or for any
+ * ancestor (e.g. a warmed "templates" entry covers "templates/typescript/package").
+ * Outside offline mode only fresh entries are used.
+ * @param subpath - Path under the repository root, using forward slashes.
+ * @param source - Remote registry source.
+ * @returns Promise resolving to the directory holding the subpath, or null when it is not cached.
+ */
+async function findCachedSubtreeDir(
+	subpath: string,
+	source: RemoteRegistrySource,
+): Promise<string | null> {
+	const registry = formatRegistrySource(source);
+	const offline = isOfflineMode();
+	const segments = subpath.split("/").filter(Boolean);
+
+	for (let depth = segments.length; depth >= 0; depth--) {
+		const entry = await readCacheEntry(
+			"subtree",
+			registry,
+			segments.slice(0, depth).join("/"),
+		);
+		if (!entry || (!offline && !isCacheEntryFresh(entry))) continue;
+
+		const dir = path.join(entry.dataDir, ...segments.slice(depth));
+		if (await isDirAsync(dir)) return dir;
+	}
+	return null;
+}
+
+/**
+ * Human label for the listing API of a remote source (used in error messages).
+ * @param source - Remote registry source.
+ */
+function apiLabel(source: RemoteRegistrySource): string {
+	return source.kind === "gitlab" ? "GitLab API" : "GitHub API";
+}
+
+/**
+ * Build a listing API URL for a repository subpath, pinned to the source's ref when set.
+ * GitHub uses the Contents API; GitLab uses the Repository Tree API (first page; see fetchRemoteListing).
  * @param subpath - Path under the repository root, using forward slashes (e.g. "templates/typescript").
+ * @param source - Registry source; defaults to the active registry.
+ * @throws Error when the source has no listing API (plain git remotes and tarballs).
  */
-export function buildContentsURL(subpath: string): string {
-	return `https://api.github.com/repos/${DEFAULT_GITHUB_OWNER}/${DEFAULT_GITHUB_REPO}/contents/${subpath}`;
+export function buildContentsURL(
+	subpath: string,
+	source?: RegistrySource,
+): string {
+	const remote = asRemoteSource(source);
+	switch (remote.kind) {
+		case "github": {
+			const refQuery = remote.ref
+				? `?ref=${encodeURIComponent(remote.ref)}`
+				: "";
+			return `https://api.github.com/repos/${remote.owner}/${remote.repo}/contents/${subpath}${refQuery}`;
+		}
+		case "gitlab": {
+			const project = encodeURIComponent(`${remote.owner}/${remote.repo}`);
+			const refQuery = remote.ref
+				? `&ref=${encodeURIComponent(remote.ref)}`
+				: "";
+			return `${gitlabApiBase(remote)}/projects/${project}/repository/tree?path=${encodeURIComponent(subpath)}&per_page=${GITLAB_PAGE_SIZE}${refQuery}`;
+		}
+		case "git":
+			throw new Error(
+				`Registry "${remote.url}" is a plain git remote and has no contents API.`,
+			);
+		case "tarball":
+			throw new Error(
+				`Registry "${remote.url}" is a tarball and has no contents API.`,
+			);
+	}
 }
 
 /**
- * Build a giget specification string for a repository subpath.
+ * Build a giget specification string for a repository subpath (with a "#ref" suffix when the source is pinned).
  * @param subpath - Path under the repository root, using forward slashes.
+ * @param source - Registry source; defaults to the active registry.
+ * @throws Error when the source cannot be downloaded by subpath (plain git remotes and tarballs).
+ */
+export function buildGigetSpec(
+	subpath: string,
+	source?: RegistrySource,
+): string {
+	const remote = asRemoteSource(source);
+	if (isCheckoutSource(remote))
+		throw new Error(
+			`Registry "${remote.url}" is a ${remote.kind === "git" ? "plain git remote" : "tarball"} and cannot be downloaded by subpath.`,
+		);
+	const refSuffix = remote.ref ? `#${remote.ref}` : "";
+	return `${remote.kind}:${remote.owner}/${remote.repo}/${subpath}${refSuffix}`;
+}
+
+/**
+ * Store a download in the persistent cache.
+ * Falls back to an uncached download when the cache directory is not writable (e.g. a read-only home directory);
+ * errors from the download itself are rethrown.
+ * @param meta - Metadata of the entry to write.
+ * @param download - Downloads the payload into the given directory and returns metadata learned while doing so.
+ * @param fallback - Uncached download used when the cache cannot be written.
+ * @returns Promise resolving to the directory that holds the download.
+ */
+async function writeCachedDownload(
+	meta: Omit<CacheEntryMeta, "fetchedAt">,
+	download: (
+		dir: string,
+	) => Promise<Partial<Pick<CacheEntryMeta, "validator">> | undefined>,
+	fallback: () => Promise<string>,
+): Promise<string> {
+	let downloadFailed = false;
+	try {
+		const entry = await writeCacheEntry(meta, async (dir) => {
+			try {
+				return await download(dir);
+			} catch (e) {
+				downloadFailed = true;
+				throw e;
+			}
+		});
+		return entry.dataDir;
+	} catch (e) {
+		if (downloadFailed) throw e;
+		return fallback();
+	}
+}
+
+/**
+ * Shallow-fetch a plain git registry at its ref (default branch when unset) into a directory.
+ * Fetching instead of cloning lets the ref be a branch, a tag or a commit SHA.
+ * @param source - Git registry source.
+ * @param dir - Empty directory to check the registry out into.
+ * @returns Promise that resolves when the checkout is complete.
+ * @throws Error when git fails to fetch the repository.
+ */
+async function fetchGitCheckout(
+	source: Extract<RegistrySource, { kind: "git" }>,
+	dir: string,
+): Promise<void> {
+	const ref = source.ref ?? "HEAD";
+	try {
+		await runAsync("git init --quiet", { cwd: dir });
+		// --end-of-options keeps a URL or ref that starts with "-" from being read as an option
+		await runAsync(
+			`git fetch --depth 1 --quiet --end-of-options ${source.url} ${ref}`,
+			{ cwd: dir },
+		);
+		await runAsync("git checkout --quiet FETCH_HEAD", { cwd: dir });
+	} catch (e) {
+		const msg = e instanceof Error ? e.message : String(e);
+		throw new Error(
+			`Failed to fetch registry "${formatRegistrySource(source)}". ${msg}. Ensure the URL and ref are correct and that network access is available.`,
+		);
+	}
+}
+
+/**
+ * Look up the commit a git registry's ref points at without fetching it.
+ * @param source - Git registry source.
+ * @returns Promise resolving to the commit SHA, or undefined when the remote cannot be queried.
  */
-export function buildGigetSpec(subpath: string): string {
-	return `github:${DEFAULT_GITHUB_OWNER}/${DEFAULT_GITHUB_REPO}/${subpath}`;
+async function lsRemoteCommit(
+	source: Extract<RegistrySource, { kind: "git" }>,
+): Promise<string | undefined> {
+	try {
+		const out = await runAsync(
+			`git ls-remote --end-of-options ${source.url} ${source.ref ?? "HEAD"}`,
+			{ stdio: "pipe" },
+		);
+		const lines = out.split("\n").filter(Boolean);
+
+		// Annotated tags also list the peeled commit as "<sha>\t<ref>^{}".
+		const line = lines.find((l) => l.endsWith("^{}")) ?? lines[0];
+		return line?.split(/\s+/)[0] || undefined;
+	} catch {
+		return undefined;
+	}
 }
 
 /**
- * Download a GitHub subtree to a temporary directory and return the raw download directory.
+ * Download an HTTP tarball registry and extract it (without its top-level directory) into a directory.
+ * @param source - Tarball registry source.
+ * @param dir - Empty directory to extract the archive into.
+ * @returns Promise that resolves when the archive has been extracted.
+ * @throws Error when the download or extraction fails.
+ */
+async function fetchTarballCheckout(
+	source: Extract<RegistrySource, { kind: "tarball" }>,
+	dir: string,
+): Promise<void> {
+	try {
+		await downloadTemplate(source.url, { dir, force: true });
+	} catch (e) {
+		const msg = e instanceof Error ? e.message : String(e);
+		throw new Error(
+			`Failed to download registry "${source.url}". ${msg}. Ensure the URL points at a .tar.gz archive and that network access is available.`,
+		);
+	}
+}
+
+/**
+ * Look up the ETag a tarball registry is currently served with, without downloading it.
+ * @param source - Tarball registry source.
+ * @returns Promise resolving to the ETag, or undefined when the server does not send one or cannot be reached.
+ */
+async function lookupTarballEtag(
+	source: Extract<RegistrySource, { kind: "tarball" }>,
+): Promise<string | undefined> {
+	try {
+		const res = await fetch(source.url, {
+			method: "HEAD",
+			headers: { "User-Agent": GITHUB_HEADERS["User-Agent"] },
+		});
+		return (res.ok && res.headers?.get("etag")) || undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Look up a fingerprint of a checkout registry's current upstream content.
+ * @param source - Git or tarball registry source.
+ * @returns Promise resolving to the commit (git) or ETag (tarball), or undefined when it cannot be determined.
+ */
+async function lookupCheckoutValidator(
+	source: CheckoutRegistrySource,
+): Promise<string | undefined> {
+	return source.kind === "git"
+		? lsRemoteCommit(source)
+		: lookupTarballEtag(source);
+}
+
+/**
+ * Download a checkout registry into a directory.
+ * @param source - Git or tarball registry source.
+ * @param dir - Empty directory to download into.
+ * @returns Promise resolving to the fingerprint of the downloaded content (see lookupCheckoutValidator).
+ * @throws Error when the download fails.
+ */
+async function populateCheckout(
+	source: CheckoutRegistrySource,
+	dir: string,
+): Promise<string | undefined> {
+	if (source.kind === "git") {
+		await fetchGitCheckout(source, dir);
+		return getHeadCommit(dir);
+	}
+
+	const etag = await lookupTarballEtag(source);
+	await fetchTarballCheckout(source, dir);
+	return etag;
+}
+
+/**
+ * Get a checkout of a plain git or tarball registry (once per process).
+ * Checkouts are kept in the persistent cache and, once the TTL has passed, revalidated with
+ * `git ls-remote` (git) or the archive's ETag (tarball) before being downloaded again.
+ * In offline mode only cached checkouts are used.
+ * @param source - Git or tarball registry source.
+ * @returns Promise resolving to the checkout's root directory.
+ * @throws Error when the registry cannot be downloaded, or it is not cached in offline mode.
+ */
+async function fetchRegistryCheckout(
+	source: CheckoutRegistrySource,
+): Promise<string> {
+	const key = formatRegistrySource(source);
+	const existing = checkouts.get(key);
+	if (existing) return existing;
+
+	const checkout = (async () => {
+		const cached = await readCacheEntry("subtree", key, "");
+		if (cached && (isOfflineMode() || isCacheEntryFresh(cached)))
+			return cached.dataDir;
+		if (isOfflineMode()) throw notCachedError("", key);
+		if (cached?.validator) {
+			const validator = await lookupCheckoutValidator(source);
+			if (validator === cached.validator) {
+				await touchCacheEntry(cached).catch(() => undefined);
+				return cached.dataDir;
+			}
+		}
+
+		return writeCachedDownload(
+			{
+				kind: "subtree",
+				registry: key,
+				subpath: "",
+				immutable: isCommitSha(source.ref),
+			},
+			async (dir) => ({ validator: await populateCheckout(source, dir) }),
+			async () => {
+				const tmpRoot = await fs.promises.mkdtemp(
+					path.join(os.tmpdir(), `yehle-${source.kind}-`),
+				);
+				await populateCheckout(source, tmpRoot);
+				return tmpRoot;
+			},
+		);
+	})();
+
+	checkouts.set(key, checkout);
+	checkout.catch(() => checkouts.delete(key));
+	return checkout;
+}
+
+/**
+ * Read the response stored in a cached listing entry.
+ * @param entry - Cached listing entry.
+ * @returns Promise resolving to the parsed response, or undefined when it cannot be read.
+ */
+async function readCachedListing(entry: CacheEntry): Promise<unknown> {
+	try {
+		const raw = await fs.promises.readFile(
+			path.join(entry.dataDir, CACHED_LISTING_FILENAME),
+			"utf8",
+		);
+		return JSON.parse(raw);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Check that a listing API response succeeded.
+ * @param res - Listing API response.
+ * @param source - GitHub or GitLab registry source.
+ * @throws Error when the status is not OK (a rate-limit error for exhausted GitHub limits).
+ */
+function assertListingResponse(
+	res: Response,
+	source: HostedRegistrySource,
+): void {
+	if (res.ok) return;
+	const limited = source.kind === "github" ? rateLimitError(res) : null;
+	if (limited) throw limited;
+	throw new Error(
+		`Failed to fetch from ${apiLabel(source)}: ${res.status} ${res.statusText}`,
+	);
+}
+
+/**
+ * Fetch the raw listing API response for a repository subpath.
+ * Responses are cached per registry, ref and subpath; once the TTL has passed they are revalidated
+ * with If-None-Match, so unchanged listings cost a 304 instead of a download. In offline mode only cached responses are used.
+ * The validator fingerprints the listing; since entries carry their content SHAs it changes whenever anything below the subpath changes.
+ * GitLab listings longer than a page are read page by page (X-Next-Page); an ETag only covers one page, so such listings are
+ * stored without one and downloaded again once the TTL has passed.
+ * @param subpath - Path under the repository root, using forward slashes.
+ * @param source - GitHub or GitLab registry source.
+ * @returns Promise resolving to the listing response and its validator.
+ * @throws Error when the request fails or returns a non-OK status, or the listing is not cached in offline mode.
+ */
+async function fetchRemoteListing(
+	subpath: string,
+	source: HostedRegistrySource,
+): Promise<RemoteListing> {
+	const registry = formatRegistrySource(source);
+	const cached = await readCacheEntry("listing", registry, subpath);
+	const cachedData = cached ? await readCachedListing(cached) : undefined;
+	if (
+		cached &&
+		cachedData !== undefined &&
+		(isOfflineMode() || isCacheEntryFresh(cached))
+	)
+		return { data: cachedData, validator: cached.validator ?? "" };
+	if (isOfflineMode()) throw notCachedError(subpath, registry);
+
+	const headers: Record<string, string> =
+		source.kind === "gitlab" ? { ...GITLAB_HEADERS } : buildGithubHeaders();
+	if (cached?.etag && cachedData !== undefined)
+		headers["If-None-Match"] = cached.etag;
+
+	const url = buildContentsURL(subpath, source);
+	const res = await fetch(url, { headers });
+	if (res.status === 304 && cached && cachedData !== undefined) {
+		await touchCacheEntry(cached).catch(() => undefined);
+		return { data: cachedData, validator: cached.validator ?? "" };
+	}
+	assertListingResponse(res, source);
+
+	let data: unknown = await res.json();
+	let nextPage =
+		source.kind === "gitlab" ? res.headers?.get("x-next-page") : undefined;
+	const paginated = Boolean(nextPage);
+	while (nextPage && Array.isArray(data)) {
+		const pageRes = await fetch(`${url}&page=${encodeURIComponent(nextPage)}`, {
+			headers: { ...GITLAB_HEADERS },
+		});
+		assertListingResponse(pageRes, source);
+		const page: unknown = await pageRes.json();
+		data = [...data, ...(Array.isArray(page) ? page : [])];
+		nextPage = pageRes.headers?.get("x-next-page");
+	}
+	const validator = crypto
+		.createHash("sha256")
+		.update(JSON.stringify(data))
+		.digest("hex");
+
+	// Caching is best-effort; a read-only cache dir must not break listings.
+	await writeCacheEntry(
+		{
+			kind: "listing",
+			registry,
+			subpath,
+			etag: paginated ? undefined : (res.headers?.get("etag") ?? undefined),
+			validator,
+			immutable: isCommitSha(source.ref),
+		},
+		async (dir) => {
+			await fs.promises.writeFile(
+				path.join(dir, CACHED_LISTING_FILENAME),
+				JSON.stringify(data),
+				"utf8",
+			);
+			return undefined;
+		},
+	).catch(() => undefined);
+
+	return { data, validator };
+}
+
+/**
+ * Whether a listing response describes an existing directory.
+ * @param data - Raw listing API response.
+ * @param source - Registry source the response came from.
+ * @returns True when the subpath is a directory.
+ */
+function listingDescribesDir(
+	data: unknown,
+	source: HostedRegistrySource,
+): boolean {
+	// GitLab returns an empty tree for paths that are not directories.
+	if (source.kind === "gitlab") return Array.isArray(data) && data.length > 0;
+
+	// If the data is an array, then the subtree exists.
+	if (Array.isArray(data)) return true;
+
+	// If the data is an object with a type property that is "dir", then the subtree exists.
+	return Boolean(
+		data &&
+			typeof data === "object" &&
+			(data as Record<string, unknown>).type === "dir",
+	);
+}
+
+/**
+ * Fetch and normalize the directory listing for a repository subpath from the provider API (cached).
+ * @param subpath - Path under the repository root, using forward slashes.
+ * @param source - GitHub or GitLab registry source.
+ * @returns Promise resolving to the normalized directory entries.
+ * @throws Error when the request fails or the response is not a listing.
+ */
+async function fetchRemoteEntries(
+	subpath: string,
+	source: HostedRegistrySource,
+): Promise<RemoteEntry[]> {
+	const { data: listing } = await fetchRemoteListing(subpath, source);
+	if (!Array.isArray(listing))
+		throw new Error(
+			`Invalid response from ${apiLabel(source)}: expected array of contents`,
+		);
+	const data = listing as { type?: string; name?: string }[];
+
+	// GitLab reports directories as "tree" and files as "blob".
+	const entries: RemoteEntry[] = [];
+	for (const entry of data) {
+		if (typeof entry?.name !== "string") continue;
+		if (entry.type === "dir" || entry.type === "tree")
+			entries.push({ type: "dir", name: entry.name });
+		else if (entry.type === "file" || entry.type === "blob")
+			entries.push({ type: "file", name: entry.name });
+	}
+	return entries;
+}
+
+/**
+ * Download a repository subtree to a temporary directory and return the raw download directory.
  * Normalization to a specific subpath is left to the caller so different
  * registry consumers can adapt to giget's layout for their own use-cases.
- * @param subpath - Repository subpath being downloaded (for error messages only).
+ * Plain git remotes and tarballs are checked out whole instead and the checkout root is returned.
+ * @param subpath - Repository subpath being downloaded.
  * @param tmpPrefix - Prefix for the temporary directory name.
+ * @param source - Registry source; defaults to the active registry.
  */
 export async function downloadSubtreeToTemp(
 	subpath: string,
 	tmpPrefix: string,
+	source?: RegistrySource,
 ): Promise<string> {
-	const spec = buildGigetSpec(subpath);
+	const remote = asRemoteSource(source);
+	if (isCheckoutSource(remote)) return fetchRegistryCheckout(remote);
+
 	const tmpRoot = await fs.promises.mkdtemp(path.join(os.tmpdir(), tmpPrefix));
+	return downloadWithGiget(subpath, tmpRoot, remote);
+}
 
+/**
+ * Build a giget provider that downloads a subtree from a self-hosted GitLab instance
+ * (giget's built-in provider only knows gitlab.com).
+ * @param subpath - Repository subpath being downloaded.
+ * @param source - Self-hosted GitLab registry source.
+ * @returns Provider resolving to the archive of the source's ref (default branch when unset).
+ */
+function selfHostedGitlabProvider(
+	subpath: string,
+	source: Extract<RegistrySource, { kind: "gitlab" }>,
+): TemplateProvider {
+	const project = encodeURIComponent(`${source.owner}/${source.repo}`);
+	const shaQuery = source.ref ? `?sha=${encodeURIComponent(source.ref)}` : "";
+	return () => ({
+		name: source.repo,
+		version: source.ref,
+		subdir: `/${subpath}`,
+		tar: `${gitlabApiBase(source)}/projects/${project}/repository/archive.tar.gz${shaQuery}`,
+		headers: { "User-Agent": GITLAB_HEADERS["User-Agent"] },
+	});
+}
+
+/**
+ * Download a repository subtree with giget into a directory.
+ * @param subpath - Repository subpath being downloaded.
+ * @param dir - Directory to extract the subtree into.
+ * @param source - GitHub or GitLab registry source.
+ * @returns Promise resolving to the directory giget extracted into.
+ * @throws Error when the download fails.
+ */
+async function downloadWithGiget(
+	subpath: string,
+	dir: string,
+	source: HostedRegistrySource,
+): Promise<string> {
+	const spec = buildGigetSpec(subpath, source);
 	try {
-		const res = await downloadTemplate(spec, { dir: tmpRoot, force: true });
+		const res = await downloadTemplate(spec, {
+			dir,
+			force: true,
+			auth: source.kind === "github" ? getGithubToken() : undefined,
+			providers:
+				source.kind === "gitlab" && source.host
+					? { gitlab: selfHostedGitlabProvider(subpath, source) }
+					: undefined,
+		});
 		return res.dir;
 	} catch (e) {
 		const msg = e instanceof Error ? e.message : String(e);
@@ -52,55 +716,106 @@ export async function downloadSubtreeToTemp(
 }
 
 /**
- * Check whether a remote repository subpath exists in GitHub.
+ * Check whether a remote repository subpath exists.
  * @param subpath - Path under the repository root, using forward slashes.
+ * @param source - Registry source; defaults to the active registry.
  * @returns True if the subtree exists, false if not or when the check fails (e.g. non-OK response or network error).
+ * @throws Error when the GitHub API rate limit is exhausted.
  */
-export async function remoteSubpathExists(subpath: string): Promise<boolean> {
+export async function remoteSubpathExists(
+	subpath: string,
+	source?: RegistrySource,
+): Promise<boolean> {
 	try {
-		const url = buildContentsURL(subpath);
-		const res = await fetch(url, { headers: GITHUB_HEADERS });
-		if (res.status === 404) return false;
-		if (!res.ok) return false;
-		const data = await res.json();
-
-		// If the data is an array, then the subtree exists.
-		if (Array.isArray(data)) return true;
-
-		// If the data is an object with a type property that is "dir", then the subtree exists.
-		if (
-			data &&
-			typeof data === "object" &&
-			(data as Record<string, unknown>).type === "dir"
-		)
-			return true;
-		return false;
-	} catch {
+		const remote = asRemoteSource(source);
+		if (isCheckoutSource(remote)) {
+			const root = await fetchRegistryCheckout(remote);
+			return await isDirAsync(path.join(root, ...subpath.split("/")));
+		}
+
+		if (await findCachedSubtreeDir(subpath, remote)) return true;
+
+		const { data } = await fetchRemoteListing(subpath, remote);
+		return listingDescribesDir(data, remote);
+	} catch (e) {
+		if (isRateLimitError(e)) throw e;
 		return false;
 	}
 }
 
 /**
- * List child directory names from the GitHub Contents API for a repository subpath.
+ * Get a downloaded repository subtree from the persistent cache, downloading it on a miss.
+ * Entries (for the subpath or an ancestor) are used as-is within the TTL (forever when pinned to a commit SHA);
+ * after that the subpath's listing is revalidated and the subtree is downloaded again only when the listing changed.
+ * In offline mode only cached entries are used.
+ * @param subpath - Path under the repository root, using forward slashes.
+ * @param tmpPrefix - Prefix for the temporary directory used when the cache is not writable.
+ * @param source - GitHub or GitLab registry source.
+ * @returns Promise resolving to the directory that holds the subtree.
+ * @throws Error when the subpath does not exist, the download fails, it is not cached in offline mode, or the GitHub API rate limit is exhausted.
+ */
+async function fetchCachedSubtree(
+	subpath: string,
+	tmpPrefix: string,
+	source: HostedRegistrySource,
+): Promise<string> {
+	const registry = formatRegistrySource(source);
+	const cachedDir = await findCachedSubtreeDir(subpath, source);
+	if (cachedDir) return cachedDir;
+	if (isOfflineMode()) throw notCachedError(subpath, registry);
+
+	const cached = await readCacheEntry("subtree", registry, subpath);
+	const listing = await fetchRemoteListing(subpath, source).catch((e) => {
+		if (isRateLimitError(e)) throw e;
+		return null;
+	});
+	if (!listing || !listingDescribesDir(listing.data, source))
+		throw new Error(
+			`Remote templates path does not exist: ${subpath} (registry: ${registry}).`,
+		);
+
+	if (cached && cached.validator === listing.validator) {
+		await touchCacheEntry(cached).catch(() => undefined);
+		return cached.dataDir;
+	}
+
+	return writeCachedDownload(
+		{
+			kind: "subtree",
+			registry,
+			subpath,
+			validator: listing.validator,
+			immutable: isCommitSha(source.ref),
+		},
+		async (dir) => {
+			await downloadWithGiget(subpath, dir, source);
+			return undefined;
+		},
+		() => downloadSubtreeToTemp(subpath, tmpPrefix, source),
+	);
+}
+
+/**
+ * List child directory names for a remote repository subpath.
  * @param subpath - Path under the repository root, using forward slashes.
  * @param exclude - Optional set of directory names (case-insensitive) to exclude.
+ * @param source - Registry source; defaults to the active registry.
  */
 export async function listRemoteChildDirsViaAPI(
 	subpath: string,
 	exclude?: Set<string>,
+	source?: RegistrySource,
 ): Promise<string[]> {
-	const url = buildContentsURL(subpath);
-	const res = await fetch(url, { headers: GITHUB_HEADERS });
-	if (!res.ok)
-		throw new Error(
-			`Failed to fetch from GitHub API: ${res.status} ${res.statusText}`,
-		);
+	const remote = asRemoteSource(source);
+	if (isCheckoutSource(remote)) {
+		const root = await fetchRegistryCheckout(remote);
+		return listLocalChildDirs(path.join(root, ...subpath.split("/")), exclude);
+	}
 
-	const data = await res.json();
-	if (!Array.isArray(data))
-		throw new Error(
-			"Invalid response from GitHub API: expected array of contents",
-		);
+	const cachedDir = await findCachedSubtreeDir(subpath, remote);
+	if (cachedDir) return listLocalChildDirs(cachedDir, exclude);
+
+	const data = await fetchRemoteEntries(subpath, remote);
 
 	const excludeSet =
 		exclude === undefined
@@ -108,41 +823,43 @@ export async function listRemoteChildDirsViaAPI(
 			: new Set(Array.from(exclude).map((n) => n.toLowerCase()));
 
 	return data
-		.filter((entry) => entry?.type === "dir" && typeof entry.name === "string")
-		.map((entry) => entry.name as string)
+		.filter((entry) => entry.type === "dir")
+		.map((entry) => entry.name)
 		.filter((name) =>
 			excludeSet ? !excludeSet.has(name.toLowerCase()) : true,
 		);
 }
 
 /**
- * List file basenames from the GitHub Contents API for a repository subpath.
+ * List file basenames for a remote repository subpath.
  * Only files whose names end with one of the provided extensions are included.
  * @param subpath - Path under the repository root, using forward slashes.
  * @param extensions - Allowed file extensions such as [".mdc", ".md"].
+ * @param source - Registry source; defaults to the active registry.
  */
 export async function listRemoteFilesViaAPI(
 	subpath: string,
 	extensions: readonly string[],
+	source?: RegistrySource,
 ): Promise<string[]> {
-	const url = buildContentsURL(subpath);
-	const res = await fetch(url, { headers: GITHUB_HEADERS });
-	if (!res.ok)
-		throw new Error(
-			`Failed to fetch from GitHub API: ${res.status} ${res.statusText}`,
+	const remote = asRemoteSource(source);
+	if (isCheckoutSource(remote)) {
+		const root = await fetchRegistryCheckout(remote);
+		return listLocalFilesWithExtensions(
+			path.join(root, ...subpath.split("/")),
+			extensions,
 		);
+	}
 
-	// The response is an array of objects with a type and name property.
-	const data = (await res.json()) as { type?: string; name?: string }[];
-	if (!Array.isArray(data))
-		throw new Error(
-			"Invalid response from GitHub API: expected array of contents",
-		);
+	const cachedDir = await findCachedSubtreeDir(subpath, remote);
+	if (cachedDir) return listLocalFilesWithExtensions(cachedDir, extensions);
+
+	const data = await fetchRemoteEntries(subpath, remote);
 
 	// We need to filter out the objects that are not files.
 	const names = new Set<string>();
 	for (const entry of data) {
-		if (entry?.type !== "file" || typeof entry.name !== "string") continue;
+		if (entry.type !== "file") continue;
 		for (const extension of extensions) {
 			if (entry.name.endsWith(extension)) {
 				names.add(entry.name.slice(0, -extension.length));
@@ -155,29 +872,147 @@ export async function listRemoteFilesViaAPI(
 }
 
 /**
- * Download a remote repository subpath to a temporary directory and normalize it.
+ * Get a remote repository subpath (from the persistent cache when possible) and normalize it.
  * @param subpath - Path under the repository root, using forward slashes.
- * @param tmpPrefix - Prefix for the temporary directory name.
+ * @param tmpPrefix - Prefix for the temporary directory used when the cache is not writable.
  * @param normalize - Optional function to normalize giget's download directory structure.
+ * @param source - Registry source; defaults to the active registry.
  * @returns The normalized directory path.
  */
 export async function resolveRemoteSubpath(
 	subpath: string,
 	tmpPrefix: string,
 	normalize?: (downloadedDir: string) => Promise<string>,
+	source?: RegistrySource,
 ): Promise<string> {
-	const exists = await remoteSubpathExists(subpath);
-	if (!exists)
-		throw new Error(
-			`Remote templates path does not exist: ${subpath} (repo: ${DEFAULT_GITHUB_OWNER}/yehle).`,
-		);
+	const remote = asRemoteSource(source);
+
+	let downloadedDir: string;
+	if (isCheckoutSource(remote)) {
+		downloadedDir = await fetchRegistryCheckout(remote);
+		if (!(await isDirAsync(path.join(downloadedDir, ...subpath.split("/")))))
+			throw new Error(
+				`Remote templates path does not exist: ${subpath} (registry: ${formatRegistrySource(remote)}).`,
+			);
+	} else {
+		downloadedDir = await fetchCachedSubtree(subpath, tmpPrefix, remote);
+	}
 
-	const downloadedDir = await downloadSubtreeToTemp(subpath, tmpPrefix);
 	const normalized = normalize ? await normalize(downloadedDir) : downloadedDir;
 
 	if (await isDirAsync(normalized)) return normalized;
 
 	throw new Error(
-		`No remote templates found at ${subpath} after download (repo: ${DEFAULT_GITHUB_OWNER}/yehle).`,
+		`No remote templates found at ${subpath} after download (registry: ${formatRegistrySource(remote)}).`,
 	);
 }
+
+/**
+ * Look up the commit SHA a remote registry's ref (or default branch) points at upstream.
+ * @param remote - Remote registry source.
+ * @returns Promise resolving to the commit SHA, or undefined when the provider does not report one.
+ * @throws Error when the lookup fails or the GitHub API rate limit is exhausted.
+ */
+async function lookupRemoteCommit(
+	remote: RemoteRegistrySource,
+): Promise<string | undefined> {
+	switch (remote.kind) {
+		case "github": {
+			const url = `https://api.github.com/repos/${remote.owner}/${remote.repo}/commits/${encodeURIComponent(remote.ref ?? "HEAD")}`;
+			const res = await fetch(url, {
+				headers: buildGithubHeaders("application/vnd.github.sha"),
+			});
+			if (!res.ok) {
+				const limited = rateLimitError(res);
+				if (limited) throw limited;
+				return undefined;
+			}
+			const sha = (await res.text()).trim();
+			return sha || undefined;
+		}
+		case "gitlab": {
+			const project = encodeURIComponent(`${remote.owner}/${remote.repo}`);
+			const refQuery = remote.ref
+				? `&ref_name=${encodeURIComponent(remote.ref)}`
+				: "";
+			const url = `${gitlabApiBase(remote)}/projects/${project}/repository/commits?per_page=1${refQuery}`;
+			const res = await fetch(url, { headers: GITLAB_HEADERS });
+			if (!res.ok) return undefined;
+			const data = (await res.json()) as { id?: string }[];
+			return Array.isArray(data) && typeof data[0]?.id === "string"
+				? data[0].id
+				: undefined;
+		}
+		case "git": {
+			const root = await fetchRegistryCheckout(remote);
+			const sha = await getHeadCommit(root);
+
+			// Reuse this checkout when the registry is later pinned to the resolved SHA.
+			if (sha)
+				checkouts.set(
+					formatRegistrySource({ ...remote, ref: sha }),
+					Promise.resolve(root),
+				);
+			return sha;
+		}
+		case "tarball":
+			// Archives carry no commit information
+			return undefined;
+	}
+}
+
+/**
+ * Resolve the commit SHA a remote registry's ref (or default branch) currently points at.
+ * Resolutions are remembered in the cache so offline runs pin to the same commit as the last online run.
+ * @param source - Registry source; defaults to the active registry.
+ * @returns Promise resolving to the commit SHA, or undefined when the lookup fails.
+ * @throws Error when the GitHub API rate limit is exhausted.
+ */
+export async function resolveRemoteCommit(
+	source?: RegistrySource,
+): Promise<string | undefined> {
+	try {
+		const remote = asRemoteSource(source);
+		if (isCommitSha(remote.ref)) return remote.ref;
+
+		// Git checkouts are cached themselves; their HEAD is read the same way offline.
+		const registry = formatRegistrySource(remote);
+		if (isOfflineMode() && remote.kind !== "git")
+			return (await readCacheEntry("commit", registry, ""))?.validator;
+
+		const commit = await lookupRemoteCommit(remote);
+		if (commit)
+			await writeCacheEntry(
+				{ kind: "commit", registry, subpath: "", validator: commit },
+				async () => undefined,
+			).catch(() => undefined);
+		return commit;
+	} catch (e) {
+		if (isRateLimitError(e)) throw e;
+		return undefined;
+	}
+}
+
+/**
+ * Create a registry backend for a remote source: GitHub (Contents API), GitLab (Repository Tree API,
+ * including self-hosted instances), a plain git remote or an HTTP tarball.
+ * Downloads go through the persistent cache.
+ * @param source - Remote registry source.
+ * @returns The remote template registry.
+ */
+export function createRemoteRegistry(
+	source: RemoteRegistrySource,
+): TemplateRegistry {
+	return {
+		source,
+		isLocal: false,
+		listDirs: (subpath, exclude) =>
+			listRemoteChildDirsViaAPI(subpath, exclude, source),
+		listFiles: (subpath, extensions) =>
+			listRemoteFilesViaAPI(subpath, extensions, source),
+		exists: (subpath) => remoteSubpathExists(subpath, source),
+		materialize: (subpath, tmpPrefix) =>
+			resolveRemoteSubpath(subpath, tmpPrefix, undefined, source),
+		resolveCommit: () => resolveRemoteCommit(source),
+	};
+}
@@ -0,0 +1,480 @@
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./config", () => ({
+	readUserConfiguration: vi.fn(),
+}));
+
+// Import after mocks
+import { readUserConfiguration } from "./config";
+import {
+	configureRegistrySource,
+	DEFAULT_REGISTRY_SOURCE,
+	formatRegistrySource,
+	GITHUB_TOKEN_ENV_VARS,
+	getGithubToken,
+	getRegistrySource,
+	isOfflineMode,
+	LOCAL_TEMPLATES_ENV_VAR,
+	OFFLINE_ENV_VAR,
+	parseRegistrySource,
+	REGISTRY_ENV_VAR,
+	resolveRegistrySource,
+	setRegistrySource,
+} from "./registry.source";
+
+describe("core/registry.source", () => {
+	const originalEnv = { ...process.env };
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		process.env = { ...originalEnv };
+		delete process.env[REGISTRY_ENV_VAR];
+		delete process.env[LOCAL_TEMPLATES_ENV_VAR];
+		delete process.env[OFFLINE_ENV_VAR];
+		for (const name of GITHUB_TOKEN_ENV_VARS) delete process.env[name];
+		vi.mocked(readUserConfiguration).mockResolvedValue({});
+		setRegistrySource(DEFAULT_REGISTRY_SOURCE);
+	});
+
+	afterEach(() => {
+		process.env = originalEnv;
+	});
+
+	describe("parseRegistrySource", () => {
+		it("should parse github: shorthands", () => {
+			expect(parseRegistrySource("github:acme/templates")).toEqual({
+				kind: "github",
+				owner: "acme",
+				repo: "templates",
+			});
+		});
+
+		it("should parse gitlab: shorthands with nested groups", () => {
+			expect(parseRegistrySource("gitlab:acme/platform/templates")).toEqual({
+				kind: "gitlab",
+				owner: "acme/platform",
+				repo: "templates",
+			});
+		});
+
+		it("should treat bare owner/repo as GitHub", () => {
+			expect(parseRegistrySource("acme/templates")).toEqual({
+				kind: "github",
+				owner: "acme",
+				repo: "templates",
+			});
+		});
+
+		it("should map GitHub and GitLab web URLs to their providers", () => {
+			expect(
+				parseRegistrySource("https://github.com/acme/templates.git"),
+			).toEqual({ kind: "github", owner: "acme", repo: "templates" });
+			expect(parseRegistrySource("https://gitlab.com/acme/templates/")).toEqual(
+				{ kind: "gitlab", owner: "acme", repo: "templates" },
+			);
+		});
+
+		it("should treat other git URLs as plain git remotes", () => {
+			expect(
+				parseRegistrySource("https://git.acme.io/platform/templates.git"),
+			).toEqual({
+				kind: "git",
+				url: "https://git.acme.io/platform/templates.git",
+			});
+			expect(parseRegistrySource("git@git.acme.io:platform/t.git")).toEqual({
+				kind: "git",
+				url: "git@git.acme.io:platform/t.git",
+			});
+			expect(parseRegistrySource("ssh://git@acme.io/t.git")).toEqual({
+				kind: "git",
+				url: "ssh://git@acme.io/t.git",
+			});
+		});
+
+		it("should resolve local paths against cwd", () => {
+			expect(parseRegistrySource("./templates-repo", "/work")).toEqual({
+				kind: "local",
+				path: path.resolve("/work", "templates-repo"),
+			});
+			expect(parseRegistrySource("/abs/repo", "/work")).toEqual({
+				kind: "local",
+				path: path.resolve("/abs/repo"),
+			});
+			expect(parseRegistrySource("file:repo", "/work")).toEqual({
+				kind: "local",
+				path: path.resolve("/work", "repo"),
+			});
+			expect(parseRegistrySource("~/repo")).toEqual({
+				kind: "local",
+				path: path.join(os.homedir(), "repo"),
+			});
+		});
+
+		it("should expand ~ in file: paths to the home directory", () => {
+			expect(parseRegistrySource("file:~/repo", "/work")).toEqual({
+				kind: "local",
+				path: path.join(os.homedir(), "repo"),
+			});
+			expect(parseRegistrySource("file:~", "/work")).toEqual({
+				kind: "local",
+				path: os.homedir(),
+			});
+		});
+
+		it("should split a #ref suffix off remote specs", () => {
+			expect(parseRegistrySource("github:acme/templates#v1.2.0")).toEqual({
+				kind: "github",
+				owner: "acme",
+				repo: "templates",
+				ref: "v1.2.0",
+			});
+			expect(
+				parseRegistrySource("https://git.acme.io/templates.git#main"),
+			).toEqual({
+				kind: "git",
+				url: "https://git.acme.io/templates.git",
+				ref: "main",
+			});
+		});
+
+		it("should reject refs that are not plain branch, tag or commit names", () => {
+			for (const spec of [
+				"https://git.acme.io/templates.git#--upload-pack=touch x",
+				"github:acme/templates#-v1",
+				"github:acme/templates#v1;rm",
+			])
+				expect(() => parseRegistrySource(spec)).toThrow(/^Invalid ref "/);
+		});
+
+		it("should parse self-hosted gitlab: URLs", () => {
+			expect(
+				parseRegistrySource(
+					"gitlab:https://gitlab.acme.io/platform/templates#v1",
+				),
+			).toEqual({
+				kind: "gitlab",
+				host: "https://gitlab.acme.io",
+				owner: "platform",
+				repo: "templates",
+				ref: "v1",
+			});
+		});
+
+		it("should parse tarball URLs without splitting off a ref", () => {
+			expect(
+				parseRegistrySource("https://acme.io/releases/templates-v1.tar.gz"),
+			).toEqual({
+				kind: "tarball",
+				url: "https://acme.io/releases/templates-v1.tar.gz",
+			});
+			expect(parseRegistrySource("https://acme.io/t.tgz?token=abc")).toEqual({
+				kind: "tarball",
+				url: "https://acme.io/t.tgz?token=abc",
+			});
+			expect(
+				parseRegistrySource("tarball:https://acme.io/download#latest"),
+			).toEqual({ kind: "tarball", url: "https://acme.io/download#latest" });
+		});
+
+		it("should throw for tarball: specs without an http(s) URL", () => {
+			expect(() => parseRegistrySource("tarball:./t.tar.gz")).toThrow(
+				'expected an http(s) URL after "tarball:"',
+			);
+		});
+
+		it("should keep # in local paths", () => {
+			expect(parseRegistrySource("./repo#1", "/work")).toEqual({
+				kind: "local",
+				path: path.resolve("/work", "repo#1"),
+			});
+		});
+
+		it("should throw for empty or unsupported specs", () => {
+			expect(() => parseRegistrySource("  ")).toThrow(
+				"Registry must not be empty.",
+			);
+			expect(() => parseRegistrySource("github:acme")).toThrow(
+				/expected an "owner\/repo" repository path/,
+			);
+			expect(() => parseRegistrySource("not a registry")).toThrow(
+				/Unsupported registry "not a registry"/,
+			);
+		});
+	});
+
+	describe("formatRegistrySource", () => {
+		it("should format each kind as a spec", () => {
+			expect(
+				formatRegistrySource({ kind: "github", owner: "a", repo: "b" }),
+			).toBe("github:a/b");
+			expect(
+				formatRegistrySource({ kind: "gitlab", owner: "a/b", repo: "c" }),
+			).toBe("gitlab:a/b/c");
+			expect(formatRegistrySource({ kind: "git", url: "ssh://x/y" })).toBe(
+				"ssh://x/y",
+			);
+			expect(formatRegistrySource({ kind: "local", path: "/repo" })).toBe(
+				"/repo",
+			);
+			expect(
+				formatRegistrySource({ kind: "tarball", url: "https://x/t.tgz" }),
+			).toBe("tarball:https://x/t.tgz");
+		});
+
+		it("should include the host of self-hosted GitLab instances", () => {
+			expect(
+				formatRegistrySource({
+					kind: "gitlab",
+					host: "https://gitlab.acme.io",
+					owner: "a",
+					repo: "b",
+					ref: "v1",
+				}),
+			).toBe("gitlab:https://gitlab.acme.io/a/b#v1");
+		});
+
+		it("should append the ref to remote specs", () => {
+			expect(
+				formatRegistrySource({
+					kind: "github",
+					owner: "a",
+					repo: "b",
+					ref: "v1",
+				}),
+			).toBe("github:a/b#v1");
+			expect(
+				formatRegistrySource({ kind: "git", url: "ssh://x/y", ref: "abc" }),
+			).toBe("ssh://x/y#abc");
+		});
+	});
+
+	describe("resolveRegistrySource", () => {
+		it("should prefer the CLI flag over env and config", async () => {
+			process.env[REGISTRY_ENV_VAR] = "github:env/repo";
+			vi.mocked(readUserConfiguration).mockResolvedValue({
+				registry: "github:config/repo",
+			});
+
+			const result = await resolveRegistrySource({
+				registry: "github:flag/repo",
+			});
+
+			expect(result).toEqual({ kind: "github", owner: "flag", repo: "repo" });
+		});
+
+		it("should prefer YEHLE_REGISTRY over the config file", async () => {
+			process.env[REGISTRY_ENV_VAR] = "github:env/repo";
+			vi.mocked(readUserConfiguration).mockResolvedValue({
+				registry: "github:config/repo",
+			});
+
+			const result = await resolveRegistrySource();
+
+			expect(result).toEqual({ kind: "github", owner: "env", repo: "repo" });
+		});
+
+		it("should fall back to the config file", async () => {
+			vi.mocked(readUserConfiguration).mockResolvedValue({
+				registry: "gitlab:config/repo",
+			});
+
+			const result = await resolveRegistrySource();
+
+			expect(result).toEqual({ kind: "gitlab", owner: "config", repo: "repo" });
+		});
+
+		it("should use cwd as a local registry when YEHLE_LOCAL_TEMPLATES is set", async () => {
+			process.env[LOCAL_TEMPLATES_ENV_VAR] = "true";
+			vi.spyOn(process, "cwd").mockReturnValue("/work");
+
+			const result = await resolveRegistrySource();
+
+			expect(result).toEqual({ kind: "local", path: "/work" });
+		});
+
+		it("should prefer an explicit registry over YEHLE_LOCAL_TEMPLATES", async () => {
+			process.env[LOCAL_TEMPLATES_ENV_VAR] = "true";
+
+			await expect(
+				resolveRegistrySource({ registry: "github:acme/t" }),
+			).resolves.toEqual({ kind: "github", owner: "acme", repo: "t" });
+		});
+
+		it("should resolve --templates-dir against cwd as a local registry", async () => {
+			vi.spyOn(process, "cwd").mockReturnValue("/work/my-package");
+
+			await expect(
+				resolveRegistrySource({ templatesDir: "../yehle/templates" }),
+			).resolves.toEqual({
+				kind: "local",
+				path: path.resolve("/work/my-package", "../yehle/templates"),
+			});
+			await expect(
+				resolveRegistrySource({ templatesDir: "~/yehle" }),
+			).resolves.toEqual({
+				kind: "local",
+				path: path.join(os.homedir(), "yehle"),
+			});
+		});
+
+		it("should prefer --templates-dir over YEHLE_REGISTRY and the config file", async () => {
+			process.env[REGISTRY_ENV_VAR] = "github:env/repo";
+			vi.mocked(readUserConfiguration).mockResolvedValue({
+				registry: "github:config/repo",
+				ref: "v1",
+			});
+
+			await expect(
+				resolveRegistrySource({ templatesDir: "/fixtures/templates" }),
+			).resolves.toEqual({
+				kind: "local",
+				path: path.resolve("/fixtures/templates"),
+			});
+		});
+
+		it("should reject --templates-dir combined with --registry", async () => {
+			await expect(
+				resolveRegistrySource({
+					registry: "github:acme/t",
+					templatesDir: "./templates",
+				}),
+			).rejects.toThrow("Use either --registry or --templates-dir, not both");
+		});
+
+		it("should default to the yehle GitHub repository", async () => {
+			await expect(resolveRegistrySource()).resolves.toBe(
+				DEFAULT_REGISTRY_SOURCE,
+			);
+		});
+
+		it("should prefer --ref over a #ref suffix and the config ref", async () => {
+			vi.mocked(readUserConfiguration).mockResolvedValue({
+				registry: "github:config/repo#v1",
+				ref: "v0",
+			});
+
+			await expect(resolveRegistrySource({ ref: "v2" })).resolves.toEqual({
+				kind: "github",
+				owner: "config",
+				repo: "repo",
+				ref: "v2",
+			});
+			await expect(resolveRegistrySource()).resolves.toEqual({
+				kind: "github",
+				owner: "config",
+				repo: "repo",
+				ref: "v1",
+			});
+		});
+
+		it("should reject a --ref or config ref that git could read as an option", async () => {
+			vi.mocked(readUserConfiguration).mockResolvedValue({
+				registry: "https://git.acme.io/templates.git",
+				ref: "--upload-pack=touch",
+			});
+
+			await expect(resolveRegistrySource()).rejects.toThrow(
+				'Invalid ref "--upload-pack=touch"',
+			);
+			await expect(
+				resolveRegistrySource({ ref: '--upload-pack="touch x"' }),
+			).rejects.toThrow("Invalid ref");
+		});
+
+		it("should apply the config ref to the configured registry only", async () => {
+			vi.mocked(readUserConfiguration).mockResolvedValue({
+				registry: "github:config/repo",
+				ref: "v0",
+			});
+
+			await expect(resolveRegistrySource()).resolves.toEqual({
+				kind: "github",
+				owner: "config",
+				repo: "repo",
+				ref: "v0",
+			});
+			await expect(
+				resolveRegistrySource({ registry: "github:flag/repo" }),
+			).resolves.toEqual({ kind: "github", owner: "flag", repo: "repo" });
+		});
+
+		it("should pin the default registry to --ref", async () => {
+			await expect(resolveRegistrySource({ ref: " abc123 " })).resolves.toEqual(
+				{ ...DEFAULT_REGISTRY_SOURCE, ref: "abc123" },
+			);
+		});
+
+		it("should reject refs for local registries", async () => {
+			await expect(
+				resolveRegistrySource({ registry: "/repo", ref: "v1" }),
+			).rejects.toThrow(/Cannot pin local registry ".*repo" to ref "v1"/);
+		});
+
+		it("should reject refs for tarball registries", async () => {
+			await expect(
+				resolveRegistrySource({
+					registry: "https://acme.io/t.tar.gz",
+					ref: "v1",
+				}),
+			).rejects.toThrow(
+				'Cannot pin tarball registry "https://acme.io/t.tar.gz" to ref "v1"',
+			);
+		});
+	});
+
+	describe("configureRegistrySource", () => {
+		it("should make the resolved source active", async () => {
+			const result = await configureRegistrySource({
+				registry: "github:acme/templates",
+			});
+
+			expect(getRegistrySource()).toBe(result);
+			expect(result).toEqual({
+				kind: "github",
+				owner: "acme",
+				repo: "templates",
+			});
+		});
+
+		it("should enable offline mode from --offline or YEHLE_OFFLINE", async () => {
+			await configureRegistrySource({});
+			expect(isOfflineMode()).toBe(false);
+
+			await configureRegistrySource({ offline: true });
+			expect(isOfflineMode()).toBe(true);
+
+			process.env[OFFLINE_ENV_VAR] = "TRUE";
+			await configureRegistrySource({});
+			expect(isOfflineMode()).toBe(true);
+
+			process.env[OFFLINE_ENV_VAR] = "0";
+			await configureRegistrySource({});
+			expect(isOfflineMode()).toBe(false);
+		});
+	});
+
+	describe("getGithubToken", () => {
+		it("should prefer GITHUB_TOKEN, then GH_TOKEN, then the config file", async () => {
+			vi.mocked(readUserConfiguration).mockResolvedValue({
+				githubToken: "from-config",
+			});
+			await configureRegistrySource({});
+			expect(getGithubToken()).toBe("from-config");
+
+			process.env.GH_TOKEN = "from-gh";
+			expect(getGithubToken()).toBe("from-gh");
+
+			process.env.GITHUB_TOKEN = "from-github";
+			expect(getGithubToken()).toBe("from-github");
+		});
+
+		it("should return undefined when no token is set", async () => {
+			process.env.GITHUB_TOKEN = "  ";
+			await configureRegistrySource({});
+
+			expect(getGithubToken()).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,378 @@
+import os from "node:os";
+import path from "node:path";
+import { readUserConfiguration, type YehleUserConfiguration } from "./config";
+import { DEFAULT_GITHUB_OWNER, DEFAULT_GITHUB_REPO } from "./constants";
+
+/**
+ * Where templates and instructions are read from:
+ * - github: a GitHub repository (Contents API for listings, giget for downloads).
+ * - gitlab: a GitLab repository on gitlab.com or a self-hosted instance (Repository Tree API for listings, giget for downloads).
+ * - git: any other git remote (shallow clone for listings and downloads).
+ * - tarball: a .tar.gz archive served over HTTP (downloaded whole, then read like a checkout).
+ * - local: a directory on disk: a checkout that contains a templates/ tree, or the templates/ directory itself.
+ */
+export type RegistrySource = (
+	| { kind: "github"; owner: string; repo: string }
+	| {
+			kind: "gitlab";
+			owner: string;
+			repo: string;
+			/** Origin of a self-hosted instance (e.g. "https://gitlab.acme.io"); gitlab.com when omitted. */
+			host?: string;
+	  }
+	| { kind: "git"; url: string }
+	| { kind: "tarball"; url: string }
+	| { kind: "local"; path: string }
+) & {
+	/** Git ref (branch, tag or commit SHA) to read from; the default branch when omitted. Remote registries only. */
+	ref?: string;
+};
+
+/** Options shared by commands that read templates or instructions. */
+export type RegistryOptions = {
+	/** Template source registry (e.g. "github:owner/repo", "gitlab:group/repo", a git URL or a local path). */
+	registry?: string;
+	/** Git ref (branch, tag or commit SHA) to pin the registry to. */
+	ref?: string;
+	/** Serve templates and instructions only from the cache, without network access. */
+	offline?: boolean;
+	/** Local templates directory to read instead of a registry (the templates/ directory itself or a checkout that contains one). */
+	templatesDir?: string;
+};
+
+/** Environment variable that overrides the configured registry. */
+export const REGISTRY_ENV_VAR = "YEHLE_REGISTRY";
+
+/** Environment variable that, when "true", reads templates from the current directory (like --templates-dir .). */
+export const LOCAL_TEMPLATES_ENV_VAR = "YEHLE_LOCAL_TEMPLATES";
+
+/** Environment variable that enables offline mode ("1" or "true"). */
+export const OFFLINE_ENV_VAR = "YEHLE_OFFLINE";
+
+/** Environment variables checked (in order) for a GitHub token. */
+export const GITHUB_TOKEN_ENV_VARS = ["GITHUB_TOKEN", "GH_TOKEN"] as const;
+
+/** Registry used when nothing else is configured. */
+export const DEFAULT_REGISTRY_SOURCE: RegistrySource = {
+	kind: "github",
+	owner: DEFAULT_GITHUB_OWNER,
+	repo: DEFAULT_GITHUB_REPO,
+};
+
+/** Registry in use for the current command (set once via configureRegistrySource). */
+let activeSource: RegistrySource = DEFAULT_REGISTRY_SOURCE;
+
+/** Whether the current command may only read remote registries from the cache. */
+let offlineMode = false;
+
+/** GitHub token from the user configuration file (set via configureRegistrySource). */
+let configuredGithubToken: string | undefined;
+
+/**
+ * Split an "owner/repo" path into its owner and repository name.
+ * The owner may contain nested groups (GitLab); the repository is the last segment.
+ * @param value - Slash-separated repository path, optionally ending in ".git".
+ * @param spec - The original registry spec (for error messages only).
+ * @returns The owner and repository name.
+ * @throws Error when the path has fewer than two segments.
+ */
+function splitOwnerAndRepo(
+	value: string,
+	spec: string,
+): { owner: string; repo: string } {
+	const segments = value
+		.replace(/\.git$/, "")
+		.split("/")
+		.filter(Boolean);
+	if (segments.length < 2)
+		throw new Error(
+			`Invalid registry "${spec}": expected an "owner/repo" repository path.`,
+		);
+
+	const repo = segments.pop() as string;
+	return { owner: segments.join("/"), repo };
+}
+
+/**
+ * Whether a git ref is safe to pass to git: branch, tag and commit names only, never an option.
+ * @param ref - Git ref (branch, tag or commit SHA).
+ * @returns True when the ref is made of letters, digits, "_", ".", "/" and "-" and does not start with "-".
+ */
+export function isValidRegistryRef(ref: string): boolean {
+	return /^[\w./-]+$/.test(ref) && !ref.startsWith("-");
+}
+
+/**
+ * Check that a git ref is safe to pass to git.
+ * @param ref - Git ref (branch, tag or commit SHA).
+ * @returns The ref.
+ * @throws Error when the ref is not a plain branch, tag or commit name.
+ */
+function assertValidRegistryRef(ref: string): string {
+	if (!isValidRegistryRef(ref))
+		throw new Error(
+			`Invalid ref "${ref}": expected a branch, tag or commit SHA (letters, digits, "_", ".", "/" and "-", not starting with "-").`,
+		);
+	return ref;
+}
+
+/**
+ * Resolve a local directory path, expanding a leading "~" to the home directory.
+ * @param value - Absolute, relative or home-relative path.
+ * @param cwd - Directory that relative paths are resolved against.
+ * @returns The absolute path.
+ */
+function resolveLocalPath(value: string, cwd: string): string {
+	if (value === "~" || value.startsWith("~/"))
+		return path.join(os.homedir(), value.slice(1));
+	return path.resolve(cwd, value);
+}
+
+/**
+ * Parse a registry spec into a registry source.
+ * Accepts "github:owner/repo", "gitlab:group/repo", "gitlab:https://host/group/repo" (self-hosted GitLab),
+ * bare "owner/repo" (GitHub), GitHub/GitLab web URLs, any other git URL, HTTP tarballs (URLs ending in
+ * .tar.gz or .tgz, or any URL prefixed with "tarball:") and local paths ("./dir", "/abs/dir", "~/dir", "file:dir").
+ * Repository specs may pin a ref with a "#ref" suffix (e.g. "github:owner/repo#v1.2.0").
+ * @param spec - Registry spec as passed via --registry, YEHLE_REGISTRY or the config file.
+ * @param cwd - Directory that relative local paths are resolved against.
+ * @returns The parsed registry source.
+ * @throws Error when the spec is empty or not recognised, or its ref is not a plain branch, tag or commit name.
+ */
+export function parseRegistrySource(
+	spec: string,
+	cwd: string = process.cwd(),
+): RegistrySource {
+	const value = spec.trim();
+	if (!value) throw new Error("Registry must not be empty.");
+
+	// Local paths
+	if (value.startsWith("file:"))
+		return { kind: "local", path: resolveLocalPath(value.slice(5), cwd) };
+	if (
+		value === "~" ||
+		value.startsWith("~/") ||
+		value.startsWith(".") ||
+		path.isAbsolute(value) ||
+		/^[a-zA-Z]:[\\/]/.test(value)
+	)
+		return { kind: "local", path: resolveLocalPath(value, cwd) };
+
+	// HTTP tarballs name a single snapshot, so "#" is not treated as a ref
+	if (value.startsWith("tarball:")) {
+		const url = value.slice(8).trim();
+		if (!/^https?:\/\//.test(url))
+			throw new Error(
+				`Invalid registry "${spec}": expected an http(s) URL after "tarball:".`,
+			);
+		return { kind: "tarball", url };
+	}
+	if (/^https?:\/\/[^#?]+\.(tar\.gz|tgz)(\?[^#]*)?$/.test(value))
+		return { kind: "tarball", url: value };
+
+	// Optional "#ref" suffix
+	const hashIndex = value.indexOf("#");
+	const location = hashIndex === -1 ? value : value.slice(0, hashIndex);
+	const ref = hashIndex === -1 ? "" : value.slice(hashIndex + 1).trim();
+	const source = parseRemoteLocation(location, spec);
+	return ref ? { ...source, ref: assertValidRegistryRef(ref) } : source;
+}
+
+/**
+ * Parse the location part (without "#ref") of a remote registry spec.
+ * @param location - Remote registry location.
+ * @param spec - The original registry spec (for error messages only).
+ * @returns The parsed remote registry source.
+ * @throws Error when the location is not recognised.
+ */
+function parseRemoteLocation(location: string, spec: string): RegistrySource {
+	// Provider shorthands
+	if (location.startsWith("github:"))
+		return { kind: "github", ...splitOwnerAndRepo(location.slice(7), spec) };
+	if (location.startsWith("gitlab:")) {
+		const selfHosted = location.slice(7).match(/^(https?:\/\/[^/]+)\/(.+)$/);
+		if (selfHosted)
+			return {
+				kind: "gitlab",
+				host: selfHosted[1],
+				...splitOwnerAndRepo(selfHosted[2], spec),
+			};
+		return { kind: "gitlab", ...splitOwnerAndRepo(location.slice(7), spec) };
+	}
+
+	// Web URLs for the hosted providers
+	const hostedMatch = location.match(
+		/^https?:\/\/(www\.)?(github\.com|gitlab\.com)\/(.+?)\/?$/,
+	);
+	if (hostedMatch) {
+		const kind = hostedMatch[2] === "github.com" ? "github" : "gitlab";
+		return { kind, ...splitOwnerAndRepo(hostedMatch[3], spec) };
+	}
+
+	// Any other git remote
+	if (
+		/^(https?|ssh|git|git\+\w+):\/\//.test(location) ||
+		/^[\w.-]+@[\w.-]+:/.test(location)
+	)
+		return { kind: "git", url: location };
+
+	// Bare "owner/repo" defaults to GitHub
+	if (/^[\w.-]+\/[\w.-]+$/.test(location))
+		return { kind: "github", ...splitOwnerAndRepo(location, spec) };
+
+	throw new Error(
+		`Unsupported registry "${spec}" (expected github:owner/repo, gitlab:group/repo, a git URL, a tarball URL or a local path).`,
+	);
+}
+
+/**
+ * Format a registry source as a human readable spec (used in messages and manifests).
+ * @param source - Registry source to describe.
+ * @returns The spec string, e.g. "github:owner/repo#v1.2.0" or the local path.
+ */
+export function formatRegistrySource(source: RegistrySource): string {
+	const refSuffix = source.ref ? `#${source.ref}` : "";
+	switch (source.kind) {
+		case "github":
+			return `github:${source.owner}/${source.repo}${refSuffix}`;
+		case "gitlab": {
+			const host = source.host ? `${source.host}/` : "";
+			return `gitlab:${host}${source.owner}/${source.repo}${refSuffix}`;
+		}
+		case "git":
+			return `${source.url}${refSuffix}`;
+		case "tarball":
+			return `tarball:${source.url}`;
+		case "local":
+			return source.path;
+	}
+}
+
+/**
+ * Resolve the registry source from CLI flags, the environment and an already-read user configuration.
+ * @param options - Registry options from CLI flags.
+ * @param config - User configuration.
+ * @returns The registry source to use.
+ * @throws Error when the chosen spec cannot be parsed, the ref is invalid or a ref is requested for a local or tarball registry.
+ */
+function resolveRegistrySourceFromConfig(
+	options: RegistryOptions,
+	config: YehleUserConfiguration,
+): RegistrySource {
+	const templatesDir = options.templatesDir?.trim();
+	if (templatesDir && options.registry)
+		throw new Error(
+			"Use either --registry or --templates-dir, not both; --templates-dir already names where templates are read from.",
+		);
+	const override = options.registry || process.env[REGISTRY_ENV_VAR];
+
+	let source: RegistrySource = DEFAULT_REGISTRY_SOURCE;
+	let configRef = config.ref;
+	if (templatesDir) {
+		source = {
+			kind: "local",
+			path: resolveLocalPath(templatesDir, process.cwd()),
+		};
+		configRef = undefined;
+	} else if (override) {
+		source = parseRegistrySource(override);
+		configRef = undefined;
+	} else if (config.registry) {
+		source = parseRegistrySource(config.registry);
+	} else if (process.env[LOCAL_TEMPLATES_ENV_VAR] === "true") {
+		source = { kind: "local", path: process.cwd() };
+		configRef = undefined;
+	}
+
+	const ref = options.ref?.trim() || source.ref || configRef;
+	if (!ref) return source;
+
+	if (source.kind === "local")
+		throw new Error(
+			`Cannot pin local registry "${source.path}" to ref "${ref}"; check out the ref in that directory instead.`,
+		);
+	if (source.kind === "tarball")
+		throw new Error(
+			`Cannot pin tarball registry "${source.url}" to ref "${ref}"; point the URL at an archive of that ref instead.`,
+		);
+	return { ...source, ref: assertValidRegistryRef(ref) };
+}
+
+/**
+ * Resolve the registry source with precedence: --templates-dir → --registry → YEHLE_REGISTRY → config file → YEHLE_LOCAL_TEMPLATES → default.
+ * The ref is taken from --ref, then a "#ref" suffix on the spec, then the config file's ref: key
+ * (the latter only when the registry itself was not overridden by the flag or environment).
+ * @param options - Registry options from CLI flags.
+ * @returns Promise resolving to the registry source to use.
+ * @throws Error when the chosen spec cannot be parsed, the ref is invalid or a ref is requested for a local or tarball registry.
+ */
+export async function resolveRegistrySource(
+	options: RegistryOptions = {},
+): Promise<RegistrySource> {
+	return resolveRegistrySourceFromConfig(
+		options,
+		await readUserConfiguration(),
+	);
+}
+
+/**
+ * Resolve the registry for a command and make it the active source for all template and instruction lookups.
+ * Also enables offline mode when --offline or YEHLE_OFFLINE is set, and picks up the configured GitHub token.
+ * @param options - Registry options from CLI flags.
+ * @returns Promise resolving to the registry source now in use.
+ */
+export async function configureRegistrySource(
+	options: RegistryOptions = {},
+): Promise<RegistrySource> {
+	const config = await readUserConfiguration();
+	activeSource = resolveRegistrySourceFromConfig(options, config);
+	configuredGithubToken = config.githubToken;
+	const envOffline = process.env[OFFLINE_ENV_VAR]?.trim().toLowerCase();
+	offlineMode =
+		Boolean(options.offline) || envOffline === "1" || envOffline === "true";
+	return activeSource;
+}
+
+/**
+ * Get the registry source in use for the current command.
+ * @returns The active registry source.
+ */
+export function getRegistrySource(): RegistrySource {
+	return activeSource;
+}
+
+/**
+ * Replace the active registry source.
+ * @param source - Registry source to use for subsequent lookups.
+ */
+export function setRegistrySource(source: RegistrySource): void {
+	activeSource = source;
+}
+
+/**
+ * Whether remote registries may only be read from the cache.
+ * @returns True when offline mode was enabled for the current command.
+ */
+export function isOfflineMode(): boolean {
+	return offlineMode;
+}
+
+/**
+ * Enable or disable offline mode.
+ * @param offline - True to serve remote registries only from the cache.
+ */
+export function setOfflineMode(offline: boolean): void {
+	offlineMode = offline;
+}
+
+/**
+ * Get the token to authenticate GitHub API requests and downloads with.
+ * @returns GITHUB_TOKEN, then GH_TOKEN, then the config file's githubToken; undefined when none is set.
+ */
+export function getGithubToken(): string | undefined {
+	for (const name of GITHUB_TOKEN_ENV_VARS) {
+		const token = process.env[name]?.trim();
+		if (token) return token;
+	}
+	return configuredGithubToken;
+}
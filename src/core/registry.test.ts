@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./registry.local", () => ({
+	createLocalRegistry: vi.fn((root: string) => ({
+		source: { kind: "local", path: root },
+		isLocal: true,
+	})),
+}));
+
+vi.mock("./registry.remote", () => ({
+	createRemoteRegistry: vi.fn((source: unknown) => ({
+		source,
+		isLocal: false,
+	})),
+}));
+
+// Import after mocks
+import { createTemplateRegistry, getTemplateRegistry } from "./registry";
+import { createLocalRegistry } from "./registry.local";
+import { createRemoteRegistry } from "./registry.remote";
+import {
+	DEFAULT_REGISTRY_SOURCE,
+	type RegistrySource,
+	setRegistrySource,
+} from "./registry.source";
+
+describe("core/registry", () => {
+	beforeEach(() => {
+		// Switch sources so the memoized backend of the previous test is dropped
+		setRegistrySource({ kind: "local", path: "/previous" });
+		getTemplateRegistry();
+		setRegistrySource(DEFAULT_REGISTRY_SOURCE);
+		vi.clearAllMocks();
+	});
+
+	describe("createTemplateRegistry", () => {
+		it("should create a local backend for local sources", () => {
+			const registry = createTemplateRegistry({ kind: "local", path: "/repo" });
+
+			expect(createLocalRegistry).toHaveBeenCalledWith("/repo");
+			expect(registry.isLocal).toBe(true);
+		});
+
+		it.each<RegistrySource>([
+			{ kind: "github", owner: "a", repo: "b" },
+			{ kind: "gitlab", host: "https://gitlab.acme.io", owner: "a", repo: "b" },
+			{ kind: "git", url: "ssh://git@acme.io/t.git" },
+			{ kind: "tarball", url: "https://acme.io/t.tar.gz" },
+		])("should create a remote backend for $kind sources", (source) => {
+			const registry = createTemplateRegistry(source);
+
+			expect(createRemoteRegistry).toHaveBeenCalledWith(source);
+			expect(registry.isLocal).toBe(false);
+		});
+	});
+
+	describe("getTemplateRegistry", () => {
+		it("should return the backend for the active source", () => {
+			const source: RegistrySource = { kind: "github", owner: "a", repo: "b" };
+			setRegistrySource(source);
+
+			expect(getTemplateRegistry().source).toBe(source);
+		});
+
+		it("should reuse the backend while the active source is unchanged", () => {
+			const first = getTemplateRegistry();
+
+			expect(getTemplateRegistry()).toBe(first);
+			expect(createRemoteRegistry).toHaveBeenCalledTimes(1);
+		});
+
+		it("should create a new backend when the active source changes", () => {
+			const first = getTemplateRegistry();
+			setRegistrySource({ ...DEFAULT_REGISTRY_SOURCE, ref: "abc123" });
+
+			const second = getTemplateRegistry();
+
+			expect(second).not.toBe(first);
+			expect(second.source).toEqual({
+				...DEFAULT_REGISTRY_SOURCE,
+				ref: "abc123",
+			});
+		});
+
+		it("should read a local fixture root without any environment setup", () => {
+			setRegistrySource({ kind: "local", path: "/fixtures/templates" });
+
+			const registry = getTemplateRegistry();
+
+			expect(createLocalRegistry).toHaveBeenCalledWith("/fixtures/templates");
+			expect(registry.isLocal).toBe(true);
+		});
+	});
+});
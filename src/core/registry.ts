@@ -0,0 +1,81 @@
+import { createLocalRegistry } from "./registry.local";
+import { createRemoteRegistry } from "./registry.remote";
+import { getRegistrySource, type RegistrySource } from "./registry.source";
+
+/**
+ * A backend that templates and instructions are read from.
+ * All paths are repository subpaths using forward slashes (e.g. "templates/typescript/package").
+ */
+export type TemplateRegistry = {
+	/** Registry source this backend reads from. */
+	source: RegistrySource;
+	/** True when reads are served straight from disk (no downloads, so no loading indicators are needed). */
+	isLocal: boolean;
+	/**
+	 * List child directory names of a subpath.
+	 * @param subpath - Repository subpath.
+	 * @param exclude - Optional set of directory names (case-insensitive) to exclude.
+	 * @returns Promise resolving to the directory names; empty when a local subpath does not exist.
+	 * @throws Error when a remote registry cannot be listed.
+	 */
+	listDirs(subpath: string, exclude?: Set<string>): Promise<string[]>;
+	/**
+	 * List file basenames (without extension) of a subpath, filtered by extension.
+	 * @param subpath - Repository subpath.
+	 * @param extensions - Allowed file extensions such as [".mdc", ".md"].
+	 * @returns Promise resolving to the sorted basenames; empty when a local subpath does not exist.
+	 * @throws Error when a remote registry cannot be listed.
+	 */
+	listFiles(subpath: string, extensions: readonly string[]): Promise<string[]>;
+	/**
+	 * Check whether a subpath exists as a directory.
+	 * @param subpath - Repository subpath.
+	 * @returns Promise resolving to true when it exists; false when it does not or the check fails.
+	 */
+	exists(subpath: string): Promise<boolean>;
+	/**
+	 * Get a subpath as a directory on disk, downloading it first for remote registries.
+	 * @param subpath - Repository subpath.
+	 * @param tmpPrefix - Prefix for the temporary directory used when a download cannot be cached.
+	 * @returns Promise resolving to the absolute path of the directory.
+	 * @throws Error when the subpath does not exist or cannot be downloaded.
+	 */
+	materialize(subpath: string, tmpPrefix: string): Promise<string>;
+	/**
+	 * Resolve the commit the registry currently points at.
+	 * @returns Promise resolving to the commit SHA, or undefined when it cannot be determined (e.g. tarballs).
+	 */
+	resolveCommit(): Promise<string | undefined>;
+};
+
+/** Backend for the active registry source, created once per source. */
+let activeRegistry: {
+	source: RegistrySource;
+	registry: TemplateRegistry;
+} | null = null;
+
+/**
+ * Create the backend for a registry source.
+ * @param source - Registry source.
+ * @returns A local backend for directories on disk, otherwise a remote backend (GitHub, GitLab, git or tarball).
+ */
+export function createTemplateRegistry(
+	source: RegistrySource,
+): TemplateRegistry {
+	if (source.kind === "local") return createLocalRegistry(source.path);
+	return createRemoteRegistry(source);
+}
+
+/**
+ * Get the backend for the registry in use by the current command.
+ * The backend is created once and replaced only when the active source changes (e.g. when it is pinned to a commit).
+ * @returns The active template registry.
+ */
+export function getTemplateRegistry(): TemplateRegistry {
+	const source = getRegistrySource();
+	if (activeRegistry?.source === source) return activeRegistry.registry;
+
+	const registry = createTemplateRegistry(source);
+	activeRegistry = { source, registry };
+	return registry;
+}
@@ -28,12 +28,51 @@ vi.mock("./fs", () => ({
 	copyDirSafeAsync: vi.fn(),
 	ensureDirAsync: vi.fn(),
 	isDirAsync: vi.fn(),
+	mergeIntoJSONFile: vi.fn(),
+	readMustachePartials: vi.fn(() => Promise.resolve({})),
 	removeFilesByBasename: vi.fn(),
 	renderMustacheTemplates: vi.fn(),
-	stripKeyFromJSONFile: vi.fn(),
 	writeFileAsync: vi.fn(),
 }));
 
+vi.mock("./features", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("./features")>();
+	return {
+		...actual,
+		readTemplateFeatures: vi.fn(() => Promise.resolve({})),
+		removeUnselectedFeatureFiles: vi.fn(),
+	};
+});
+
+vi.mock("./inheritance", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("./inheritance")>();
+	const { resolveTemplatesDir } = await import("./templates");
+	return {
+		...actual,
+		applyDeletionMarkers: vi.fn(),
+		resolveTemplateChain: vi.fn(
+			async (lang: string, projectSpec: string, template: string) => [
+				{
+					id: `${lang}/${projectSpec}/${template}`,
+					dir: await resolveTemplatesDir(lang, `${projectSpec}/${template}`),
+				},
+			],
+		),
+	};
+});
+
+vi.mock("./merge", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("./merge")>();
+	const { copyDirSafeAsync } = await import("./fs");
+	return {
+		...actual,
+		copyTemplateLayer: vi.fn((layerDir: string, targetDir: string) =>
+			copyDirSafeAsync(layerDir, targetDir),
+		),
+		readTemplateMergeStrategies: vi.fn(() => Promise.resolve({})),
+	};
+});
+
 vi.mock("./instructions", () => ({
 	InstructionCategory: {
 		ESSENTIAL: "essential",
@@ -55,12 +94,16 @@ vi.mock("./templates", () => ({
 	resolveTemplatesDir: vi.fn(),
 }));
 
+import { readTemplateFeatures, removeUnselectedFeatureFiles } from "./features";
 import {
 	copyDirSafeAsync,
 	ensureDirAsync,
+	isDirAsync,
+	readMustachePartials,
 	removeFilesByBasename,
 	writeFileAsync,
 } from "./fs";
+import { applyDeletionMarkers, resolveTemplateChain } from "./inheritance";
 import {
 	getInstructionWithFrontmatter,
 	InstructionCategory,
@@ -69,10 +112,13 @@ import {
 	readSubagentsMapping,
 	readToolingInstructionsMapping,
 } from "./instructions";
+import { copyTemplateLayer, readTemplateMergeStrategies } from "./merge";
 import {
 	addProjectInstructions,
+	buildTemplateMetadata,
 	createProjectDirectory,
 	getRequiredGithubSecrets,
+	readTemplatePartials,
 	writeTemplateFiles,
 } from "./setup";
 import { resolveTemplatesDir } from "./templates";
@@ -202,6 +248,203 @@ describe("core/setup", () => {
 			expect(writtenLicenseText).toContain(year);
 			expect(writtenLicenseText).toContain(authorName);
 		});
+
+		it("removes the files of unselected features declared by the template", async () => {
+			const definitions = { playground: { files: ["playground"] } };
+			vi.mocked(resolveTemplatesDir).mockImplementation((...args) => {
+				return Promise.resolve(`/resolved/${args.join("/")}`);
+			});
+			vi.mocked(readTemplateFeatures).mockResolvedValueOnce(definitions);
+
+			await writeTemplateFiles("/target", {
+				lang: "typescript",
+				projectSpec: "package",
+				template: "react",
+				features: { playground: false },
+			});
+
+			expect(readTemplateFeatures).toHaveBeenCalledWith(
+				"/resolved/typescript/package/react",
+			);
+			expect(removeUnselectedFeatureFiles).toHaveBeenCalledWith(
+				"/target",
+				definitions,
+				{ playground: false },
+			);
+		});
+
+		it("copies extended templates before the template and applies deletion markers after each", async () => {
+			vi.mocked(resolveTemplatesDir).mockImplementation((...args) => {
+				return Promise.resolve(`/resolved/${args.join("/")}`);
+			});
+			vi.mocked(resolveTemplateChain).mockResolvedValueOnce([
+				{ id: "typescript/package/react", dir: "/resolved/react" },
+				{ id: "typescript/package/react-library", dir: "/resolved/library" },
+			]);
+
+			await writeTemplateFiles("/target", {
+				lang: "typescript",
+				projectSpec: "package",
+				template: "react-library",
+			});
+
+			expect(resolveTemplateChain).toHaveBeenCalledWith(
+				"typescript",
+				"package",
+				"react-library",
+			);
+			expect(copyDirSafeAsync).toHaveBeenNthCalledWith(
+				4,
+				"/resolved/react",
+				"/target",
+			);
+			expect(copyDirSafeAsync).toHaveBeenNthCalledWith(
+				5,
+				"/resolved/library",
+				"/target",
+			);
+			expect(applyDeletionMarkers).toHaveBeenCalledTimes(5);
+			expect(readTemplateFeatures).toHaveBeenCalledWith("/resolved/library");
+		});
+
+		it("passes the merge strategies declared by any layer to every layer", async () => {
+			vi.mocked(resolveTemplatesDir).mockImplementation((...args) => {
+				return Promise.resolve(`/resolved/${args.join("/")}`);
+			});
+			vi.mocked(readTemplateMergeStrategies).mockImplementation(async (dir) =>
+				dir === "/resolved/typescript/package/react"
+					? { "biome.json": "deep-merge" }
+					: dir === "/resolved/typescript/shared"
+						? { "biome.json": "replace", "tsconfig.json": "append" }
+						: {},
+			);
+
+			await writeTemplateFiles("/target", {
+				lang: "typescript",
+				projectSpec: "package",
+				template: "react",
+			});
+
+			const strategies = {
+				"biome.json": "deep-merge",
+				"tsconfig.json": "append",
+			};
+			expect(copyTemplateLayer).toHaveBeenCalledTimes(4);
+			expect(copyTemplateLayer).toHaveBeenNthCalledWith(
+				1,
+				"/resolved/shared",
+				"/target",
+				strategies,
+			);
+			expect(copyTemplateLayer).toHaveBeenNthCalledWith(
+				4,
+				"/resolved/typescript/package/react",
+				"/target",
+				strategies,
+			);
+		});
+	});
+
+	describe("readTemplatePartials", () => {
+		it("reads partials from every layer, later layers taking precedence", async () => {
+			vi.mocked(resolveTemplatesDir).mockImplementation((...args) => {
+				return Promise.resolve(`/resolved/${args.join("/")}`);
+			});
+			vi.mocked(readMustachePartials).mockImplementation(async (dir) => {
+				if (dir === path.join("/resolved/shared", "partials"))
+					return { badges: "shared badges", license: "MIT" };
+				if (dir === path.join("/resolved/typescript/package/react", "partials"))
+					return { badges: "react badges" };
+				return {};
+			});
+
+			const partials = await readTemplatePartials(
+				"typescript",
+				"package",
+				"react",
+			);
+
+			expect(readMustachePartials).toHaveBeenCalledTimes(4);
+			expect(partials).toEqual({ badges: "react badges", license: "MIT" });
+		});
+	});
+
+	describe("buildTemplateMetadata", () => {
+		it("should merge template variables below the extras", async () => {
+			vi.mocked(resolveTemplatesDir).mockResolvedValue(
+				"/templates/typescript/package/basic",
+			);
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+
+			const metadata = await buildTemplateMetadata(
+				"typescript",
+				"package/basic",
+				"pnpm@9.0.0",
+				{ name: "my-package" },
+				{ framework: "vue", name: "ignored", docs: true },
+			);
+
+			expect(isDirAsync).toHaveBeenCalledWith(
+				path.join("/templates/typescript/package/basic", "playground"),
+			);
+			expect(metadata).toEqual({
+				packageManagerVersion: "pnpm@9.0.0",
+				templateHasPlayground: true,
+				feature: {},
+				framework: "vue",
+				docs: true,
+				name: "my-package",
+			});
+		});
+
+		it("should read features from the chosen template only, not the templates it extends", async () => {
+			vi.mocked(resolveTemplatesDir).mockResolvedValue("/library");
+			vi.mocked(resolveTemplateChain).mockResolvedValueOnce([
+				{ id: "typescript/package/react", dir: "/react" },
+				{ id: "typescript/package/react-library", dir: "/library" },
+			]);
+			vi.mocked(isDirAsync).mockResolvedValue(false);
+			vi.mocked(readTemplateFeatures).mockImplementationOnce(async (dir) =>
+				dir === "/react" ? { playground: {} } : { docs: {} },
+			);
+
+			const metadata = await buildTemplateMetadata(
+				"typescript",
+				"package/react-library",
+				"pnpm@9.0.0",
+				{},
+			);
+
+			expect(readTemplateFeatures).toHaveBeenCalledTimes(1);
+			expect(readTemplateFeatures).toHaveBeenCalledWith("/library");
+			expect(metadata.feature).toEqual({ docs: true });
+		});
+
+		it("should expose feature booleans and hide an unselected playground", async () => {
+			vi.mocked(resolveTemplatesDir).mockResolvedValue("/templates/react");
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+			vi.mocked(readTemplateFeatures).mockResolvedValueOnce({
+				playground: { files: ["./playground/"] },
+				stryker: {},
+				husky: { default: false },
+			});
+
+			const metadata = await buildTemplateMetadata(
+				"typescript",
+				"package/react",
+				"pnpm@9.0.0",
+				{},
+				{},
+				{ playground: false },
+			);
+
+			expect(metadata.templateHasPlayground).toBe(false);
+			expect(metadata.feature).toEqual({
+				playground: false,
+				stryker: true,
+				husky: false,
+			});
+		});
 	});
 
 	describe("addProjectInstructions", () => {
@@ -225,7 +468,7 @@ describe("core/setup", () => {
 					projectSpec: "package",
 					template: "basic",
 					includeInstructions: true,
-					instructionsIdeFormat: "cursor",
+					instructionsIdeFormats: ["cursor"],
 				},
 				writeInstruction,
 			);
@@ -240,5 +483,133 @@ describe("core/setup", () => {
 				{ description: "Researcher" },
 			);
 		});
+
+		it("fetches each instruction once and writes it for every IDE format", async () => {
+			vi.mocked(listAvailableInstructions).mockImplementation(
+				async (category) =>
+					category === InstructionCategory.ESSENTIAL ? ["code-style"] : [],
+			);
+			vi.mocked(readToolingInstructionsMapping).mockResolvedValue([]);
+			vi.mocked(readSkillsMapping).mockResolvedValue([]);
+			vi.mocked(readSubagentsMapping).mockResolvedValue([]);
+			vi.mocked(getInstructionWithFrontmatter).mockResolvedValue({
+				content: "content",
+				frontmatter: {},
+			});
+
+			const writeInstruction = vi.fn(async () => "/written/path");
+
+			await addProjectInstructions(
+				"/target",
+				{
+					lang: "typescript",
+					projectSpec: "package",
+					template: "basic",
+					includeInstructions: true,
+					instructionsIdeFormats: ["cursor", "claude"],
+				},
+				writeInstruction,
+			);
+
+			expect(getInstructionWithFrontmatter).toHaveBeenCalledTimes(1);
+			expect(
+				writeInstruction.mock.calls.map((call) => [call[1], call[3]]),
+			).toEqual([
+				["code-style", "cursor"],
+				["code-style", "claude"],
+			]);
+		});
+
+		it("merges tooling instructions and subagents across extended templates", async () => {
+			vi.mocked(resolveTemplateChain).mockResolvedValueOnce([
+				{ id: "typescript/package/react", dir: "/react" },
+				{ id: "typescript/package/react-library", dir: "/library" },
+			]);
+			vi.mocked(listAvailableInstructions).mockResolvedValue([]);
+			vi.mocked(readToolingInstructionsMapping).mockImplementation(
+				async (dir) => (dir === "/react" ? ["react"] : ["react", "storybook"]),
+			);
+			vi.mocked(readSkillsMapping).mockResolvedValue([]);
+			vi.mocked(readSubagentsMapping).mockImplementation(async (dir) =>
+				dir === "/react" ? ["planner"] : ["verifier"],
+			);
+			vi.mocked(getInstructionWithFrontmatter).mockResolvedValue({
+				content: "content",
+				frontmatter: {},
+			});
+
+			const writeInstruction = vi.fn(async () => "/written/path");
+
+			await addProjectInstructions(
+				"/target",
+				{
+					lang: "typescript",
+					projectSpec: "package",
+					template: "react-library",
+					includeInstructions: true,
+					instructionsIdeFormats: ["cursor"],
+				},
+				writeInstruction,
+			);
+
+			expect(
+				writeInstruction.mock.calls.map((call) => [call[1], call[4]]),
+			).toEqual([
+				["react", InstructionCategory.TOOLING],
+				["storybook", InstructionCategory.TOOLING],
+				["planner", InstructionCategory.SUBAGENTS],
+				["verifier", InstructionCategory.SUBAGENTS],
+			]);
+		});
+
+		it("inherits template instructions, a template's own replacing those with the same name", async () => {
+			vi.mocked(resolveTemplateChain).mockResolvedValueOnce([
+				{ id: "typescript/package/react", dir: "/react" },
+				{ id: "typescript/package/react-library", dir: "/library" },
+			]);
+			vi.mocked(listAvailableInstructions).mockImplementation(
+				async (category, context) =>
+					category !== InstructionCategory.TEMPLATE
+						? []
+						: context?.template === "react"
+							? ["components", "testing"]
+							: ["testing", "publishing"],
+			);
+			vi.mocked(readToolingInstructionsMapping).mockResolvedValue([]);
+			vi.mocked(readSkillsMapping).mockResolvedValue([]);
+			vi.mocked(readSubagentsMapping).mockResolvedValue([]);
+			vi.mocked(getInstructionWithFrontmatter).mockImplementation(
+				async (_category, name, context) => ({
+					content: `${context?.template}/${name}`,
+					frontmatter: {},
+				}),
+			);
+
+			const writeInstruction = vi.fn(async () => "/written/path");
+
+			await addProjectInstructions(
+				"/target",
+				{
+					lang: "typescript",
+					projectSpec: "package",
+					template: "react-library",
+					includeInstructions: true,
+					instructionsIdeFormats: ["cursor"],
+				},
+				writeInstruction,
+			);
+
+			expect(
+				writeInstruction.mock.calls.map((call) => [call[1], call[2], call[4]]),
+			).toEqual([
+				["components", "react/components", InstructionCategory.TEMPLATE],
+				["testing", "react-library/testing", InstructionCategory.TEMPLATE],
+				[
+					"publishing",
+					"react-library/publishing",
+					InstructionCategory.TEMPLATE,
+				],
+			]);
+		});
 	});
 });
@@ -1,15 +1,31 @@
 import fs from "node:fs";
 import path from "node:path";
 import mitLicense from "spdx-license-list/licenses/MIT.json";
+import type { TemplateMergeStrategy } from "./constants";
+import {
+	getUnselectedFeatureFiles,
+	isFeatureSelectedByDefault,
+	readTemplateFeatures,
+	removeUnselectedFeatureFiles,
+	type TemplateFeatureSelection,
+} from "./features";
 import {
-	copyDirSafeAsync,
 	ensureDirAsync,
 	isDirAsync,
+	mergeIntoJSONFile,
+	readMustachePartials,
 	removeFilesByBasename,
 	renderMustacheTemplates,
-	stripKeyFromJSONFile,
 	writeFileAsync,
 } from "./fs";
+import {
+	applyDeletionMarkers,
+	DELETION_MARKER_SUFFIX,
+	mergeInheritedLists,
+	parseTemplateReference,
+	resolveTemplateChain,
+	type TemplateLayer,
+} from "./inheritance";
 import {
 	getInstructionWithFrontmatter,
 	InstructionCategory,
@@ -20,10 +36,19 @@ import {
 	readSubagentsMapping,
 	readToolingInstructionsMapping,
 } from "./instructions";
+import { copyTemplateLayer, readTemplateMergeStrategies } from "./merge";
 import { resolveTemplatesDir } from "./templates";
+import type { TemplateVariableValues } from "./variables";
+
+/** Directory name for mustache partials in each template layer. */
+export const PARTIALS_DIR_NAME = "partials";
 
 /** Basenames to remove from generated projects (template-only sources). */
-const DEFAULT_FILES_TO_REMOVE_AFTER_COPY = ["instructions", "yehle.yaml"];
+export const DEFAULT_FILES_TO_REMOVE_AFTER_COPY = [
+	"instructions",
+	"yehle.yaml",
+	PARTIALS_DIR_NAME,
+];
 
 export type WriteTemplateFilesOptions = {
 	lang: string;
@@ -31,6 +56,8 @@ export type WriteTemplateFilesOptions = {
 	template: string;
 	filesToRemoveAfterCopy?: string[];
 	license?: { public: boolean; authorName?: string };
+	/** Selected template features; files owned by unselected features are not written. */
+	features?: TemplateFeatureSelection;
 };
 
 export type ApplyTemplateModificationsOptions = {
@@ -38,7 +65,10 @@ export type ApplyTemplateModificationsOptions = {
 	metadata: Record<string, unknown>;
 	isPublic: boolean;
 	publicOnlyFiles: string[];
-	stripJsonKeys?: Array<{ file: string; key: string }>;
+	/** Mustache partials by name, available to every rendered file as {{> name}}. */
+	partials?: Record<string, string>;
+	/** Fragments deep-merged into JSON files after rendering (e.g. package.json fragments of selected features). */
+	mergeJson?: Array<{ file: string; fragments: Record<string, unknown>[] }>;
 };
 
 export type WriteInstructionFn = (
@@ -55,7 +85,7 @@ export type AddProjectInstructionsContext = {
 	projectSpec: string;
 	template: string;
 	includeInstructions?: boolean;
-	instructionsIdeFormat?: string;
+	instructionsIdeFormats?: string[];
 };
 
 /**
@@ -73,10 +103,119 @@ export async function createProjectDirectory(
 	return targetDir;
 }
 
+/**
+ * Resolve every template layer, in the order they are applied:
+ * shared → lang/shared → projectSpec/shared → extended templates (root first) → projectSpec/template.
+ * @param lang - Programming language.
+ * @param projectSpec - Project spec (e.g. "package").
+ * @param template - Template name.
+ * @returns Promise resolving to the layers, each named by its path under templates/ (e.g. "typescript/shared").
+ * @throws Error when a template cannot be resolved or its inheritance chain contains a cycle.
+ */
+export async function resolveTemplateLayers(
+	lang: string,
+	projectSpec: string,
+	template: string,
+): Promise<TemplateLayer[]> {
+	// Global shared: templates/shared
+	const globalShared = await resolveTemplatesDir("shared");
+	// Language shared: templates/<lang>/shared
+	const langShared = await resolveTemplatesDir(lang, "shared");
+	// Project-spec shared: templates/<lang>/<projectSpec>/shared
+	const itemShared = await resolveTemplatesDir(lang, `${projectSpec}/shared`);
+	// Extended templates, then the project-spec template: templates/<lang>/<projectSpec>/<template>
+	const chain = await resolveTemplateChain(lang, projectSpec, template);
+	return [
+		{ id: "shared", dir: globalShared },
+		{ id: `${lang}/shared`, dir: langShared },
+		{ id: `${lang}/${projectSpec}/shared`, dir: itemShared },
+		...chain,
+	];
+}
+
+/**
+ * Resolve the directories of every template layer, in the order they are applied (see resolveTemplateLayers).
+ * @param lang - Programming language.
+ * @param projectSpec - Project spec (e.g. "package").
+ * @param template - Template name.
+ * @returns Promise resolving to the absolute layer directories.
+ * @throws Error when a template cannot be resolved or its inheritance chain contains a cycle.
+ */
+export async function resolveTemplateLayerDirs(
+	lang: string,
+	projectSpec: string,
+	template: string,
+): Promise<string[]> {
+	const layers = await resolveTemplateLayers(lang, projectSpec, template);
+	return layers.map((layer) => layer.dir);
+}
+
+/**
+ * List the files a template layer contributes to generated projects.
+ * Template-only sources (see DEFAULT_FILES_TO_REMOVE_AFTER_COPY) and deletion markers are skipped.
+ * @param layerDir - Absolute path to the layer directory.
+ * @returns Promise resolving to paths relative to the layer directory, using forward slashes.
+ */
+export async function listTemplateLayerFiles(
+	layerDir: string,
+): Promise<string[]> {
+	const skipped = new Set(DEFAULT_FILES_TO_REMOVE_AFTER_COPY);
+	const files: string[] = [];
+	const walk = async (dir: string, prefix: string) => {
+		let entries: fs.Dirent[] = [];
+		try {
+			entries = await fs.promises.readdir(dir, { withFileTypes: true });
+		} catch {
+			return;
+		}
+		for (const entry of entries) {
+			if (
+				skipped.has(entry.name) ||
+				entry.name.endsWith(DELETION_MARKER_SUFFIX)
+			)
+				continue;
+			const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+			if (entry.isDirectory()) await walk(path.join(dir, entry.name), relative);
+			else if (entry.isFile()) files.push(relative);
+		}
+	};
+	await walk(layerDir, "");
+	return files;
+}
+
+/**
+ * Read the mustache partials of every template layer.
+ * A partial in a later layer replaces the partial with the same name from earlier layers.
+ * @param lang - Programming language.
+ * @param projectSpec - Project spec (e.g. "package").
+ * @param template - Template name.
+ * @returns Promise resolving to the partial contents by name (see readMustachePartials).
+ */
+export async function readTemplatePartials(
+	lang: string,
+	projectSpec: string,
+	template: string,
+): Promise<Record<string, string>> {
+	const partials: Record<string, string> = {};
+	for (const layerDir of await resolveTemplateLayerDirs(
+		lang,
+		projectSpec,
+		template,
+	))
+		Object.assign(
+			partials,
+			await readMustachePartials(path.join(layerDir, PARTIALS_DIR_NAME)),
+		);
+	return partials;
+}
+
 /**
  * Write template files into the target directory following the hierarchy:
- * shared → lang/shared → projectSpec/shared → projectSpec/template.
- * Optionally adds MIT LICENSE for public projects when authorName is set.
+ * shared → lang/shared → projectSpec/shared → extended templates (root first) → projectSpec/template.
+ * Files replace the same file from earlier layers unless a yehle.yaml declares a merge strategy for them,
+ * and deletion markers in each template remove inherited files.
+ * Removes the files of template features that were not selected, and
+ * optionally adds MIT LICENSE for public projects when authorName is set.
  *
  * @param targetDir - Project root directory to write into.
  * @param options - Configuration for which templates to copy and post-copy behaviour.
@@ -92,24 +231,25 @@ export async function writeTemplateFiles(
 		...(options.filesToRemoveAfterCopy ?? []),
 	];
 
-	// Global shared: templates/shared
-	const globalShared = await resolveTemplatesDir("shared");
-	await copyDirSafeAsync(globalShared, targetDir);
+	const layerDirs = await resolveTemplateLayerDirs(lang, projectSpec, template);
 
-	// Language shared: templates/<lang>/shared
-	const langShared = await resolveTemplatesDir(lang, "shared");
-	await copyDirSafeAsync(langShared, targetDir);
+	// Merge strategies declared by any layer apply to every layer that has the file
+	const strategies: Record<string, TemplateMergeStrategy> = {};
+	for (const layerDir of layerDirs)
+		Object.assign(strategies, await readTemplateMergeStrategies(layerDir));
 
-	// Project-spec shared: templates/<lang>/<projectSpec>/shared
-	const itemShared = await resolveTemplatesDir(lang, `${projectSpec}/shared`);
-	await copyDirSafeAsync(itemShared, targetDir);
+	for (const layerDir of layerDirs) {
+		await copyTemplateLayer(layerDir, targetDir, strategies);
+		await applyDeletionMarkers(targetDir);
+	}
+	const chosenTemplateDir = layerDirs[layerDirs.length - 1];
 
-	// Project-spec template: templates/<lang>/<projectSpec>/<template>
-	const chosenTemplateDir = await resolveTemplatesDir(
-		lang,
-		`${projectSpec}/${template}`,
+	const featureDefinitions = await readTemplateFeatures(chosenTemplateDir);
+	await removeUnselectedFeatureFiles(
+		targetDir,
+		featureDefinitions,
+		options.features ?? {},
 	);
-	await copyDirSafeAsync(chosenTemplateDir, targetDir);
 
 	await removeFilesByBasename(targetDir, filesToRemove);
 
@@ -123,8 +263,8 @@ export async function writeTemplateFiles(
 }
 
 /**
- * Apply template modifications: render mustache templates, remove public-only files when not public,
- * and optionally strip keys from JSON config files.
+ * Apply template modifications: render mustache templates (with the given partials), remove public-only files when not public,
+ * and optionally merge fragments into JSON config files.
  *
  * @param options - Configuration for modifications.
  * @returns Promise that resolves when modifications are complete.
@@ -132,19 +272,25 @@ export async function writeTemplateFiles(
 export async function applyTemplateModifications(
 	options: ApplyTemplateModificationsOptions,
 ): Promise<void> {
-	await renderMustacheTemplates(options.targetDir, options.metadata);
+	await renderMustacheTemplates(
+		options.targetDir,
+		options.metadata,
+		options.partials,
+	);
 
 	if (!options.isPublic && options.publicOnlyFiles.length > 0)
 		await removeFilesByBasename(options.targetDir, options.publicOnlyFiles);
 
-	for (const { file, key } of options.stripJsonKeys ?? []) {
-		await stripKeyFromJSONFile(path.join(options.targetDir, file), key);
+	for (const { file, fragments } of options.mergeJson ?? []) {
+		await mergeIntoJSONFile(path.join(options.targetDir, file), fragments);
 	}
 }
 
 /**
- * Add agent instructions to a project when includeInstructions is true and instructionsIdeFormat is set.
- * Applies in order: essential → language → project-spec → template → mapped tooling → mapped skills.
+ * Add agent instructions to a project when includeInstructions is true and instructionsIdeFormats is not empty.
+ * Applies in order: essential → language → project-spec → template → mapped tooling → mapped skills → mapped subagents.
+ * Each instruction is fetched once and written for every IDE format.
+ * Template instructions and mappings are merged across the templates the template extends (base entries first).
  * Generic across project types; projectSpec and template determine which instructions are selected.
  *
  * @param targetDir - Absolute path to the project root directory.
@@ -157,9 +303,26 @@ export async function addProjectInstructions(
 	ctx: AddProjectInstructionsContext,
 	writeInstruction: WriteInstructionFn,
 ): Promise<void> {
-	if (!ctx.includeInstructions || !ctx.instructionsIdeFormat) return;
+	if (!ctx.includeInstructions || !ctx.instructionsIdeFormats?.length) return;
 
-	const ideFormat = ctx.instructionsIdeFormat;
+	const ideFormats = ctx.instructionsIdeFormats;
+	/** Write one instruction for every IDE format. */
+	const writeForEachFormat = async (
+		name: string,
+		content: string,
+		category: InstructionCategory,
+		frontmatter: RuleFrontmatter,
+	): Promise<void> => {
+		for (const ideFormat of ideFormats)
+			await writeInstruction(
+				targetDir,
+				name,
+				content,
+				ideFormat,
+				category,
+				frontmatter,
+			);
+	};
 	const instructionContext: InstructionContext = {
 		lang: ctx.lang,
 		projectSpec: ctx.projectSpec,
@@ -175,11 +338,9 @@ export async function addProjectInstructions(
 			InstructionCategory.ESSENTIAL,
 			name,
 		);
-		await writeInstruction(
-			targetDir,
+		await writeForEachFormat(
 			name,
 			content,
-			ideFormat,
 			InstructionCategory.ESSENTIAL,
 			frontmatter,
 		);
@@ -196,11 +357,9 @@ export async function addProjectInstructions(
 			name,
 			{ lang: ctx.lang },
 		);
-		await writeInstruction(
-			targetDir,
+		await writeForEachFormat(
 			name,
 			content,
-			ideFormat,
 			InstructionCategory.LANGUAGE,
 			frontmatter,
 		);
@@ -220,87 +379,94 @@ export async function addProjectInstructions(
 			name,
 			instructionContext,
 		);
-		await writeInstruction(
-			targetDir,
+		await writeForEachFormat(
 			name,
 			content,
-			ideFormat,
 			InstructionCategory.PROJECT_SPEC,
 			frontmatter,
 		);
 	}
 
-	// Template instructions
-	const templateNames = await listAvailableInstructions(
-		InstructionCategory.TEMPLATE,
-		instructionContext,
-	);
-	const templateDir = await resolveTemplatesDir(
+	const chain = await resolveTemplateChain(
 		ctx.lang,
-		`${ctx.projectSpec}/${ctx.template}`,
+		ctx.projectSpec,
+		ctx.template,
 	);
-	for (const name of templateNames) {
+	/** Read a yehle.yaml mapping from every template of the chain and merge the lists. */
+	const readInheritedMapping = async (
+		read: (dir: string) => Promise<string[]>,
+	): Promise<string[]> => {
+		const lists: string[][] = [];
+		for (const layer of chain) lists.push(await read(layer.dir));
+		return mergeInheritedLists(lists);
+	};
+
+	// Template instructions of every template of the chain; a template's own instruction replaces an inherited one with the same name
+	const templateInstructions = new Map<string, InstructionContext>();
+	for (const layer of chain) {
+		const layerContext = parseTemplateReference(layer.id);
+		for (const name of await listAvailableInstructions(
+			InstructionCategory.TEMPLATE,
+			layerContext,
+		))
+			templateInstructions.set(name, layerContext);
+	}
+	for (const [name, layerContext] of templateInstructions) {
 		const { content, frontmatter } = await getInstructionWithFrontmatter(
 			InstructionCategory.TEMPLATE,
 			name,
-			instructionContext,
+			layerContext,
 		);
-		await writeInstruction(
-			targetDir,
+		await writeForEachFormat(
 			name,
 			content,
-			ideFormat,
 			InstructionCategory.TEMPLATE,
 			frontmatter,
 		);
 	}
 
 	// Tooling instructions from yehle.yaml
-	const toolingNames = await readToolingInstructionsMapping(templateDir);
+	const toolingNames = await readInheritedMapping(
+		readToolingInstructionsMapping,
+	);
 	for (const name of toolingNames) {
 		const { content, frontmatter } = await getInstructionWithFrontmatter(
 			InstructionCategory.TOOLING,
 			name,
 		);
-		await writeInstruction(
-			targetDir,
+		await writeForEachFormat(
 			name,
 			content,
-			ideFormat,
 			InstructionCategory.TOOLING,
 			frontmatter,
 		);
 	}
 
 	// Skills instructions from yehle.yaml
-	const skillNames = await readSkillsMapping(templateDir);
+	const skillNames = await readInheritedMapping(readSkillsMapping);
 	for (const name of skillNames) {
 		const { content, frontmatter } = await getInstructionWithFrontmatter(
 			InstructionCategory.SKILLS,
 			name,
 		);
-		await writeInstruction(
-			targetDir,
+		await writeForEachFormat(
 			name,
 			content,
-			ideFormat,
 			InstructionCategory.SKILLS,
 			frontmatter,
 		);
 	}
 
 	// Subagents from yehle.yaml
-	const subagentNames = await readSubagentsMapping(templateDir);
+	const subagentNames = await readInheritedMapping(readSubagentsMapping);
 	for (const name of subagentNames) {
 		const { content, frontmatter } = await getInstructionWithFrontmatter(
 			InstructionCategory.SUBAGENTS,
 			name,
 		);
-		await writeInstruction(
-			targetDir,
+		await writeForEachFormat(
 			name,
 			content,
-			ideFormat,
 			InstructionCategory.SUBAGENTS,
 			frontmatter,
 		);
@@ -347,12 +513,15 @@ export async function getRequiredGithubSecrets(
 
 /**
  * Build template metadata for mustache rendering.
- * Includes packageManagerVersion, templateHasPlayground (when template has playground subdir), and custom extras.
+ * Includes packageManagerVersion, templateHasPlayground (when the template or a template it extends has a playground subdir that is not left out with its feature),
+ * feature.<name> booleans for the template's features, template variables, and custom extras.
  *
  * @param lang - Programming language.
  * @param templatePath - Path segment for the template (e.g. package/basic).
  * @param packageManagerVersion - Version string (e.g. "pnpm@9.0.0").
  * @param extras - Additional keys to merge into the metadata.
+ * @param variables - Answers to the template's variables, exposed as top-level keys (extras take precedence).
+ * @param features - Selected template features; features missing from the selection use their default.
  * @returns Promise resolving to the merged metadata object.
  */
 export async function buildTemplateMetadata(
@@ -360,14 +529,34 @@ export async function buildTemplateMetadata(
 	templatePath: string,
 	packageManagerVersion: string,
 	extras: Record<string, unknown>,
+	variables: TemplateVariableValues = {},
+	features: TemplateFeatureSelection = {},
 ): Promise<Record<string, unknown>> {
 	const chosenTemplateDir = await resolveTemplatesDir(lang, templatePath);
-	const hasPlayground = await isDirAsync(
-		path.join(chosenTemplateDir, "playground"),
+	const featureDefinitions = await readTemplateFeatures(chosenTemplateDir);
+	const [projectSpec, template] = templatePath.split("/");
+	const chain = await resolveTemplateChain(lang, projectSpec, template);
+	let playgroundInChain = false;
+	for (const layer of chain) {
+		if (await isDirAsync(path.join(layer.dir, "playground")))
+			playgroundInChain = true;
+	}
+	const hasPlayground =
+		playgroundInChain &&
+		!getUnselectedFeatureFiles(featureDefinitions, features).includes(
+			"playground",
+		);
+	const feature = Object.fromEntries(
+		Object.entries(featureDefinitions).map(([name, definition]) => [
+			name,
+			features[name] ?? isFeatureSelectedByDefault(definition),
+		]),
 	);
 	return {
 		packageManagerVersion,
 		templateHasPlayground: hasPlayground,
+		feature,
+		...variables,
 		...extras,
 	};
 }
@@ -1,20 +1,6 @@
-import path from "node:path";
 import type { Language } from "./constants";
-import {
-	DEFAULT_GITHUB_OWNER,
-	DEFAULT_GITHUB_REPO,
-	IS_LOCAL_MODE,
-} from "./constants";
-import { isDirAsync } from "./fs";
-import {
-	getLocalRoot,
-	listLocalChildDirs,
-	resolveLocalTemplatesSubpath,
-} from "./registry.local";
-import {
-	listRemoteChildDirsViaAPI,
-	resolveRemoteSubpath,
-} from "./registry.remote";
+import { getTemplateRegistry } from "./registry";
+import { setRegistrySource } from "./registry.source";
 
 /** Directory names to exclude when listing template/language children. */
 export const NON_TEMPLATE_DIR_NAMES = new Set(
@@ -22,95 +8,60 @@ export const NON_TEMPLATE_DIR_NAMES = new Set(
 );
 
 /**
- * List language directory names (e.g. "typescript") by scanning templates/.
- * Excludes shared and instructions (see NON_TEMPLATE_DIR_NAMES). Used by standalone instructions flow to discover languages.
+ * Resolve the commit the active registry currently points at and pin the registry to it,
+ * so every later listing and download in this run reads the same snapshot.
+ * Local registries are left untouched; their checked-out HEAD is reported instead.
+ * @returns Promise resolving to the commit SHA, or undefined when it cannot be determined (e.g. a local directory outside git).
+ */
+export async function pinRegistryToCommit(): Promise<string | undefined> {
+	const registry = getTemplateRegistry();
+	const commit = await registry.resolveCommit();
+	if (commit && !registry.isLocal)
+		setRegistrySource({ ...registry.source, ref: commit });
+	return commit;
+}
+
+/**
+ * List language directory names (e.g. "typescript") by scanning templates/ in the active registry.
+ * Excludes shared and instructions (see NON_TEMPLATE_DIR_NAMES). Used to discover languages for both package and instructions flows.
  * @returns Promise resolving to sorted array of language names; empty if templates root not found.
  */
 export async function listLanguageNames(): Promise<string[]> {
-	const root = await getLocalRoot("templates");
-	if (!root) return [];
-	const names = await listLocalChildDirs(root, NON_TEMPLATE_DIR_NAMES);
+	const names = await getTemplateRegistry().listDirs(
+		"templates",
+		NON_TEMPLATE_DIR_NAMES,
+	);
 	return names.sort((a, b) => a.localeCompare(b));
 }
 
 /**
- * List project-spec directory names for a language (e.g. "package") by scanning templates/<lang>/.
+ * List project-spec directory names for a language (e.g. "package") by scanning templates/<lang>/ in the active registry.
  * Excludes shared and instructions (see NON_TEMPLATE_DIR_NAMES). Used by standalone instructions flow to discover project-specs.
  * @param lang - Language key (e.g. typescript).
  * @returns Promise resolving to sorted array of project-spec names; empty if lang dir not found.
  */
 export async function listProjectSpecNames(lang: string): Promise<string[]> {
-	const root = await getLocalRoot("templates");
-	if (!root) return [];
-	const langDir = path.join(root, lang);
-	if (!(await isDirAsync(langDir))) return [];
-	const names = await listLocalChildDirs(langDir, NON_TEMPLATE_DIR_NAMES);
+	const names = await getTemplateRegistry().listDirs(
+		`templates/${lang}`,
+		NON_TEMPLATE_DIR_NAMES,
+	);
 	return names.sort((a, b) => a.localeCompare(b));
 }
 
-/**
- * Attempt to normalize the downloaded directory to the expected subtree.
- * @param downloadedDir - The path to the directory returned by giget.
- * @param language - The programming language for the templates (used to construct candidate paths).
- * @param resource - Optional resource within the language (e.g. "package").
- * @returns The normalized directory path.
- */
-async function normalizeDownloadedDir(
-	downloadedDir: string,
-	language: string,
-	resource?: string,
-): Promise<string> {
-	const candidate = resource
-		? path.join(downloadedDir, "templates", language, resource)
-		: path.join(downloadedDir, "templates", language);
-
-	if (await isDirAsync(candidate)) return candidate;
-	return downloadedDir;
-}
-
 /**
  * Resolve the on-disk directory that contains templates for a given language and resource.
- * Local mode uses ./templates, remote mode downloads from GitHub to a temp dir.
+ * Local registries are read in place; remote registries are downloaded (through the cache).
  * @param language - The programming language for the templates.
  * @param resource - Optional resource within the language (e.g. "package").
  * @returns Promise resolving to the absolute path of the templates directory.
- * @throws Error when the path is not found (local) or download fails (remote).
+ * @throws Error when the path is not found or the download fails.
  */
 export async function resolveTemplatesDir(
 	language: string,
 	resource?: string,
 ): Promise<string> {
 	const subpath = ["templates", language, resource].filter(Boolean).join("/");
-
-	// Local mode
-	if (IS_LOCAL_MODE) {
-		const localDir = await resolveLocalTemplatesSubpath(subpath);
-		if (localDir && (await isDirAsync(localDir))) return localDir;
-
-		const root = await getLocalRoot("templates");
-		if (!root) throw new Error(`No local templates root found.`);
-
-		const resourcePart = resource ? ` and resource "${resource}"` : "";
-		throw new Error(
-			`Local templates not found at ${root} for language "${language}"${resourcePart}.`,
-		);
-	}
-
-	// Remote mode
-	const remoteDir = await resolveRemoteSubpath(
-		subpath,
-		"yehle-templates-",
-		async (dir) => {
-			const normalized = await normalizeDownloadedDir(dir, language, resource);
-			if (await isDirAsync(normalized)) return normalized;
-
-			const resourcePart = resource ? ` and resource "${resource}"` : "";
-			throw new Error(
-				`No remote templates found for language "${language}"${resourcePart} in ${DEFAULT_GITHUB_OWNER}/${DEFAULT_GITHUB_REPO}.`,
-			);
-		},
-	);
-	return remoteDir;
+	return getTemplateRegistry().materialize(subpath, "yehle-templates-");
 }
 
 /**
@@ -118,25 +69,12 @@ export async function resolveTemplatesDir(
  * @param language - The programming language for the templates.
  * @param resource - The resource type (e.g. "package").
  * @returns Promise resolving to an array of available template names.
- * @throws Error when the GitHub API fails in remote mode.
+ * @throws Error when a remote registry cannot be listed.
  */
 export async function listAvailableTemplates(
 	language: Language,
 	resource: string,
 ): Promise<string[]> {
 	const subpath = ["templates", language, resource].filter(Boolean).join("/");
-
-	// Local mode
-	if (IS_LOCAL_MODE) {
-		const localDir = await resolveLocalTemplatesSubpath(subpath);
-		if (!localDir) return [];
-		return listLocalChildDirs(localDir, NON_TEMPLATE_DIR_NAMES);
-	}
-
-	// Remote mode
-	const apiNames = await listRemoteChildDirsViaAPI(
-		subpath,
-		NON_TEMPLATE_DIR_NAMES,
-	);
-	return apiNames;
+	return getTemplateRegistry().listDirs(subpath, NON_TEMPLATE_DIR_NAMES);
 }
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { mergeThreeWay } from "./three-way-merge";
+
+describe("core/three-way-merge", () => {
+	describe("mergeThreeWay", () => {
+		it("should apply changes made by either side against the base", () => {
+			const base = "a\nb\nc\nd\n";
+			const current = "a\nB\nc\nd\n";
+			const incoming = "a\nb\nc\nD\ne\n";
+
+			expect(mergeThreeWay(base, current, incoming)).toEqual({
+				content: "a\nB\nc\nD\ne\n",
+				conflicts: 0,
+			});
+		});
+
+		it("should take identical changes from both sides once", () => {
+			expect(mergeThreeWay("a\nb\n", "a\nx\n", "a\nx\n")).toEqual({
+				content: "a\nx\n",
+				conflicts: 0,
+			});
+		});
+
+		it("should mark regions both sides changed differently", () => {
+			const result = mergeThreeWay(
+				"a\nb\nc\n",
+				"a\nmine\nc\n",
+				"a\ntheirs\nc\n",
+				{
+					current: "ours",
+					incoming: "template",
+				},
+			);
+
+			expect(result).toEqual({
+				content:
+					"a\n<<<<<<< ours\nmine\n=======\ntheirs\n>>>>>>> template\nc\n",
+				conflicts: 1,
+			});
+		});
+
+		it("should conflict when both sides insert different lines at the same place", () => {
+			const result = mergeThreeWay("a\nb\n", "a\nx\nb\n", "a\ny\nb\n");
+
+			expect(result.conflicts).toBe(1);
+			expect(result.content).toBe(
+				"a\n<<<<<<< current\nx\n=======\ny\n>>>>>>> yehle\nb\n",
+			);
+		});
+
+		it("should keep conflict markers on their own line when a side has no trailing newline", () => {
+			const result = mergeThreeWay("a", "b", "c");
+
+			expect(result.content).toBe(
+				"<<<<<<< current\nb\n=======\nc\n>>>>>>> yehle\n",
+			);
+		});
+
+		it("should keep additions from both sides when there is no base", () => {
+			const current = "# Title\n\nMy notes\n";
+			const incoming = "# Title\n\nGenerated intro\n\n## Usage\n";
+
+			const result = mergeThreeWay(undefined, current, incoming);
+
+			expect(result.conflicts).toBe(1);
+			expect(result.content).toBe(
+				"# Title\n\n<<<<<<< current\nMy notes\n=======\nGenerated intro\n\n## Usage\n>>>>>>> yehle\n",
+			);
+		});
+
+		it("should append lines only the incoming side adds when there is no base", () => {
+			expect(
+				mergeThreeWay(undefined, "node_modules\n", "node_modules\ndist\n"),
+			).toEqual({ content: "node_modules\ndist\n", conflicts: 0 });
+		});
+	});
+});
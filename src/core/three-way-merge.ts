@@ -0,0 +1,153 @@
+import {
+	diffLines,
+	type LineHunk,
+	longestCommonSubsequence,
+	splitLines,
+} from "./diff";
+
+/** Labels written next to conflict markers. */
+export type MergeLabels = {
+	/** Label of the version already on disk (default: "current"). */
+	current?: string;
+	/** Label of the version being written (default: "yehle"). */
+	incoming?: string;
+};
+
+/** Result of a three-way merge. */
+export type MergeResult = {
+	/** Merged content, with conflict markers around the regions both sides changed differently. */
+	content: string;
+	/** Number of conflicting regions. */
+	conflicts: number;
+};
+
+/**
+ * Get a side's lines for a base region, given the side's hunks that overlap it.
+ * @param base - Base lines.
+ * @param side - Side lines.
+ * @param hunks - The side's hunks within the region (empty when the side left it unchanged).
+ * @param baseStart - Start of the region in the base.
+ * @param baseEnd - End of the region in the base.
+ * @returns The side's lines for the region.
+ */
+function sideRegion(
+	base: string[],
+	side: string[],
+	hunks: LineHunk[],
+	baseStart: number,
+	baseEnd: number,
+): string[] {
+	if (hunks.length === 0) return base.slice(baseStart, baseEnd);
+	const first = hunks[0];
+	const last = hunks[hunks.length - 1];
+	return side.slice(
+		first.newStart - (first.oldStart - baseStart),
+		last.newEnd + (baseEnd - last.oldEnd),
+	);
+}
+
+/**
+ * Ensure a block of lines ends with a line break, so a conflict marker after it starts on its own line.
+ * @param lines - Lines of the block.
+ * @returns The block as text.
+ */
+function toBlock(lines: string[]): string {
+	const text = lines.join("");
+	return text === "" || text.endsWith("\n") ? text : `${text}\n`;
+}
+
+/**
+ * Merge two versions of a file line by line against their common ancestor, like `git merge-file`.
+ * Changes made by only one side are applied; regions both sides changed differently are wrapped in conflict markers.
+ * @param base - Common ancestor; when undefined, the lines both versions share are used as the ancestor, so additions from either side are kept.
+ * @param current - Version on disk.
+ * @param incoming - Version being written.
+ * @param labels - Labels next to the conflict markers.
+ * @returns The merged content and the number of conflicts.
+ */
+export function mergeThreeWay(
+	base: string | undefined,
+	current: string,
+	incoming: string,
+	labels: MergeLabels = {},
+): MergeResult {
+	const currentLines = splitLines(current);
+	const incomingLines = splitLines(incoming);
+	const baseLines =
+		base === undefined
+			? longestCommonSubsequence(currentLines, incomingLines).map(
+					([i]) => currentLines[i],
+				)
+			: splitLines(base);
+
+	const currentHunks = diffLines(baseLines, currentLines).map((hunk) => ({
+		...hunk,
+		side: "current" as const,
+	}));
+	const incomingHunks = diffLines(baseLines, incomingLines).map((hunk) => ({
+		...hunk,
+		side: "incoming" as const,
+	}));
+	const hunks = [...currentHunks, ...incomingHunks].sort(
+		(a, b) => a.oldStart - b.oldStart || a.oldEnd - b.oldEnd,
+	);
+
+	const output: string[] = [];
+	let conflicts = 0;
+	let baseIndex = 0;
+	let h = 0;
+	while (h < hunks.length) {
+		// Group hunks whose base regions overlap or touch
+		const group = [hunks[h]];
+		let regionEnd = hunks[h].oldEnd;
+		h += 1;
+		while (
+			h < hunks.length &&
+			(hunks[h].oldStart < regionEnd ||
+				(hunks[h].oldStart === regionEnd &&
+					group.some((hunk) => hunk.oldStart === hunks[h].oldStart)))
+		) {
+			regionEnd = Math.max(regionEnd, hunks[h].oldEnd);
+			group.push(hunks[h]);
+			h += 1;
+		}
+		const regionStart = group[0].oldStart;
+
+		output.push(...baseLines.slice(baseIndex, regionStart));
+		baseIndex = regionEnd;
+
+		const currentPart = sideRegion(
+			baseLines,
+			currentLines,
+			group.filter((hunk) => hunk.side === "current"),
+			regionStart,
+			regionEnd,
+		);
+		const incomingPart = sideRegion(
+			baseLines,
+			incomingLines,
+			group.filter((hunk) => hunk.side === "incoming"),
+			regionStart,
+			regionEnd,
+		);
+
+		const sides = new Set(group.map((hunk) => hunk.side));
+		if (sides.size === 1)
+			output.push(...(sides.has("current") ? currentPart : incomingPart));
+		else if (currentPart.join("") === incomingPart.join(""))
+			output.push(...currentPart);
+		else {
+			conflicts += 1;
+			output.push(
+				`<<<<<<< ${labels.current ?? "current"}\n`,
+				toBlock(currentPart),
+				"=======\n",
+				toBlock(incomingPart),
+				`>>>>>>> ${labels.incoming ?? "yehle"}\n`,
+			);
+		}
+	}
+	output.push(...baseLines.slice(baseIndex));
+
+	return { content: output.join(""), conflicts };
+}
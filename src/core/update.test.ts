@@ -0,0 +1,213 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { hashFileContent } from "./manifest";
+import {
+	applyProjectUpdate,
+	formatProjectUpdatePatch,
+	planProjectUpdate,
+} from "./update";
+
+describe("core/update", () => {
+	let tmpDir: string;
+	let projectDir: string;
+	let baseDir: string;
+	let nextDir: string;
+
+	/**
+	 * Write a file under one of the test directories.
+	 * @param dir - Directory to write into.
+	 * @param relative - Path relative to the directory.
+	 * @param content - File content.
+	 */
+	function write(
+		dir: string,
+		relative: string,
+		content: string | Buffer,
+	): void {
+		const full = path.join(dir, relative);
+		fs.mkdirSync(path.dirname(full), { recursive: true });
+		fs.writeFileSync(full, content);
+	}
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "update-test-"));
+		projectDir = path.join(tmpDir, "project");
+		baseDir = path.join(tmpDir, "base");
+		nextDir = path.join(tmpDir, "next");
+		for (const dir of [projectDir, baseDir, nextDir])
+			fs.mkdirSync(dir, { recursive: true });
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("planProjectUpdate", () => {
+		it("should replace untouched files, add new ones and leave unchanged ones out", async () => {
+			write(baseDir, "same.txt", "same\n");
+			write(nextDir, "same.txt", "same\n");
+			write(projectDir, "same.txt", "edited\n");
+			write(baseDir, "untouched.txt", "v1\n");
+			write(nextDir, "untouched.txt", "v2\n");
+			write(projectDir, "untouched.txt", "v1\n");
+			write(nextDir, "src/new.ts", "export {};\n");
+
+			await expect(
+				planProjectUpdate({
+					projectDir,
+					baseDir,
+					nextDir,
+					recordedFiles: {
+						"same.txt": hashFileContent("same\n"),
+						"untouched.txt": hashFileContent("v1\n"),
+					},
+				}),
+			).resolves.toEqual([
+				{
+					path: "src/new.ts",
+					status: "added",
+					content: Buffer.from("export {};\n"),
+				},
+				{
+					path: "untouched.txt",
+					status: "updated",
+					content: Buffer.from("v2\n"),
+				},
+			]);
+		});
+
+		it("should merge files changed on both sides against the base", async () => {
+			write(baseDir, "a.txt", "1\n2\n3\n4\n5\n");
+			write(nextDir, "a.txt", "1\n2\n3\n4\nFIVE\n");
+			write(projectDir, "a.txt", "ONE\n2\n3\n4\n5\n");
+			write(baseDir, "b.txt", "x\n");
+			write(nextDir, "b.txt", "template\n");
+			write(projectDir, "b.txt", "mine\n");
+
+			const updates = await planProjectUpdate({
+				projectDir,
+				baseDir,
+				nextDir,
+				recordedFiles: {},
+				nextLabel: "template v2",
+			});
+
+			expect(updates.map(({ path, status }) => ({ path, status }))).toEqual([
+				{ path: "a.txt", status: "merged" },
+				{ path: "b.txt", status: "conflicted" },
+			]);
+			expect(updates[0].content?.toString()).toBe("ONE\n2\n3\n4\nFIVE\n");
+			expect(updates[1].content?.toString()).toBe(
+				"<<<<<<< current\nmine\n=======\ntemplate\n>>>>>>> template v2\n",
+			);
+		});
+
+		it("should delete removed files only when the project did not change them", async () => {
+			write(baseDir, "gone.txt", "old\n");
+			write(projectDir, "gone.txt", "old\n");
+			write(baseDir, "kept.txt", "old\n");
+			write(projectDir, "kept.txt", "changed\n");
+			write(baseDir, "removed.txt", "v1\n");
+			write(nextDir, "removed.txt", "v2\n");
+
+			await expect(
+				planProjectUpdate({ projectDir, baseDir, nextDir, recordedFiles: {} }),
+			).resolves.toEqual([
+				{ path: "gone.txt", status: "deleted" },
+				{
+					path: "kept.txt",
+					status: "skipped",
+					reason: "changed locally; the template no longer has it",
+				},
+				{ path: "removed.txt", status: "skipped", reason: "deleted locally" },
+			]);
+		});
+
+		it("should use the recorded hashes without a base and keep both binary versions", async () => {
+			write(nextDir, "a.txt", "v2\n");
+			write(projectDir, "a.txt", "v1\n");
+			write(nextDir, "logo.png", Buffer.from([0, 1, 2]));
+			write(projectDir, "logo.png", Buffer.from([0, 9, 9]));
+
+			await expect(
+				planProjectUpdate({
+					projectDir,
+					nextDir,
+					recordedFiles: {
+						"a.txt": hashFileContent("v1\n"),
+						"logo.png": hashFileContent("old"),
+					},
+				}),
+			).resolves.toEqual([
+				{ path: "a.txt", status: "updated", content: Buffer.from("v2\n") },
+				{
+					path: "logo.png",
+					status: "kept-both",
+					content: Buffer.from([0, 1, 2]),
+				},
+			]);
+		});
+	});
+
+	describe("applyProjectUpdate", () => {
+		it("should write, delete and keep both versions of files", async () => {
+			write(projectDir, "a.txt", "v1\n");
+			write(projectDir, "gone.txt", "old\n");
+			write(projectDir, "logo.png", "mine");
+
+			await applyProjectUpdate(projectDir, [
+				{ path: "a.txt", status: "updated", content: Buffer.from("v2\n") },
+				{ path: "src/new.ts", status: "added", content: Buffer.from("new\n") },
+				{ path: "gone.txt", status: "deleted" },
+				{
+					path: "logo.png",
+					status: "kept-both",
+					content: Buffer.from("theirs"),
+				},
+				{ path: "kept.txt", status: "skipped", reason: "deleted locally" },
+			]);
+
+			const read = (file: string) =>
+				fs.readFileSync(path.join(projectDir, file), "utf8");
+			expect(read("a.txt")).toBe("v2\n");
+			expect(read("src/new.ts")).toBe("new\n");
+			expect(fs.existsSync(path.join(projectDir, "gone.txt"))).toBe(false);
+			expect(read("logo.png")).toBe("mine");
+			expect(read("logo.png.yehle-new")).toBe("theirs");
+			expect(fs.existsSync(path.join(projectDir, "kept.txt"))).toBe(false);
+		});
+	});
+
+	describe("formatProjectUpdatePatch", () => {
+		it("should format the changes against the current files", async () => {
+			write(projectDir, "a.txt", "v1\n");
+			write(projectDir, "logo.png", Buffer.from([0, 1]));
+
+			await expect(
+				formatProjectUpdatePatch(projectDir, [
+					{ path: "a.txt", status: "updated", content: Buffer.from("v2\n") },
+					{
+						path: "logo.png",
+						status: "kept-both",
+						content: Buffer.from([0, 2]),
+					},
+					{ path: "kept.txt", status: "skipped", reason: "deleted locally" },
+				]),
+			).resolves.toBe(
+				[
+					"diff --git a/a.txt b/a.txt",
+					"--- a/a.txt",
+					"+++ b/a.txt",
+					"@@ -1,1 +1,1 @@",
+					"-v1",
+					"+v2",
+					"diff --git a/logo.png.yehle-new b/logo.png.yehle-new",
+					"Binary files /dev/null and b/logo.png.yehle-new differ",
+					"",
+				].join("\n"),
+			);
+		});
+	});
+});
@@ -0,0 +1,238 @@
+import fs from "node:fs";
+import path from "node:path";
+import { isBinaryContent, KEEP_BOTH_SUFFIX } from "./conflicts";
+import { formatUnifiedDiff } from "./diff";
+import { hashFileContent, hashProjectFiles } from "./manifest";
+import { mergeThreeWay } from "./three-way-merge";
+
+/** What an update does to a file of the project. */
+export type ProjectFileUpdateStatus =
+	| "added"
+	| "updated"
+	| "merged"
+	| "conflicted"
+	| "kept-both"
+	| "deleted"
+	| "skipped";
+
+/** A change an update makes (or declines to make) to one file of the project. */
+export type ProjectFileUpdate = {
+	/** Path relative to the project root, using forward slashes. */
+	path: string;
+	/** What happens to the file. */
+	status: ProjectFileUpdateStatus;
+	/** Content written to the file (or next to it with KEEP_BOTH_SUFFIX for "kept-both"); omitted for "deleted" and "skipped". */
+	content?: Buffer;
+	/** Why the template's change was not applied ("skipped" only). */
+	reason?: string;
+};
+
+/** Inputs of planProjectUpdate. */
+export type ProjectUpdateSources = {
+	/** Root of the project being updated. */
+	projectDir: string;
+	/** The template as originally generated, re-rendered; omitted when it can't be reproduced. */
+	baseDir?: string;
+	/** The template at the new ref, rendered with the same answers. */
+	nextDir: string;
+	/** Hashes of the files as originally generated, from the project manifest. */
+	recordedFiles: Record<string, string>;
+	/** Label of the new template version next to conflict markers (e.g. "template v2.0.0"). */
+	nextLabel?: string;
+};
+
+/**
+ * Read a file, if it exists.
+ * @param filePath - Absolute path to the file.
+ * @returns Promise resolving to the content, or undefined when the file does not exist.
+ */
+export async function readOptionalFile(
+	filePath: string,
+): Promise<Buffer | undefined> {
+	try {
+		return await fs.promises.readFile(filePath);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Check whether two optional file contents are the same (both missing counts as the same).
+ * @param a - First content.
+ * @param b - Second content.
+ * @returns True when both are missing or equal.
+ */
+function sameContent(a: Buffer | undefined, b: Buffer | undefined): boolean {
+	return a === undefined || b === undefined ? a === b : a.equals(b);
+}
+
+/**
+ * Work out how to bring a project up to date with a newer version of its template.
+ * A file the template changed is replaced when the project still has it as generated, three-way merged
+ * (against the originally generated version) when the project changed it too, and left alone when the project deleted it.
+ * Files the template removed are deleted unless the project changed them.
+ * Without a base, the recorded hashes tell untouched files apart and changed files are merged two-way.
+ * @param sources - The project, the original and new renders of its template and the recorded hashes.
+ * @returns Promise resolving to the changes, sorted by path; files the template did not change are left out.
+ */
+export async function planProjectUpdate(
+	sources: ProjectUpdateSources,
+): Promise<ProjectFileUpdate[]> {
+	const { projectDir, baseDir, nextDir, recordedFiles } = sources;
+	const baseHashes = baseDir ? await hashProjectFiles(baseDir) : {};
+	const nextHashes = await hashProjectFiles(nextDir);
+	const files = [
+		...new Set([
+			...Object.keys(recordedFiles),
+			...Object.keys(baseHashes),
+			...Object.keys(nextHashes),
+		]),
+	].sort();
+
+	const updates: ProjectFileUpdate[] = [];
+	for (const file of files) {
+		const base = baseDir
+			? await readOptionalFile(path.join(baseDir, file))
+			: undefined;
+		const next = await readOptionalFile(path.join(nextDir, file));
+		const recorded = recordedFiles[file];
+
+		const templateChanged = baseDir
+			? !sameContent(base, next)
+			: (next ? hashFileContent(next) : undefined) !== recorded;
+		if (!templateChanged) continue;
+
+		const current = await readOptionalFile(path.join(projectDir, file));
+		const wasGenerated = recorded !== undefined || base !== undefined;
+		const untouched =
+			current !== undefined &&
+			(hashFileContent(current) === recorded ||
+				(base !== undefined && current.equals(base)));
+
+		if (!next) {
+			if (current === undefined) continue;
+			updates.push(
+				untouched
+					? { path: file, status: "deleted" }
+					: {
+							path: file,
+							status: "skipped",
+							reason: "changed locally; the template no longer has it",
+						},
+			);
+		} else if (current === undefined)
+			updates.push(
+				wasGenerated
+					? { path: file, status: "skipped", reason: "deleted locally" }
+					: { path: file, status: "added", content: next },
+			);
+		else if (current.equals(next)) continue;
+		else if (untouched)
+			updates.push({ path: file, status: "updated", content: next });
+		else if (
+			isBinaryContent(current) ||
+			isBinaryContent(next) ||
+			(base !== undefined && isBinaryContent(base))
+		)
+			updates.push({ path: file, status: "kept-both", content: next });
+		else {
+			const result = mergeThreeWay(
+				base?.toString("utf8"),
+				current.toString("utf8"),
+				next.toString("utf8"),
+				{ incoming: sources.nextLabel ?? "template" },
+			);
+			updates.push({
+				path: file,
+				status: result.conflicts > 0 ? "conflicted" : "merged",
+				content: Buffer.from(result.content, "utf8"),
+			});
+		}
+	}
+	return updates;
+}
+
+/**
+ * Write planned changes into the project.
+ * @param projectDir - Root of the project being updated.
+ * @param updates - Changes from planProjectUpdate.
+ * @returns Promise that resolves when every change has been written.
+ */
+export async function applyProjectUpdate(
+	projectDir: string,
+	updates: ProjectFileUpdate[],
+): Promise<void> {
+	for (const update of updates) {
+		const filePath = path.join(projectDir, update.path);
+		if (update.status === "deleted")
+			await fs.promises.rm(filePath, { force: true });
+		else if (update.content) {
+			const target =
+				update.status === "kept-both"
+					? `${filePath}${KEEP_BOTH_SUFFIX}`
+					: filePath;
+			await fs.promises.mkdir(path.dirname(target), { recursive: true });
+			await fs.promises.writeFile(target, update.content);
+		}
+	}
+}
+
+/**
+ * Format the change of one file as a patch for `git apply`; binary files are only reported as differing.
+ * @param file - Path relative to the project root, using forward slashes.
+ * @param oldContent - Content before the change; undefined when the file is added.
+ * @param newContent - Content after the change; undefined when the file is deleted.
+ * @returns The patch, or an empty string when nothing changed.
+ */
+export function formatFilePatch(
+	file: string,
+	oldContent: Buffer | undefined,
+	newContent: Buffer | undefined,
+): string {
+	if (
+		(oldContent && isBinaryContent(oldContent)) ||
+		(newContent && isBinaryContent(newContent))
+	)
+		return sameContent(oldContent, newContent)
+			? ""
+			: `diff --git a/${file} b/${file}\nBinary files ${oldContent ? `a/${file}` : "/dev/null"} and ${newContent ? `b/${file}` : "/dev/null"} differ\n`;
+	return formatUnifiedDiff(
+		file,
+		oldContent?.toString("utf8"),
+		newContent?.toString("utf8"),
+	);
+}
+
+/**
+ * Format planned changes as a patch against the project's current files, for `git apply`.
+ * Conflicting files are included with their conflict markers.
+ * @param projectDir - Root of the project being updated.
+ * @param updates - Changes from planProjectUpdate.
+ * @returns Promise resolving to the patch; empty when nothing changes.
+ */
+export async function formatProjectUpdatePatch(
+	projectDir: string,
+	updates: ProjectFileUpdate[],
+): Promise<string> {
+	const parts: string[] = [];
+	for (const update of updates) {
+		if (update.status === "skipped") continue;
+		if (update.status === "kept-both")
+			parts.push(
+				formatFilePatch(
+					`${update.path}${KEEP_BOTH_SUFFIX}`,
+					undefined,
+					update.content,
+				),
+			);
+		else
+			parts.push(
+				formatFilePatch(
+					update.path,
+					await readOptionalFile(path.join(projectDir, update.path)),
+					update.content,
+				),
+			);
+	}
+	return parts.join("");
+}
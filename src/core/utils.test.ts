@@ -1,5 +1,13 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { capitalizeFirstLetter, sleep, toSlug, truncate } from "./utils";
+import {
+	capitalizeFirstLetter,
+	deepMerge,
+	formatBytes,
+	isPlainObject,
+	sleep,
+	toSlug,
+	truncate,
+} from "./utils";
 
 describe("core/utils", () => {
 	describe("capitalizeFirstLetter", () => {
@@ -136,4 +144,44 @@ describe("core/utils", () => {
 			expect(truncate(colored, 5)).toBe(colored);
 		});
 	});
+
+	describe("formatBytes", () => {
+		it("should keep bytes as integers", () => {
+			expect(formatBytes(0)).toBe("0 B");
+			expect(formatBytes(512)).toBe("512 B");
+		});
+
+		it("should scale to larger units with one decimal", () => {
+			expect(formatBytes(1536)).toBe("1.5 KB");
+			expect(formatBytes(5 * 1024 * 1024)).toBe("5.0 MB");
+			expect(formatBytes(3 * 1024 ** 4)).toBe("3072.0 GB");
+		});
+	});
+
+	describe("isPlainObject", () => {
+		it("should only accept plain objects", () => {
+			expect(isPlainObject({ a: 1 })).toBe(true);
+			expect(isPlainObject(Object.create(null))).toBe(true);
+			expect(isPlainObject([])).toBe(false);
+			expect(isPlainObject(null)).toBe(false);
+			expect(isPlainObject(new Date())).toBe(false);
+			expect(isPlainObject("a")).toBe(false);
+		});
+	});
+
+	describe("deepMerge", () => {
+		it("should merge nested objects and replace other values", () => {
+			const target = { a: { b: 1, c: [1] }, d: "x" };
+
+			const merged = deepMerge(target, { a: { c: [2], e: true }, d: "y" });
+
+			expect(merged).toEqual({ a: { b: 1, c: [2], e: true }, d: "y" });
+			expect(target).toEqual({ a: { b: 1, c: [1] }, d: "x" });
+		});
+
+		it("should replace objects with non-objects and vice versa", () => {
+			expect(deepMerge({ a: { b: 1 } }, { a: null })).toEqual({ a: null });
+			expect(deepMerge({ a: "x" }, { a: { b: 1 } })).toEqual({ a: { b: 1 } });
+		});
+	});
 });
@@ -71,3 +71,57 @@ export function truncate(s: string, max: number): string {
 export function escapeYamlDoubleQuoted(value: string): string {
 	return value.replaceAll("\\", "\\\\").replaceAll('"', String.raw`\"`);
 }
+
+/**
+ * Format a byte count for display (e.g. 512 B, 1.5 KB, 12.0 MB).
+ * @param bytes - Size in bytes.
+ * @returns Human readable size using 1024-based units.
+ */
+export function formatBytes(bytes: number): string {
+	const units = ["B", "KB", "MB", "GB"];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit += 1;
+	}
+	return unit === 0
+		? `${value} ${units[unit]}`
+		: `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Whether a value is a plain object (not null, an array or a class instance such as Date).
+ * @param value - Value to check.
+ * @returns True for object literals and parsed JSON/YAML mappings.
+ */
+export function isPlainObject(
+	value: unknown,
+): value is Record<string, unknown> {
+	if (value === null || typeof value !== "object" || Array.isArray(value))
+		return false;
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Recursively merge a source object into a copy of a target object.
+ * Nested objects are merged key by key; any other source value (including arrays) replaces the target value.
+ * @param target - Base object.
+ * @param source - Object whose values take precedence.
+ * @returns A new merged object; neither input is modified.
+ */
+export function deepMerge(
+	target: Record<string, unknown>,
+	source: Record<string, unknown>,
+): Record<string, unknown> {
+	const merged: Record<string, unknown> = { ...target };
+	for (const [key, value] of Object.entries(source)) {
+		const existing = merged[key];
+		merged[key] =
+			isPlainObject(existing) && isPlainObject(value)
+				? deepMerge(existing, value)
+				: value;
+	}
+	return merged;
+}
@@ -0,0 +1,311 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { TemplateVariable } from "./constants";
+import {
+	coerceVariableValue,
+	getVariableDefault,
+	getVariableOptionValues,
+	isVariableActive,
+	omitSecretVariables,
+	parseVariableFlags,
+	readTemplateVariables,
+	validateVariableDefinition,
+	validateVariableValue,
+} from "./variables";
+
+describe("core/variables", () => {
+	const framework: TemplateVariable = {
+		type: "select",
+		options: ["react", { label: "Vue", value: "vue" }],
+	};
+
+	describe("parseVariableFlags", () => {
+		it("should parse single and repeated flags", () => {
+			expect(parseVariableFlags(undefined)).toEqual({});
+			expect(parseVariableFlags("framework=react")).toEqual({
+				framework: "react",
+			});
+			expect(parseVariableFlags(["a=1", "b=x=y", "a=2", "empty="])).toEqual({
+				a: "2",
+				b: "x=y",
+				empty: "",
+			});
+		});
+
+		it("should reject flags without a key", () => {
+			expect(() => parseVariableFlags("framework")).toThrow(
+				'Invalid --var "framework": expected key=value',
+			);
+			expect(() => parseVariableFlags("=react")).toThrow("expected key=value");
+		});
+	});
+
+	describe("getVariableOptionValues", () => {
+		it("should return option values for strings and mappings", () => {
+			expect(getVariableOptionValues(framework)).toEqual(["react", "vue"]);
+			expect(getVariableOptionValues({ type: "text" })).toEqual([]);
+		});
+	});
+
+	describe("validateVariableDefinition", () => {
+		it("should accept well-formed definitions", () => {
+			expect(() =>
+				validateVariableDefinition("framework", {
+					...framework,
+					default: "vue",
+					when: { public: true },
+				}),
+			).not.toThrow();
+			expect(() =>
+				validateVariableDefinition("scope", {
+					type: "text",
+					validate: { required: true, pattern: "^@[a-z-]+$" },
+				}),
+			).not.toThrow();
+		});
+
+		it.each([
+			["not a mapping", "text", "expected a mapping with a type"],
+			["unknown type", { type: "number" }, "type must be one of"],
+			["missing options", { type: "select" }, "non-empty options list"],
+			[
+				"bad option",
+				{ type: "multiselect", options: [{ label: "x" }] },
+				"options must be strings",
+			],
+			[
+				"bad default",
+				{ type: "confirm", default: "yes" },
+				"default must be a boolean",
+			],
+			[
+				"bad pattern",
+				{ type: "text", validate: { pattern: "(" } },
+				"not a valid regular expression",
+			],
+			["bad when", { type: "text", when: ["a"] }, "when must be"],
+			[
+				"bad secret",
+				{ type: "text", secret: "yes" },
+				"secret must be a boolean",
+			],
+		])("should reject %s", (_case, definition, message) => {
+			expect(() => validateVariableDefinition("v", definition)).toThrow(
+				message,
+			);
+		});
+	});
+
+	describe("readTemplateVariables", () => {
+		let templateDir: string;
+
+		beforeEach(() => {
+			templateDir = fs.mkdtempSync(path.join(os.tmpdir(), "variables-test-"));
+		});
+
+		afterEach(() => {
+			fs.rmSync(templateDir, { recursive: true, force: true });
+		});
+
+		it("should return no variables when yehle.yaml or the section is missing", async () => {
+			await expect(readTemplateVariables(templateDir)).resolves.toEqual({});
+
+			fs.writeFileSync(
+				path.join(templateDir, "yehle.yaml"),
+				"toolingInstructions: []\n",
+			);
+			await expect(readTemplateVariables(templateDir)).resolves.toEqual({});
+		});
+
+		it("should read variables in declaration order", async () => {
+			fs.writeFileSync(
+				path.join(templateDir, "yehle.yaml"),
+				[
+					"variables:",
+					"  useDocs:",
+					"    type: confirm",
+					"    default: true",
+					"  framework:",
+					"    type: select",
+					"    options: [react, vue]",
+					"",
+				].join("\n"),
+			);
+
+			const variables = await readTemplateVariables(templateDir);
+
+			expect(Object.keys(variables)).toEqual(["useDocs", "framework"]);
+			expect(variables.framework.options).toEqual(["react", "vue"]);
+		});
+
+		it("should throw on invalid YAML, sections and definitions", async () => {
+			const file = path.join(templateDir, "yehle.yaml");
+
+			fs.writeFileSync(file, "variables: [\n");
+			await expect(readTemplateVariables(templateDir)).rejects.toThrow(
+				"Failed to parse",
+			);
+
+			fs.writeFileSync(file, "variables:\n  - a\n");
+			await expect(readTemplateVariables(templateDir)).rejects.toThrow(
+				"Invalid variables",
+			);
+
+			fs.writeFileSync(file, "variables:\n  a:\n    type: date\n");
+			await expect(readTemplateVariables(templateDir)).rejects.toThrow(
+				'Invalid template variable "a"',
+			);
+		});
+	});
+
+	describe("isVariableActive", () => {
+		it("should treat variables without a condition as active", () => {
+			expect(isVariableActive({ type: "text" }, {})).toBe(true);
+		});
+
+		it("should evaluate bare and negated names by truthiness", () => {
+			const answers = { public: true, tags: [], name: "" };
+
+			expect(isVariableActive({ type: "text", when: "public" }, answers)).toBe(
+				true,
+			);
+			expect(isVariableActive({ type: "text", when: "!public" }, answers)).toBe(
+				false,
+			);
+			expect(isVariableActive({ type: "text", when: "tags" }, answers)).toBe(
+				false,
+			);
+			expect(isVariableActive({ type: "text", when: "!name" }, answers)).toBe(
+				true,
+			);
+		});
+
+		it("should require every mapped value to match", () => {
+			const when = { framework: ["react", "vue"], public: true };
+
+			expect(
+				isVariableActive(
+					{ type: "text", when },
+					{ framework: "vue", public: true },
+				),
+			).toBe(true);
+			expect(
+				isVariableActive(
+					{ type: "text", when },
+					{ framework: "vue", public: false },
+				),
+			).toBe(false);
+			expect(
+				isVariableActive(
+					{ type: "text", when: { tools: "lint" } },
+					{ tools: ["test", "lint"] },
+				),
+			).toBe(true);
+		});
+	});
+
+	describe("getVariableDefault", () => {
+		it("should use the declared default or an empty answer of the type", () => {
+			expect(getVariableDefault({ ...framework, default: "vue" })).toBe("vue");
+			expect(getVariableDefault(framework)).toBe("react");
+			expect(getVariableDefault({ type: "text" })).toBe("");
+			expect(getVariableDefault({ type: "confirm" })).toBe(false);
+			expect(
+				getVariableDefault({ type: "multiselect", options: ["a"] }),
+			).toEqual([]);
+		});
+	});
+
+	describe("validateVariableValue", () => {
+		it("should reject values outside the options", () => {
+			expect(() =>
+				validateVariableValue("framework", framework, "vue"),
+			).not.toThrow();
+			expect(() =>
+				validateVariableValue("framework", framework, "svelte"),
+			).toThrow('Invalid value "svelte" for "framework" (valid: react, vue).');
+			expect(() =>
+				validateVariableValue(
+					"tools",
+					{ type: "multiselect", options: ["lint"] },
+					["lint", "test"],
+				),
+			).toThrow('Invalid value "test" for "tools"');
+		});
+
+		it("should enforce required and pattern rules", () => {
+			const scope: TemplateVariable = {
+				type: "text",
+				validate: { required: true, pattern: "^@" },
+			};
+
+			expect(() =>
+				validateVariableValue("scope", scope, "@acme"),
+			).not.toThrow();
+			expect(() => validateVariableValue("scope", scope, " ")).toThrow(
+				'"scope" is required.',
+			);
+			expect(() => validateVariableValue("scope", scope, "acme")).toThrow(
+				"(must match ^@)",
+			);
+			expect(() =>
+				validateVariableValue(
+					"scope",
+					{ ...scope, validate: { ...scope.validate, message: "use @scope" } },
+					"acme",
+				),
+			).toThrow('Invalid value "acme" for "scope": use @scope');
+			expect(() =>
+				validateVariableValue(
+					"tools",
+					{
+						type: "multiselect",
+						options: ["lint"],
+						validate: { required: true },
+					},
+					[],
+				),
+			).toThrow('"tools" requires at least one selection.');
+		});
+	});
+
+	describe("coerceVariableValue", () => {
+		it("should convert confirm and multiselect values", () => {
+			expect(coerceVariableValue("docs", { type: "confirm" }, "Yes")).toBe(
+				true,
+			);
+			expect(coerceVariableValue("docs", { type: "confirm" }, "0")).toBe(false);
+			expect(
+				coerceVariableValue(
+					"tools",
+					{ type: "multiselect", options: ["lint", "test"] },
+					"lint, test,",
+				),
+			).toEqual(["lint", "test"]);
+			expect(coerceVariableValue("framework", framework, "vue")).toBe("vue");
+		});
+
+		it("should reject values that cannot be converted or are invalid", () => {
+			expect(() =>
+				coerceVariableValue("docs", { type: "confirm" }, "maybe"),
+			).toThrow('Invalid value "maybe" for "docs": expected true or false.');
+			expect(() =>
+				coerceVariableValue("framework", framework, "svelte"),
+			).toThrow("valid: react, vue");
+		});
+	});
+
+	describe("omitSecretVariables", () => {
+		it("should drop answers to variables marked secret", () => {
+			expect(
+				omitSecretVariables(
+					{ framework: "vue", npmToken: "s3cret", extra: true },
+					{ framework, npmToken: { type: "text", secret: true } },
+				),
+			).toEqual({ framework: "vue", extra: true });
+		});
+	});
+});
@@ -0,0 +1,336 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import {
+	TEMPLATE_VARIABLE_TYPES,
+	type TemplateVariable,
+	YEHLE_CONFIGURATION_FILENAME,
+} from "./constants";
+
+/** Value of an answered template variable. */
+export type TemplateVariableValue = string | boolean | string[];
+
+/** Answered template variables by name. */
+export type TemplateVariableValues = Record<string, TemplateVariableValue>;
+
+/** CLI flags that set template variables. */
+export type TemplateVariableFlags = {
+	/** Raw values passed via --var key=value, by variable name. */
+	vars?: Record<string, string>;
+};
+
+/**
+ * Parse repeated --var key=value flags.
+ * @param raw - Raw option value from cac (undefined, a single value or an array of values).
+ * @returns Values by variable name; later flags win over earlier ones.
+ * @throws Error when a flag is not of the form key=value.
+ */
+export function parseVariableFlags(raw: unknown): Record<string, string> {
+	const flags = raw === undefined ? [] : Array.isArray(raw) ? raw : [raw];
+	const vars: Record<string, string> = {};
+	for (const flag of flags) {
+		const text = String(flag);
+		const separator = text.indexOf("=");
+		const key = separator === -1 ? "" : text.slice(0, separator).trim();
+		if (!key)
+			throw new Error(
+				`Invalid --var "${text}": expected key=value (e.g. --var framework=react).`,
+			);
+		vars[key] = text.slice(separator + 1);
+	}
+	return vars;
+}
+
+/**
+ * Get the values of a select or multiselect variable's options.
+ * @param variable - Variable definition.
+ * @returns Option values in declaration order.
+ */
+export function getVariableOptionValues(variable: TemplateVariable): string[] {
+	return (variable.options ?? []).map((option) =>
+		typeof option === "string" ? option : option.value,
+	);
+}
+
+/**
+ * Check that a variable definition is well-formed.
+ * @param name - Variable name.
+ * @param variable - Raw definition from yehle.yaml.
+ * @returns Nothing; the definition is valid when no error is thrown.
+ * @throws Error describing the first problem found.
+ */
+export function validateVariableDefinition(
+	name: string,
+	variable: unknown,
+): asserts variable is TemplateVariable {
+	const fail = (reason: string): never => {
+		throw new Error(`Invalid template variable "${name}": ${reason}.`);
+	};
+
+	if (!variable || typeof variable !== "object" || Array.isArray(variable))
+		fail("expected a mapping with a type");
+	const def = variable as Record<string, unknown>;
+	if (!TEMPLATE_VARIABLE_TYPES.includes(def.type as never))
+		fail(`type must be one of ${TEMPLATE_VARIABLE_TYPES.join(", ")}`);
+	if (def.message !== undefined && typeof def.message !== "string")
+		fail("message must be a string");
+	if (def.secret !== undefined && typeof def.secret !== "boolean")
+		fail("secret must be a boolean");
+
+	const type = def.type as TemplateVariable["type"];
+	if (type === "select" || type === "multiselect") {
+		const options = def.options;
+		if (!Array.isArray(options) || options.length === 0)
+			fail(`${type} variables need a non-empty options list`);
+		for (const option of options as unknown[]) {
+			const ok =
+				typeof option === "string" ||
+				(option !== null &&
+					typeof option === "object" &&
+					typeof (option as { value?: unknown }).value === "string");
+			if (!ok) fail("options must be strings or { label, value } mappings");
+		}
+	}
+
+	if (def.default !== undefined) {
+		const expected =
+			type === "confirm"
+				? typeof def.default === "boolean"
+				: type === "multiselect"
+					? Array.isArray(def.default) &&
+						def.default.every((v) => typeof v === "string")
+					: typeof def.default === "string";
+		if (!expected)
+			fail(
+				`default must be ${type === "confirm" ? "a boolean" : type === "multiselect" ? "a list of strings" : "a string"}`,
+			);
+	}
+
+	const validate = def.validate;
+	if (validate !== undefined) {
+		if (!validate || typeof validate !== "object" || Array.isArray(validate))
+			fail("validate must be a mapping");
+		const { pattern } = validate as { pattern?: unknown };
+		if (pattern !== undefined) {
+			if (typeof pattern !== "string")
+				fail("validate.pattern must be a string");
+			try {
+				new RegExp(pattern as string);
+			} catch {
+				fail(`validate.pattern "${pattern}" is not a valid regular expression`);
+			}
+		}
+	}
+
+	const when = def.when;
+	if (
+		when !== undefined &&
+		typeof when !== "string" &&
+		(!when || typeof when !== "object" || Array.isArray(when))
+	)
+		fail("when must be a variable name or a mapping of names to values");
+}
+
+/**
+ * Read the variables declared in a template's yehle.yaml.
+ * @param templateDir - Absolute path to the template directory.
+ * @returns Promise resolving to the variable definitions by name, in declaration order; empty when there is no yehle.yaml or no variables: section.
+ * @throws Error when yehle.yaml cannot be parsed or a variable definition is invalid.
+ */
+export async function readTemplateVariables(
+	templateDir: string,
+): Promise<Record<string, TemplateVariable>> {
+	const filePath = path.join(templateDir, YEHLE_CONFIGURATION_FILENAME);
+
+	let raw: string;
+	try {
+		raw = await fs.promises.readFile(filePath, "utf8");
+	} catch {
+		// No yehle.yaml
+		return {};
+	}
+
+	let data: unknown;
+	try {
+		data = parseYaml(raw);
+	} catch (e) {
+		const msg = e instanceof Error ? e.message : String(e);
+		throw new Error(`Failed to parse ${filePath}: ${msg}`);
+	}
+
+	const variables = (data as { variables?: unknown } | null)?.variables;
+	if (variables === undefined || variables === null) return {};
+	if (typeof variables !== "object" || Array.isArray(variables))
+		throw new Error(
+			`Invalid variables in ${filePath}: expected a mapping of variable names to definitions.`,
+		);
+
+	for (const [name, variable] of Object.entries(variables))
+		validateVariableDefinition(name, variable);
+	return variables as Record<string, TemplateVariable>;
+}
+
+/**
+ * Whether a value counts as "set" for a bare when: condition.
+ * @param value - Answer value.
+ * @returns False for undefined, false, empty strings and empty lists.
+ */
+function isTruthyAnswer(value: unknown): boolean {
+	if (Array.isArray(value)) return value.length > 0;
+	return Boolean(value);
+}
+
+/**
+ * Whether a variable should be asked given the answers so far.
+ * @param variable - Variable definition.
+ * @param answers - Answers so far (built-in answers such as lang and public, plus earlier variables).
+ * @returns True when the variable has no when: condition or the condition holds.
+ */
+export function isVariableActive(
+	variable: TemplateVariable,
+	answers: Record<string, unknown>,
+): boolean {
+	const { when } = variable;
+	if (when === undefined) return true;
+
+	if (typeof when === "string") {
+		const negated = when.trim().startsWith("!");
+		const name = when.trim().replace(/^!/, "").trim();
+		return isTruthyAnswer(answers[name]) !== negated;
+	}
+
+	return Object.entries(when).every(([name, expected]) => {
+		const actual = answers[name];
+		const candidates = Array.isArray(expected) ? expected : [expected];
+		if (Array.isArray(actual))
+			return actual.some((value) => candidates.includes(value));
+		return candidates.includes(actual);
+	});
+}
+
+/**
+ * Get the answer used for a variable when it is neither passed nor prompted for.
+ * @param variable - Variable definition.
+ * @returns The declared default, or an empty answer of the variable's type (the first option for select).
+ */
+export function getVariableDefault(
+	variable: TemplateVariable,
+): TemplateVariableValue {
+	if (variable.default !== undefined) return variable.default;
+	switch (variable.type) {
+		case "confirm":
+			return false;
+		case "multiselect":
+			return [];
+		case "select":
+			return getVariableOptionValues(variable)[0] ?? "";
+		case "text":
+			return "";
+	}
+}
+
+/**
+ * Check an answer against a variable's options and validation rules.
+ * @param name - Variable name (for error messages).
+ * @param variable - Variable definition.
+ * @param value - Answer to check.
+ * @returns Nothing; the answer is valid when no error is thrown.
+ * @throws Error naming the variable and what is wrong with the answer.
+ */
+export function validateVariableValue(
+	name: string,
+	variable: TemplateVariable,
+	value: TemplateVariableValue,
+): void {
+	const options = getVariableOptionValues(variable);
+	const validate = variable.validate ?? {};
+
+	switch (variable.type) {
+		case "select":
+			if (!options.includes(String(value)))
+				throw new Error(
+					`Invalid value "${value}" for "${name}" (valid: ${options.join(", ")}).`,
+				);
+			return;
+		case "multiselect": {
+			const values = Array.isArray(value) ? value : [String(value)];
+			const unknown = values.filter((v) => !options.includes(v));
+			if (unknown.length > 0)
+				throw new Error(
+					`Invalid value "${unknown.join(", ")}" for "${name}" (valid: ${options.join(", ")}).`,
+				);
+			if (validate.required && values.length === 0)
+				throw new Error(`"${name}" requires at least one selection.`);
+			return;
+		}
+		case "text": {
+			const text = String(value);
+			if (validate.required && !text.trim())
+				throw new Error(`"${name}" is required.`);
+			if (validate.pattern && text && !new RegExp(validate.pattern).test(text))
+				throw new Error(
+					validate.message
+						? `Invalid value "${text}" for "${name}": ${validate.message}`
+						: `Invalid value "${text}" for "${name}" (must match ${validate.pattern}).`,
+				);
+			return;
+		}
+		case "confirm":
+			return;
+	}
+}
+
+/**
+ * Convert a --var value to the variable's type and validate it.
+ * Confirm variables accept true/false, yes/no, y/n and 1/0; multiselect variables take comma-separated values.
+ * @param name - Variable name.
+ * @param variable - Variable definition.
+ * @param raw - Raw value from --var.
+ * @returns The typed answer.
+ * @throws Error when the value cannot be converted or fails validation.
+ */
+export function coerceVariableValue(
+	name: string,
+	variable: TemplateVariable,
+	raw: string,
+): TemplateVariableValue {
+	let value: TemplateVariableValue;
+	switch (variable.type) {
+		case "confirm": {
+			const normalized = raw.trim().toLowerCase();
+			if (["true", "yes", "y", "1"].includes(normalized)) value = true;
+			else if (["false", "no", "n", "0"].includes(normalized)) value = false;
+			else
+				throw new Error(
+					`Invalid value "${raw}" for "${name}": expected true or false.`,
+				);
+			break;
+		}
+		case "multiselect":
+			value = raw
+				.split(",")
+				.map((v) => v.trim())
+				.filter(Boolean);
+			break;
+		default:
+			value = raw;
+	}
+
+	validateVariableValue(name, variable, value);
+	return value;
+}
+
+/**
+ * Drop the answers to secret variables, e.g. before recording answers in the project manifest.
+ * @param values - Answers by variable name.
+ * @param definitions - Variable definitions by name.
+ * @returns The answers whose variable is not marked secret.
+ */
+export function omitSecretVariables(
+	values: TemplateVariableValues,
+	definitions: Record<string, TemplateVariable>,
+): TemplateVariableValues {
+	return Object.fromEntries(
+		Object.entries(values).filter(([name]) => !definitions[name]?.secret),
+	);
+}
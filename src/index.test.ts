@@ -13,12 +13,13 @@ vi.mock("cac", () => ({
 
 vi.mock("./resources", () => ({
 	registerResourcesCli: vi.fn(),
+	rewriteNegatedFeatureFlags: vi.fn((argv: string[]) => argv),
 }));
 
 import cac from "cac";
 import run from "./index";
 
-import { registerResourcesCli } from "./resources";
+import { registerResourcesCli, rewriteNegatedFeatureFlags } from "./resources";
 
 describe("index", () => {
 	beforeEach(() => {
@@ -60,6 +61,25 @@ describe("index", () => {
 			expect(mockApp.outputHelp).not.toHaveBeenCalled();
 		});
 
+		it("should parse the arguments with --no-feature flags rewritten", () => {
+			const argv = ["node", "yehle", "package", "--no-feature", "stryker"];
+			const rewritten = [
+				"node",
+				"yehle",
+				"package",
+				"--without-feature",
+				"stryker",
+			];
+			vi.stubGlobal("process", { argv });
+			vi.mocked(rewriteNegatedFeatureFlags).mockReturnValueOnce(rewritten);
+			vi.mocked(mockApp.parse).mockImplementation(() => {});
+
+			run();
+
+			expect(rewriteNegatedFeatureFlags).toHaveBeenCalledWith(argv);
+			expect(mockApp.parse).toHaveBeenCalledWith(rewritten);
+		});
+
 		it("should handle parse errors by showing help for the command", () => {
 			const argv = ["node", "yehle", "package"];
 			vi.stubGlobal("process", { argv });
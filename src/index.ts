@@ -1,5 +1,5 @@
 import cac from "cac";
-import { registerResourcesCli } from "./resources";
+import { registerResourcesCli, rewriteNegatedFeatureFlags } from "./resources";
 
 export default function run(): void {
 	const app = cac("yehle");
@@ -18,14 +18,16 @@ export default function run(): void {
 		return;
 	}
 
+	const argv = rewriteNegatedFeatureFlags(process.argv);
+
 	try {
 		// Run the command
-		app.parse(process.argv);
+		app.parse(argv);
 	} catch {
 		// If the command failed (due to incorrect arguments, missing commands, etc)
 		// Attempt to show help for the command by appending --help to the original args
 		try {
-			app.parse([...process.argv, "--help"]);
+			app.parse([...argv, "--help"]);
 		} catch {
 			// Final fallback: show top-level help
 			app.outputHelp();
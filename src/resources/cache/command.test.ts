@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../cli/logger", () => ({
+	primaryText: vi.fn((s: string) => s),
+	defaultText: vi.fn((s: string) => s),
+}));
+
+vi.mock("chalk", () => ({
+	default: {
+		bold: vi.fn((s: string) => s),
+	},
+}));
+
+vi.mock("../../core/cache", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../core/cache")>();
+	return {
+		...actual,
+		clearCache: vi.fn(),
+		getCacheDir: vi.fn(() => "/cache/yehle"),
+		getDirSize: vi.fn(),
+		listCacheEntries: vi.fn(),
+		pruneCache: vi.fn(),
+	};
+});
+
+vi.mock("../../cli/tasks", () => ({
+	default: {
+		runWithTasks: vi.fn(
+			async (
+				_goal: string,
+				_task: unknown,
+				subtasks: { task: () => Promise<void> }[],
+			) => {
+				for (const subtask of subtasks) await subtask.task();
+			},
+		),
+	},
+}));
+
+/** Registry backend returned by getTemplateRegistry. */
+const mockRegistry = {
+	source: { kind: "github", owner: "acme", repo: "templates" } as {
+		kind: string;
+		path?: string;
+	},
+	isLocal: false,
+	materialize: vi.fn(),
+};
+
+vi.mock("../../core/registry", () => ({
+	getTemplateRegistry: () => mockRegistry,
+}));
+
+vi.mock("../../core/registry.source", () => ({
+	configureRegistrySource: vi.fn(),
+	formatRegistrySource: vi.fn((source: { kind: string; path?: string }) =>
+		source.kind === "local" ? source.path : "github:acme/templates",
+	),
+	setOfflineMode: vi.fn(),
+}));
+
+vi.mock("../../core/templates", () => ({
+	pinRegistryToCommit: vi.fn(),
+}));
+
+// Import after mocks
+import {
+	type CacheEntry,
+	clearCache,
+	DEFAULT_CACHE_MAX_AGE_DAYS,
+	getDirSize,
+	listCacheEntries,
+	pruneCache,
+} from "../../core/cache";
+import {
+	configureRegistrySource,
+	setOfflineMode,
+} from "../../core/registry.source";
+import { pinRegistryToCommit } from "../../core/templates";
+import manageCache from "./command";
+
+describe("resources/cache/command", () => {
+	let logSpy: ReturnType<typeof vi.spyOn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockRegistry.source = { kind: "github", owner: "acme", repo: "templates" };
+		mockRegistry.isLocal = false;
+		logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		logSpy.mockRestore();
+	});
+
+	/** All lines printed via console.log. */
+	function printed(): string[] {
+		return logSpy.mock.calls.map((call: unknown[]) => String(call[0] ?? ""));
+	}
+
+	describe("list", () => {
+		it("should report an empty cache", async () => {
+			vi.mocked(listCacheEntries).mockResolvedValue([]);
+
+			await manageCache("list");
+
+			expect(printed()).toContain("No cached templates in /cache/yehle");
+		});
+
+		it("should print one line per entry with size, age and state", async () => {
+			const entry: CacheEntry = {
+				kind: "subtree",
+				registry: "github:acme/templates#v1",
+				subpath: "templates/typescript",
+				fetchedAt: Date.now() - 3 * 60 * 60 * 1000,
+				key: "k1",
+				dataDir: "/cache/yehle/k1/data",
+			};
+			const pinned: CacheEntry = {
+				...entry,
+				kind: "listing",
+				subpath: "",
+				immutable: true,
+				fetchedAt: Date.now(),
+				key: "k2",
+				dataDir: "/cache/yehle/k2/data",
+			};
+			vi.mocked(listCacheEntries).mockResolvedValue([entry, pinned]);
+			vi.mocked(getDirSize).mockResolvedValue(2048);
+
+			await manageCache("list");
+
+			const lines = printed();
+			expect(lines).toContain("2 cached entries in /cache/yehle:");
+			expect(lines).toContain(
+				"  github:acme/templates#v1 templates/typescript subtree, 2.0 KB, 3h old, stale",
+			);
+			expect(lines).toContain(
+				"  github:acme/templates#v1 (repository) listing, 2.0 KB, 0m old, pinned",
+			);
+		});
+	});
+
+	describe("clear", () => {
+		it("should clear the cache and report the count", async () => {
+			vi.mocked(clearCache).mockResolvedValue(3);
+
+			await manageCache("clear");
+
+			expect(clearCache).toHaveBeenCalled();
+			expect(printed()).toContain("Removed 3 cached entries from /cache/yehle");
+		});
+	});
+
+	describe("prune", () => {
+		it("should prune with the default max age", async () => {
+			vi.mocked(pruneCache).mockResolvedValue(1);
+
+			await manageCache("prune");
+
+			expect(pruneCache).toHaveBeenCalledWith(
+				DEFAULT_CACHE_MAX_AGE_DAYS * 86_400_000,
+			);
+			expect(printed()).toContain("Pruned 1 cached entries from /cache/yehle");
+		});
+
+		it("should honour --max-age in days", async () => {
+			vi.mocked(pruneCache).mockResolvedValue(0);
+
+			await manageCache("prune", { maxAge: "7" });
+
+			expect(pruneCache).toHaveBeenCalledWith(7 * 86_400_000);
+		});
+
+		it("should reject invalid --max-age values", async () => {
+			await expect(manageCache("prune", { maxAge: "soon" })).rejects.toThrow(
+				'Invalid --max-age "soon"',
+			);
+			expect(pruneCache).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("warm", () => {
+		it("should pin the registry, download its templates and report the size", async () => {
+			vi.mocked(pinRegistryToCommit).mockResolvedValue("abc123");
+			mockRegistry.materialize.mockResolvedValue("/cache/yehle/k/data");
+			vi.mocked(getDirSize).mockResolvedValue(4096);
+
+			await manageCache("warm", {
+				registry: "github:acme/templates",
+				ref: "v1",
+			});
+
+			expect(configureRegistrySource).toHaveBeenCalledWith({
+				registry: "github:acme/templates",
+				ref: "v1",
+			});
+			expect(setOfflineMode).toHaveBeenCalledWith(false);
+			expect(pinRegistryToCommit).toHaveBeenCalled();
+			expect(mockRegistry.materialize).toHaveBeenCalledWith(
+				"templates",
+				"yehle-templates-",
+			);
+			expect(getDirSize).toHaveBeenCalledWith("/cache/yehle/k/data");
+			expect(printed()).toContain(
+				"Cached 4.0 KB of templates from github:acme/templates at commit abc123",
+			);
+		});
+
+		it("should refuse to warm a local registry", async () => {
+			mockRegistry.source = { kind: "local", path: "/work/templates" };
+			mockRegistry.isLocal = true;
+
+			await expect(manageCache("warm")).rejects.toThrow(
+				'Registry "/work/templates" is a local directory; there is nothing to cache.',
+			);
+			expect(mockRegistry.materialize).not.toHaveBeenCalled();
+		});
+	});
+
+	it("should reject unknown actions", async () => {
+		await expect(manageCache("purge")).rejects.toThrow(
+			'Unknown cache action "purge" (expected list, clear, prune, warm).',
+		);
+	});
+});
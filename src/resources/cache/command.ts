@@ -0,0 +1,190 @@
+import chalk from "chalk";
+import { defaultText, primaryText } from "../../cli/logger";
+import tasks from "../../cli/tasks";
+import {
+	type CacheEntry,
+	clearCache,
+	DEFAULT_CACHE_MAX_AGE_DAYS,
+	getCacheDir,
+	getDirSize,
+	isCacheEntryFresh,
+	listCacheEntries,
+	pruneCache,
+} from "../../core/cache";
+import { getTemplateRegistry } from "../../core/registry";
+import {
+	configureRegistrySource,
+	formatRegistrySource,
+	type RegistryOptions,
+	setOfflineMode,
+} from "../../core/registry.source";
+import { pinRegistryToCommit } from "../../core/templates";
+import { formatBytes } from "../../core/utils";
+
+/** Actions supported by `yehle cache <action>`. */
+export const CACHE_ACTIONS = ["list", "clear", "prune", "warm"] as const;
+
+export type CacheAction = (typeof CACHE_ACTIONS)[number];
+
+export type CacheCommandOptions = Pick<RegistryOptions, "registry" | "ref"> & {
+	/** For prune: remove entries not fetched or revalidated within this many days. */
+	maxAge?: number | string;
+};
+
+/**
+ * Format the time since an entry was fetched (e.g. "5m", "3h", "2d").
+ * @param fetchedAt - Fetch time in ms since epoch.
+ * @returns Short relative age.
+ */
+function formatAge(fetchedAt: number): string {
+	const minutes = Math.max(0, Math.floor((Date.now() - fetchedAt) / 60_000));
+	if (minutes < 60) return `${minutes}m`;
+	const hours = Math.floor(minutes / 60);
+	if (hours < 24) return `${hours}h`;
+	return `${Math.floor(hours / 24)}d`;
+}
+
+/**
+ * Describe a cache entry on one line: registry, subpath, kind, size, age and freshness.
+ * @param entry - Cache entry.
+ * @returns Promise resolving to the formatted line.
+ */
+async function describeCacheEntry(entry: CacheEntry): Promise<string> {
+	const size = formatBytes(await getDirSize(entry.dataDir));
+	const subpath = entry.subpath || "(repository)";
+	if (entry.kind === "commit")
+		return `  ${primaryText(entry.registry)} ${defaultText(`commit ${entry.validator ?? "unknown"}, ${formatAge(entry.fetchedAt)} old`)}`;
+
+	const state = entry.immutable
+		? "pinned"
+		: isCacheEntryFresh(entry)
+			? "fresh"
+			: "stale";
+	return `  ${primaryText(entry.registry)} ${subpath} ${defaultText(`${entry.kind}, ${size}, ${formatAge(entry.fetchedAt)} old, ${state}`)}`;
+}
+
+/**
+ * Parse the --max-age option of `cache prune`.
+ * @param maxAge - Raw option value (days).
+ * @returns Maximum age in milliseconds.
+ * @throws Error when the value is not a non-negative number.
+ */
+function parseMaxAgeDays(maxAge: CacheCommandOptions["maxAge"]): number {
+	if (maxAge === undefined) return DEFAULT_CACHE_MAX_AGE_DAYS * 86_400_000;
+	const days = Number(maxAge);
+	if (!Number.isFinite(days) || days < 0)
+		throw new Error(
+			`Invalid --max-age "${maxAge}": expected a number of days (e.g. 7).`,
+		);
+	return days * 86_400_000;
+}
+
+/**
+ * Download a registry's templates (including instructions) into the cache so later runs work offline.
+ * The registry is pinned to its current commit first, which is remembered for offline runs.
+ * @param options - Registry and ref to warm; defaults to the configured registry.
+ * @returns Promise that resolves when the templates are cached and a summary has been printed.
+ * @throws Error when the registry is a local directory or the download fails.
+ */
+async function warmCache(options: CacheCommandOptions): Promise<void> {
+	await configureRegistrySource({
+		registry: options.registry,
+		ref: options.ref,
+	});
+	const { source, isLocal } = getTemplateRegistry();
+	if (isLocal)
+		throw new Error(
+			`Registry "${formatRegistrySource(source)}" is a local directory; there is nothing to cache.`,
+		);
+
+	// Warming needs the network even when YEHLE_OFFLINE is set
+	setOfflineMode(false);
+
+	let commit: string | undefined;
+	let size = 0;
+	console.log();
+	await tasks.runWithTasks("Warming template cache", undefined, [
+		{
+			title: `Resolve ${formatRegistrySource(source)}`,
+			task: async () => {
+				commit = await pinRegistryToCommit();
+			},
+		},
+		{
+			title: "Download templates and instructions",
+			task: async () => {
+				const dir = await getTemplateRegistry().materialize(
+					"templates",
+					"yehle-templates-",
+				);
+				size = await getDirSize(dir);
+			},
+		},
+	]);
+
+	const at = commit ? ` at commit ${primaryText(commit)}` : "";
+	console.log();
+	console.log(
+		`Cached ${formatBytes(size)} of templates from ${primaryText(formatRegistrySource(source))}${at}`,
+	);
+	console.log();
+}
+
+/**
+ * Manage the persistent template cache: list entries, clear everything, prune old entries, or warm it for offline use.
+ * @param action - One of CACHE_ACTIONS.
+ * @param options - Options for the action (maxAge for prune; registry and ref for warm).
+ * @returns Promise that resolves when the action has completed and its summary has been printed.
+ * @throws Error when the action is unknown or its options are invalid.
+ */
+export async function manageCache(
+	action: string,
+	options: CacheCommandOptions = {},
+): Promise<void> {
+	switch (action) {
+		case "list": {
+			const entries = await listCacheEntries();
+			console.log();
+			if (entries.length === 0) {
+				console.log(`No cached templates in ${primaryText(getCacheDir())}`);
+				console.log();
+				return;
+			}
+
+			console.log(
+				chalk.bold(`${entries.length} cached entries in ${getCacheDir()}:`),
+			);
+			console.log();
+			for (const entry of entries) console.log(await describeCacheEntry(entry));
+			console.log();
+			return;
+		}
+		case "clear": {
+			const removed = await clearCache();
+			console.log();
+			console.log(
+				`Removed ${primaryText(String(removed))} cached entries from ${getCacheDir()}`,
+			);
+			console.log();
+			return;
+		}
+		case "prune": {
+			const removed = await pruneCache(parseMaxAgeDays(options.maxAge));
+			console.log();
+			console.log(
+				`Pruned ${primaryText(String(removed))} cached entries from ${getCacheDir()}`,
+			);
+			console.log();
+			return;
+		}
+		case "warm":
+			await warmCache(options);
+			return;
+		default:
+			throw new Error(
+				`Unknown cache action "${action}" (expected ${CACHE_ACTIONS.join(", ")}).`,
+			);
+	}
+}
+
+export default manageCache;
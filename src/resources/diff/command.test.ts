@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("chalk", () => ({
+	default: {
+		bold: vi.fn((text) => text),
+	},
+}));
+
+// Mock internal modules
+vi.mock("../../cli/logger", () => ({
+	default: {
+		intro: vi.fn(),
+		warn: vi.fn(),
+	},
+	defaultText: vi.fn((text) => text),
+	primaryText: vi.fn((text) => text),
+}));
+
+vi.mock("../../cli/tasks", () => ({
+	default: {
+		runWithTasks: vi.fn(
+			async (
+				_goal: string,
+				task?: () => Promise<void>,
+				subtasks?: { task?: () => Promise<void> }[],
+			) => {
+				if (task) await task();
+				for (const sub of subtasks ?? []) if (sub.task) await sub.task();
+			},
+		),
+	},
+}));
+
+vi.mock("../../core/conflicts", () => ({
+	createStagingDirectory: vi.fn(async () => "/tmp/yehle-staging-1"),
+	removeStagingDirectory: vi.fn(),
+}));
+
+vi.mock("../../core/drift", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../core/drift")>();
+	return {
+		...actual,
+		findProjectDrift: vi.fn(async () => []),
+		formatProjectDriftPatch: vi.fn(async () => "diff --git a/x b/x\n"),
+	};
+});
+
+vi.mock("../../core/manifest", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../core/manifest")>();
+	return {
+		...actual,
+		readProjectManifest: vi.fn(),
+	};
+});
+
+vi.mock("../../core/pkg-manager", () => ({
+	ensurePackageManager: vi.fn(async () => "10.0.0"),
+	LANGUAGE_PACKAGE_MANAGER: { typescript: "pnpm" },
+}));
+
+vi.mock("../../core/registry.source", async (importOriginal) => {
+	const actual =
+		await importOriginal<typeof import("../../core/registry.source")>();
+	return {
+		...actual,
+		configureRegistrySource: vi.fn(),
+	};
+});
+
+vi.mock("../../core/templates", () => ({
+	pinRegistryToCommit: vi.fn(),
+}));
+
+vi.mock("../update/setup", () => ({
+	configureRecordedRegistrySource: vi.fn(async () => true),
+	renderPackage: vi.fn(async (dir: string) => `${dir}/my-lib`),
+	resolveProjectFeatures: vi.fn(async () => ({})),
+	resolveProjectVariables: vi.fn(async () => ({ values: {}, definitions: {} })),
+	toPackageConfiguration: vi.fn(() => ({})),
+}));
+
+// Import after mocks
+import logger from "../../cli/logger";
+import { findProjectDrift } from "../../core/drift";
+import { type ProjectManifest, readProjectManifest } from "../../core/manifest";
+import { configureRegistrySource } from "../../core/registry.source";
+import { configureRecordedRegistrySource } from "../update/setup";
+import { diffProject } from "./command";
+
+describe("resources/diff/command", () => {
+	const manifest: ProjectManifest = {
+		version: 1,
+		generatedAt: "2026-01-01T00:00:00.000Z",
+		source: { registry: "github:acme/templates", ref: "v1.0.0", commit: "c1" },
+		template: { lang: "typescript", projectSpec: "package", name: "basic" },
+		answers: { name: "my-lib", public: false, variables: {}, features: {} },
+		files: { "README.md": "f00d" },
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+		vi.spyOn(process, "cwd").mockReturnValue("/project");
+		vi.mocked(readProjectManifest).mockResolvedValue(manifest);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should refuse projects without a manifest", async () => {
+		vi.mocked(readProjectManifest).mockResolvedValue(undefined);
+
+		await expect(diffProject()).rejects.toThrow(
+			"only projects generated by yehle can be compared with their template",
+		);
+	});
+
+	it("should compare the project with the template at the recorded commit", async () => {
+		await diffProject();
+
+		expect(configureRecordedRegistrySource).toHaveBeenCalledWith(
+			manifest,
+			undefined,
+		);
+		expect(configureRegistrySource).not.toHaveBeenCalled();
+		expect(findProjectDrift).toHaveBeenCalledWith({
+			projectDir: "/project",
+			templateDir: "/tmp/yehle-staging-1/template/my-lib",
+			recordedFiles: { "README.md": "f00d" },
+		});
+		expect(console.log).toHaveBeenCalledWith(
+			expect.stringContaining("No drift"),
+		);
+	});
+
+	it("should fall back to the recorded ref when the commit can't be reproduced", async () => {
+		vi.mocked(configureRecordedRegistrySource).mockResolvedValue(false);
+
+		await diffProject();
+
+		expect(logger.warn).toHaveBeenCalledWith(
+			expect.stringContaining("can't be reproduced"),
+		);
+		expect(configureRegistrySource).toHaveBeenCalledWith({
+			registry: "github:acme/templates",
+			ref: "v1.0.0",
+			offline: undefined,
+			templatesDir: undefined,
+		});
+	});
+
+	it("should compare with another ref when one is given", async () => {
+		await diffProject({ ref: "v2.0.0" });
+
+		expect(configureRecordedRegistrySource).not.toHaveBeenCalled();
+		expect(logger.warn).not.toHaveBeenCalled();
+		expect(configureRegistrySource).toHaveBeenCalledWith({
+			registry: "github:acme/templates",
+			ref: "v2.0.0",
+			offline: undefined,
+			templatesDir: undefined,
+		});
+	});
+
+	it("should print the diff and only fail with --check for files outside the allow-list", async () => {
+		vi.mocked(findProjectDrift).mockResolvedValue([
+			{ path: "README.md", status: "changed" },
+			{ path: "src/new.ts", status: "added" },
+		]);
+
+		await diffProject({ allow: ["README.md"] });
+		expect(process.stdout.write).toHaveBeenCalledWith("diff --git a/x b/x\n");
+
+		await expect(
+			diffProject({ check: true, allow: ["README.md"] }),
+		).rejects.toThrow(
+			"1 file has drifted from the template outside the allow-list: src/new.ts.",
+		);
+		await expect(
+			diffProject({ check: true, allow: ["README.md", "src/**"] }),
+		).resolves.toBeUndefined();
+	});
+});
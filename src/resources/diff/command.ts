@@ -0,0 +1,198 @@
+import path from "node:path";
+import chalk from "chalk";
+import logger, { defaultText, primaryText } from "../../cli/logger";
+import tasks from "../../cli/tasks";
+import {
+	createStagingDirectory,
+	removeStagingDirectory,
+} from "../../core/conflicts";
+import type { Language } from "../../core/constants";
+import {
+	findProjectDrift,
+	formatProjectDriftPatch,
+	matchesDriftPattern,
+	type ProjectDriftStatus,
+	type ProjectFileDrift,
+} from "../../core/drift";
+import {
+	getProjectManifestPath,
+	readProjectManifest,
+} from "../../core/manifest";
+import {
+	ensurePackageManager,
+	LANGUAGE_PACKAGE_MANAGER,
+} from "../../core/pkg-manager";
+import {
+	configureRegistrySource,
+	parseRegistrySource,
+	type RegistryOptions,
+} from "../../core/registry.source";
+import { pinRegistryToCommit } from "../../core/templates";
+import type { TemplateVariableFlags } from "../../core/variables";
+import {
+	configureRecordedRegistrySource,
+	renderPackage,
+	resolveProjectFeatures,
+	resolveProjectVariables,
+	toPackageConfiguration,
+} from "../update/setup";
+
+/** Options of `yehle diff`. */
+export type DiffProjectOptions = RegistryOptions &
+	TemplateVariableFlags & {
+		/** Fail when a file drifted that no allow-list pattern matches (--check). */
+		check?: boolean;
+		/** Patterns of files allowed to drift (--allow). */
+		allow?: string[];
+	};
+
+/** How each drift status is described in the summary, in the order they are listed. */
+const DRIFT_STATUS_LABELS: Record<ProjectDriftStatus, string> = {
+	added: "Template adds (missing from the project)",
+	removed: "Template removes (no longer in the template)",
+	changed: "Template changes",
+};
+
+/**
+ * Print which files drifted, marking the ones the allow-list covers.
+ * @param drift - Files that differ from the template.
+ * @param isAllowed - Whether a file is on the allow-list.
+ */
+function printDriftSummary(
+	drift: ProjectFileDrift[],
+	isAllowed: (file: string) => boolean,
+): void {
+	for (const status of Object.keys(
+		DRIFT_STATUS_LABELS,
+	) as ProjectDriftStatus[]) {
+		const files = drift.filter((entry) => entry.status === status);
+		if (files.length === 0) continue;
+		console.log(`  ${DRIFT_STATUS_LABELS[status]}:`);
+		for (const entry of files)
+			console.log(
+				`    - ${primaryText(entry.path)}${isAllowed(entry.path) ? defaultText(" (allowed)") : ""}`,
+			);
+	}
+}
+
+/**
+ * Show how the project in the current directory has drifted from its template.
+ * The template is rendered with the answers recorded in .yehle/manifest.json, at the recorded commit unless another
+ * source or ref is given, and compared with the project file by file; the differences are printed as a unified diff.
+ * @param options - Optional CLI-style options (registry, ref, offline, templatesDir, vars, check, allow).
+ * @returns Promise that resolves when the diff has been printed.
+ * @throws Error when the project has no manifest, template steps fail, or with check, when files outside the allow-list drifted.
+ */
+export async function diffProject(
+	options: DiffProjectOptions = {},
+): Promise<void> {
+	await logger.intro("comparing project with its template...");
+
+	const projectDir = process.cwd();
+	const manifest = await readProjectManifest(projectDir);
+	if (!manifest)
+		throw new Error(
+			`No project manifest found at ${getProjectManifestPath(projectDir)}; only projects generated by yehle can be compared with their template.`,
+		);
+	if (manifest.template.projectSpec !== "package")
+		throw new Error(
+			`Comparing ${manifest.template.projectSpec} projects is not supported.`,
+		);
+
+	const packageManagerVersion = await ensurePackageManager(
+		LANGUAGE_PACKAGE_MANAGER[manifest.template.lang as Language],
+	);
+
+	const otherVersion = Boolean(
+		options.registry || options.ref || options.templatesDir,
+	);
+	if (
+		otherVersion ||
+		!(await configureRecordedRegistrySource(manifest, options.offline))
+	) {
+		if (!otherVersion)
+			logger.warn(
+				"The template at the commit this project was generated from can't be reproduced, so the project is compared with the template's current version.",
+			);
+		const kind = parseRegistrySource(
+			options.registry ?? manifest.source.registry,
+		).kind;
+		await configureRegistrySource({
+			registry: options.templatesDir
+				? undefined
+				: (options.registry ?? manifest.source.registry),
+			ref:
+				options.ref ??
+				(otherVersion || kind === "local" || kind === "tarball"
+					? undefined
+					: manifest.source.ref),
+			offline: options.offline,
+			templatesDir: options.templatesDir,
+		});
+	}
+	const commit = await pinRegistryToCommit();
+	const { values } = await resolveProjectVariables(manifest, options.vars);
+	const features = await resolveProjectFeatures(manifest);
+	const config = toPackageConfiguration(manifest, values, features);
+
+	const stagingDir = await createStagingDirectory();
+	try {
+		let templateDir = "";
+		let drift: ProjectFileDrift[] = [];
+		await tasks.runWithTasks("Comparing with template", undefined, [
+			{
+				title: `Render "${manifest.template.name}" template at ${commit ?? "the latest version"}`,
+				task: async () => {
+					templateDir = await renderPackage(
+						path.join(stagingDir, "template"),
+						config,
+						packageManagerVersion,
+					);
+				},
+			},
+			{
+				title: "Compare files",
+				task: async () => {
+					drift = await findProjectDrift({
+						projectDir,
+						templateDir,
+						recordedFiles: manifest.files,
+					});
+				},
+			},
+		]);
+
+		console.log();
+		if (drift.length === 0) {
+			console.log(chalk.bold("No drift: the project matches its template."));
+			console.log();
+			return;
+		}
+
+		const allow = options.allow ?? [];
+		const isAllowed = (file: string) =>
+			allow.some((pattern) => matchesDriftPattern(file, pattern));
+
+		process.stdout.write(
+			await formatProjectDriftPatch(projectDir, templateDir, drift),
+		);
+		console.log();
+		console.log(
+			chalk.bold(
+				`${drift.length} ${drift.length === 1 ? "file differs" : "files differ"} from the template:`,
+			),
+		);
+		printDriftSummary(drift, isAllowed);
+		console.log();
+
+		const disallowed = drift.filter((entry) => !isAllowed(entry.path));
+		if (options.check && disallowed.length > 0)
+			throw new Error(
+				`${disallowed.length} ${disallowed.length === 1 ? "file has" : "files have"} drifted from the template outside the allow-list: ${disallowed.map((entry) => entry.path).join(", ")}.`,
+			);
+	} finally {
+		await removeStagingDirectory(stagingDir);
+	}
+}
+
+export default diffProject;
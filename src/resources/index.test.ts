@@ -8,6 +8,15 @@ vi.mock("../cli/logger", () => ({
 	},
 }));
 
+vi.mock("./cache/command", () => ({
+	default: vi.fn(),
+	CACHE_ACTIONS: ["list", "clear", "prune", "warm"],
+}));
+
+vi.mock("./diff/command", () => ({
+	default: vi.fn(),
+}));
+
 vi.mock("./instructions/command", () => ({
 	default: vi.fn(),
 }));
@@ -16,11 +25,24 @@ vi.mock("./package/command", () => ({
 	default: vi.fn(),
 }));
 
+vi.mock("./template/command", () => ({
+	default: vi.fn(),
+	TEMPLATE_ACTIONS: ["lint"],
+}));
+
+vi.mock("./update/command", () => ({
+	default: vi.fn(),
+}));
+
 import logger from "../cli/logger";
+import manageCache from "./cache/command";
+import diffProject from "./diff/command";
 // Import after mocks
-import { registerResourcesCli } from "./index";
+import { registerResourcesCli, rewriteNegatedFeatureFlags } from "./index";
 import generateInstructions from "./instructions/command";
 import generatePackage from "./package/command";
+import manageTemplates from "./template/command";
+import updateProject from "./update/command";
 
 type MockCommand = {
 	option: ReturnType<typeof vi.fn>;
@@ -96,12 +118,12 @@ describe("resources/index", () => {
 			const instructionsAction = mockCommand.action.mock.calls[0]?.[0];
 			if (instructionsAction) {
 				await instructionsAction({
-					ideFormat: "cursor",
+					ideFormat: "cursor,claude",
 				});
 			}
 
 			expect(generateInstructions).toHaveBeenCalledWith({
-				ideFormat: "cursor",
+				ideFormats: ["cursor", "claude"],
 			});
 		});
 
@@ -154,11 +176,11 @@ describe("resources/index", () => {
 				template: undefined,
 				public: true,
 				includeInstructions: undefined,
-				instructionsIdeFormat: undefined,
+				instructionsIdeFormats: undefined,
 			});
 		});
 
-		it("should pass includeInstructions and instructionsIdeFormat when provided", async () => {
+		it("should pass includeInstructions and instructionsIdeFormats when provided", async () => {
 			vi.mocked(generatePackage).mockResolvedValue();
 
 			registerResourcesCli(mockApp);
@@ -176,8 +198,393 @@ describe("resources/index", () => {
 				template: undefined,
 				public: undefined,
 				includeInstructions: true,
-				instructionsIdeFormat: "cursor",
+				instructionsIdeFormats: ["cursor"],
+			});
+		});
+
+		it("should register --registry on every command and forward it", async () => {
+			vi.mocked(generateInstructions).mockResolvedValue();
+			vi.mocked(generatePackage).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			const registryOptionCalls = mockCommand.option.mock.calls.filter(
+				([flag]) => flag === "--registry <source>",
+			);
+			expect(registryOptionCalls).toHaveLength(5);
+
+			const instructionsAction = mockCommand.action.mock.calls[0]?.[0];
+			const packageAction = mockCommand.action.mock.calls[1]?.[0];
+			await instructionsAction?.({ registry: "./my-templates" });
+			await packageAction?.({ registry: "github:acme/templates" });
+
+			expect(generateInstructions).toHaveBeenCalledWith(
+				expect.objectContaining({ registry: "./my-templates" }),
+			);
+			expect(generatePackage).toHaveBeenCalledWith(
+				expect.objectContaining({ registry: "github:acme/templates" }),
+			);
+		});
+
+		it("should register --ref on every command and forward it as a string", async () => {
+			vi.mocked(generateInstructions).mockResolvedValue();
+			vi.mocked(generatePackage).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			const refOptionCalls = mockCommand.option.mock.calls.filter(
+				([flag]) => flag === "--ref <ref>",
+			);
+			expect(refOptionCalls).toHaveLength(5);
+
+			const instructionsAction = mockCommand.action.mock.calls[0]?.[0];
+			const packageAction = mockCommand.action.mock.calls[1]?.[0];
+			await instructionsAction?.({ ref: "v1.2.0" });
+			await packageAction?.({ ref: 1234567 });
+
+			expect(generateInstructions).toHaveBeenCalledWith(
+				expect.objectContaining({ ref: "v1.2.0" }),
+			);
+			expect(generatePackage).toHaveBeenCalledWith(
+				expect.objectContaining({ ref: "1234567" }),
+			);
+		});
+
+		it("should register --offline on every template command and forward it", async () => {
+			vi.mocked(generateInstructions).mockResolvedValue();
+			vi.mocked(generatePackage).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			const offlineOptionCalls = mockCommand.option.mock.calls.filter(
+				([flag]) => flag === "--offline",
+			);
+			expect(offlineOptionCalls).toHaveLength(4);
+
+			const instructionsAction = mockCommand.action.mock.calls[0]?.[0];
+			const packageAction = mockCommand.action.mock.calls[1]?.[0];
+			await instructionsAction?.({ offline: true });
+			await packageAction?.({});
+
+			expect(generateInstructions).toHaveBeenCalledWith(
+				expect.objectContaining({ offline: true }),
+			);
+			expect(vi.mocked(generatePackage).mock.calls[0]?.[0].offline).toBe(
+				undefined,
+			);
+		});
+
+		it("should register --templates-dir on every template command and forward it", async () => {
+			vi.mocked(generateInstructions).mockResolvedValue();
+			vi.mocked(generatePackage).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			const templatesDirOptionCalls = mockCommand.option.mock.calls.filter(
+				([flag]) => flag === "--templates-dir <path>",
+			);
+			expect(templatesDirOptionCalls).toHaveLength(4);
+
+			const instructionsAction = mockCommand.action.mock.calls[0]?.[0];
+			const packageAction = mockCommand.action.mock.calls[1]?.[0];
+			await instructionsAction?.({ templatesDir: "../yehle/templates" });
+			await packageAction?.({ templatesDir: "." });
+
+			expect(generateInstructions).toHaveBeenCalledWith(
+				expect.objectContaining({ templatesDir: "../yehle/templates" }),
+			);
+			expect(generatePackage).toHaveBeenCalledWith(
+				expect.objectContaining({ templatesDir: "." }),
+			);
+		});
+
+		it("should parse repeated --var flags for `package`", async () => {
+			vi.mocked(generatePackage).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			expect(mockCommand.option).toHaveBeenCalledWith(
+				"--var <key=value>",
+				expect.stringContaining("yehle.yaml"),
+			);
+
+			const packageAction = mockCommand.action.mock.calls[1]?.[0];
+			await packageAction?.({ var: ["framework=vue", "docs=true"] });
+
+			expect(generatePackage).toHaveBeenCalledWith(
+				expect.objectContaining({
+					vars: { framework: "vue", docs: "true" },
+				}),
+			);
+		});
+
+		it("should register --feature / --no-feature for `package` and forward them", async () => {
+			vi.mocked(generatePackage).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			expect(mockCommand.option).toHaveBeenCalledWith(
+				"--feature <name>",
+				expect.stringContaining("repeatable"),
+			);
+			expect(mockCommand.option).toHaveBeenCalledWith(
+				"--without-feature <name>",
+				expect.stringContaining("--no-feature <name>"),
+			);
+
+			const packageAction = mockCommand.action.mock.calls[1]?.[0];
+			await packageAction?.({
+				feature: ["playground", "husky,commitlint"],
+				withoutFeature: "stryker",
 			});
+			await packageAction?.({});
+
+			expect(generatePackage).toHaveBeenNthCalledWith(
+				1,
+				expect.objectContaining({
+					enableFeatures: ["playground", "husky", "commitlint"],
+					disableFeatures: ["stryker"],
+				}),
+			);
+			const second = vi.mocked(generatePackage).mock.calls[1]?.[0];
+			expect(second?.enableFeatures).toBeUndefined();
+			expect(second?.disableFeatures).toBeUndefined();
+		});
+
+		it("should register --no-hooks for `package` and forward it", async () => {
+			vi.mocked(generatePackage).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			expect(mockCommand.option).toHaveBeenCalledWith(
+				"--no-hooks",
+				expect.stringContaining("hooks:"),
+			);
+
+			const packageAction = mockCommand.action.mock.calls[1]?.[0];
+			await packageAction?.({ hooks: false });
+			await packageAction?.({ hooks: true });
+
+			expect(vi.mocked(generatePackage).mock.calls[0]?.[0].skipHooks).toBe(
+				true,
+			);
+			expect(
+				vi.mocked(generatePackage).mock.calls[1]?.[0].skipHooks,
+			).toBeUndefined();
+		});
+
+		it("should register --dry-run for `package` and `instructions` and forward it", async () => {
+			vi.mocked(generatePackage).mockResolvedValue();
+			vi.mocked(generateInstructions).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			expect(
+				mockCommand.option.mock.calls.filter(([flag]) => flag === "--dry-run"),
+			).toHaveLength(2);
+
+			const instructionsAction = mockCommand.action.mock.calls[0]?.[0];
+			const packageAction = mockCommand.action.mock.calls[1]?.[0];
+			await instructionsAction?.({ dryRun: true });
+			await packageAction?.({ dryRun: true });
+			await packageAction?.({});
+
+			expect(vi.mocked(generateInstructions).mock.calls[0]?.[0]?.dryRun).toBe(
+				true,
+			);
+			expect(vi.mocked(generatePackage).mock.calls[0]?.[0].dryRun).toBe(true);
+			expect(
+				vi.mocked(generatePackage).mock.calls[1]?.[0].dryRun,
+			).toBeUndefined();
+		});
+
+		it("should forward --into, --force and --on-conflict for `package`", async () => {
+			vi.mocked(generatePackage).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			const packageAction = mockCommand.action.mock.calls[1]?.[0];
+			await packageAction?.({ into: ".", force: true, onConflict: "merge" });
+
+			expect(generatePackage).toHaveBeenCalledWith(
+				expect.objectContaining({
+					into: ".",
+					force: true,
+					onConflict: "merge",
+				}),
+			);
+		});
+
+		it("should log an error for an unknown --on-conflict resolution", async () => {
+			registerResourcesCli(mockApp);
+
+			const packageAction = mockCommand.action.mock.calls[1]?.[0];
+			await packageAction?.({ onConflict: "theirs" });
+
+			expect(generatePackage).not.toHaveBeenCalled();
+			expect(logger.error).toHaveBeenCalledWith(
+				expect.stringContaining("Invalid --on-conflict value: theirs"),
+			);
+		});
+
+		it("should log an error for malformed --var flags", async () => {
+			registerResourcesCli(mockApp);
+
+			const packageAction = mockCommand.action.mock.calls[1]?.[0];
+			await packageAction?.({ var: "framework" });
+
+			expect(generatePackage).not.toHaveBeenCalled();
+			expect(logger.error).toHaveBeenCalledWith(
+				expect.stringContaining('Invalid --var "framework"'),
+			);
+		});
+
+		it("should register the `cache` command and forward the action and --max-age", async () => {
+			vi.mocked(manageCache).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			expect(mockApp.command).toHaveBeenCalledWith(
+				"cache <action>",
+				"Manage the template cache (list, clear, prune, warm)",
+			);
+			expect(mockCommand.option).toHaveBeenCalledWith(
+				"--max-age <days>",
+				expect.stringContaining("prune"),
+			);
+
+			const cacheAction = mockCommand.action.mock.calls[2]?.[0];
+			await cacheAction?.("prune", { maxAge: 7 });
+
+			expect(manageCache).toHaveBeenCalledWith("prune", { maxAge: 7 });
+		});
+
+		it("should forward --registry and --ref to `cache warm`", async () => {
+			vi.mocked(manageCache).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			const cacheAction = mockCommand.action.mock.calls[2]?.[0];
+			await cacheAction?.("warm", {
+				registry: "github:acme/templates",
+				ref: 2,
+			});
+
+			expect(manageCache).toHaveBeenCalledWith("warm", {
+				maxAge: undefined,
+				registry: "github:acme/templates",
+				ref: "2",
+			});
+		});
+
+		it("should log error when the cache command throws", async () => {
+			vi.mocked(manageCache).mockRejectedValue(new Error("Cache error"));
+
+			registerResourcesCli(mockApp);
+			const cacheAction = mockCommand.action.mock.calls[2]?.[0];
+			await cacheAction?.("nope", {});
+
+			expect(logger.error).toHaveBeenCalledWith("Cache error");
+		});
+
+		it("should register the `template` command and forward the action and path", async () => {
+			vi.mocked(manageTemplates).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			expect(mockApp.command).toHaveBeenCalledWith(
+				"template <action> [path]",
+				expect.stringContaining("(lint)"),
+			);
+
+			const templateAction = mockCommand.action.mock.calls[3]?.[0];
+			await templateAction?.("lint", "./templates", {});
+
+			expect(manageTemplates).toHaveBeenCalledWith("lint", "./templates");
+		});
+
+		it("should log error when the template command finds problems", async () => {
+			vi.mocked(manageTemplates).mockRejectedValue(
+				new Error("Found 2 problems in ."),
+			);
+
+			registerResourcesCli(mockApp);
+			const templateAction = mockCommand.action.mock.calls[3]?.[0];
+			await templateAction?.("lint", undefined, {});
+
+			expect(logger.error).toHaveBeenCalledWith("Found 2 problems in .");
+		});
+
+		it("should register the `update` command and forward its options", async () => {
+			vi.mocked(updateProject).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			expect(mockApp.command).toHaveBeenCalledWith(
+				"update",
+				expect.stringContaining("up to date with its template"),
+			);
+
+			const updateAction = mockCommand.action.mock.calls[4]?.[0];
+			await updateAction?.({
+				ref: 2,
+				offline: true,
+				var: ["framework=vue"],
+				patch: "update.patch",
+			});
+
+			expect(updateProject).toHaveBeenCalledWith({
+				registry: undefined,
+				ref: "2",
+				offline: true,
+				templatesDir: undefined,
+				vars: { framework: "vue" },
+				patch: "update.patch",
+			});
+		});
+
+		it("should log error when the update command throws", async () => {
+			vi.mocked(updateProject).mockRejectedValue(
+				new Error("No project manifest found"),
+			);
+
+			registerResourcesCli(mockApp);
+			const updateAction = mockCommand.action.mock.calls[4]?.[0];
+			await updateAction?.({});
+
+			expect(logger.error).toHaveBeenCalledWith("No project manifest found");
+		});
+
+		it("should register the `diff` command and forward --check and --allow", async () => {
+			vi.mocked(diffProject).mockResolvedValue();
+
+			registerResourcesCli(mockApp);
+			expect(mockApp.command).toHaveBeenCalledWith(
+				"diff",
+				expect.stringContaining("differs from its template"),
+			);
+
+			const diffAction = mockCommand.action.mock.calls[5]?.[0];
+			await diffAction?.({
+				check: true,
+				allow: ["README.md", "src/**"],
+				var: "token=abc",
+			});
+			await diffAction?.({ allow: "README.md" });
+
+			expect(diffProject).toHaveBeenNthCalledWith(1, {
+				registry: undefined,
+				ref: undefined,
+				offline: undefined,
+				templatesDir: undefined,
+				vars: { token: "abc" },
+				check: true,
+				allow: ["README.md", "src/**"],
+			});
+			expect(vi.mocked(diffProject).mock.calls[1]?.[0]?.allow).toEqual([
+				"README.md",
+			]);
+		});
+
+		it("should log error when the diff check finds drift", async () => {
+			vi.mocked(diffProject).mockRejectedValue(
+				new Error("1 file has drifted from the template"),
+			);
+
+			registerResourcesCli(mockApp);
+			const diffAction = mockCommand.action.mock.calls[5]?.[0];
+			await diffAction?.({ check: true });
+
+			expect(logger.error).toHaveBeenCalledWith(
+				"1 file has drifted from the template",
+			);
 		});
 
 		it("should log error for thrown exceptions", async () => {
@@ -201,4 +608,32 @@ describe("resources/index", () => {
 			expect(logger.error).toHaveBeenCalledWith("String error");
 		});
 	});
+
+	describe("rewriteNegatedFeatureFlags", () => {
+		it("should rewrite --no-feature to --without-feature", () => {
+			expect(
+				rewriteNegatedFeatureFlags([
+					"node",
+					"yehle",
+					"package",
+					"--no-feature",
+					"stryker",
+					"--no-feature=husky",
+					"--no-hooks",
+					"--feature",
+					"playground",
+				]),
+			).toEqual([
+				"node",
+				"yehle",
+				"package",
+				"--without-feature",
+				"stryker",
+				"--without-feature=husky",
+				"--no-hooks",
+				"--feature",
+				"playground",
+			]);
+		});
+	});
 });
@@ -1,10 +1,73 @@
 import type { CAC } from "cac";
 import logger from "../cli/logger";
+import { DEFAULT_CACHE_MAX_AGE_DAYS } from "../core/cache";
+import {
+	CONFLICT_RESOLUTIONS,
+	parseConflictResolutionFlag,
+} from "../core/conflicts";
+import { parseAllowFlags } from "../core/drift";
+import { parseFeatureFlags } from "../core/features";
+import type { RegistryOptions } from "../core/registry.source";
+import { parseVariableFlags } from "../core/variables";
+import manageCache, {
+	CACHE_ACTIONS,
+	type CacheCommandOptions,
+} from "./cache/command";
+import diffProject from "./diff/command";
 import generateInstructions from "./instructions/command";
 import type { GenerateInstructionsOptions } from "./instructions/config";
-import { IDE_FORMATS } from "./instructions/ide-formats";
+import { IDE_FORMATS, parseIdeFormatFlags } from "./instructions/ide-formats";
 import generatePackage from "./package/command";
 import type { GeneratePackageConfiguration } from "./package/config";
+import manageTemplates, { TEMPLATE_ACTIONS } from "./template/command";
+import updateProject from "./update/command";
+
+/** Help text for the --registry flag shared by all template-backed commands. */
+const REGISTRY_OPTION_DESCRIPTION =
+	"Template source (github:owner/repo, gitlab:group/repo, a git URL or a local path)";
+
+/** Help text for the --ref flag shared by all template-backed commands. */
+const REF_OPTION_DESCRIPTION =
+	"Git ref of the template source to use (branch, tag or commit SHA)";
+
+/** Help text for the --offline flag shared by all template-backed commands. */
+const OFFLINE_OPTION_DESCRIPTION =
+	"Only use cached templates (see `yehle cache warm`); also enabled by YEHLE_OFFLINE=1";
+
+/** Help text for the --templates-dir flag shared by all template-backed commands. */
+const TEMPLATES_DIR_OPTION_DESCRIPTION =
+	"Read templates from a local directory (the templates/ directory or a checkout that contains one) instead of a registry";
+
+/** Help text for the --dry-run flag shared by the generating commands. */
+const DRY_RUN_OPTION_DESCRIPTION =
+	"Generate into a temporary directory and print the files that would be created, without writing anything";
+
+/** Flag that --no-feature is rewritten to before parsing. */
+const DISABLE_FEATURE_FLAG = "--without-feature";
+
+/**
+ * Rewrite --no-feature <name> to --without-feature <name>.
+ * cac reads any --no-<option> flag as the negation of --<option> and drops its value,
+ * so --no-feature can't be registered as an option that takes a feature name.
+ * @param argv - Raw process arguments.
+ * @returns The arguments with every --no-feature flag rewritten.
+ */
+export function rewriteNegatedFeatureFlags(argv: string[]): string[] {
+	return argv.map((arg) =>
+		arg === "--no-feature" || arg.startsWith("--no-feature=")
+			? arg.replace("--no-feature", DISABLE_FEATURE_FLAG)
+			: arg,
+	);
+}
+
+/**
+ * Normalize a --ref value; cac parses numeric-looking values (e.g. short SHAs) as numbers.
+ * @param ref - Raw option value.
+ * @returns The ref as a string, or undefined when the flag was not passed.
+ */
+function normalizeRefOption(ref: unknown): string | undefined {
+	return ref === undefined || ref === null ? undefined : String(ref);
+}
 
 export async function registerResourcesCli(app: CAC) {
 	app.usage("<resource> [options]");
@@ -13,18 +76,38 @@ export async function registerResourcesCli(app: CAC) {
 		.command("instructions", "Add agent instructions to an existing project")
 		.option(
 			"--ide-format <format>",
-			`Target IDE format (${IDE_FORMATS.map((f) => f.value).join(", ")})`,
+			`Target IDE formats, comma-separated or repeated (${IDE_FORMATS.map((f) => f.value).join(", ")})`,
 		)
-		.action(async (options: Partial<GenerateInstructionsOptions>) => {
-			try {
-				await generateInstructions({
-					ideFormat: options.ideFormat,
-				});
-			} catch (err) {
-				const msg = err instanceof Error ? err.message : String(err);
-				logger.error(msg);
-			}
-		});
+		.option("--registry <source>", REGISTRY_OPTION_DESCRIPTION)
+		.option("--ref <ref>", REF_OPTION_DESCRIPTION)
+		.option("--offline", OFFLINE_OPTION_DESCRIPTION)
+		.option("--templates-dir <path>", TEMPLATES_DIR_OPTION_DESCRIPTION)
+		.option("--dry-run", DRY_RUN_OPTION_DESCRIPTION)
+		.action(
+			async (
+				options: Partial<GenerateInstructionsOptions> & {
+					ideFormat?: unknown;
+					dryRun?: boolean;
+				},
+			) => {
+				try {
+					await generateInstructions({
+						ideFormats:
+							options.ideFormat !== undefined
+								? parseIdeFormatFlags(options.ideFormat)
+								: undefined,
+						registry: options.registry,
+						ref: normalizeRefOption(options.ref),
+						offline: options.offline ? true : undefined,
+						templatesDir: options.templatesDir,
+						dryRun: options.dryRun ? true : undefined,
+					});
+				} catch (err) {
+					const msg = err instanceof Error ? err.message : String(err);
+					logger.error(msg);
+				}
+			},
+		);
 
 	app
 		.command("package", "Generate a package")
@@ -41,26 +124,241 @@ export async function registerResourcesCli(app: CAC) {
 		)
 		.option(
 			"--instructions-ide-format <format>",
-			`Target IDE format for package instructions (${IDE_FORMATS.map((f) => f.value).join(", ")})`,
+			`Target IDE formats for package instructions, comma-separated or repeated (${IDE_FORMATS.map((f) => f.value).join(", ")})`,
+		)
+		.option("--registry <source>", REGISTRY_OPTION_DESCRIPTION)
+		.option("--ref <ref>", REF_OPTION_DESCRIPTION)
+		.option("--offline", OFFLINE_OPTION_DESCRIPTION)
+		.option("--templates-dir <path>", TEMPLATES_DIR_OPTION_DESCRIPTION)
+		.option(
+			"--var <key=value>",
+			"Answer a template variable declared in yehle.yaml (repeatable)",
+		)
+		.option(
+			"--feature <name>",
+			"Include an optional template feature declared in yehle.yaml (repeatable)",
+		)
+		.option(
+			`${DISABLE_FEATURE_FLAG} <name>`,
+			"Leave out an optional template feature (repeatable; also accepted as --no-feature <name>)",
+		)
+		.option(
+			"--no-hooks",
+			"Don't run the commands declared under hooks: in the template's yehle.yaml",
+		)
+		.option("--dry-run", DRY_RUN_OPTION_DESCRIPTION)
+		.option(
+			"--into <dir>",
+			"Generate into this directory (e.g. . for the current one) instead of a new one named after the package; it may already contain files",
+		)
+		.option(
+			"--force",
+			"Generate into the package directory even when it is not empty",
+		)
+		.option(
+			"--on-conflict <resolution>",
+			`Resolve every existing file the same way instead of asking (${CONFLICT_RESOLUTIONS.join(", ")})`,
+		)
+		.action(
+			async (
+				options: Partial<GeneratePackageConfiguration> &
+					RegistryOptions & {
+						instructionsIdeFormat?: unknown;
+						var?: unknown;
+						feature?: unknown;
+						withoutFeature?: unknown;
+						hooks?: boolean;
+						dryRun?: boolean;
+						into?: unknown;
+						force?: boolean;
+						onConflict?: unknown;
+					},
+			) => {
+				try {
+					const publicFlag = options.public
+						? Boolean(options.public)
+						: undefined;
+					const includeInstructionsFlag = options.includeInstructions
+						? Boolean(options.includeInstructions)
+						: undefined;
+
+					await generatePackage({
+						lang: options.lang,
+						name: options.name,
+						template: options.template,
+						public: publicFlag,
+						includeInstructions: includeInstructionsFlag,
+						instructionsIdeFormats:
+							options.instructionsIdeFormat !== undefined
+								? parseIdeFormatFlags(options.instructionsIdeFormat)
+								: undefined,
+						registry: options.registry,
+						ref: normalizeRefOption(options.ref),
+						offline: options.offline ? true : undefined,
+						templatesDir: options.templatesDir,
+						vars:
+							options.var !== undefined
+								? parseVariableFlags(options.var)
+								: undefined,
+						enableFeatures:
+							options.feature !== undefined
+								? parseFeatureFlags(options.feature)
+								: undefined,
+						disableFeatures:
+							options.withoutFeature !== undefined
+								? parseFeatureFlags(options.withoutFeature)
+								: undefined,
+						skipHooks: options.hooks === false ? true : undefined,
+						dryRun: options.dryRun ? true : undefined,
+						into: options.into !== undefined ? String(options.into) : undefined,
+						force: options.force ? true : undefined,
+						onConflict: parseConflictResolutionFlag(options.onConflict),
+					});
+				} catch (err) {
+					const msg = err instanceof Error ? err.message : String(err);
+					logger.error(msg);
+				}
+			},
+		);
+
+	app
+		.command(
+			"cache <action>",
+			`Manage the template cache (${CACHE_ACTIONS.join(", ")})`,
 		)
-		.action(async (options: Partial<GeneratePackageConfiguration>) => {
+		.option(
+			"--max-age <days>",
+			`With prune: remove entries older than this many days (default: ${DEFAULT_CACHE_MAX_AGE_DAYS})`,
+		)
+		.option("--registry <source>", `With warm: ${REGISTRY_OPTION_DESCRIPTION}`)
+		.option("--ref <ref>", `With warm: ${REF_OPTION_DESCRIPTION}`)
+		.action(async (action: string, options: CacheCommandOptions) => {
 			try {
-				const publicFlag = options.public ? Boolean(options.public) : undefined;
-				const includeInstructionsFlag = options.includeInstructions
-					? Boolean(options.includeInstructions)
-					: undefined;
-
-				await generatePackage({
-					lang: options.lang,
-					name: options.name,
-					template: options.template,
-					public: publicFlag,
-					includeInstructions: includeInstructionsFlag,
-					instructionsIdeFormat: options.instructionsIdeFormat,
+				await manageCache(action, {
+					maxAge: options.maxAge,
+					registry: options.registry,
+					ref: normalizeRefOption(options.ref),
 				});
 			} catch (err) {
 				const msg = err instanceof Error ? err.message : String(err);
 				logger.error(msg);
 			}
 		});
+
+	app
+		.command(
+			"template <action> [path]",
+			`Tools for template authors (${TEMPLATE_ACTIONS.join(", ")}); path is the templates directory (default: current directory)`,
+		)
+		.action(async (action: string, templatesPath: string | undefined) => {
+			try {
+				await manageTemplates(action, templatesPath);
+			} catch (err) {
+				const msg = err instanceof Error ? err.message : String(err);
+				logger.error(msg);
+			}
+		});
+
+	app
+		.command(
+			"update",
+			"Bring the project in the current directory up to date with its template",
+		)
+		.option(
+			"--registry <source>",
+			`${REGISTRY_OPTION_DESCRIPTION} (default: the one the project was generated from)`,
+		)
+		.option(
+			"--ref <ref>",
+			"Git ref of the template source to update to (default: its default branch)",
+		)
+		.option("--offline", OFFLINE_OPTION_DESCRIPTION)
+		.option("--templates-dir <path>", TEMPLATES_DIR_OPTION_DESCRIPTION)
+		.option(
+			"--var <key=value>",
+			"Change the answer to a template variable, or answer one the template added (repeatable)",
+		)
+		.option(
+			"--patch <file>",
+			"Write the template changes to a patch file instead of changing the project",
+		)
+		.action(
+			async (options: RegistryOptions & { var?: unknown; patch?: unknown }) => {
+				try {
+					await updateProject({
+						registry: options.registry,
+						ref: normalizeRefOption(options.ref),
+						offline: options.offline ? true : undefined,
+						templatesDir: options.templatesDir,
+						vars:
+							options.var !== undefined
+								? parseVariableFlags(options.var)
+								: undefined,
+						patch:
+							options.patch !== undefined ? String(options.patch) : undefined,
+					});
+				} catch (err) {
+					const msg = err instanceof Error ? err.message : String(err);
+					logger.error(msg);
+				}
+			},
+		);
+
+	app
+		.command(
+			"diff",
+			"Show how the project in the current directory differs from its template",
+		)
+		.option(
+			"--registry <source>",
+			`${REGISTRY_OPTION_DESCRIPTION} (default: the one the project was generated from)`,
+		)
+		.option(
+			"--ref <ref>",
+			"Git ref of the template source to compare with (default: the commit the project was generated from)",
+		)
+		.option("--offline", OFFLINE_OPTION_DESCRIPTION)
+		.option("--templates-dir <path>", TEMPLATES_DIR_OPTION_DESCRIPTION)
+		.option(
+			"--var <key=value>",
+			"Answer a template variable that is not recorded, e.g. a secret (repeatable)",
+		)
+		.option(
+			"--check",
+			"Exit with code 1 when files drifted that no --allow pattern matches",
+		)
+		.option(
+			"--allow <pattern>",
+			"Glob of files allowed to drift with --check (repeatable)",
+		)
+		.action(
+			async (
+				options: RegistryOptions & {
+					var?: unknown;
+					check?: boolean;
+					allow?: unknown;
+				},
+			) => {
+				try {
+					await diffProject({
+						registry: options.registry,
+						ref: normalizeRefOption(options.ref),
+						offline: options.offline ? true : undefined,
+						templatesDir: options.templatesDir,
+						vars:
+							options.var !== undefined
+								? parseVariableFlags(options.var)
+								: undefined,
+						check: options.check ? true : undefined,
+						allow:
+							options.allow !== undefined
+								? parseAllowFlags(options.allow)
+								: undefined,
+					});
+				} catch (err) {
+					const msg = err instanceof Error ? err.message : String(err);
+					logger.error(msg);
+				}
+			},
+		);
 }
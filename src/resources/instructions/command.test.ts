@@ -13,10 +13,25 @@ vi.mock("../../cli/tasks", () => ({
 	},
 }));
 
+vi.mock("../../core/dry-run", () => ({
+	createDryRunDirectory: vi.fn(async () => "/tmp/yehle-dry-run-1"),
+	describeDryRunFiles: vi.fn(),
+	formatFileTree: vi.fn(() => ["./", "└── .claude/"]),
+	removeDryRunDirectory: vi.fn(),
+}));
+
 vi.mock("../../core/instructions", () => ({
 	getInstructionWithFrontmatter: vi.fn(),
 }));
 
+vi.mock("../../core/registry.source", () => ({
+	configureRegistrySource: vi.fn(),
+}));
+
+vi.mock("../../core/templates", () => ({
+	pinRegistryToCommit: vi.fn(),
+}));
+
 vi.mock("./config", () => ({
 	getGenerateInstructionsConfiguration: vi.fn(),
 }));
@@ -42,7 +57,14 @@ import path from "node:path";
 // Import after mocks
 import logger, { primaryText } from "../../cli/logger";
 import tasks from "../../cli/tasks";
+import {
+	describeDryRunFiles,
+	formatFileTree,
+	removeDryRunDirectory,
+} from "../../core/dry-run";
 import { getInstructionWithFrontmatter } from "../../core/instructions";
+import { configureRegistrySource } from "../../core/registry.source";
+import { pinRegistryToCommit } from "../../core/templates";
 import generateInstructions from "./command";
 import {
 	type GenerateInstructionsOptions,
@@ -61,7 +83,7 @@ describe("resources/instructions/command", () => {
 		it("should call logger.intro with correct message", async () => {
 			vi.mocked(getGenerateInstructionsConfiguration).mockResolvedValue({
 				selections: [],
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 			vi.mocked(tasks.runWithTasks).mockResolvedValue();
 
@@ -72,11 +94,11 @@ describe("resources/instructions/command", () => {
 
 		it("should get configuration from getGenerateInstructionsConfiguration", async () => {
 			const options: Partial<GenerateInstructionsOptions> = {
-				ideFormat: "windsurf",
+				ideFormats: ["windsurf"],
 			};
 			vi.mocked(getGenerateInstructionsConfiguration).mockResolvedValue({
 				selections: [],
-				ideFormat: "windsurf",
+				ideFormats: ["windsurf"],
 			});
 			vi.mocked(tasks.runWithTasks).mockResolvedValue();
 
@@ -87,10 +109,50 @@ describe("resources/instructions/command", () => {
 			);
 		});
 
+		it("should configure the registry before resolving configuration", async () => {
+			vi.mocked(getGenerateInstructionsConfiguration).mockResolvedValue({
+				selections: [],
+				ideFormats: ["cursor"],
+			});
+			vi.mocked(tasks.runWithTasks).mockResolvedValue();
+
+			await generateInstructions({
+				registry: "github:acme/templates",
+				ref: "v1",
+				offline: true,
+				templatesDir: "../templates",
+			});
+
+			expect(configureRegistrySource).toHaveBeenCalledWith({
+				registry: "github:acme/templates",
+				ref: "v1",
+				offline: true,
+				templatesDir: "../templates",
+			});
+			expect(pinRegistryToCommit).toHaveBeenCalled();
+		});
+
+		it("should report the commit the instructions were taken from", async () => {
+			vi.mocked(getGenerateInstructionsConfiguration).mockResolvedValue({
+				selections: [],
+				ideFormats: ["cursor"],
+			});
+			vi.mocked(tasks.runWithTasks).mockResolvedValue();
+			vi.mocked(pinRegistryToCommit).mockResolvedValue("abc123");
+			const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+			await generateInstructions();
+
+			expect(logSpy).toHaveBeenCalledWith(
+				"Instructions taken from commit abc123",
+			);
+			logSpy.mockRestore();
+		});
+
 		it("should process empty selections without calling task functions", async () => {
 			vi.mocked(getGenerateInstructionsConfiguration).mockResolvedValue({
 				selections: [],
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 			vi.mocked(tasks.runWithTasks).mockResolvedValue();
 
@@ -127,7 +189,7 @@ describe("resources/instructions/command", () => {
 			];
 			vi.mocked(getGenerateInstructionsConfiguration).mockResolvedValue({
 				selections: selections as InstructionSelection[],
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 			vi.mocked(getInstructionWithFrontmatter)
 				.mockResolvedValueOnce({
@@ -190,7 +252,7 @@ describe("resources/instructions/command", () => {
 			];
 			vi.mocked(getGenerateInstructionsConfiguration).mockResolvedValue({
 				selections: selections as InstructionSelection[],
-				ideFormat: "cline",
+				ideFormats: ["cline"],
 			});
 			vi.mocked(getInstructionWithFrontmatter).mockResolvedValue({
 				content: "# TS",
@@ -223,7 +285,7 @@ describe("resources/instructions/command", () => {
 			const consoleSpy = vi.spyOn(console, "log");
 			vi.mocked(getGenerateInstructionsConfiguration).mockResolvedValue({
 				selections: [],
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 			vi.mocked(tasks.runWithTasks).mockResolvedValue();
 			vi.mocked(primaryText).mockImplementation((s) => s);
@@ -246,7 +308,7 @@ describe("resources/instructions/command", () => {
 			];
 			vi.mocked(getGenerateInstructionsConfiguration).mockResolvedValue({
 				selections: selections as InstructionSelection[],
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 			vi.mocked(getInstructionWithFrontmatter).mockResolvedValue({
 				content: "# TS",
@@ -281,7 +343,7 @@ describe("resources/instructions/command", () => {
 			];
 			vi.mocked(getGenerateInstructionsConfiguration).mockResolvedValue({
 				selections: selections as InstructionSelection[],
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 			vi.mocked(getInstructionWithFrontmatter).mockResolvedValue({
 				content: "# Main",
@@ -313,7 +375,7 @@ describe("resources/instructions/command", () => {
 			];
 			vi.mocked(getGenerateInstructionsConfiguration).mockResolvedValue({
 				selections: selections as InstructionSelection[],
-				ideFormat: "claude",
+				ideFormats: ["claude"],
 			});
 			vi.mocked(getInstructionWithFrontmatter).mockResolvedValue({
 				content: "# Python",
@@ -340,5 +402,107 @@ describe("resources/instructions/command", () => {
 				selections[0].frontmatter,
 			);
 		});
+
+		it("should fetch each instruction once and write it for every format", async () => {
+			const selections = [
+				{
+					category: "essential" as const,
+					instruction: "code-style",
+					frontmatter: { description: "Code style" },
+				},
+			];
+			vi.mocked(getGenerateInstructionsConfiguration).mockResolvedValue({
+				selections: selections as InstructionSelection[],
+				ideFormats: ["cursor", "claude"],
+			});
+			vi.mocked(getInstructionWithFrontmatter).mockResolvedValue({
+				content: "# Code style",
+				frontmatter: selections[0].frontmatter,
+			});
+			vi.mocked(writeInstructionToFile)
+				.mockResolvedValueOnce("/test/cwd/.cursor/rules/code-style.mdc")
+				.mockResolvedValueOnce("/test/cwd/.claude/rules/code-style.md");
+			vi.mocked(tasks.runWithTasks).mockImplementation(async (_, __, tasks) => {
+				for (const t of tasks ?? []) {
+					if (t.task) await t.task();
+				}
+			});
+			vi.spyOn(console, "log").mockImplementation(() => {});
+
+			await generateInstructions();
+
+			expect(getInstructionWithFrontmatter).toHaveBeenCalledTimes(1);
+			expect(
+				vi.mocked(writeInstructionToFile).mock.calls.map((call) => call[3]),
+			).toEqual(["cursor", "claude"]);
+		});
+
+		it("should write into a temporary directory and print the files with dryRun", async () => {
+			const selections = [
+				{
+					category: "language" as const,
+					instruction: "python",
+					frontmatter: { description: "Python" },
+					context: { lang: "python" },
+				},
+			];
+			vi.mocked(getGenerateInstructionsConfiguration).mockResolvedValue({
+				selections: selections as InstructionSelection[],
+				ideFormats: ["claude"],
+			});
+			vi.mocked(getInstructionWithFrontmatter).mockResolvedValue({
+				content: "# Python",
+				frontmatter: selections[0].frontmatter,
+			});
+			vi.mocked(writeInstructionToFile).mockResolvedValue(
+				"/tmp/yehle-dry-run-1/.claude/rules/python.md",
+			);
+			vi.mocked(path.relative).mockReturnValue(".claude/rules/python.md");
+			vi.mocked(describeDryRunFiles).mockImplementation(
+				async (_dir, getOrigin) => [
+					{
+						path: ".claude/rules/python.md",
+						size: 8,
+						origin: getOrigin(".claude/rules/python.md"),
+					},
+				],
+			);
+			vi.mocked(tasks.runWithTasks).mockImplementation(async (_, __, tasks) => {
+				for (const t of tasks ?? []) {
+					if (t.task) await t.task();
+				}
+			});
+			const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+			await generateInstructions({ dryRun: true });
+
+			expect(logger.intro).toHaveBeenCalledWith(
+				"adding agent instructions (dry run)...",
+			);
+			expect(writeInstructionToFile).toHaveBeenCalledWith(
+				"/tmp/yehle-dry-run-1",
+				"python",
+				"# Python",
+				"claude",
+				"language",
+				selections[0].frontmatter,
+			);
+			expect(formatFileTree).toHaveBeenCalledWith(".", [
+				{
+					path: ".claude/rules/python.md",
+					size: 8,
+					origin: "instructions/language/python",
+				},
+			]);
+			expect(logSpy).toHaveBeenCalledWith(
+				"Dry run: nothing was written. These 1 files (8 B) would be added to /test/cwd:",
+			);
+			expect(logSpy).not.toHaveBeenCalledWith(
+				"Agent instructions added successfully!",
+			);
+			expect(removeDryRunDirectory).toHaveBeenCalledWith(
+				"/tmp/yehle-dry-run-1",
+			);
+		});
 	});
 });
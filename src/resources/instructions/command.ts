@@ -2,7 +2,17 @@ import path from "node:path";
 import chalk from "chalk";
 import logger, { primaryText } from "../../cli/logger";
 import tasks from "../../cli/tasks";
+import {
+	createDryRunDirectory,
+	type DryRunFlags,
+	describeDryRunFiles,
+	formatFileTree,
+	removeDryRunDirectory,
+} from "../../core/dry-run";
 import { getInstructionWithFrontmatter } from "../../core/instructions";
+import { configureRegistrySource } from "../../core/registry.source";
+import { pinRegistryToCommit } from "../../core/templates";
+import { formatBytes } from "../../core/utils";
 import {
 	type GenerateInstructionsOptions,
 	getGenerateInstructionsConfiguration,
@@ -11,49 +21,98 @@ import { writeInstructionToFile } from "./ide-formats";
 
 /**
  * Add agent instructions to the current project (standalone flow).
- * Resolves configuration via CLI (ideFormat only) or prompts, then fetches and writes each selected instruction.
- * @param options - Optional CLI-style options (ideFormat only; category and instructions are chosen interactively).
+ * Resolves the registry and pins it to a single commit, then configuration via CLI (ideFormats only) or prompts, then fetches each selected instruction once and writes it for every selected IDE format.
+ * With dryRun, the instructions are written to a temporary directory instead and the files that would be added are printed.
+ * @param options - Optional CLI-style options (registry, ref, offline, templatesDir, ideFormats and dryRun; category and instructions are chosen interactively).
  * @returns Promise that resolves when all instructions have been written.
  */
 export async function generateInstructions(
-	options: Partial<GenerateInstructionsOptions> = {},
+	options: Partial<GenerateInstructionsOptions> & DryRunFlags = {},
 ): Promise<void> {
-	await logger.intro("adding agent instructions...");
+	await logger.intro(
+		options.dryRun
+			? "adding agent instructions (dry run)..."
+			: "adding agent instructions...",
+	);
 
+	await configureRegistrySource({
+		registry: options.registry,
+		ref: options.ref,
+		offline: options.offline,
+		templatesDir: options.templatesDir,
+	});
+	const templateCommit = await pinRegistryToCommit();
 	const config = await getGenerateInstructionsConfiguration(options);
 
-	const cwd = process.cwd();
+	// Dry runs write into a temporary directory so nothing touches the current directory
+	const dryRunDir = options.dryRun ? await createDryRunDirectory() : undefined;
+	const cwd = dryRunDir ?? process.cwd();
 	const outputPaths: string[] = [];
+	const origins = new Map<string, string>();
 
-	await tasks.runWithTasks(
-		"Adding instructions",
-		undefined,
-		config.selections.map((sel) => ({
-			title: `Fetch and write ${sel.category}/${sel.instruction}`,
-			task: async () => {
-				const { content } = await getInstructionWithFrontmatter(
-					sel.category,
-					sel.instruction,
-					sel.context,
-				);
-				const outputPath = await writeInstructionToFile(
-					cwd,
-					sel.instruction,
-					content,
-					config.ideFormat,
-					sel.category,
-					sel.frontmatter,
-				);
-				outputPaths.push(outputPath);
-			},
-		})),
-	);
+	try {
+		await tasks.runWithTasks(
+			"Adding instructions",
+			undefined,
+			config.selections.map((sel) => ({
+				title: `Fetch and write ${sel.category}/${sel.instruction}`,
+				task: async () => {
+					const { content } = await getInstructionWithFrontmatter(
+						sel.category,
+						sel.instruction,
+						sel.context,
+					);
+					for (const ideFormat of config.ideFormats) {
+						const outputPath = await writeInstructionToFile(
+							cwd,
+							sel.instruction,
+							content,
+							ideFormat,
+							sel.category,
+							sel.frontmatter,
+						);
+						// Aggregated formats (e.g. AGENTS.md) write several instructions to the same file
+						if (!outputPaths.includes(outputPath)) outputPaths.push(outputPath);
+						origins.set(
+							path.relative(cwd, outputPath).split(path.sep).join("/"),
+							`instructions/${sel.category}/${sel.instruction}`,
+						);
+					}
+				},
+			})),
+		);
+
+		if (dryRunDir) {
+			const files = await describeDryRunFiles(dryRunDir, (file) =>
+				origins.get(file),
+			);
+			const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+			console.log();
+			console.log(
+				chalk.bold(
+					`Dry run: nothing was written. These ${files.length} files (${formatBytes(totalSize)}) would be added to ${process.cwd()}:`,
+				),
+			);
+			console.log();
+			for (const line of formatFileTree(".", files)) console.log(`  ${line}`);
+			console.log();
+			return;
+		}
+	} finally {
+		if (dryRunDir) await removeDryRunDirectory(dryRunDir);
+	}
 
 	console.log();
 	console.log(chalk.bold("Agent instructions added successfully!"));
 	console.log();
 	for (const p of outputPaths)
 		console.log(`  ${primaryText(path.relative(cwd, p))}`);
+	if (templateCommit) {
+		console.log();
+		console.log(
+			`Instructions taken from commit ${primaryText(templateCommit)}`,
+		);
+	}
 	console.log();
 }
 
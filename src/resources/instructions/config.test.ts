@@ -43,12 +43,12 @@ vi.mock("../../core/utils", () => ({
 	capitalizeFirstLetter: vi.fn((s: string) => s[0].toUpperCase() + s.slice(1)),
 }));
 
-vi.mock("./ide-formats", () => ({
-	IDE_FORMATS: [
-		{ label: "Cursor", value: "cursor" },
-		{ label: "Windsurf", value: "windsurf" },
-		{ label: "Cline", value: "cline" },
-	],
+vi.mock("./ide-format-definitions", () => ({
+	loadIdeFormats: vi.fn(async () => [
+		{ id: "cursor", label: "Cursor" },
+		{ id: "windsurf", label: "Windsurf" },
+		{ id: "cline", label: "Cline" },
+	]),
 }));
 
 // Import after mocks
@@ -86,73 +86,88 @@ describe("resources/instructions/config", () => {
 	});
 
 	describe("getIdeFormatSelection", () => {
-		it("should return provided ideFormat when valid", async () => {
-			const result = await getIdeFormatSelection("cursor");
+		it("should return provided ideFormats when valid", async () => {
+			const result = await getIdeFormatSelection(["cursor", "cline"]);
 
-			expect(result).toBe("cursor");
-			expect(mockSelectInput).not.toHaveBeenCalled();
+			expect(result).toEqual(["cursor", "cline"]);
+			expect(mockMultiselectInput).not.toHaveBeenCalled();
 		});
 
-		it("should prompt when ideFormat is not provided", async () => {
-			mockSelectInput.mockResolvedValue("windsurf");
+		it("should prompt for several formats when ideFormats are not provided", async () => {
+			mockMultiselectInput.mockResolvedValue(["windsurf", "cline"]);
 
 			const result = await getIdeFormatSelection();
 
-			expect(mockSelectInput).toHaveBeenCalledWith(
-				"Which IDE should the instructions be written for?",
-				expect.objectContaining({ options: expect.any(Array) }),
-				"cursor",
+			expect(mockMultiselectInput).toHaveBeenCalledWith(
+				"Which IDEs should the instructions be written for?",
+				expect.objectContaining({ options: expect.any(Array), required: true }),
+				["cursor"],
 			);
-			expect(result).toBe("windsurf");
+			expect(result).toEqual(["windsurf", "cline"]);
 		});
 
-		it("should throw when provided ideFormat is not valid", async () => {
+		it("should prompt when the provided ideFormats are empty", async () => {
+			mockMultiselectInput.mockResolvedValue(["cursor"]);
+
+			await expect(getIdeFormatSelection([])).resolves.toEqual(["cursor"]);
+			expect(mockMultiselectInput).toHaveBeenCalled();
+		});
+
+		it("should throw when a provided ideFormat is not valid", async () => {
 			await expect(
-				getIdeFormatSelection("invalid" as "cursor"),
+				getIdeFormatSelection(["cursor", "invalid" as "cursor"]),
 			).rejects.toThrow(
 				/Unsupported IDE format: invalid \(valid: cursor, windsurf, cline\)/,
 			);
-			expect(mockSelectInput).not.toHaveBeenCalled();
+			expect(mockMultiselectInput).not.toHaveBeenCalled();
 		});
 
 		it("should throw when prompt returns invalid value", async () => {
-			mockSelectInput.mockResolvedValue("unknown");
+			mockMultiselectInput.mockResolvedValue(["unknown"]);
 
 			await expect(getIdeFormatSelection()).rejects.toThrow(
 				/Unsupported IDE format: unknown/,
 			);
 		});
+
+		it("should throw when no format is selected", async () => {
+			mockMultiselectInput.mockResolvedValue([]);
+
+			await expect(getIdeFormatSelection()).rejects.toThrow(
+				"Select at least one IDE format.",
+			);
+		});
 	});
 
 	describe("getGenerateInstructionsConfiguration", () => {
-		it("should return ideFormat from CLI flags and empty selections when no instructions available", async () => {
+		it("should return ideFormats from CLI flags and empty selections when no instructions available", async () => {
 			vi.mocked(listAvailableInstructions).mockResolvedValue([]);
 			vi.mocked(listLanguageNames).mockResolvedValue([]);
 
 			const result = await getGenerateInstructionsConfiguration({
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 
 			expect(result).toEqual({
 				selections: [],
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
-			expect(mockSelectInput).not.toHaveBeenCalled();
+			expect(mockMultiselectInput).not.toHaveBeenCalled();
 		});
 
-		it("should prompt for ideFormat when not provided", async () => {
+		it("should prompt for ideFormats when not provided", async () => {
 			vi.mocked(listAvailableInstructions).mockResolvedValue([]);
 			vi.mocked(listLanguageNames).mockResolvedValue([]);
-			mockSelectInput.mockResolvedValue("cline");
+			mockMultiselectInput.mockResolvedValue(["cline"]);
 
 			const result = await getGenerateInstructionsConfiguration({});
 
-			expect(mockSelectInput).toHaveBeenCalledWith(
-				"Which IDE should the instructions be written for?",
+			expect(mockMultiselectInput).toHaveBeenCalledWith(
+				"Which IDEs should the instructions be written for?",
 				expect.any(Object),
-				"cursor",
+				["cursor"],
 			);
-			expect(result.ideFormat).toBe("cline");
+			expect(result.ideFormats).toEqual(["cline"]);
 			expect(result.selections).toEqual([]);
 		});
 
@@ -170,10 +185,10 @@ describe("resources/instructions/config", () => {
 			});
 
 			const result = await getGenerateInstructionsConfiguration({
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 
-			expect(result.ideFormat).toBe("cursor");
+			expect(result.ideFormats).toEqual(["cursor"]);
 			expect(result.selections).toHaveLength(1);
 			expect(result.selections[0]).toMatchObject({
 				category: InstructionCategory.ESSENTIAL,
@@ -208,7 +223,7 @@ describe("resources/instructions/config", () => {
 			});
 
 			const result = await getGenerateInstructionsConfiguration({
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 
 			const langSelections = result.selections.filter(
@@ -240,7 +255,7 @@ describe("resources/instructions/config", () => {
 			});
 
 			const result = await getGenerateInstructionsConfiguration({
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 
 			const langSelections = result.selections.filter(
@@ -277,7 +292,7 @@ describe("resources/instructions/config", () => {
 			});
 
 			const result = await getGenerateInstructionsConfiguration({
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 
 			const langSelections = result.selections.filter(
@@ -304,7 +319,7 @@ describe("resources/instructions/config", () => {
 			});
 
 			const result = await getGenerateInstructionsConfiguration({
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 
 			const projectSpecSelections = result.selections.filter(
@@ -329,7 +344,7 @@ describe("resources/instructions/config", () => {
 			mockSelectInput.mockResolvedValueOnce("cursor").mockResolvedValueOnce(""); // skip project-spec
 
 			const result = await getGenerateInstructionsConfiguration({
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 
 			const projectSpecSelections = result.selections.filter(
@@ -381,7 +396,7 @@ describe("resources/instructions/config", () => {
 			});
 
 			const result = await getGenerateInstructionsConfiguration({
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 
 			const projectSpecSelections = result.selections.filter(
@@ -428,7 +443,7 @@ describe("resources/instructions/config", () => {
 			});
 
 			const result = await getGenerateInstructionsConfiguration({
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 
 			const projectSpecSelections = result.selections.filter(
@@ -461,7 +476,7 @@ describe("resources/instructions/config", () => {
 			});
 
 			const result = await getGenerateInstructionsConfiguration({
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 
 			const toolingSelections = result.selections.filter(
@@ -496,7 +511,7 @@ describe("resources/instructions/config", () => {
 			});
 
 			const result = await getGenerateInstructionsConfiguration({
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 
 			const skillSelections = result.selections.filter(
@@ -533,7 +548,7 @@ describe("resources/instructions/config", () => {
 			});
 
 			const result = await getGenerateInstructionsConfiguration({
-				ideFormat: "cursor",
+				ideFormats: ["cursor"],
 			});
 
 			const subagentSelections = result.selections.filter(
@@ -553,11 +568,11 @@ describe("resources/instructions/config", () => {
 			vi.mocked(listAvailableInstructions).mockResolvedValue([]);
 			vi.mocked(listLanguageNames).mockResolvedValue([]);
 			// getIdeFormatSelection(undefined) prompts; default would be IDE_FORMATS[0].value
-			mockSelectInput.mockResolvedValue("cursor");
+			mockMultiselectInput.mockResolvedValue(["cursor"]);
 
 			const result = await getGenerateInstructionsConfiguration();
 
-			expect(result).toEqual({ selections: [], ideFormat: "cursor" });
+			expect(result).toEqual({ selections: [], ideFormats: ["cursor"] });
 		});
 	});
 });
@@ -1,6 +1,5 @@
 import prompts from "../../cli/prompts";
 import tasks from "../../cli/tasks";
-import { IS_LOCAL_MODE } from "../../core/constants";
 import {
 	getInstructionWithFrontmatter,
 	InstructionCategory,
@@ -8,9 +7,12 @@ import {
 	listAvailableInstructions,
 	type RuleFrontmatter,
 } from "../../core/instructions";
+import { getTemplateRegistry } from "../../core/registry";
+import type { RegistryOptions } from "../../core/registry.source";
 import { listLanguageNames, listProjectSpecNames } from "../../core/templates";
 import { capitalizeFirstLetter } from "../../core/utils";
-import { IDE_FORMATS, type IdeFormat } from "./ide-formats";
+import { loadIdeFormats } from "./ide-format-definitions";
+import type { IdeFormat } from "./ide-formats";
 
 /** Option value used to skip a step (single-select or multi-select). */
 const SKIP_OPTION_VALUE = "";
@@ -31,7 +33,7 @@ async function withLoadingTask<T>(
 	goalTitle: string,
 	fn: () => Promise<T>,
 ): Promise<T> {
-	if (IS_LOCAL_MODE) return fn();
+	if (getTemplateRegistry().isLocal) return fn();
 
 	let result!: T;
 	await tasks.runWithTasks(goalTitle, async () => {
@@ -131,13 +133,14 @@ export type InstructionSelection = {
 /** Configuration for adding instructions to an existing project (supports multiple selections). */
 export type GenerateInstructionsConfiguration = {
 	selections: InstructionSelection[];
-	ideFormat: IdeFormat;
+	/** IDE formats every selected instruction is written for. */
+	ideFormats: IdeFormat[];
 };
 
 /** Options for the instructions command (CLI flags / programmatic input). */
-export type GenerateInstructionsOptions = {
-	/** Target IDE format for written instructions. */
-	ideFormat?: IdeFormat;
+export type GenerateInstructionsOptions = RegistryOptions & {
+	/** Target IDE formats for written instructions. */
+	ideFormats?: IdeFormat[];
 };
 
 /** All instruction categories in display order. */
@@ -152,16 +155,16 @@ export const INSTRUCTION_CATEGORIES: InstructionCategory[] = [
 
 /**
  * Gather configuration for standalone instructions (add to existing project).
- * Only ideFormat can be passed via options; all instruction selections are made interactively.
- * @param cliFlags - Optional CLI options (ideFormat only).
- * @returns Configuration with selections and IDE format.
+ * Only ideFormats can be passed via options; all instruction selections are made interactively.
+ * @param cliFlags - Optional CLI options (ideFormats only).
+ * @returns Configuration with selections and IDE formats.
  */
 export async function getGenerateInstructionsConfiguration(
 	cliFlags: Partial<GenerateInstructionsOptions> = {},
 ): Promise<GenerateInstructionsConfiguration> {
-	const ideFormat = await getIdeFormatSelection(cliFlags.ideFormat);
+	const ideFormats = await getIdeFormatSelection(cliFlags.ideFormats);
 	const selections = await getGranularInstructionsSelections();
-	return { selections, ideFormat };
+	return { selections, ideFormats };
 }
 
 /**
@@ -362,26 +365,36 @@ async function promptProjectSpecSelections(
 
 /**
  * Prompt for or validate the IDE format selection. Uses CLI flags when provided and valid.
- * @param ideFormat - Optional IDE format.
- * @returns Promise resolving to the selected IDE format.
- * @throws When the provided ideFormat is not a valid IdeFormat value.
+ * Several formats can be chosen, e.g. for repositories shared between Cursor and Claude Code users.
+ * The built-in formats are offered along with those of the registry and the user's config dir.
+ * @param ideFormats - Optional IDE formats.
+ * @returns Promise resolving to the selected IDE formats.
+ * @throws When a provided format is not a valid IdeFormat value, when no format is selected, or when a formats file is invalid.
  */
 export async function getIdeFormatSelection(
-	ideFormat?: IdeFormat,
-): Promise<IdeFormat> {
-	const selectedIdeFormat =
-		ideFormat ??
-		(await prompts.selectInput<IdeFormat>(
-			"Which IDE should the instructions be written for?",
-			{ options: [...IDE_FORMATS] },
-			IDE_FORMATS[0].value,
-		));
-
-	const validFormats = new Set(IDE_FORMATS.map((f) => f.value));
-	if (!validFormats.has(selectedIdeFormat))
-		throw new Error(
-			`Unsupported IDE format: ${selectedIdeFormat} (valid: ${Array.from(validFormats).join(", ")})`,
-		);
-
-	return selectedIdeFormat;
+	ideFormats?: IdeFormat[],
+): Promise<IdeFormat[]> {
+	const formats = await loadIdeFormats();
+	const selectedIdeFormats =
+		ideFormats && ideFormats.length > 0
+			? ideFormats
+			: await prompts.multiselectInput(
+					"Which IDEs should the instructions be written for?",
+					{
+						options: formats.map((f) => ({ label: f.label, value: f.id })),
+						required: true,
+					},
+					[formats[0].id],
+				);
+
+	const validFormats = new Set(formats.map((f) => f.id));
+	for (const format of selectedIdeFormats)
+		if (!validFormats.has(format))
+			throw new Error(
+				`Unsupported IDE format: ${format} (valid: ${Array.from(validFormats).join(", ")})`,
+			);
+	if (selectedIdeFormats.length === 0)
+		throw new Error("Select at least one IDE format.");
+
+	return selectedIdeFormats;
 }
@@ -0,0 +1,320 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../cli/logger", () => ({
+	default: { warn: vi.fn() },
+}));
+
+vi.mock("../../core/config", () => ({
+	getConfigDir: vi.fn(),
+}));
+
+vi.mock("../../core/registry", () => ({
+	getTemplateRegistry: vi.fn(),
+}));
+
+vi.mock("../../core/registry.source", () => ({
+	getRegistrySource: vi.fn(),
+}));
+
+// Import after mocks
+import logger from "../../cli/logger";
+import { getConfigDir } from "../../core/config";
+import {
+	getTemplateRegistry,
+	type TemplateRegistry,
+} from "../../core/registry";
+import {
+	getRegistrySource,
+	type RegistrySource,
+} from "../../core/registry.source";
+import {
+	BUILTIN_IDE_FORMATS,
+	getIdeFormatDefinition,
+	loadIdeFormats,
+	parseIdeFormatDefinitions,
+	readIdeFormatsFile,
+	validateIdeFormatDefinition,
+} from "./ide-format-definitions";
+
+describe("resources/instructions/ide-format-definitions", () => {
+	let tmpDir: string;
+	let configDir: string;
+	let registryDir: string;
+
+	/**
+	 * Write a file under the temporary directory.
+	 * @param relative - Path relative to the temporary directory.
+	 * @param content - File content.
+	 */
+	function write(relative: string, content: string): void {
+		const full = path.join(tmpDir, relative);
+		fs.mkdirSync(path.dirname(full), { recursive: true });
+		fs.writeFileSync(full, content);
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ide-formats-test-"));
+		configDir = path.join(tmpDir, "config");
+		registryDir = path.join(tmpDir, "registry");
+		vi.mocked(getConfigDir).mockReturnValue(configDir);
+		// A new source per test, so formats are loaded again
+		vi.mocked(getRegistrySource).mockReturnValue({
+			kind: "local",
+			path: registryDir,
+		} as RegistrySource);
+		vi.mocked(getTemplateRegistry).mockReturnValue({
+			listFiles: vi.fn(async () =>
+				fs.existsSync(registryDir)
+					? fs.readdirSync(registryDir).map((f) => path.parse(f).name)
+					: [],
+			),
+			materialize: vi.fn(async () => registryDir),
+		} as unknown as TemplateRegistry);
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("BUILTIN_IDE_FORMATS", () => {
+		it("should ship every built-in format, validated", () => {
+			expect(BUILTIN_IDE_FORMATS.map((format) => format.id)).toEqual([
+				"cursor",
+				"windsurf",
+				"cline",
+				"claude",
+				"copilot",
+				"agents-md",
+				"gemini",
+				"zed",
+				"roo",
+				"kiro",
+				"junie",
+			]);
+		});
+	});
+
+	describe("validateIdeFormatDefinition", () => {
+		const valid = {
+			id: "acme",
+			label: "Acme",
+			root: ".acme",
+			rules: { path: "{{ideRoot}}/rules/{{ruleName}}.md" },
+			skills: { path: "{{ideRoot}}/skills/{{ruleName}}.md" },
+		};
+
+		it("should accept a minimal definition", () => {
+			expect(() => validateIdeFormatDefinition(valid)).not.toThrow();
+		});
+
+		it("should describe the first problem found", () => {
+			expect(() =>
+				validateIdeFormatDefinition({ ...valid, id: "Acme" }),
+			).toThrow(
+				'Invalid IDE format "Acme": id must be lowercase letters, digits and dashes.',
+			);
+			expect(() =>
+				validateIdeFormatDefinition({ ...valid, skills: undefined }),
+			).toThrow("skills: expected a mapping with a path");
+			expect(() =>
+				validateIdeFormatDefinition({
+					...valid,
+					rules: { path: "../outside/{{ruleName}}.md" },
+				}),
+			).toThrow("rules: path must stay inside the project");
+			expect(() =>
+				validateIdeFormatDefinition({
+					...valid,
+					rules: { path: "AGENTS.md", aggregation: "merged" },
+				}),
+			).toThrow("rules: aggregation must be one of none, sections, categories");
+			expect(() =>
+				validateIdeFormatDefinition({ ...valid, extension: "md" }),
+			).toThrow('extension must be "." followed by letters, digits and dots');
+		});
+
+		it("should refuse roots and extensions that lead outside the project", () => {
+			for (const root of [
+				"../../outside",
+				"/etc",
+				"C:\\Windows",
+				".acme/../..",
+			])
+				expect(() => validateIdeFormatDefinition({ ...valid, root })).toThrow(
+					"root must stay inside the project",
+				);
+			for (const extension of ["./../../x", ".md/x", "./md", ". md"])
+				expect(() =>
+					validateIdeFormatDefinition({ ...valid, extension }),
+				).toThrow('extension must be "." followed by letters, digits and dots');
+			expect(() =>
+				validateIdeFormatDefinition({
+					...valid,
+					extension: ".instructions.md",
+				}),
+			).not.toThrow();
+		});
+
+		it("should validate frontmatter field mappings", () => {
+			const withFrontmatter = (frontmatter: unknown) => ({
+				...valid,
+				rules: { path: "rules/{{ruleName}}.md", frontmatter },
+			});
+
+			expect(() =>
+				validateIdeFormatDefinition(
+					withFrontmatter({
+						globs: { from: "paths", format: "joined" },
+						mode: { value: "agent" },
+						description: [{ from: "description" }, { from: "name" }],
+					}),
+				),
+			).not.toThrow();
+			expect(() =>
+				validateIdeFormatDefinition(
+					withFrontmatter({ globs: { from: "globs" } }),
+				),
+			).toThrow("rules: frontmatter.globs: from must be one of");
+			expect(() =>
+				validateIdeFormatDefinition(withFrontmatter({ mode: {} })),
+			).toThrow("rules: frontmatter.mode: expected from or value");
+			expect(() =>
+				validateIdeFormatDefinition(
+					withFrontmatter({ mode: { value: "agent", format: "yaml" } }),
+				),
+			).toThrow("rules: frontmatter.mode: format must be one of");
+		});
+	});
+
+	describe("parseIdeFormatDefinitions", () => {
+		it("should require a formats: list and name the file of an invalid definition", () => {
+			expect(() => parseIdeFormatDefinitions({}, "formats.yaml")).toThrow(
+				"Invalid IDE formats in formats.yaml: expected a formats: list.",
+			);
+			expect(() =>
+				parseIdeFormatDefinitions(
+					{ formats: [{ id: "acme" }] },
+					"formats.yaml",
+				),
+			).toThrow(
+				'Invalid IDE format "acme": label must be a non-empty string (in formats.yaml).',
+			);
+		});
+	});
+
+	describe("readIdeFormatsFile", () => {
+		it("should read YAML definitions and return nothing when there is no file", async () => {
+			await expect(readIdeFormatsFile(configDir)).resolves.toEqual([]);
+
+			write(
+				"config/ide-formats.yaml",
+				[
+					"formats:",
+					"  - id: acme",
+					"    label: Acme",
+					"    root: .acme",
+					"    rules:",
+					"      path: .acme/{{ruleName}}.md",
+					"    skills:",
+					"      path: .acme/skills/{{ruleName}}.md",
+				].join("\n"),
+			);
+
+			await expect(readIdeFormatsFile(configDir)).resolves.toEqual([
+				{
+					id: "acme",
+					label: "Acme",
+					root: ".acme",
+					rules: { path: ".acme/{{ruleName}}.md" },
+					skills: { path: ".acme/skills/{{ruleName}}.md" },
+				},
+			]);
+		});
+
+		it("should report files that cannot be parsed", async () => {
+			write("config/ide-formats.json", "{");
+
+			await expect(readIdeFormatsFile(configDir)).rejects.toThrow(
+				"Failed to parse",
+			);
+		});
+	});
+
+	describe("loadIdeFormats", () => {
+		/**
+		 * Build a format definition.
+		 * @param id - Format id.
+		 * @param label - Format label.
+		 * @returns The definition.
+		 */
+		const format = (id: string, label: string) => ({
+			id,
+			label,
+			root: `.${id}`,
+			rules: { path: `.${id}/{{ruleName}}.md` },
+			skills: { path: `.${id}/skills/{{ruleName}}.md` },
+		});
+
+		it("should add the formats of the registry and the config dir, the user's replacing earlier ones with a warning", async () => {
+			write(
+				"registry/ide-formats.json",
+				JSON.stringify({ formats: [format("acme", "Acme (team)")] }),
+			);
+			write(
+				"config/ide-formats.json",
+				JSON.stringify({
+					formats: [
+						format("acme", "Acme (mine)"),
+						format("cursor", "My Cursor"),
+					],
+				}),
+			);
+
+			const formats = await loadIdeFormats();
+
+			expect(formats).toHaveLength(BUILTIN_IDE_FORMATS.length + 1);
+			expect(formats[0]).toMatchObject({ id: "cursor", label: "My Cursor" });
+			expect(formats.at(-1)).toMatchObject({
+				id: "acme",
+				label: "Acme (mine)",
+			});
+			expect(getIdeFormatDefinition("acme").label).toBe("Acme (mine)");
+			expect(logger.warn).toHaveBeenCalledWith(
+				`${path.join(configDir, "ide-formats.json")} replaces the Acme (team) IDE format ("acme").`,
+			);
+			expect(logger.warn).toHaveBeenCalledWith(
+				`${path.join(configDir, "ide-formats.json")} replaces the Cursor IDE format ("cursor").`,
+			);
+		});
+
+		it("should refuse registry formats that replace a built-in one", async () => {
+			write(
+				"registry/ide-formats.yaml",
+				JSON.stringify({ formats: [format("cursor", "Not Cursor")] }),
+			);
+
+			await expect(loadIdeFormats()).rejects.toThrow(
+				'The template registry can\'t replace the built-in IDE format "cursor" (in templates/instructions/ide-formats.yaml); give it another id.',
+			);
+		});
+
+		it("should load the formats once per registry source", async () => {
+			await loadIdeFormats();
+			await loadIdeFormats();
+
+			expect(getTemplateRegistry).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("getIdeFormatDefinition", () => {
+		it("should throw for unknown formats", () => {
+			expect(() => getIdeFormatDefinition("unknown")).toThrow(
+				/Unsupported IDE format: unknown \(valid: cursor, /,
+			);
+		});
+	});
+});
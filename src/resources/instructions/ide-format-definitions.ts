@@ -0,0 +1,398 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import logger from "../../cli/logger";
+import { getConfigDir } from "../../core/config";
+import { getTemplateRegistry } from "../../core/registry";
+import {
+	getRegistrySource,
+	type RegistrySource,
+} from "../../core/registry.source";
+import builtinIdeFormats from "./ide-formats.json";
+
+/** Instruction fields a frontmatter field can take its value from ("name" is the instruction's name). */
+export const IDE_FRONTMATTER_SOURCES = [
+	"name",
+	"description",
+	"paths",
+	"alwaysApply",
+	"model",
+	"readonly",
+] as const;
+
+/**
+ * How a frontmatter value is written:
+ * - string: a double-quoted string;
+ * - plain: the value as-is;
+ * - list: a YAML list of double-quoted strings;
+ * - joined: a list as one comma-separated, double-quoted string;
+ * - string-or-list: a string for a single item, a list otherwise.
+ */
+export const IDE_FRONTMATTER_FORMATS = [
+	"string",
+	"plain",
+	"list",
+	"joined",
+	"string-or-list",
+] as const;
+
+/**
+ * How instructions are written to a target's path:
+ * - none: one file per instruction;
+ * - sections: managed sections of a shared file (e.g. Copilot's repo-wide instructions);
+ * - categories: managed sections of a shared file, under a heading per category (e.g. AGENTS.md).
+ */
+export const IDE_FORMAT_AGGREGATIONS = [
+	"none",
+	"sections",
+	"categories",
+] as const;
+
+/**
+ * One way to fill a frontmatter field. With `from`, it applies when that instruction field is set
+ * (and equals `equals`, when given), and writes `value` or else the field itself; without `from`, it always writes `value`.
+ */
+export type IdeFrontmatterField = {
+	/** Instruction field the value comes from. */
+	from?: (typeof IDE_FRONTMATTER_SOURCES)[number];
+	/** Only apply when the instruction field has this value. */
+	equals?: string | boolean;
+	/** Value to write instead of the instruction field. */
+	value?: string | boolean;
+	/** How the value is written; by default strings are quoted, except fixed values, and lists become YAML lists. */
+	format?: (typeof IDE_FRONTMATTER_FORMATS)[number];
+};
+
+/** Where and how one kind of instruction (rules, skills, ...) is written for an IDE. */
+export type IdeFormatTarget = {
+	/** Path relative to the project root; {{ruleName}}, {{ideRoot}} and {{extension}} are replaced. */
+	path: string;
+	/** How instructions are written to the path (default none). */
+	aggregation?: (typeof IDE_FORMAT_AGGREGATIONS)[number];
+	/** With categories, rules whose paths cover one directory go into a copy of the file in that directory. */
+	nested?: boolean;
+	/** Frontmatter fields in output order; a list of ways to fill a field uses the first that applies. */
+	frontmatter?: Record<string, IdeFrontmatterField | IdeFrontmatterField[]>;
+	/** Prefix rules with the files they apply to, for IDEs that can't scope rules to globs. */
+	appliesToNote?: boolean;
+};
+
+/** An IDE format: where each kind of instruction goes and how its frontmatter is translated. */
+export type IdeFormatDefinition = {
+	/** Identifier used with --ide-format (lowercase letters, digits and dashes). */
+	id: string;
+	/** Name shown in prompts. */
+	label: string;
+	/** Dot-directory of the IDE ({{ideRoot}} in paths and instruction bodies). */
+	root: string;
+	/** Extension of rule files ({{extension}} in paths; default .md). */
+	extension?: string;
+	/** Where rules go. */
+	rules: IdeFormatTarget;
+	/** Where essential instructions go when not with the other rules (e.g. Copilot's repo-wide file). */
+	essentials?: IdeFormatTarget;
+	/** Where skills go; their frontmatter is kept as written unless the target declares one. */
+	skills: IdeFormatTarget;
+	/** Where subagents go; by default they are written like skills, with name and description frontmatter. */
+	agents?: IdeFormatTarget;
+};
+
+/** Basenames of the files user formats are read from, in the config dir and in the registry's instructions directory. */
+export const IDE_FORMATS_FILENAME = "ide-formats";
+
+/** Extensions accepted for IDE format files, in lookup order. */
+const IDE_FORMATS_EXTENSIONS = [".yaml", ".yml", ".json"] as const;
+
+/** Registry subpath holding the shared instructions (and optionally an ide-formats file). */
+const REGISTRY_INSTRUCTIONS_PATH = "templates/instructions";
+
+/**
+ * Check that a frontmatter field mapping is well-formed.
+ * @param field - Raw mapping.
+ * @param fail - Reports a problem.
+ */
+function validateFrontmatterField(
+	field: unknown,
+	fail: (reason: string) => never,
+): void {
+	if (!field || typeof field !== "object" || Array.isArray(field))
+		fail("expected a mapping with from or value");
+	const def = field as Record<string, unknown>;
+	if (def.from === undefined && def.value === undefined)
+		fail("expected from or value");
+	if (
+		def.from !== undefined &&
+		!IDE_FRONTMATTER_SOURCES.includes(def.from as never)
+	)
+		fail(`from must be one of ${IDE_FRONTMATTER_SOURCES.join(", ")}`);
+	for (const key of ["equals", "value"])
+		if (
+			def[key] !== undefined &&
+			typeof def[key] !== "string" &&
+			typeof def[key] !== "boolean"
+		)
+			fail(`${key} must be a string or a boolean`);
+	if (
+		def.format !== undefined &&
+		!IDE_FRONTMATTER_FORMATS.includes(def.format as never)
+	)
+		fail(`format must be one of ${IDE_FRONTMATTER_FORMATS.join(", ")}`);
+}
+
+/**
+ * Whether a path is relative and never climbs above the directory it is resolved from.
+ * @param value - Path or path template.
+ * @returns True when the path has no root and no ".." segment.
+ */
+function isProjectRelative(value: string): boolean {
+	const segments = value.replaceAll("\\", "/").split("/");
+	return (
+		!path.isAbsolute(value) &&
+		!path.win32.isAbsolute(value) &&
+		!segments.includes("..")
+	);
+}
+
+/**
+ * Check that a target is well-formed.
+ * @param target - Raw target.
+ * @param fail - Reports a problem.
+ */
+function validateTarget(
+	target: unknown,
+	fail: (reason: string) => never,
+): void {
+	if (!target || typeof target !== "object" || Array.isArray(target))
+		fail("expected a mapping with a path");
+	const def = target as Record<string, unknown>;
+	if (typeof def.path !== "string" || !def.path.trim())
+		fail("path must be a non-empty string");
+	if (!isProjectRelative(def.path as string))
+		fail("path must stay inside the project");
+	if (
+		def.aggregation !== undefined &&
+		!IDE_FORMAT_AGGREGATIONS.includes(def.aggregation as never)
+	)
+		fail(`aggregation must be one of ${IDE_FORMAT_AGGREGATIONS.join(", ")}`);
+	for (const key of ["nested", "appliesToNote"])
+		if (def[key] !== undefined && typeof def[key] !== "boolean")
+			fail(`${key} must be a boolean`);
+
+	const frontmatter = def.frontmatter;
+	if (frontmatter === undefined) return;
+	if (
+		!frontmatter ||
+		typeof frontmatter !== "object" ||
+		Array.isArray(frontmatter)
+	)
+		fail("frontmatter must be a mapping of field names");
+	for (const [name, field] of Object.entries(
+		frontmatter as Record<string, unknown>,
+	)) {
+		const failField = (reason: string): never =>
+			fail(`frontmatter.${name}: ${reason}`);
+		if (Array.isArray(field)) {
+			if (field.length === 0) failField("expected at least one mapping");
+			for (const option of field) validateFrontmatterField(option, failField);
+		} else validateFrontmatterField(field, failField);
+	}
+}
+
+/**
+ * Check that an IDE format definition is well-formed.
+ * @param definition - Raw definition.
+ * @returns Nothing; the definition is valid when no error is thrown.
+ * @throws Error describing the first problem found.
+ */
+export function validateIdeFormatDefinition(
+	definition: unknown,
+): asserts definition is IdeFormatDefinition {
+	const id =
+		definition && typeof definition === "object"
+			? (definition as { id?: unknown }).id
+			: undefined;
+	const fail = (reason: string): never => {
+		throw new Error(
+			`Invalid IDE format${typeof id === "string" ? ` "${id}"` : ""}: ${reason}.`,
+		);
+	};
+
+	if (
+		!definition ||
+		typeof definition !== "object" ||
+		Array.isArray(definition)
+	)
+		fail("expected a mapping with an id");
+	const def = definition as Record<string, unknown>;
+	if (typeof id !== "string" || !/^[a-z0-9][a-z0-9-]*$/.test(id))
+		fail("id must be lowercase letters, digits and dashes");
+	if (typeof def.label !== "string" || !def.label.trim())
+		fail("label must be a non-empty string");
+	if (typeof def.root !== "string" || !def.root.trim())
+		fail("root must be a non-empty string");
+	if (!isProjectRelative(def.root as string))
+		fail("root must stay inside the project");
+	if (
+		def.extension !== undefined &&
+		(typeof def.extension !== "string" ||
+			!/^\.[A-Za-z0-9.]+$/.test(def.extension))
+	)
+		fail('extension must be "." followed by letters, digits and dots');
+
+	for (const key of ["rules", "skills", "essentials", "agents"]) {
+		if (def[key] === undefined && (key === "essentials" || key === "agents"))
+			continue;
+		validateTarget(def[key], (reason) => fail(`${key}: ${reason}`));
+	}
+}
+
+/**
+ * Parse the content of an IDE formats file: a `formats:` list of definitions.
+ * @param data - Parsed YAML or JSON.
+ * @param source - Where the data comes from, for error messages.
+ * @returns The definitions, in file order.
+ * @throws Error when the file has no formats: list or a definition is invalid.
+ */
+export function parseIdeFormatDefinitions(
+	data: unknown,
+	source: string,
+): IdeFormatDefinition[] {
+	const formats =
+		data && typeof data === "object" && !Array.isArray(data)
+			? (data as { formats?: unknown }).formats
+			: undefined;
+	if (!Array.isArray(formats))
+		throw new Error(
+			`Invalid IDE formats in ${source}: expected a formats: list.`,
+		);
+
+	for (const format of formats) {
+		try {
+			validateIdeFormatDefinition(format);
+		} catch (e) {
+			const msg = e instanceof Error ? e.message : String(e);
+			throw new Error(`${msg.replace(/\.$/, "")} (in ${source}).`);
+		}
+	}
+	return formats as IdeFormatDefinition[];
+}
+
+/** IDE formats that ship with yehle, in prompt order. */
+export const BUILTIN_IDE_FORMATS: IdeFormatDefinition[] =
+	parseIdeFormatDefinitions(builtinIdeFormats, "the built-in IDE formats");
+
+/**
+ * Find the IDE formats file of a directory.
+ * @param dir - Directory to look in.
+ * @returns Path of the first ide-formats.yaml, .yml or .json file found, or undefined.
+ */
+function findIdeFormatsFile(dir: string): string | undefined {
+	return IDE_FORMATS_EXTENSIONS.map((extension) =>
+		path.join(dir, `${IDE_FORMATS_FILENAME}${extension}`),
+	).find((filePath) => fs.existsSync(filePath));
+}
+
+/**
+ * Read IDE format definitions from the first ide-formats.yaml, .yml or .json file found in a directory.
+ * @param dir - Directory to look in.
+ * @returns Promise resolving to the definitions; empty when the directory has no such file.
+ * @throws Error when the file cannot be parsed or a definition is invalid.
+ */
+export async function readIdeFormatsFile(
+	dir: string,
+): Promise<IdeFormatDefinition[]> {
+	const filePath = findIdeFormatsFile(dir);
+	if (!filePath) return [];
+
+	let data: unknown;
+	try {
+		data = parseYaml(await fs.promises.readFile(filePath, "utf8"));
+	} catch (e) {
+		const msg = e instanceof Error ? e.message : String(e);
+		throw new Error(`Failed to parse ${filePath}: ${msg}`);
+	}
+	return parseIdeFormatDefinitions(data, filePath);
+}
+
+/**
+ * Read the IDE formats shared through the active registry (templates/instructions/ide-formats.yaml).
+ * A registry can add formats but not replace the built-in ones, so a run with a built-in format writes the same files whatever the registry holds.
+ * @returns Promise resolving to the definitions; empty when the registry has none.
+ * @throws Error when the file is invalid, reuses a built-in id, or a remote registry cannot be read.
+ */
+async function readRegistryIdeFormats(): Promise<IdeFormatDefinition[]> {
+	const registry = getTemplateRegistry();
+	const names = await registry.listFiles(
+		REGISTRY_INSTRUCTIONS_PATH,
+		IDE_FORMATS_EXTENSIONS,
+	);
+	if (!names.includes(IDE_FORMATS_FILENAME)) return [];
+
+	const dir = await registry.materialize(
+		REGISTRY_INSTRUCTIONS_PATH,
+		"yehle-instructions-",
+	);
+	const formats = await readIdeFormatsFile(dir);
+	const builtin = formats.find((format) =>
+		BUILTIN_IDE_FORMATS.some(({ id }) => id === format.id),
+	);
+	if (builtin)
+		throw new Error(
+			`The template registry can't replace the built-in IDE format "${builtin.id}" (in ${REGISTRY_INSTRUCTIONS_PATH}/${path.basename(findIdeFormatsFile(dir) ?? IDE_FORMATS_FILENAME)}); give it another id.`,
+		);
+	return formats;
+}
+
+/** IDE formats loaded for a registry source, so every instruction of a command reads them once. */
+let loadedFormats: {
+	source: RegistrySource;
+	formats: IdeFormatDefinition[];
+} | null = null;
+
+/**
+ * Load every available IDE format: the built-in ones, then those of the active registry, then the user's own
+ * (ide-formats.yaml in the yehle config dir). The user's formats can replace any earlier one with the same id, with a warning.
+ * @returns Promise resolving to the formats, built-in ones first.
+ * @throws Error when a formats file is invalid or the registry reuses a built-in id.
+ */
+export async function loadIdeFormats(): Promise<IdeFormatDefinition[]> {
+	const source = getRegistrySource();
+	if (loadedFormats?.source === source) return loadedFormats.formats;
+
+	const byId = new Map<string, IdeFormatDefinition>();
+	for (const format of [
+		...BUILTIN_IDE_FORMATS,
+		...(await readRegistryIdeFormats()),
+	])
+		byId.set(format.id, format);
+
+	const configDir = getConfigDir();
+	for (const format of await readIdeFormatsFile(configDir)) {
+		const replaced = byId.get(format.id);
+		if (replaced)
+			logger.warn(
+				`${findIdeFormatsFile(configDir)} replaces the ${replaced.label} IDE format ("${format.id}").`,
+			);
+		byId.set(format.id, format);
+	}
+
+	const formats = [...byId.values()];
+	loadedFormats = { source, formats };
+	return formats;
+}
+
+/**
+ * Get the definition of an IDE format among the loaded ones (the built-in ones until loadIdeFormats has run).
+ * @param id - IDE format id.
+ * @returns The definition.
+ * @throws Error when no format has this id.
+ */
+export function getIdeFormatDefinition(id: string): IdeFormatDefinition {
+	const formats = loadedFormats?.formats ?? BUILTIN_IDE_FORMATS;
+	const definition = formats.find((format) => format.id === id);
+	if (!definition)
+		throw new Error(
+			`Unsupported IDE format: ${id} (valid: ${formats.map((format) => format.id).join(", ")})`,
+		);
+	return definition;
+}
@@ -1,10 +1,24 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 vi.mock("../../core/fs", () => ({
 	ensureDirAsync: vi.fn(() => Promise.resolve()),
+	upsertMarkdownSection: vi.fn(() => Promise.resolve()),
 	writeFileAsync: vi.fn(() => Promise.resolve()),
 }));
 
+vi.mock("./ide-format-definitions", async (importOriginal) => {
+	const actual =
+		await importOriginal<typeof import("./ide-format-definitions")>();
+	return {
+		...actual,
+		getIdeFormatDefinition: vi.fn(actual.getIdeFormatDefinition),
+		loadIdeFormats: vi.fn(async () => actual.BUILTIN_IDE_FORMATS),
+	};
+});
+
 vi.mock("../../core/instructions", () => ({
 	InstructionCategory: {
 		ESSENTIAL: "essential",
@@ -18,13 +32,22 @@ vi.mock("../../core/instructions", () => ({
 }));
 
 // Import after mocks
-import { ensureDirAsync, writeFileAsync } from "../../core/fs";
+import {
+	ensureDirAsync,
+	upsertMarkdownSection,
+	writeFileAsync,
+} from "../../core/fs";
 import {
 	InstructionCategory,
 	type RuleFrontmatter,
 } from "../../core/instructions";
+import {
+	getIdeFormatDefinition,
+	type IdeFormatDefinition,
+} from "./ide-format-definitions";
 import {
 	IDE_FORMATS,
+	parseIdeFormatFlags,
 	resolveOutputPath,
 	transformContentForIde,
 	writeInstructionToFile,
@@ -37,12 +60,34 @@ describe("resources/instructions/ide-formats", () => {
 
 	describe("IDE_FORMATS", () => {
 		it("should contain all supported IDE formats", () => {
-			expect(IDE_FORMATS).toHaveLength(4);
+			expect(IDE_FORMATS).toHaveLength(11);
 			expect(IDE_FORMATS.map((f) => f.value)).toEqual([
 				"cursor",
 				"windsurf",
 				"cline",
 				"claude",
+				"copilot",
+				"agents-md",
+				"gemini",
+				"zed",
+				"roo",
+				"kiro",
+				"junie",
+			]);
+		});
+	});
+
+	describe("parseIdeFormatFlags", () => {
+		it("should accept comma-separated and repeated values", () => {
+			expect(parseIdeFormatFlags(undefined)).toEqual([]);
+			expect(parseIdeFormatFlags("cursor")).toEqual(["cursor"]);
+			expect(parseIdeFormatFlags("cursor, claude")).toEqual([
+				"cursor",
+				"claude",
+			]);
+			expect(parseIdeFormatFlags(["cursor,claude", "cursor", " "])).toEqual([
+				"cursor",
+				"claude",
 			]);
 		});
 	});
@@ -89,6 +134,283 @@ describe("resources/instructions/ide-formats", () => {
 		});
 	});
 
+	describe("resolveOutputPath for copilot", () => {
+		it("should resolve essential instructions to the repo-wide file", () => {
+			const result = resolveOutputPath(
+				"copilot",
+				"code-style",
+				"/project",
+				InstructionCategory.ESSENTIAL,
+			);
+			expect(result).toBe("/project/.github/copilot-instructions.md");
+		});
+
+		it("should resolve other rules to path-specific instruction files", () => {
+			const result = resolveOutputPath(
+				"copilot",
+				"typescript",
+				"/project",
+				InstructionCategory.LANGUAGE,
+			);
+			expect(result).toBe(
+				"/project/.github/instructions/typescript.instructions.md",
+			);
+		});
+
+		it("should resolve skills to prompt files and subagents to chat modes", () => {
+			expect(
+				resolveOutputPath(
+					"copilot",
+					"deploy",
+					"/project",
+					InstructionCategory.SKILLS,
+				),
+			).toBe("/project/.github/prompts/deploy.prompt.md");
+			expect(
+				resolveOutputPath(
+					"copilot",
+					"planner",
+					"/project",
+					InstructionCategory.SUBAGENTS,
+				),
+			).toBe("/project/.github/chatmodes/planner.chatmode.md");
+		});
+	});
+
+	describe("resolveOutputPath for agents-md", () => {
+		it("should resolve every category to the root AGENTS.md", () => {
+			for (const category of [
+				InstructionCategory.ESSENTIAL,
+				InstructionCategory.SKILLS,
+				InstructionCategory.SUBAGENTS,
+			])
+				expect(
+					resolveOutputPath("agents-md", "rule", "/project", category),
+				).toBe("/project/AGENTS.md");
+		});
+
+		it("should resolve rules scoped to one directory to a nested AGENTS.md", () => {
+			const resolve = (paths: string[]) =>
+				resolveOutputPath(
+					"agents-md",
+					"rule",
+					"/project",
+					InstructionCategory.TOOLING,
+					{ paths },
+				);
+
+			expect(resolve(["src/components/**"])).toBe(
+				"/project/src/components/AGENTS.md",
+			);
+			expect(resolve(["./docs/**/*", "docs/**"])).toBe(
+				"/project/docs/AGENTS.md",
+			);
+			expect(resolve(["**/*.ts"])).toBe("/project/AGENTS.md");
+			expect(resolve(["src/**/*.ts"])).toBe("/project/AGENTS.md");
+			expect(resolve(["src/**", "test/**"])).toBe("/project/AGENTS.md");
+		});
+	});
+
+	describe("resolveOutputPath for other aggregated formats", () => {
+		it("should resolve gemini rules to GEMINI.md and its skills to skill files", () => {
+			expect(
+				resolveOutputPath(
+					"gemini",
+					"rule",
+					"/project",
+					InstructionCategory.ESSENTIAL,
+				),
+			).toBe("/project/GEMINI.md");
+			expect(
+				resolveOutputPath(
+					"gemini",
+					"react",
+					"/project",
+					InstructionCategory.TOOLING,
+					{ paths: ["web/**"] },
+				),
+			).toBe("/project/web/GEMINI.md");
+			expect(
+				resolveOutputPath(
+					"gemini",
+					"deploy",
+					"/project",
+					InstructionCategory.SKILLS,
+				),
+			).toBe("/project/.gemini/skills/deploy/SKILL.md");
+		});
+
+		it("should resolve every zed and junie instruction to a single file at the root", () => {
+			for (const category of [
+				InstructionCategory.TOOLING,
+				InstructionCategory.SKILLS,
+				InstructionCategory.SUBAGENTS,
+			]) {
+				expect(
+					resolveOutputPath("zed", "rule", "/project", category, {
+						paths: ["web/**"],
+					}),
+				).toBe("/project/.rules");
+				expect(
+					resolveOutputPath("junie", "rule", "/project", category, {
+						paths: ["web/**"],
+					}),
+				).toBe("/project/.junie/guidelines.md");
+			}
+		});
+
+		it("should resolve roo and kiro rules to files of their own", () => {
+			expect(
+				resolveOutputPath(
+					"roo",
+					"style",
+					"/project",
+					InstructionCategory.ESSENTIAL,
+				),
+			).toBe("/project/.roo/rules/style.md");
+			expect(
+				resolveOutputPath(
+					"roo",
+					"deploy",
+					"/project",
+					InstructionCategory.SKILLS,
+				),
+			).toBe("/project/.roo/skills/deploy/SKILL.md");
+			expect(
+				resolveOutputPath(
+					"kiro",
+					"style",
+					"/project",
+					InstructionCategory.ESSENTIAL,
+				),
+			).toBe("/project/.kiro/steering/style.md");
+			expect(
+				resolveOutputPath(
+					"kiro",
+					"style",
+					"/project",
+					InstructionCategory.SKILLS,
+				),
+			).toBe("/project/.kiro/steering/skill-style.md");
+			expect(
+				resolveOutputPath(
+					"kiro",
+					"style",
+					"/project",
+					InstructionCategory.SUBAGENTS,
+				),
+			).toBe("/project/.kiro/steering/agent-style.md");
+		});
+	});
+
+	describe("user-defined formats", () => {
+		const acme: IdeFormatDefinition = {
+			id: "acme",
+			label: "Acme",
+			root: ".acme",
+			extension: ".txt",
+			rules: {
+				path: "{{ideRoot}}/rules/{{ruleName}}{{extension}}",
+				frontmatter: {
+					title: [{ from: "description" }, { from: "name" }],
+					scope: [
+						{ from: "paths", format: "joined" },
+						{ value: "all", format: "string" },
+					],
+					pinned: { from: "alwaysApply" },
+				},
+			},
+			skills: { path: "{{ideRoot}}/skills/{{ruleName}}.md" },
+		};
+
+		it("should follow the definition's paths and frontmatter mapping", async () => {
+			const actual = await vi.importActual<
+				typeof import("./ide-format-definitions")
+			>("./ide-format-definitions");
+			vi.mocked(getIdeFormatDefinition).mockImplementation((id) =>
+				id === "acme" ? acme : actual.getIdeFormatDefinition(id),
+			);
+
+			try {
+				expect(
+					resolveOutputPath(
+						"acme",
+						"style",
+						"/project",
+						InstructionCategory.ESSENTIAL,
+					),
+				).toBe("/project/.acme/rules/style.txt");
+				expect(
+					transformContentForIde(
+						"# Style",
+						"acme",
+						InstructionCategory.ESSENTIAL,
+						"style",
+						{ paths: ["src/**", "test/**"], alwaysApply: false },
+					),
+				).toBe(
+					'---\ntitle: "style"\nscope: "src/**,test/**"\npinned: false\n---\n\n# Style',
+				);
+				// Subagents are written like skills, with name and description frontmatter
+				expect(
+					resolveOutputPath(
+						"acme",
+						"planner",
+						"/project",
+						InstructionCategory.SUBAGENTS,
+					),
+				).toBe("/project/.acme/skills/planner.md");
+				expect(
+					transformContentForIde(
+						"# Plan",
+						"acme",
+						InstructionCategory.SUBAGENTS,
+						"planner",
+						{},
+					),
+				).toBe('---\nname: planner\ndescription: "planner"\n---\n\n# Plan');
+			} finally {
+				vi.mocked(getIdeFormatDefinition).mockImplementation(
+					actual.getIdeFormatDefinition,
+				);
+			}
+		});
+
+		it("should refuse output paths that leave the project", async () => {
+			const actual = await vi.importActual<
+				typeof import("./ide-format-definitions")
+			>("./ide-format-definitions");
+			vi.mocked(getIdeFormatDefinition).mockImplementation((id) =>
+				id === "acme" ? { ...acme, root: "../outside" } : acme,
+			);
+
+			try {
+				expect(() =>
+					resolveOutputPath(
+						"acme",
+						"style",
+						"/project",
+						InstructionCategory.ESSENTIAL,
+					),
+				).toThrow(
+					'The Acme output for "style" would be written outside the project: /outside/rules/style.txt',
+				);
+				expect(() =>
+					resolveOutputPath(
+						"other",
+						"../../../etc/passwd",
+						"/project",
+						InstructionCategory.ESSENTIAL,
+					),
+				).toThrow("would be written outside the project");
+			} finally {
+				vi.mocked(getIdeFormatDefinition).mockImplementation(
+					actual.getIdeFormatDefinition,
+				);
+			}
+		});
+	});
+
 	describe("resolveOutputPath for skills", () => {
 		it("should resolve skills path for cursor", () => {
 			const result = resolveOutputPath(
@@ -196,6 +518,149 @@ describe("resources/instructions/ide-formats", () => {
 			expect(result).toContain('  - "**/*.tsx"');
 		});
 
+		it("should add applyTo frontmatter for copilot path-specific instructions", () => {
+			const result = transformContentForIde(
+				"# Test content",
+				"copilot",
+				InstructionCategory.LANGUAGE,
+				"my-rule",
+				frontmatter,
+			);
+			expect(result).toBe(
+				'---\ndescription: "Test rule"\napplyTo: "**/*.ts,**/*.tsx"\n---\n\n# Test content',
+			);
+			expect(
+				transformContentForIde(
+					"# Test content",
+					"copilot",
+					InstructionCategory.TOOLING,
+					"my-rule",
+					{},
+				),
+			).toBe('---\napplyTo: "**"\n---\n\n# Test content');
+		});
+
+		it("should not add frontmatter to copilot essential instructions", () => {
+			expect(
+				transformContentForIde(
+					"# Test content",
+					"copilot",
+					InstructionCategory.ESSENTIAL,
+					"my-rule",
+					frontmatter,
+				),
+			).toBe("# Test content");
+		});
+
+		it("should add prompt frontmatter to copilot skills and chat mode frontmatter to subagents", () => {
+			expect(
+				transformContentForIde(
+					"# Body",
+					"copilot",
+					InstructionCategory.SKILLS,
+					"planner",
+					{},
+				),
+			).toBe('---\ndescription: "planner"\nmode: agent\n---\n\n# Body');
+			expect(
+				transformContentForIde(
+					"# Body",
+					"copilot",
+					InstructionCategory.SUBAGENTS,
+					"planner",
+					{ description: "Plans changes" },
+				),
+			).toBe('---\ndescription: "Plans changes"\n---\n\n# Body');
+		});
+
+		it("should nest agents-md headings under the category heading, leaving code alone", () => {
+			expect(
+				transformContentForIde(
+					"# Style\n\n```sh\n# comment\n```\n\n## Naming",
+					"agents-md",
+					InstructionCategory.ESSENTIAL,
+					"style",
+					{},
+				),
+			).toBe("### Style\n\n```sh\n# comment\n```\n\n#### Naming");
+		});
+
+		it("should note the globs of agents-md rules kept in the root file", () => {
+			expect(
+				transformContentForIde(
+					"# TS",
+					"agents-md",
+					InstructionCategory.LANGUAGE,
+					"typescript",
+					{ paths: ["**/*.ts", "**/*.tsx"] },
+				),
+			).toBe("Applies to files matching `**/*.ts`, `**/*.tsx`.\n\n### TS");
+		});
+
+		it("should add kiro inclusion frontmatter", () => {
+			const transform = (category: InstructionCategory, fm: RuleFrontmatter) =>
+				transformContentForIde("# Body", "kiro", category, "rule", fm);
+
+			expect(transform(InstructionCategory.ESSENTIAL, {})).toBe(
+				"---\ninclusion: always\n---\n\n# Body",
+			);
+			expect(
+				transform(InstructionCategory.TOOLING, { alwaysApply: false }),
+			).toBe("---\ninclusion: manual\n---\n\n# Body");
+			expect(
+				transform(InstructionCategory.LANGUAGE, { paths: ["**/*.ts"] }),
+			).toBe(
+				'---\ninclusion: fileMatch\nfileMatchPattern: "**/*.ts"\n---\n\n# Body',
+			);
+			expect(
+				transform(InstructionCategory.LANGUAGE, {
+					paths: ["**/*.ts", "**/*.tsx"],
+				}),
+			).toBe(
+				'---\ninclusion: fileMatch\nfileMatchPattern:\n  - "**/*.ts"\n  - "**/*.tsx"\n---\n\n# Body',
+			);
+			expect(transform(InstructionCategory.SKILLS, {})).toBe(
+				"---\ninclusion: manual\n---\n\n# Body",
+			);
+			expect(transform(InstructionCategory.SUBAGENTS, {})).toBe(
+				"---\ninclusion: manual\n---\n\n# Body",
+			);
+		});
+
+		it("should note the globs of roo rules instead of frontmatter", () => {
+			expect(
+				transformContentForIde(
+					"# TS",
+					"roo",
+					InstructionCategory.LANGUAGE,
+					"typescript",
+					{ paths: ["**/*.ts"], description: "TypeScript" },
+				),
+			).toBe("Applies to files matching `**/*.ts`.\n\n# TS");
+			expect(
+				transformContentForIde(
+					"# Style",
+					"roo",
+					InstructionCategory.ESSENTIAL,
+					"style",
+					{},
+				),
+			).toBe("# Style");
+		});
+
+		it("should aggregate zed and junie skills as plain sections", () => {
+			for (const ideFormat of ["zed", "junie"] as const)
+				expect(
+					transformContentForIde(
+						"# Deploy",
+						ideFormat,
+						InstructionCategory.SKILLS,
+						"deploy",
+						{ description: "Deploy" },
+					),
+				).toBe("### Deploy");
+		});
+
 		it("should add cline frontmatter for cline format", () => {
 			const content = "# Test content";
 			const result = transformContentForIde(
@@ -479,6 +944,132 @@ describe("resources/instructions/ide-formats", () => {
 			expect(writtenContent).toContain("# Windsurf content");
 		});
 
+		it("should merge copilot essential instructions into the repo-wide file", async () => {
+			const result = await writeInstructionToFile(
+				"/project",
+				"code-style",
+				"# Code style",
+				"copilot",
+				InstructionCategory.ESSENTIAL,
+				{ description: "Style" },
+			);
+
+			expect(result).toBe("/project/.github/copilot-instructions.md");
+			expect(upsertMarkdownSection).toHaveBeenCalledWith(
+				"/project/.github/copilot-instructions.md",
+				"essential/code-style",
+				"# Code style",
+			);
+			expect(writeFileAsync).not.toHaveBeenCalled();
+		});
+
+		it("should write a copilot skill and a subagent of the same name to different files", async () => {
+			await writeInstructionToFile(
+				"/project",
+				"planner",
+				"# Planning skill",
+				"copilot",
+				InstructionCategory.SKILLS,
+				{},
+			);
+			await writeInstructionToFile(
+				"/project",
+				"planner",
+				"# Planner agent",
+				"copilot",
+				InstructionCategory.SUBAGENTS,
+				{},
+			);
+
+			expect(writeFileAsync).toHaveBeenCalledWith(
+				"/project/.github/prompts/planner.prompt.md",
+				expect.stringContaining("# Planning skill"),
+			);
+			expect(writeFileAsync).toHaveBeenCalledWith(
+				"/project/.github/chatmodes/planner.chatmode.md",
+				expect.stringContaining("# Planner agent"),
+			);
+		});
+
+		it("should write a kiro rule, skill and subagent of the same name to different files", async () => {
+			for (const [category, content] of [
+				[InstructionCategory.TOOLING, "# Planning rule"],
+				[InstructionCategory.SKILLS, "# Planning skill"],
+				[InstructionCategory.SUBAGENTS, "# Planner agent"],
+			] as const)
+				await writeInstructionToFile(
+					"/project",
+					"planner",
+					content,
+					"kiro",
+					category,
+					{},
+				);
+
+			expect(writeFileAsync).toHaveBeenCalledWith(
+				"/project/.kiro/steering/planner.md",
+				expect.stringContaining("# Planning rule"),
+			);
+			expect(writeFileAsync).toHaveBeenCalledWith(
+				"/project/.kiro/steering/skill-planner.md",
+				expect.stringContaining("# Planning skill"),
+			);
+			expect(writeFileAsync).toHaveBeenCalledWith(
+				"/project/.kiro/steering/agent-planner.md",
+				expect.stringContaining("# Planner agent"),
+			);
+		});
+
+		it("should aggregate agents-md instructions into category sections in category order", async () => {
+			const actual =
+				await vi.importActual<typeof import("../../core/fs")>("../../core/fs");
+			vi.mocked(upsertMarkdownSection).mockImplementation(
+				actual.upsertMarkdownSection,
+			);
+			const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "agents-md-test-"));
+
+			try {
+				await writeInstructionToFile(
+					cwd,
+					"react",
+					"# React",
+					"agents-md",
+					InstructionCategory.TOOLING,
+					{},
+				);
+				await writeInstructionToFile(
+					cwd,
+					"style",
+					"# Style",
+					"agents-md",
+					InstructionCategory.ESSENTIAL,
+					{},
+				);
+				await writeInstructionToFile(
+					cwd,
+					"testing",
+					"# Testing",
+					"agents-md",
+					InstructionCategory.ESSENTIAL,
+					{},
+				);
+
+				const written = fs.readFileSync(path.join(cwd, "AGENTS.md"), "utf8");
+				expect(
+					written.split("\n").filter((line) => line.startsWith("#")),
+				).toEqual([
+					"## Essentials",
+					"### Style",
+					"### Testing",
+					"## Tooling",
+					"### React",
+				]);
+			} finally {
+				vi.mocked(upsertMarkdownSection).mockReset();
+				fs.rmSync(cwd, { recursive: true, force: true });
+			}
+		});
+
 		it("should write skills file to skills directory without extra frontmatter", async () => {
 			const frontmatter: RuleFrontmatter = {
 				description: "Skill",
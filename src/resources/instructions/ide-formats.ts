@@ -1,99 +1,272 @@
 import path from "node:path";
 import mustache from "mustache";
-import { ensureDirAsync, writeFileAsync } from "../../core/fs";
+import {
+	ensureDirAsync,
+	upsertMarkdownSection,
+	writeFileAsync,
+} from "../../core/fs";
 import {
 	InstructionCategory,
 	type RuleFrontmatter,
 } from "../../core/instructions";
 import { escapeYamlDoubleQuoted } from "../../core/utils";
+import {
+	BUILTIN_IDE_FORMATS,
+	getIdeFormatDefinition,
+	type IdeFormatDefinition,
+	type IdeFormatTarget,
+	type IdeFrontmatterField,
+	loadIdeFormats,
+} from "./ide-format-definitions";
+
+/** Built-in IDE format options (see loadIdeFormats for the formats of the registry and the user). */
+export const IDE_FORMATS = BUILTIN_IDE_FORMATS.map((format) => ({
+	label: format.label,
+	value: format.id,
+}));
+
+/** Id of a built-in or user-defined IDE format. */
+export type IdeFormat = string;
 
-/** IDE format options. */
-export const IDE_FORMATS = [
-	{ label: "Cursor", value: "cursor" },
-	{ label: "Windsurf", value: "windsurf" },
-	{ label: "Cline", value: "cline" },
-	{ label: "Claude Code", value: "claude" },
-] as const;
+/**
+ * Parse --ide-format / --instructions-ide-format flags.
+ * @param raw - Raw option value from cac (undefined, a single value or an array of values); values may be comma-separated (e.g. "cursor,claude").
+ * @returns Unique IDE formats in the order given; validated by getIdeFormatSelection.
+ */
+export function parseIdeFormatFlags(raw: unknown): IdeFormat[] {
+	const flags = raw === undefined ? [] : Array.isArray(raw) ? raw : [raw];
+	const formats = flags
+		.flatMap((flag) => String(flag).split(","))
+		.map((format) => format.trim())
+		.filter(Boolean);
+	return [...new Set(formats)];
+}
 
-export type IdeFormat = (typeof IDE_FORMATS)[number]["value"];
+/** Frontmatter of subagents written as skills, for formats without a target for subagents. */
+const DEFAULT_AGENT_FRONTMATTER: IdeFormatTarget["frontmatter"] = {
+	name: { from: "name", format: "plain" },
+	description: [{ from: "description" }, { from: "name" }],
+};
 
 /**
- * Build a YAML frontmatter block that contains only a `paths:` array.
- * Used for IDEs that represent rules as simple markdown files with globs.
- * @param paths - Glob patterns to embed.
- * @returns Frontmatter string in the expected YAML format for the IDE.
+ * Get where instructions of a category are written for an IDE format.
+ * @param definition - IDE format definition.
+ * @param category - Instruction category.
+ * @returns The target: agents for subagents, skills for skills, essentials (when defined) for essential instructions, rules otherwise.
  */
-function frontmatterWithPathsArray(paths: string[]): string {
-	if (paths.length === 0) return "";
-	return `---
-paths:
-${paths.map((p) => `  - "${escapeYamlDoubleQuoted(p)}"`).join("\n")}
----
+function getIdeFormatTarget(
+	definition: IdeFormatDefinition,
+	category: InstructionCategory,
+): IdeFormatTarget {
+	if (category === InstructionCategory.SUBAGENTS)
+		return (
+			definition.agents ?? {
+				...definition.skills,
+				frontmatter: DEFAULT_AGENT_FRONTMATTER,
+			}
+		);
+	if (category === InstructionCategory.SKILLS) return definition.skills;
+	if (category === InstructionCategory.ESSENTIAL && definition.essentials)
+		return definition.essentials;
+	return definition.rules;
+}
 
-`;
+/**
+ * Get the value of one frontmatter field: the first of its mappings that applies.
+ * @param field - Field mapping, or mappings in order of preference.
+ * @param ruleName - Instruction name (the "name" source).
+ * @param frontmatter - Rule frontmatter from the instruction file.
+ * @returns The value and how to write it, or undefined when no mapping applies.
+ */
+function resolveFrontmatterField(
+	field: IdeFrontmatterField | IdeFrontmatterField[],
+	ruleName: string,
+	frontmatter: RuleFrontmatter,
+):
+	| {
+			value: string | boolean | string[];
+			format: IdeFrontmatterField["format"];
+	  }
+	| undefined {
+	for (const option of Array.isArray(field) ? field : [field]) {
+		if (option.from) {
+			const source =
+				option.from === "name" ? ruleName : frontmatter[option.from];
+			if (source === undefined || (Array.isArray(source) && !source.length))
+				continue;
+			if (option.equals !== undefined && source !== option.equals) continue;
+			if (option.value === undefined)
+				return { value: source, format: option.format };
+		}
+		if (option.value !== undefined)
+			return { value: option.value, format: option.format ?? "plain" };
+	}
+	return undefined;
 }
 
 /**
- * Build Cursor (`.mdc`) rule frontmatter.
- * @param frontmatter - Rule frontmatter including `description`, `alwaysApply`, and optional `paths`.
- * @returns Frontmatter string appropriate for Cursor rule files.
+ * Build the YAML frontmatter block of an instruction from a target's field mappings.
+ * @param fields - Frontmatter field mappings of the target.
+ * @param ruleName - Instruction name.
+ * @param frontmatter - Rule frontmatter from the instruction file.
+ * @returns Frontmatter string; empty when no field has a value.
  */
-function cursorFrontmatter(frontmatter: RuleFrontmatter): string {
-	const globsLines = frontmatter.paths?.length
-		? frontmatter.paths
-				.map((p) => `  - "${escapeYamlDoubleQuoted(p)}"`)
-				.join("\n")
-		: "";
-	const globsValue = globsLines ? `\nglobs:\n${globsLines}` : "";
+function renderFrontmatter(
+	fields: IdeFormatTarget["frontmatter"],
+	ruleName: string,
+	frontmatter: RuleFrontmatter,
+): string {
+	const quote = (value: string) => `"${escapeYamlDoubleQuoted(value)}"`;
+	const lines: string[] = [];
+	for (const [name, field] of Object.entries(fields ?? {})) {
+		const resolved = resolveFrontmatterField(field, ruleName, frontmatter);
+		if (!resolved) continue;
+		const { value } = resolved;
+		const items = Array.isArray(value) ? value : [String(value)];
+		const format =
+			resolved.format ??
+			(Array.isArray(value)
+				? "list"
+				: typeof value === "boolean"
+					? "plain"
+					: "string");
+
+		if (format === "plain") lines.push(`${name}: ${items.join(",")}`);
+		else if (
+			format === "joined" ||
+			(format === "string-or-list" && items.length === 1)
+		)
+			lines.push(`${name}: ${quote(items.join(","))}`);
+		else if (format === "string")
+			lines.push(`${name}: ${quote(String(value))}`);
+		else lines.push(`${name}:`, ...items.map((item) => `  - ${quote(item)}`));
+	}
+	if (lines.length === 0) return "";
 	return `---
-description: "${frontmatter.description}"
-alwaysApply: ${frontmatter.alwaysApply}${globsValue}
+${lines.join("\n")}
 ---
 
 `;
 }
 
+/** Heading of each category's section in aggregated files; sections are ordered like InstructionCategory. */
+const AGGREGATED_CATEGORY_HEADINGS: Record<InstructionCategory, string> = {
+	[InstructionCategory.ESSENTIAL]: "Essentials",
+	[InstructionCategory.TOOLING]: "Tooling",
+	[InstructionCategory.SUBAGENTS]: "Subagents",
+	[InstructionCategory.SKILLS]: "Skills",
+	[InstructionCategory.LANGUAGE]: "Language",
+	[InstructionCategory.PROJECT_SPEC]: "Project type",
+	[InstructionCategory.TEMPLATE]: "Template",
+};
+
 /**
- * Build Cline rule frontmatter (paths only).
- * @param frontmatter - Rule frontmatter including optional `paths`.
- * @returns Frontmatter string for Cline rule files.
+ * Find the directory a rule's globs cover as a whole, for a nested instructions file.
+ * Only globs like "src/components/**" (or "src/components/**\/*") map cleanly, and all of them must name the same directory.
+ * @param paths - Glob patterns from the rule's frontmatter.
+ * @returns The directory relative to the project root, or undefined when the rule belongs in the root file.
  */
-function clineFrontmatter(frontmatter: RuleFrontmatter): string {
-	return frontmatterWithPathsArray(frontmatter.paths ?? []);
+function nestedInstructionsDirectory(
+	paths: string[] | undefined,
+): string | undefined {
+	if (!paths?.length) return undefined;
+	const directories = new Set(
+		paths.map(
+			(p) =>
+				p
+					.replace(/^(\.\/)+/, "")
+					.match(/^([^*?[\]{}!]+?)\/\*\*(?:\/\*)?$/)?.[1],
+		),
+	);
+	return directories.size === 1 ? [...directories][0] : undefined;
 }
 
 /**
- * Build Claude rule frontmatter (paths only).
- * @param frontmatter - Rule frontmatter including optional `paths`.
- * @returns Frontmatter string for Claude rule files.
+ * Order aggregated sections: categories in InstructionCategory order, each heading before its instructions.
+ * @param a - Section id ("<category>" for a heading, "<category>/<name>" for an instruction).
+ * @param b - Section id.
+ * @returns Negative when a comes first, positive when b does, 0 when either may.
  */
-function claudeFrontmatter(frontmatter: RuleFrontmatter): string {
-	return frontmatterWithPathsArray(frontmatter.paths ?? []);
+function compareAggregatedSections(a: string, b: string): number {
+	const categories: string[] = Object.values(InstructionCategory);
+	const rank = (id: string) => {
+		const [category, name] = id.split("/");
+		return categories.indexOf(category) * 2 + (name === undefined ? 0 : 1);
+	};
+	return rank(a) - rank(b);
 }
 
-/** Dot-directory root for each IDE format. */
-const IDE_ROOTS: Record<IdeFormat, string> = {
-	cursor: ".cursor",
-	windsurf: ".windsurf",
-	cline: ".cline",
-	claude: ".claude",
-};
+/**
+ * Move markdown headings down so an instruction nests under its category heading; fenced code is left alone.
+ * @param content - Markdown body.
+ * @param levels - Number of levels to add (headings never go below h6).
+ * @returns The content with demoted headings.
+ */
+function demoteMarkdownHeadings(content: string, levels: number): string {
+	let fenced = false;
+	return content
+		.split("\n")
+		.map((line) => {
+			if (/^\s*(```|~~~)/.test(line)) fenced = !fenced;
+			else if (!fenced && /^#{1,6}\s/.test(line))
+				return `${"#".repeat(levels)}${line}`.replace(/^#{7,}/, "######");
+			return line;
+		})
+		.join("\n");
+}
 
-/** Path templates per IDE for rules. */
-const IDE_RULE_PATH_TEMPLATES: Record<IdeFormat, string> = {
-	cursor: `${IDE_ROOTS.cursor}/rules/{{ruleName}}.mdc`,
-	windsurf: `${IDE_ROOTS.windsurf}/rules/{{ruleName}}.md`,
-	cline: `.clinerules/{{ruleName}}.md`,
-	claude: `${IDE_ROOTS.claude}/rules/{{ruleName}}.md`,
-};
+/**
+ * Prefix a rule with the files it applies to, for formats that can't scope rules to globs.
+ * @param content - Markdown body.
+ * @param paths - Glob patterns from the rule's frontmatter.
+ * @returns The content, with a note when the rule has paths.
+ */
+function withAppliesToNote(
+	content: string,
+	paths: string[] | undefined,
+): string {
+	if (!paths?.length) return content;
+	return `Applies to files matching ${paths.map((p) => `\`${p}\``).join(", ")}.
 
-/** Path templates per IDE for skills. */
-const IDE_SKILL_PATH_TEMPLATES: Record<IdeFormat, string> = {
-	cursor: `${IDE_ROOTS.cursor}/skills/{{ruleName}}/SKILL.md`,
-	windsurf: `${IDE_ROOTS.windsurf}/skills/{{ruleName}}/SKILL.md`,
-	cline: `${IDE_ROOTS.cline}/skills/{{ruleName}}/SKILL.md`,
-	claude: `${IDE_ROOTS.claude}/skills/{{ruleName}}/SKILL.md`,
-};
+${content}`;
+}
+
+/**
+ * Build an aggregated section for an instruction: headings nested under the category heading,
+ * and a note on the files a path-scoped rule applies to when it could not be moved into a nested file.
+ * @param content - Raw markdown body.
+ * @param frontmatter - Rule frontmatter including optional `paths`.
+ * @param target - The aggregated target.
+ * @returns The section body.
+ */
+function aggregatedSection(
+	content: string,
+	frontmatter: RuleFrontmatter,
+	target: IdeFormatTarget,
+): string {
+	const body = demoteMarkdownHeadings(content, 2);
+	if (target.nested && nestedInstructionsDirectory(frontmatter.paths))
+		return body;
+	return withAppliesToNote(body, frontmatter.paths);
+}
+
+/**
+ * Replace the placeholders of a target's path template.
+ * @param template - Path template ({{ruleName}}, {{ideRoot}} and {{extension}}).
+ * @param definition - IDE format definition.
+ * @param ruleName - Instruction name.
+ * @returns Path relative to the project root.
+ */
+function renderPathTemplate(
+	template: string,
+	definition: IdeFormatDefinition,
+	ruleName: string,
+): string {
+	return template
+		.replaceAll("{{ruleName}}", ruleName)
+		.replaceAll("{{ideRoot}}", definition.root)
+		.replaceAll("{{extension}}", definition.extension ?? ".md");
+}
 
 /**
  * Render known Mustache variables inside instruction bodies.
@@ -101,7 +274,7 @@ const IDE_SKILL_PATH_TEMPLATES: Record<IdeFormat, string> = {
  */
 function renderKnownMustacheVariables(
 	content: string,
-	ideFormat: IdeFormat,
+	definition: IdeFormatDefinition,
 ): string {
 	// Fast path: avoid Mustache rendering when no placeholders exist.
 	if (
@@ -111,8 +284,8 @@ function renderKnownMustacheVariables(
 		return content;
 
 	const data = {
-		checkpointDir: `${IDE_ROOTS[ideFormat]}/checkpoints`,
-		ideRoot: IDE_ROOTS[ideFormat],
+		checkpointDir: `${definition.root}/checkpoints`,
+		ideRoot: definition.root,
 	};
 
 	const previousEscape = mustache.escape;
@@ -125,160 +298,48 @@ function renderKnownMustacheVariables(
 	}
 }
 
-/**
- * Get the transform function for the given IDE and category (adds frontmatter or passes through).
- * Copilot: repo-wide (no frontmatter) for essential; path-specific frontmatter otherwise.
- * @param ideFormat - Target IDE format.
- * @param category - Instruction category.
- * @returns A function (content, frontmatter) => transformed string, or undefined when no transform (e.g. Windsurf).
- */
-function getTransformForIde(
-	ideFormat: IdeFormat,
-	category: InstructionCategory,
-): ((content: string, frontmatter: RuleFrontmatter) => string) | undefined {
-	// Skills: keep author-provided frontmatter/body as-is for all IDEs).
-	if (category === InstructionCategory.SKILLS) return undefined;
-
-	// Cursor
-	if (ideFormat === "cursor")
-		return (content, fm) => cursorFrontmatter(fm) + content;
-
-	// Cline
-	if (ideFormat === "cline")
-		return (content, fm) => clineFrontmatter(fm) + content;
-
-	// Claude
-	if (ideFormat === "claude")
-		return (content, fm) => claudeFrontmatter(fm) + content;
-
-	return undefined;
-}
-
-/**
- * Build Cursor YAML frontmatter for agent/subagent files.
- * @param ruleName - Agent name/identifier.
- * @param frontmatter - Parsed instruction frontmatter (description, model, readonly).
- * @returns Frontmatter string suitable for a Cursor agent markdown file.
- */
-function cursorAgentFrontmatter(
-	ruleName: string,
-	frontmatter: RuleFrontmatter,
-): string {
-	const description = frontmatter.description ?? ruleName;
-	const model = frontmatter.model ?? "inherit";
-
-	const readonlyLine =
-		typeof frontmatter.readonly === "boolean"
-			? `readonly: ${frontmatter.readonly}
-`
-			: "";
-
-	return `---
-name: ${ruleName}
-description: "${escapeYamlDoubleQuoted(description)}"
-model: ${model}
-${readonlyLine}---
-
-`;
-}
-
-/**
- * Build YAML frontmatter for IDE "skill" representations of agents/subagents.
- * @param ruleName - Skill identifier (typically matches the agent name).
- * @param frontmatter - Parsed instruction frontmatter (description is used when present).
- * @returns Frontmatter string appropriate for skill files.
- */
-function ideSkillFrontmatter(
-	ruleName: string,
-	frontmatter: RuleFrontmatter,
-): string {
-	const description = frontmatter.description ?? ruleName;
-	return `---
-name: ${ruleName}
-description: "${escapeYamlDoubleQuoted(description)}"
----
-
-`;
-}
-
-/**
- * Build YAML frontmatter for Claude Code agent/subagent files.
- * @param ruleName - Agent name/identifier.
- * @param frontmatter - Parsed instruction frontmatter (description, model, readonly).
- * @returns Frontmatter string suitable for Claude Code agent markdown files.
- */
-function claudeAgentFrontmatter(
-	ruleName: string,
-	frontmatter: RuleFrontmatter,
-): string {
-	const description = frontmatter.description ?? ruleName;
-	const modelLine =
-		typeof frontmatter.model === "string"
-			? `model: ${frontmatter.model}
-`
-			: "";
-	const permissionModeLine =
-		frontmatter.readonly === true
-			? `permissionMode: plan
-`
-			: "";
-
-	return `---
-name: ${ruleName}
-description: "${escapeYamlDoubleQuoted(description)}"
-${modelLine}${permissionModeLine}---
-
-`;
-}
-
 /**
  * Resolve the output path for an instruction given the IDE format, name, and category.
- * @param ideFormat - Target IDE format (determines path template).
+ * @param ideFormat - Target IDE format (its definition holds the path templates).
  * @param ruleName - Instruction name (replaces {{ruleName}} in template).
  * @param cwd - Current working directory (project root).
- * @param category - Instruction category (Copilot uses repo-wide path for essential only).
+ * @param category - Instruction category (selects the rules, essentials, skills or agents target).
+ * @param frontmatter - Rule frontmatter; for nested aggregated files (e.g. AGENTS.md), paths that cover one directory select the file in that directory.
  * @returns Absolute path where the instruction file should be written.
+ * @throws Error when the IDE format is unknown or the path would leave the project.
  */
 export function resolveOutputPath(
 	ideFormat: IdeFormat,
 	ruleName: string,
 	cwd: string,
 	category: InstructionCategory,
+	frontmatter: RuleFrontmatter = {},
 ): string {
-	// Subagent: per-IDE subagent directory.
-	if (category === InstructionCategory.SUBAGENTS) {
-		// Cursor: write to `.cursor/agents/*.md`
-		if (ideFormat === "cursor")
-			return path.resolve(cwd, `.cursor/agents/${ruleName}.md`);
-
-		// Claude Code: write to `.claude/agents/*.md`
-		if (ideFormat === "claude") {
-			return path.resolve(cwd, `.claude/agents/${ruleName}.md`);
-		}
-
-		// Other IDEs: write as skills instead (`*/skills/*/SKILL.md`)
-		const relSkillPath = IDE_SKILL_PATH_TEMPLATES[ideFormat].replaceAll(
-			"{{ruleName}}",
-			ruleName,
-		);
-		return path.resolve(cwd, relSkillPath);
-	}
-
-	// Skills: per-IDE skills directory.
-	if (category === InstructionCategory.SKILLS) {
-		const relSkillPath = IDE_SKILL_PATH_TEMPLATES[ideFormat].replaceAll(
-			"{{ruleName}}",
-			ruleName,
+	const definition = getIdeFormatDefinition(ideFormat);
+	const target = getIdeFormatTarget(definition, category);
+	const relPath = renderPathTemplate(target.path, definition, ruleName);
+
+	// Aggregated by category: the shared file at the root, or a nested one for directory-scoped rules.
+	const outputPath =
+		target.aggregation === "categories" && target.nested
+			? path.resolve(
+					cwd,
+					nestedInstructionsDirectory(frontmatter.paths) ?? "",
+					relPath,
+				)
+			: path.resolve(cwd, relPath);
+
+	const relative = path.relative(path.resolve(cwd), outputPath);
+	if (
+		!relative ||
+		relative === ".." ||
+		relative.startsWith(`..${path.sep}`) ||
+		path.isAbsolute(relative)
+	)
+		throw new Error(
+			`The ${definition.label} output for "${ruleName}" would be written outside the project: ${outputPath}`,
 		);
-		return path.resolve(cwd, relSkillPath);
-	}
-
-	// Rules: per-IDE rules directory.
-	const relPath = IDE_RULE_PATH_TEMPLATES[ideFormat].replaceAll(
-		"{{ruleName}}",
-		ruleName,
-	);
-	return path.resolve(cwd, relPath);
+	return outputPath;
 }
 
 /**
@@ -286,8 +347,10 @@ export function resolveOutputPath(
  * @param content - Raw markdown body.
  * @param ideFormat - Target IDE format.
  * @param category - Instruction category.
+ * @param ruleName - Instruction name.
  * @param frontmatter - Rule frontmatter from the instruction file.
- * @returns Transformed string (content with optional frontmatter prepended).
+ * @returns Transformed string (content with the frontmatter the target maps prepended, when it has one).
+ * @throws Error when the IDE format is unknown.
  */
 export function transformContentForIde(
 	content: string,
@@ -296,29 +359,28 @@ export function transformContentForIde(
 	ruleName: string,
 	frontmatter: RuleFrontmatter,
 ): string {
-	// Subagent instructions
-	if (category === InstructionCategory.SUBAGENTS) {
-		// Cursor
-		if (ideFormat === "cursor")
-			return cursorAgentFrontmatter(ruleName, frontmatter) + content;
-
-		// Claude Code
-		if (ideFormat === "claude")
-			return claudeAgentFrontmatter(ruleName, frontmatter) + content;
+	const target = getIdeFormatTarget(
+		getIdeFormatDefinition(ideFormat),
+		category,
+	);
 
-		// Use skill format for IDEs that don't support custom subagent files.
-		return ideSkillFrontmatter(ruleName, frontmatter) + content;
-	}
+	// Aggregated formats: plain markdown sections
+	if (target.aggregation === "categories")
+		return aggregatedSection(content, frontmatter, target);
+	if (target.aggregation === "sections") return content;
 
-	// Rules, skills, and other categories (apply IDE-specific frontmatter transformations)
-	const transform = getTransformForIde(ideFormat, category);
-	if (transform) return transform(content, frontmatter);
-	return content;
+	const body = target.appliesToNote
+		? withAppliesToNote(content, frontmatter.paths)
+		: content;
+	return renderFrontmatter(target.frontmatter, ruleName, frontmatter) + body;
 }
 
 /**
  * Write the instruction to the appropriate location for the given IDE format.
- * Prepends the yehle registry comment, then IDE-specific frontmatter (when applicable), then content.
+ * The IDE formats of the registry and the user are loaded first, so user-defined formats can be written too.
+ * Prepends IDE-specific frontmatter (when applicable), then content.
+ * Targets aggregated into sections (e.g. Copilot's repo-wide file) get a managed section instead,
+ * and targets aggregated by category (e.g. AGENTS.md) a managed section under their category's heading.
  * @param cwd - Current working directory (project root).
  * @param ruleName - Instruction name (used for path).
  * @param content - Raw instruction body (markdown).
@@ -326,6 +388,7 @@ export function transformContentForIde(
  * @param category - Instruction category.
  * @param frontmatter - Rule frontmatter from the instruction file.
  * @returns Promise resolving to the absolute path of the written file.
+ * @throws Error when the IDE format is unknown or a formats file is invalid.
  */
 export async function writeInstructionToFile(
 	cwd: string,
@@ -335,7 +398,16 @@ export async function writeInstructionToFile(
 	category: InstructionCategory,
 	frontmatter: RuleFrontmatter,
 ): Promise<string> {
-	const outputPath = resolveOutputPath(ideFormat, ruleName, cwd, category);
+	await loadIdeFormats();
+	const definition = getIdeFormatDefinition(ideFormat);
+	const target = getIdeFormatTarget(definition, category);
+	const outputPath = resolveOutputPath(
+		ideFormat,
+		ruleName,
+		cwd,
+		category,
+		frontmatter,
+	);
 	const transformedContent = transformContentForIde(
 		content,
 		ideFormat,
@@ -345,11 +417,30 @@ export async function writeInstructionToFile(
 	);
 	const renderedContent = renderKnownMustacheVariables(
 		transformedContent,
-		ideFormat,
+		definition,
 	);
 
 	await ensureDirAsync(path.dirname(outputPath));
-	await writeFileAsync(outputPath, renderedContent);
+	if (target.aggregation === "categories") {
+		await upsertMarkdownSection(
+			outputPath,
+			category,
+			`## ${AGGREGATED_CATEGORY_HEADINGS[category]}`,
+			compareAggregatedSections,
+		);
+		await upsertMarkdownSection(
+			outputPath,
+			`${category}/${ruleName}`,
+			renderedContent,
+			compareAggregatedSections,
+		);
+	} else if (target.aggregation === "sections")
+		await upsertMarkdownSection(
+			outputPath,
+			`${category}/${ruleName}`,
+			renderedContent,
+		);
+	else await writeFileAsync(outputPath, renderedContent);
 
 	return outputPath;
 }
@@ -22,10 +22,18 @@ vi.mock("chalk", () => ({
 }));
 
 // Mock internal modules
+vi.mock("../../cli/prompts", () => ({
+	default: {
+		selectInput: vi.fn(),
+	},
+}));
+
 vi.mock("../../cli/logger", () => ({
 	default: {
 		intro: vi.fn(),
+		warn: vi.fn(),
 	},
+	defaultText: vi.fn((text) => text),
 	primaryText: vi.fn((text) => text),
 }));
 
@@ -55,11 +63,44 @@ vi.mock("../../cli/tasks", async (importOriginal) => {
 	};
 });
 
+vi.mock("../../core/conflicts", () => ({
+	copyWithConflictResolution: vi.fn(),
+	createStagingDirectory: vi.fn(async () => "/tmp/yehle-staging-1"),
+	KEEP_BOTH_SUFFIX: ".yehle-new",
+	removeStagingDirectory: vi.fn(),
+}));
+
+vi.mock("../../core/dry-run", () => ({
+	createDryRunDirectory: vi.fn(async () => "/tmp/yehle-dry-run-1"),
+	describeDryRunFiles: vi.fn(),
+	formatFileTree: vi.fn(() => [
+		"test-package/",
+		"└── README.md (1.0 KB, shared)",
+	]),
+	listFilesWithSizes: vi.fn(async () => new Map()),
+	removeDryRunDirectory: vi.fn(),
+	traceTemplateFileOrigins: vi.fn(async () => ({ resolve: () => "shared" })),
+}));
+
 vi.mock("../../core/git", () => ({
 	initGitRepo: vi.fn(),
+	isGitRepo: vi.fn(() => false),
 	makeInitialCommit: vi.fn(),
 }));
 
+vi.mock("../../core/hooks", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../core/hooks")>();
+	return {
+		...actual,
+		readTemplateHooks: vi.fn(async () => ({})),
+		runTemplateHook: vi.fn(),
+	};
+});
+
+vi.mock("../../core/registry", () => ({
+	getTemplateRegistry: vi.fn(() => ({ isLocal: false })),
+}));
+
 vi.mock("../../core/pkg-manager", () => ({
 	ensurePackageManager: vi.fn(),
 	getInstallScript: vi.fn(),
@@ -69,7 +110,39 @@ vi.mock("../../core/pkg-manager", () => ({
 	},
 }));
 
+vi.mock("../../core/manifest", () => ({
+	hashProjectFiles: vi.fn(async () => ({ "README.md": "f00d" })),
+	PROJECT_MANIFEST_VERSION: 1,
+	writeProjectManifest: vi.fn(),
+}));
+
+vi.mock("../../core/variables", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../core/variables")>();
+	return {
+		...actual,
+		readTemplateVariables: vi.fn(async () => ({})),
+	};
+});
+
+vi.mock("../../core/registry.source", () => ({
+	configureRegistrySource: vi.fn(async () => ({
+		kind: "github",
+		owner: "agrawal-rohit",
+		repo: "yehle",
+	})),
+	formatRegistrySource: vi.fn(
+		(source: { owner: string; repo: string }) =>
+			`github:${source.owner}/${source.repo}`,
+	),
+}));
+
+vi.mock("../../core/templates", () => ({
+	pinRegistryToCommit: vi.fn(),
+	resolveTemplatesDir: vi.fn(async () => "/templates/typescript/package/basic"),
+}));
+
 vi.mock("../../core/utils", () => ({
+	formatBytes: vi.fn((bytes: number) => `${bytes} B`),
 	toSlug: vi.fn(),
 }));
 
@@ -81,6 +154,10 @@ vi.mock("../../resources/package/config", () => ({
 vi.mock("../../core/setup", () => ({
 	createProjectDirectory: vi.fn(),
 	getRequiredGithubSecrets: vi.fn(),
+	resolveTemplateLayerDirs: vi.fn(async () => [
+		"/templates/shared",
+		"/templates/typescript/package/basic",
+	]),
 	writeTemplateFiles: vi.fn(),
 }));
 
@@ -93,16 +170,35 @@ import fs from "node:fs";
 import path from "node:path";
 import chalk from "chalk";
 import logger from "../../cli/logger";
+import prompts from "../../cli/prompts";
 import tasks from "../../cli/tasks";
+import {
+	copyWithConflictResolution,
+	createStagingDirectory,
+	removeStagingDirectory,
+} from "../../core/conflicts";
 import { Language } from "../../core/constants";
-import { initGitRepo, makeInitialCommit } from "../../core/git";
+import {
+	createDryRunDirectory,
+	describeDryRunFiles,
+	formatFileTree,
+	removeDryRunDirectory,
+} from "../../core/dry-run";
+import { initGitRepo, isGitRepo, makeInitialCommit } from "../../core/git";
+import { readTemplateHooks, runTemplateHook } from "../../core/hooks";
+import { hashProjectFiles, writeProjectManifest } from "../../core/manifest";
 import { ensurePackageManager, getInstallScript } from "../../core/pkg-manager";
+import { getTemplateRegistry } from "../../core/registry";
+import { configureRegistrySource } from "../../core/registry.source";
 import {
 	createProjectDirectory,
 	getRequiredGithubSecrets,
+	resolveTemplateLayerDirs,
 	writeTemplateFiles,
 } from "../../core/setup";
+import { pinRegistryToCommit } from "../../core/templates";
 import { toSlug } from "../../core/utils";
+import { readTemplateVariables } from "../../core/variables";
 // Import after mocks
 import { generatePackage } from "./command";
 import {
@@ -153,6 +249,115 @@ describe("resources/package/command", () => {
 			expect(logger.intro).toHaveBeenCalledWith("generating package...");
 		});
 
+		it("should configure the registry from the --registry option", async () => {
+			// Arrange
+			const mockConfig: GeneratePackageConfiguration = {
+				lang: Language.TYPESCRIPT,
+				name: "test-package",
+				template: "basic",
+				public: false,
+			};
+
+			vi.mocked(getGeneratePackageConfiguration).mockResolvedValue(mockConfig);
+			vi.mocked(toSlug).mockReturnValue("test-package");
+			vi.mocked(path.resolve).mockReturnValue("/path/to/test-package");
+			vi.mocked(fs.existsSync).mockReturnValue(false);
+			vi.mocked(ensurePackageManager).mockResolvedValue("1.0.0");
+			vi.mocked(createProjectDirectory).mockResolvedValue(
+				"/path/to/test-package",
+			);
+			vi.mocked(getRequiredGithubSecrets).mockResolvedValue([]);
+			vi.mocked(getInstallScript).mockReturnValue("npm install");
+
+			// Act
+			await generatePackage({
+				registry: "gitlab:acme/templates",
+				ref: "v1",
+				offline: true,
+				templatesDir: "../templates",
+			});
+
+			// Assert
+			expect(configureRegistrySource).toHaveBeenCalledWith({
+				registry: "gitlab:acme/templates",
+				ref: "v1",
+				offline: true,
+				templatesDir: "../templates",
+			});
+		});
+
+		it("should pin the registry and record the template source in the package", async () => {
+			// Arrange
+			const mockConfig: GeneratePackageConfiguration = {
+				lang: Language.TYPESCRIPT,
+				name: "test-package",
+				template: "basic",
+				public: true,
+				authorName: "Ada",
+				includeInstructions: true,
+				instructionsIdeFormats: ["cursor"],
+				variables: { framework: "react", npmToken: "s3cret" },
+				features: { storybook: false },
+			};
+
+			vi.mocked(configureRegistrySource).mockResolvedValueOnce({
+				kind: "github",
+				owner: "acme",
+				repo: "templates",
+				ref: "v1.2.0",
+			});
+			vi.mocked(pinRegistryToCommit).mockResolvedValue("abc123");
+			vi.mocked(getGeneratePackageConfiguration).mockResolvedValue(mockConfig);
+			vi.mocked(toSlug).mockReturnValue("test-package");
+			vi.mocked(path.resolve).mockReturnValue("/path/to/test-package");
+			vi.mocked(fs.existsSync).mockReturnValue(false);
+			vi.mocked(ensurePackageManager).mockResolvedValue("1.0.0");
+			vi.mocked(createProjectDirectory).mockResolvedValue(
+				"/path/to/test-package",
+			);
+			vi.mocked(getRequiredGithubSecrets).mockResolvedValue([]);
+			vi.mocked(getInstallScript).mockReturnValue("npm install");
+			vi.mocked(readTemplateVariables).mockResolvedValueOnce({
+				framework: { type: "text" },
+				npmToken: { type: "text", secret: true },
+			});
+
+			// Act
+			await generatePackage({});
+
+			// Assert
+			expect(pinRegistryToCommit).toHaveBeenCalled();
+			expect(hashProjectFiles).toHaveBeenCalledWith("/path/to/test-package");
+			expect(writeProjectManifest).toHaveBeenCalledWith(
+				"/path/to/test-package",
+				{
+					version: 1,
+					generatedAt: expect.any(String),
+					source: {
+						registry: "github:acme/templates",
+						ref: "v1.2.0",
+						commit: "abc123",
+					},
+					template: {
+						lang: "typescript",
+						projectSpec: "package",
+						name: "basic",
+					},
+					answers: {
+						name: "test-package",
+						public: true,
+						authorName: "Ada",
+						authorGitUsername: undefined,
+						authorGitEmail: undefined,
+						variables: { framework: "react" },
+						features: { storybook: false },
+					},
+					instructions: { ideFormats: ["cursor"] },
+					files: { "README.md": "f00d" },
+				},
+			);
+		});
+
 		it("should retrieve package configuration", async () => {
 			// Arrange
 			const options: Partial<GeneratePackageConfiguration> = {
@@ -187,6 +392,54 @@ describe("resources/package/command", () => {
 			expect(getGeneratePackageConfiguration).toHaveBeenCalledWith(options);
 		});
 
+		it("should pass the instructions flags on so they are not prompted for", async () => {
+			// Arrange
+			const mockConfig: GeneratePackageConfiguration = {
+				lang: Language.TYPESCRIPT,
+				name: "my-package",
+				template: "basic",
+				public: false,
+			};
+			vi.mocked(getGeneratePackageConfiguration).mockResolvedValue(mockConfig);
+			vi.mocked(toSlug).mockReturnValue("my-package");
+			vi.mocked(path.resolve).mockReturnValue("/path/to/my-package");
+			vi.mocked(fs.existsSync).mockReturnValue(false);
+			vi.mocked(ensurePackageManager).mockResolvedValue("1.0.0");
+			vi.mocked(createProjectDirectory).mockResolvedValue(
+				"/path/to/my-package",
+			);
+			vi.mocked(getRequiredGithubSecrets).mockResolvedValue([]);
+			vi.mocked(getInstallScript).mockReturnValue("npm install");
+
+			// Act
+			await generatePackage({
+				lang: Language.TYPESCRIPT,
+				name: "my-package",
+				template: "basic",
+				public: false,
+				vars: { framework: "react" },
+				enableFeatures: ["docs"],
+				disableFeatures: ["husky"],
+				includeInstructions: true,
+				instructionsIdeFormats: ["cursor", "claude"],
+				registry: "github:acme/templates",
+				dryRun: false,
+			});
+
+			// Assert
+			expect(getGeneratePackageConfiguration).toHaveBeenCalledWith({
+				lang: Language.TYPESCRIPT,
+				name: "my-package",
+				template: "basic",
+				public: false,
+				vars: { framework: "react" },
+				enableFeatures: ["docs"],
+				disableFeatures: ["husky"],
+				includeInstructions: true,
+				instructionsIdeFormats: ["cursor", "claude"],
+			});
+		});
+
 		it("should include LICENSE info when generating a public package with authorName", async () => {
 			// Arrange
 			const options: Partial<GeneratePackageConfiguration> = {
@@ -470,7 +723,7 @@ describe("resources/package/command", () => {
 				template: "basic",
 				public: false,
 				includeInstructions: true,
-				instructionsIdeFormat: "cursor",
+				instructionsIdeFormats: ["cursor"],
 			};
 			vi.mocked(getGeneratePackageConfiguration).mockResolvedValue(mockConfig);
 			vi.mocked(toSlug).mockReturnValue("test-package");
@@ -533,5 +786,334 @@ describe("resources/package/command", () => {
 				`    - ${chalk.magentaBright("API_TOKEN")}`,
 			);
 		});
+
+		describe("template hooks", () => {
+			/** Arrange a successful run of a non-public basic package. */
+			function arrangePackage() {
+				vi.mocked(getGeneratePackageConfiguration).mockResolvedValue({
+					lang: Language.TYPESCRIPT,
+					name: "test-package",
+					template: "basic",
+					public: false,
+				});
+				vi.mocked(toSlug).mockReturnValue("test-package");
+				vi.mocked(path.resolve).mockReturnValue("/path/to/test-package");
+				vi.mocked(fs.existsSync).mockReturnValue(false);
+				vi.mocked(ensurePackageManager).mockResolvedValue("1.0.0");
+				vi.mocked(createProjectDirectory).mockResolvedValue(
+					"/path/to/test-package",
+				);
+				vi.mocked(getRequiredGithubSecrets).mockResolvedValue([]);
+				vi.mocked(getInstallScript).mockReturnValue("npm install");
+			}
+
+			it("should run each stage's hooks in the package directory at its point in generation", async () => {
+				arrangePackage();
+				const order: string[] = [];
+				vi.mocked(readTemplateHooks).mockResolvedValueOnce({
+					postCopy: ["node copy.js"],
+					postRender: ["pnpm exec biome format --write"],
+					postGenerate: ["pnpm install"],
+				});
+				vi.mocked(runTemplateHook).mockImplementation(async (_dir, command) => {
+					order.push(command);
+				});
+				vi.mocked(writeTemplateFiles).mockImplementation(async () => {
+					order.push("write");
+				});
+				vi.mocked(applyTemplateModifications).mockImplementation(async () => {
+					order.push("modify");
+				});
+				vi.mocked(initGitRepo).mockImplementation(async () => {
+					order.push("git init");
+				});
+
+				await generatePackage({});
+
+				expect(resolveTemplateLayerDirs).toHaveBeenCalledWith(
+					Language.TYPESCRIPT,
+					"package",
+					"basic",
+				);
+				expect(runTemplateHook).toHaveBeenCalledWith(
+					"/path/to/test-package",
+					"pnpm install",
+				);
+				expect(order).toEqual([
+					"write",
+					"node copy.js",
+					"modify",
+					"pnpm exec biome format --write",
+					"pnpm install",
+					"git init",
+				]);
+				expect(tasks.runWithTasks).toHaveBeenCalledWith(
+					"Finishing up",
+					undefined,
+					expect.arrayContaining([
+						expect.objectContaining({
+							title: "Run postGenerate hook: pnpm install",
+						}),
+					]),
+				);
+			});
+
+			it("should run the hooks of every template layer, earlier layers first", async () => {
+				arrangePackage();
+				vi.mocked(readTemplateHooks)
+					.mockResolvedValueOnce({ postGenerate: ["pnpm install"] })
+					.mockResolvedValueOnce({
+						postCopy: ["node copy.js"],
+						postGenerate: ["pnpm build"],
+					});
+
+				await generatePackage({});
+
+				expect(readTemplateHooks).toHaveBeenCalledWith("/templates/shared");
+				expect(readTemplateHooks).toHaveBeenCalledWith(
+					"/templates/typescript/package/basic",
+				);
+				expect(
+					vi.mocked(runTemplateHook).mock.calls.map(([, command]) => command),
+				).toEqual(["node copy.js", "pnpm install", "pnpm build"]);
+			});
+
+			it("should warn before running hooks from a remote template", async () => {
+				arrangePackage();
+				vi.mocked(readTemplateHooks).mockResolvedValueOnce({
+					postGenerate: ["pnpm install"],
+				});
+
+				await generatePackage({});
+
+				expect(logger.warn).toHaveBeenCalledWith(
+					expect.stringContaining("github:agrawal-rohit/yehle"),
+				);
+				expect(logger.warn).toHaveBeenCalledWith(
+					expect.stringContaining("  - pnpm install"),
+				);
+				expect(logger.warn).toHaveBeenCalledWith(
+					expect.stringContaining("--no-hooks"),
+				);
+			});
+
+			it("should not warn for local templates or templates without hooks", async () => {
+				arrangePackage();
+				vi.mocked(getTemplateRegistry).mockReturnValueOnce({
+					isLocal: true,
+				} as ReturnType<typeof getTemplateRegistry>);
+				vi.mocked(readTemplateHooks).mockResolvedValueOnce({
+					postGenerate: ["pnpm install"],
+				});
+
+				await generatePackage({});
+				await generatePackage({});
+
+				expect(logger.warn).not.toHaveBeenCalled();
+				expect(runTemplateHook).toHaveBeenCalledTimes(1);
+			});
+
+			it("should skip reading and running hooks with skipHooks", async () => {
+				arrangePackage();
+
+				await generatePackage({ skipHooks: true });
+
+				expect(readTemplateHooks).not.toHaveBeenCalled();
+				expect(runTemplateHook).not.toHaveBeenCalled();
+				expect(logger.warn).not.toHaveBeenCalled();
+			});
+		});
+
+		describe("dry run", () => {
+			beforeEach(() => {
+				vi.mocked(getGeneratePackageConfiguration).mockResolvedValue({
+					lang: Language.TYPESCRIPT,
+					name: "test-package",
+					template: "basic",
+					public: false,
+				});
+				vi.mocked(toSlug).mockReturnValue("test-package");
+				vi.mocked(path.resolve).mockReturnValue("/path/to/test-package");
+				vi.mocked(fs.existsSync).mockReturnValue(false);
+				vi.mocked(ensurePackageManager).mockResolvedValue("1.0.0");
+				vi.mocked(createProjectDirectory).mockResolvedValue(
+					"/tmp/yehle-dry-run-1/test-package",
+				);
+				vi.mocked(describeDryRunFiles).mockResolvedValue([
+					{ path: "README.md", size: 1024, origin: "shared" },
+					{ path: ".yehle/manifest.json", size: 100, origin: "generated" },
+				]);
+			});
+
+			it("should generate into a temporary directory and print the files without git or hooks", async () => {
+				vi.mocked(readTemplateHooks).mockResolvedValueOnce({
+					postGenerate: ["pnpm install"],
+				});
+				const logSpy = vi.mocked(console.log);
+
+				await generatePackage({ dryRun: true });
+
+				expect(logger.intro).toHaveBeenCalledWith(
+					"generating package (dry run)...",
+				);
+				expect(createDryRunDirectory).toHaveBeenCalled();
+				expect(createProjectDirectory).toHaveBeenCalledWith(
+					"/tmp/yehle-dry-run-1",
+					"test-package",
+				);
+				expect(writeTemplateFiles).toHaveBeenCalledWith(
+					"/tmp/yehle-dry-run-1/test-package",
+					expect.objectContaining({ template: "basic" }),
+				);
+				expect(formatFileTree).toHaveBeenCalledWith(
+					"test-package",
+					expect.arrayContaining([
+						expect.objectContaining({ path: "README.md" }),
+					]),
+				);
+				expect(logSpy).toHaveBeenCalledWith(
+					"Dry run: nothing was written. test-package would contain 2 files (1124 B):",
+				);
+				expect(logSpy).toHaveBeenCalledWith("  └── README.md (1.0 KB, shared)");
+				expect(logSpy).toHaveBeenCalledWith("  - pnpm install");
+				expect(runTemplateHook).not.toHaveBeenCalled();
+				expect(logger.warn).not.toHaveBeenCalled();
+				expect(initGitRepo).not.toHaveBeenCalled();
+				expect(makeInitialCommit).not.toHaveBeenCalled();
+				expect(removeDryRunDirectory).toHaveBeenCalledWith(
+					"/tmp/yehle-dry-run-1",
+				);
+			});
+
+			it("should remove the temporary directory when generation fails", async () => {
+				vi.mocked(writeTemplateFiles).mockRejectedValueOnce(
+					new Error("Template error"),
+				);
+
+				await expect(generatePackage({ dryRun: true })).rejects.toThrow(
+					"Template error",
+				);
+				expect(removeDryRunDirectory).toHaveBeenCalledWith(
+					"/tmp/yehle-dry-run-1",
+				);
+			});
+		});
+		describe("existing target directory", () => {
+			beforeEach(() => {
+				vi.mocked(getGeneratePackageConfiguration).mockResolvedValue({
+					lang: Language.TYPESCRIPT,
+					name: "test-package",
+					template: "basic",
+					public: false,
+				});
+				vi.mocked(toSlug).mockReturnValue("test-package");
+				vi.mocked(path.resolve).mockReturnValue("/path/to/repo");
+				vi.mocked(fs.existsSync).mockReturnValue(true);
+				vi.mocked(fs.readdirSync).mockReturnValue([
+					".git",
+					"README.md",
+				] as never);
+				vi.mocked(ensurePackageManager).mockResolvedValue("1.0.0");
+				vi.mocked(createProjectDirectory).mockResolvedValue(
+					"/tmp/yehle-staging-1/test-package",
+				);
+				vi.mocked(getRequiredGithubSecrets).mockResolvedValue([]);
+				vi.mocked(copyWithConflictResolution).mockResolvedValue({
+					written: ["src/index.ts"],
+					overwritten: [],
+					skipped: [],
+					keptBoth: [],
+					merged: [],
+					conflicted: ["README.md"],
+				});
+			});
+
+			it("should suggest --force when the package directory is not empty", async () => {
+				await expect(generatePackage({})).rejects.toThrow(
+					"Target directory is not empty: /path/to/repo (pass --force",
+				);
+				expect(createStagingDirectory).not.toHaveBeenCalled();
+			});
+
+			it("should generate in a staging directory and copy it into the target with --into", async () => {
+				vi.mocked(isGitRepo).mockReturnValueOnce(true);
+
+				await generatePackage({ into: "../repo", onConflict: "merge" });
+
+				expect(path.resolve).toHaveBeenCalledWith(process.cwd(), "../repo");
+				expect(createProjectDirectory).toHaveBeenCalledWith(
+					"/tmp/yehle-staging-1",
+					"test-package",
+				);
+				expect(copyWithConflictResolution).toHaveBeenCalledWith(
+					"/tmp/yehle-staging-1/test-package",
+					"/path/to/repo",
+					expect.any(Function),
+				);
+				const resolve = vi.mocked(copyWithConflictResolution).mock
+					.calls[0]?.[2];
+				await expect(resolve?.("README.md")).resolves.toBe("merge");
+				expect(prompts.selectInput).not.toHaveBeenCalled();
+				expect(removeStagingDirectory).toHaveBeenCalledWith(
+					"/tmp/yehle-staging-1",
+				);
+				expect(initGitRepo).toHaveBeenCalledWith("/path/to/repo");
+				expect(getRequiredGithubSecrets).toHaveBeenCalledWith("/path/to/repo");
+				expect(makeInitialCommit).not.toHaveBeenCalled();
+				expect(vi.mocked(console.log)).toHaveBeenCalledWith(
+					expect.stringContaining("cd ../repo"),
+				);
+				expect(vi.mocked(console.log)).toHaveBeenCalledWith(
+					expect.stringContaining("Resolve the conflict markers in README.md"),
+				);
+				expect(vi.mocked(console.log)).toHaveBeenCalledWith(
+					expect.stringContaining("git status"),
+				);
+			});
+
+			it("should ask how to resolve each conflict without --on-conflict", async () => {
+				vi.mocked(prompts.selectInput).mockResolvedValueOnce("skip");
+
+				await generatePackage({ force: true });
+
+				const resolve = vi.mocked(copyWithConflictResolution).mock
+					.calls[0]?.[2];
+				await expect(resolve?.("README.md")).resolves.toBe("skip");
+				expect(prompts.selectInput).toHaveBeenCalledWith(
+					"README.md already exists. What should yehle do with it?",
+					expect.objectContaining({
+						options: expect.arrayContaining([
+							expect.objectContaining({ value: "merge" }),
+						]),
+					}),
+					"keep-both",
+				);
+				expect(makeInitialCommit).toHaveBeenCalledWith("/path/to/repo");
+			});
+
+			it("should skip the cd step when generating into the current directory", async () => {
+				vi.mocked(path.resolve).mockReturnValue(process.cwd());
+
+				await generatePackage({ into: ".", onConflict: "keep-both" });
+
+				expect(vi.mocked(console.log)).not.toHaveBeenCalledWith(
+					expect.stringContaining("Enter your package directory"),
+				);
+			});
+
+			it("should remove the staging directory when generation fails", async () => {
+				vi.mocked(writeTemplateFiles).mockRejectedValueOnce(
+					new Error("Template error"),
+				);
+
+				await expect(generatePackage({ force: true })).rejects.toThrow(
+					"Template error",
+				);
+				expect(copyWithConflictResolution).not.toHaveBeenCalled();
+				expect(removeStagingDirectory).toHaveBeenCalledWith(
+					"/tmp/yehle-staging-1",
+				);
+			});
+		});
 	});
 });
@@ -1,21 +1,67 @@
 import fs from "node:fs";
 import path from "node:path";
 import chalk from "chalk";
-import logger, { primaryText } from "../../cli/logger";
-import tasks, { conditionalTask } from "../../cli/tasks";
-import { initGitRepo, makeInitialCommit } from "../../core/git";
+import logger, { defaultText, primaryText } from "../../cli/logger";
+import prompts from "../../cli/prompts";
+import tasks, { conditionalTask, type Subtask } from "../../cli/tasks";
+import {
+	type ConflictCopySummary,
+	type ConflictFlags,
+	type ConflictResolution,
+	copyWithConflictResolution,
+	createStagingDirectory,
+	KEEP_BOTH_SUFFIX,
+	removeStagingDirectory,
+} from "../../core/conflicts";
+import type { TemplateHookStage, TemplateHooks } from "../../core/constants";
+import {
+	createDryRunDirectory,
+	type DryRunFlags,
+	describeDryRunFiles,
+	formatFileTree,
+	listFilesWithSizes,
+	removeDryRunDirectory,
+	traceTemplateFileOrigins,
+} from "../../core/dry-run";
+import type { TemplateFeatureFlags } from "../../core/features";
+import { initGitRepo, isGitRepo, makeInitialCommit } from "../../core/git";
+import {
+	listTemplateHookCommands,
+	mergeTemplateHooks,
+	readTemplateHooks,
+	runTemplateHook,
+	type TemplateHookFlags,
+} from "../../core/hooks";
+import {
+	hashProjectFiles,
+	PROJECT_MANIFEST_VERSION,
+	writeProjectManifest,
+} from "../../core/manifest";
 import {
 	ensurePackageManager,
 	getInstallScript,
 	LANGUAGE_PACKAGE_MANAGER,
 	type PackageManager,
 } from "../../core/pkg-manager";
+import { getTemplateRegistry } from "../../core/registry";
+import {
+	configureRegistrySource,
+	formatRegistrySource,
+	type RegistryOptions,
+} from "../../core/registry.source";
 import {
 	createProjectDirectory,
 	getRequiredGithubSecrets,
+	resolveTemplateLayerDirs,
 	writeTemplateFiles,
 } from "../../core/setup";
-import { toSlug } from "../../core/utils";
+import { pinRegistryToCommit, resolveTemplatesDir } from "../../core/templates";
+import { formatBytes, toSlug } from "../../core/utils";
+import {
+	omitSecretVariables,
+	readTemplateVariables,
+	type TemplateVariableFlags,
+} from "../../core/variables";
 import {
 	type GeneratePackageConfiguration,
 	getGeneratePackageConfiguration,
@@ -23,31 +69,181 @@ import {
 import { addPackageInstructions, applyTemplateModifications } from "./setup";
 
 /**
- * Generate a new package: gather config (or use options), run preflight checks, create directory, write templates, apply modifications, optionally add instructions, init git, and print next steps.
- * @param options - Optional CLI-style options (lang, name, template, public, etc.); when omitted, the user is prompted.
+ * Build one listr subtask per hook command of a stage.
+ * @param hooks - The template's hooks by stage.
+ * @param stage - Stage to build subtasks for.
+ * @param getTargetDir - Returns the project root (only known once the directory has been created).
+ * @returns Subtasks that run the stage's commands in order.
+ */
+function getHookSubtasks(
+	hooks: TemplateHooks,
+	stage: TemplateHookStage,
+	getTargetDir: () => string,
+): Subtask[] {
+	return (hooks[stage] ?? []).map((command) => ({
+		title: `Run ${stage} hook: ${command}`,
+		task: async () => {
+			await runTemplateHook(getTargetDir(), command);
+		},
+	}));
+}
+
+/**
+ * Print the files a dry run generated, with their sizes and where each came from, and what was skipped.
+ * @param targetDir - Package directory inside the dry-run directory.
+ * @param packageDir - Name shown for the package directory.
+ * @param config - Package configuration.
+ * @param instructionFiles - Files written by the agent instructions step.
+ * @param hookCommands - Hook commands that were not run.
+ * @returns Promise that resolves when the summary has been printed.
+ */
+async function printPackageDryRun(
+	targetDir: string,
+	packageDir: string,
+	config: GeneratePackageConfiguration,
+	instructionFiles: Set<string>,
+	hookCommands: string[],
+): Promise<void> {
+	const origins = await traceTemplateFileOrigins(
+		config.lang,
+		"package",
+		config.template,
+	);
+	const files = await describeDryRunFiles(targetDir, (file) =>
+		instructionFiles.has(file)
+			? "instructions"
+			: (origins.resolve(file) ?? "generated"),
+	);
+	const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+
+	console.log();
+	console.log(
+		chalk.bold(
+			`Dry run: nothing was written. ${packageDir} would contain ${files.length} files (${formatBytes(totalSize)}):`,
+		),
+	);
+	console.log();
+	for (const line of formatFileTree(packageDir, files))
+		console.log(`  ${line}`);
+	console.log();
+	if (hookCommands.length > 0) {
+		console.log("These template hooks would run:");
+		for (const command of hookCommands)
+			console.log(`  - ${primaryText(command)}`);
+		console.log();
+	}
+	console.log(defaultText("Skipped: git init and the initial commit."));
+	console.log();
+}
+
+/**
+ * Ask how to resolve a generated file that already exists in the target directory.
+ * @param file - Path relative to the target directory.
+ * @returns Promise resolving to the chosen resolution.
+ */
+async function promptConflictResolution(
+	file: string,
+): Promise<ConflictResolution> {
+	return prompts.selectInput<ConflictResolution>(
+		`${file} already exists. What should yehle do with it?`,
+		{
+			options: [
+				{ label: "Overwrite it with the template version", value: "overwrite" },
+				{ label: "Skip it and keep your version", value: "skip" },
+				{
+					label: `Keep both (write the template version as ${file}${KEEP_BOTH_SUFFIX})`,
+					value: "keep-both",
+				},
+				{
+					label: "Merge both versions, marking conflicting lines",
+					value: "merge",
+				},
+			],
+		},
+		"keep-both",
+	);
+}
+
+/**
+ * Print what happened to the generated files that already existed in the target directory.
+ * @param summary - Outcome of copying the package into the target directory.
+ */
+function printConflictSummary(summary: ConflictCopySummary): void {
+	const groups: Array<[string, string[]]> = [
+		["Overwritten", summary.overwritten],
+		["Skipped (kept your version)", summary.skipped],
+		[
+			`Kept both (template version saved with ${KEEP_BOTH_SUFFIX})`,
+			summary.keptBoth,
+		],
+		["Merged", summary.merged],
+		["Merged with conflicts to resolve", summary.conflicted],
+	];
+	if (groups.every(([, files]) => files.length === 0)) return;
+
+	console.log();
+	console.log(chalk.bold("Files that already existed:"));
+	for (const [label, files] of groups) {
+		if (files.length === 0) continue;
+		console.log(`  ${label}:`);
+		for (const file of files) console.log(`    - ${primaryText(file)}`);
+	}
+}
+
+/**
+ * Generate a new package: gather config (or use options), run preflight checks, create directory, write templates, apply modifications and template hooks, optionally add instructions, record the template source, init git, and print next steps.
+ * With dryRun, the package is generated into a temporary directory instead (without hooks or git) and the files it would contain are printed.
+ * With into or force, the target directory may already contain files: the package is generated in a temporary directory and copied over,
+ * resolving each existing file with onConflict or a prompt, and the initial commit is skipped when the directory is already a git repository.
+ * @param options - Optional CLI-style options (lang, name, template, public, registry, ref, offline, templatesDir, vars, enableFeatures, disableFeatures, skipHooks, dryRun, into, force, onConflict, etc.); when omitted, the user is prompted.
  * @returns Promise that resolves when the package has been generated and next steps have been printed.
- * @throws Error when the target directory is not empty, the package manager is missing, or template/config steps fail.
+ * @throws Error when the target directory is not empty (without into or force), the package manager is missing, a hook fails, or template/config steps fail.
  */
 export async function generatePackage(
-	options: Partial<GeneratePackageConfiguration> = {},
+	options: Partial<GeneratePackageConfiguration> &
+		RegistryOptions &
+		TemplateVariableFlags &
+		TemplateFeatureFlags &
+		TemplateHookFlags &
+		DryRunFlags &
+		ConflictFlags = {},
 ): Promise<void> {
-	await logger.intro("generating package...");
+	await logger.intro(
+		options.dryRun
+			? "generating package (dry run)..."
+			: "generating package...",
+	);
+
+	const registrySource = await configureRegistrySource({
+		registry: options.registry,
+		ref: options.ref,
+		offline: options.offline,
+		templatesDir: options.templatesDir,
+	});
+
+	// Read template choices and every template layer from the same commit
+	const templateCommit = await pinRegistryToCommit();
 
 	const generateConfig = await getGeneratePackageConfiguration({
 		lang: options.lang,
 		name: options.name,
 		template: options.template,
 		public: options.public,
+		vars: options.vars,
+		enableFeatures: options.enableFeatures,
+		disableFeatures: options.disableFeatures,
+		includeInstructions: options.includeInstructions,
+		instructionsIdeFormats: options.instructionsIdeFormats,
 	});
 
 	let packageManagerVersion = "";
 	const packageManager: PackageManager =
 		LANGUAGE_PACKAGE_MANAGER[generateConfig.lang];
-	const resolvedTargetDir = path.resolve(
-		process.cwd(),
-		toSlug(generateConfig.name),
-	);
+	const packageDir = options.into ?? toSlug(generateConfig.name);
+	const resolvedTargetDir = path.resolve(process.cwd(), packageDir);
 
+	let targetExists = false;
+	let templateHooks: TemplateHooks = {};
 	console.log();
 	await tasks.runWithTasks("Preflight checks", async () => {
 		let isEmpty = true;
@@ -60,69 +256,191 @@ export async function generatePackage(
 			}
 		}
 
-		if (!isEmpty)
-			throw new Error(`Target directory is not empty: ${resolvedTargetDir}`);
+		if (!isEmpty) {
+			if (!options.into && !options.force)
+				throw new Error(
+					`Target directory is not empty: ${resolvedTargetDir} (pass --force to generate into it and resolve existing files one by one)`,
+				);
+			targetExists = true;
+		}
 
 		packageManagerVersion = await ensurePackageManager(packageManager);
+
+		// Hooks of the shared layers and extended templates run before the template's own
+		if (!options.skipHooks) {
+			const layerDirs = await resolveTemplateLayerDirs(
+				generateConfig.lang,
+				"package",
+				generateConfig.template,
+			);
+			templateHooks = mergeTemplateHooks(
+				await Promise.all(layerDirs.map((dir) => readTemplateHooks(dir))),
+			);
+		}
 	});
 
+	const hookCommands = listTemplateHookCommands(templateHooks);
+	// Dry runs never run hooks; the commands are listed with the files instead
+	if (options.dryRun) templateHooks = {};
+	else if (hookCommands.length > 0 && !getTemplateRegistry().isLocal)
+		logger.warn(
+			[
+				`The "${generateConfig.template}" template from ${primaryText(formatRegistrySource(registrySource))} will run these commands in your package:`,
+				...hookCommands.map((command) => `  - ${command}`),
+				`Only continue if you trust this template; pass ${primaryText("--no-hooks")} to skip them.`,
+			].join("\n"),
+		);
+
+	// Dry runs generate into a temporary directory so nothing touches the current directory
+	const dryRunDir = options.dryRun ? await createDryRunDirectory() : undefined;
+	// Existing directories are only written to once the package is complete, one file at a time
+	const stagingDir =
+		targetExists && !dryRunDir ? await createStagingDirectory() : undefined;
+	const wasGitRepo = targetExists && isGitRepo(resolvedTargetDir);
 	let targetDir = "";
-	await tasks.runWithTasks("Preparing package", undefined, [
-		{
-			title: "Create package directory",
-			task: async () => {
-				targetDir = await createProjectDirectory(
-					process.cwd(),
-					toSlug(generateConfig.name),
-				);
+	let conflictSummary: ConflictCopySummary | undefined;
+	const instructionFiles = new Set<string>();
+	try {
+		await tasks.runWithTasks("Preparing package", undefined, [
+			{
+				title: "Create package directory",
+				task: async () => {
+					const workDir = dryRunDir ?? stagingDir;
+					targetDir = await createProjectDirectory(
+						workDir ?? process.cwd(),
+						workDir ? toSlug(generateConfig.name) : packageDir,
+					);
+				},
 			},
-		},
-		{
-			title: `Add "${generateConfig.template}" template`,
-			task: async () => {
-				await writeTemplateFiles(targetDir, {
-					lang: generateConfig.lang,
-					projectSpec: "package",
-					template: generateConfig.template,
-					license:
-						generateConfig.public && generateConfig.authorName
-							? { public: true, authorName: generateConfig.authorName }
-							: undefined,
-				});
+			{
+				title: `Add "${generateConfig.template}" template`,
+				task: async () => {
+					await writeTemplateFiles(targetDir, {
+						lang: generateConfig.lang,
+						projectSpec: "package",
+						template: generateConfig.template,
+						features: generateConfig.features,
+						license:
+							generateConfig.public && generateConfig.authorName
+								? { public: true, authorName: generateConfig.authorName }
+								: undefined,
+					});
+				},
 			},
-		},
-		{
-			title: "Modify template with user preferences",
-			task: async () => {
-				await applyTemplateModifications(
-					targetDir,
-					generateConfig,
-					packageManagerVersion,
-				);
+			...getHookSubtasks(templateHooks, "postCopy", () => targetDir),
+			{
+				title: "Modify template with user preferences",
+				task: async () => {
+					await applyTemplateModifications(
+						targetDir,
+						generateConfig,
+						packageManagerVersion,
+					);
+				},
 			},
-		},
-		...conditionalTask(Boolean(generateConfig.includeInstructions), {
-			title: "Add agent instructions",
-			task: async () => {
-				await addPackageInstructions(targetDir, generateConfig);
+			...getHookSubtasks(templateHooks, "postRender", () => targetDir),
+			...conditionalTask(Boolean(generateConfig.includeInstructions), {
+				title: "Add agent instructions",
+				task: async () => {
+					const before = dryRunDir
+						? await listFilesWithSizes(targetDir)
+						: undefined;
+					await addPackageInstructions(targetDir, generateConfig);
+					if (before)
+						for (const file of (await listFilesWithSizes(targetDir)).keys())
+							if (!before.has(file)) instructionFiles.add(file);
+				},
+			}),
+			{
+				title: "Record template source",
+				task: async () => {
+					const variableDefinitions = await readTemplateVariables(
+						await resolveTemplatesDir(
+							generateConfig.lang,
+							`package/${generateConfig.template}`,
+						),
+					);
+					await writeProjectManifest(targetDir, {
+						version: PROJECT_MANIFEST_VERSION,
+						generatedAt: new Date().toISOString(),
+						source: {
+							registry: formatRegistrySource({
+								...registrySource,
+								ref: undefined,
+							}),
+							ref: registrySource.ref,
+							commit: templateCommit,
+						},
+						template: {
+							lang: generateConfig.lang,
+							projectSpec: "package",
+							name: generateConfig.template,
+						},
+						answers: {
+							name: generateConfig.name,
+							public: generateConfig.public,
+							authorName: generateConfig.authorName,
+							authorGitUsername: generateConfig.authorGitUsername,
+							authorGitEmail: generateConfig.authorGitEmail,
+							variables: omitSecretVariables(
+								generateConfig.variables ?? {},
+								variableDefinitions,
+							),
+							features: generateConfig.features ?? {},
+						},
+						instructions:
+							generateConfig.includeInstructions &&
+							generateConfig.instructionsIdeFormats?.length
+								? { ideFormats: generateConfig.instructionsIdeFormats }
+								: undefined,
+						files: await hashProjectFiles(targetDir),
+					});
+				},
 			},
-		}),
-	]);
+		]);
+
+		if (dryRunDir) {
+			await printPackageDryRun(
+				targetDir,
+				packageDir,
+				generateConfig,
+				instructionFiles,
+				hookCommands,
+			);
+			return;
+		}
+
+		if (stagingDir) {
+			console.log();
+			conflictSummary = await copyWithConflictResolution(
+				targetDir,
+				resolvedTargetDir,
+				async (file) =>
+					options.onConflict ?? (await promptConflictResolution(file)),
+			);
+			targetDir = resolvedTargetDir;
+		}
+	} finally {
+		if (dryRunDir) await removeDryRunDirectory(dryRunDir);
+		if (stagingDir) await removeStagingDirectory(stagingDir);
+	}
 
 	let githubSecrets: string[] = [];
 	await tasks.runWithTasks("Finishing up", undefined, [
+		...getHookSubtasks(templateHooks, "postGenerate", () => targetDir),
 		{
 			title: "Initialize git",
 			task: async () => {
 				await initGitRepo(targetDir);
 			},
 		},
-		{
+		// Existing repositories keep their history; the generated files are left for the user to review and commit
+		...conditionalTask(!wasGitRepo, {
 			title: "Make initial commit",
 			task: async () => {
 				await makeInitialCommit(targetDir);
 			},
-		},
+		}),
 		{
 			title: "Fetch github secrets list",
 			task: async () => {
@@ -131,21 +449,38 @@ export async function generatePackage(
 		},
 	]);
 
+	if (conflictSummary) printConflictSummary(conflictSummary);
+
 	const installCmd = getInstallScript(packageManager);
 
 	let currentStep = 1;
 	console.log();
 	console.log(chalk.bold("Package generated successfully! Next steps:"));
 	console.log();
-	const cdCommand = `cd ${toSlug(generateConfig.name)}`;
-	console.log(
-		`  ${currentStep}. Enter your package directory using ${primaryText(cdCommand)},`,
-	);
-	currentStep += 1;
+	if (resolvedTargetDir !== process.cwd()) {
+		const cdCommand = `cd ${packageDir}`;
+		console.log(
+			`  ${currentStep}. Enter your package directory using ${primaryText(cdCommand)},`,
+		);
+		currentStep += 1;
+	}
 
-	console.log(
-		`  ${currentStep}. Push your initial commit with ${primaryText("git push -u origin main")}`,
-	);
+	if (conflictSummary && conflictSummary.conflicted.length > 0) {
+		console.log(
+			`  ${currentStep}. Resolve the conflict markers in ${conflictSummary.conflicted.map((file) => primaryText(file)).join(", ")}`,
+		);
+		currentStep += 1;
+	}
+
+	if (wasGitRepo) {
+		console.log(
+			`  ${currentStep}. Review the generated changes with ${primaryText("git status")} and commit them`,
+		);
+	} else {
+		console.log(
+			`  ${currentStep}. Push your initial commit with ${primaryText("git push -u origin main")}`,
+		);
+	}
 	currentStep += 1;
 
 	if (githubSecrets.length > 0) {
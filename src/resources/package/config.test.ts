@@ -6,6 +6,7 @@ vi.mock("../../cli/prompts", () => ({
 		selectInput: vi.fn(),
 		textInput: vi.fn(),
 		confirmInput: vi.fn(() => Promise.resolve(false)),
+		multiselectInput: vi.fn(),
 	},
 }));
 
@@ -17,18 +18,11 @@ vi.mock("../../cli/tasks", () => ({
 	},
 }));
 
-(
-	globalThis as typeof globalThis & { mockIsLocalMode: boolean }
-).mockIsLocalMode = false;
-
-vi.mock("../../core/constants", async (importOriginal) => {
-	const actual = await importOriginal<typeof import("../../core/constants")>();
+vi.mock("../../core/features", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../core/features")>();
 	return {
 		...actual,
-		get IS_LOCAL_MODE() {
-			return (globalThis as typeof globalThis & { mockIsLocalMode: boolean })
-				.mockIsLocalMode;
-		},
+		readTemplateFeatures: vi.fn().mockResolvedValue({}),
 	};
 });
 
@@ -47,6 +41,7 @@ vi.mock("../../core/pkg-manager", () => ({
 vi.mock("../../core/templates", () => ({
 	listAvailableTemplates: vi.fn(),
 	listLanguageNames: vi.fn().mockResolvedValue(["typescript"]),
+	resolveTemplatesDir: vi.fn().mockResolvedValue("/templates/package/basic"),
 }));
 
 vi.mock("../../core/utils", () => ({
@@ -54,6 +49,14 @@ vi.mock("../../core/utils", () => ({
 	toSlug: vi.fn(),
 }));
 
+vi.mock("../../core/variables", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../core/variables")>();
+	return {
+		...actual,
+		readTemplateVariables: vi.fn().mockResolvedValue({}),
+	};
+});
+
 vi.mock("../../resources/instructions/config", async (importOriginal) => {
 	const actual =
 		await importOriginal<
@@ -61,30 +64,40 @@ vi.mock("../../resources/instructions/config", async (importOriginal) => {
 		>();
 	return {
 		...actual,
-		getIdeFormatSelection: vi.fn().mockResolvedValue("cursor"),
+		getIdeFormatSelection: vi.fn().mockResolvedValue(["cursor"]),
 	};
 });
 
 import prompts from "../../cli/prompts";
 import tasks from "../../cli/tasks";
 import { Language } from "../../core/constants";
+import { readTemplateFeatures } from "../../core/features";
 import { getGitEmail, getGitUsername } from "../../core/git";
 import { validatePackageName } from "../../core/pkg-manager";
+import {
+	DEFAULT_REGISTRY_SOURCE,
+	setRegistrySource,
+} from "../../core/registry.source";
 import {
 	listAvailableTemplates,
 	listLanguageNames,
+	resolveTemplatesDir,
 } from "../../core/templates";
 import { capitalizeFirstLetter, toSlug } from "../../core/utils";
+import { readTemplateVariables } from "../../core/variables";
 // Import after mocks
 import {
 	getGeneratePackageConfiguration,
 	getPackageLanguage,
 	getPackageName,
 	getPackageTemplate,
+	getPackageTemplateFeatures,
+	getPackageTemplateVariables,
 	getPackageVisibility,
 	promptAuthorGitEmail,
 	promptAuthorGitUsername,
 	promptAuthorName,
+	promptTemplateVariable,
 } from "./config";
 
 describe("resources/package/config", () => {
@@ -97,14 +110,15 @@ describe("resources/package/config", () => {
 		vi.mocked(prompts.confirmInput).mockImplementation(() =>
 			Promise.resolve(false),
 		);
+		vi.mocked(prompts.multiselectInput).mockReset();
+		vi.mocked(readTemplateVariables).mockResolvedValue({});
+		vi.mocked(readTemplateFeatures).mockResolvedValue({});
 		vi.spyOn(console, "log").mockImplementation(() => {});
 	});
 
 	afterEach(() => {
 		vi.clearAllMocks();
-		(
-			globalThis as typeof globalThis & { mockIsLocalMode: boolean }
-		).mockIsLocalMode = false;
+		setRegistrySource(DEFAULT_REGISTRY_SOURCE);
 	});
 
 	describe("getGeneratePackageConfiguration", () => {
@@ -125,11 +139,32 @@ describe("resources/package/config", () => {
 				template: "basic",
 				public: false,
 				includeInstructions: false,
-				instructionsIdeFormat: undefined,
+				instructionsIdeFormats: undefined,
 				authorName: undefined,
 				authorGitEmail: undefined,
 				authorGitUsername: undefined,
+				variables: {},
+				features: {},
+			});
+		});
+
+		it("should pass --var values through to the template variables", async () => {
+			vi.mocked(validatePackageName).mockImplementation(() => {});
+			vi.mocked(listAvailableTemplates).mockResolvedValue(["basic"]);
+			vi.mocked(readTemplateVariables).mockResolvedValue({
+				framework: { type: "select", options: ["react", "vue"] },
+			});
+
+			const config = await getGeneratePackageConfiguration({
+				lang: Language.TYPESCRIPT,
+				name: "my-package",
+				template: "basic",
+				public: false,
+				vars: { framework: "vue" },
 			});
+
+			expect(config.variables).toEqual({ framework: "vue" });
+			expect(prompts.selectInput).not.toHaveBeenCalled();
 		});
 
 		it("should prompt for author info when package is public", async () => {
@@ -288,10 +323,8 @@ describe("resources/package/config", () => {
 			);
 		});
 
-		it("should fetch templates directly when in local mode", async () => {
-			(
-				globalThis as typeof globalThis & { mockIsLocalMode: boolean }
-			).mockIsLocalMode = true;
+		it("should fetch templates directly from a local templates dir", async () => {
+			setRegistrySource({ kind: "local", path: "/fixtures/templates" });
 			vi.mocked(listAvailableTemplates).mockResolvedValue(["basic"]);
 
 			const result = await getPackageTemplate(Language.TYPESCRIPT, {});
@@ -346,6 +379,263 @@ describe("resources/package/config", () => {
 		});
 	});
 
+	describe("promptTemplateVariable", () => {
+		it("should prompt with the input matching the variable type", async () => {
+			vi.mocked(prompts.textInput).mockResolvedValueOnce("@acme");
+			vi.mocked(prompts.selectInput).mockResolvedValueOnce("vue");
+			vi.mocked(prompts.confirmInput).mockResolvedValueOnce(true);
+			vi.mocked(prompts.multiselectInput).mockResolvedValueOnce(["lint"]);
+
+			await expect(
+				promptTemplateVariable("scope", { type: "text", default: "@me" }),
+			).resolves.toBe("@acme");
+			await expect(
+				promptTemplateVariable("framework", {
+					type: "select",
+					message: "Which framework?",
+					options: ["react", { value: "vue", hint: "SFCs" }],
+				}),
+			).resolves.toBe("vue");
+			await expect(
+				promptTemplateVariable("docs", { type: "confirm", default: true }),
+			).resolves.toBe(true);
+			await expect(
+				promptTemplateVariable("tools", {
+					type: "multiselect",
+					options: ["lint", "test"],
+					default: ["test"],
+					validate: { required: true },
+				}),
+			).resolves.toEqual(["lint"]);
+
+			expect(prompts.textInput).toHaveBeenCalledWith("scope", undefined, "@me");
+			expect(prompts.selectInput).toHaveBeenCalledWith(
+				"Which framework?",
+				{
+					options: [
+						{ label: "react", value: "react" },
+						{ label: "vue", value: "vue", hint: "SFCs" },
+					],
+				},
+				"react",
+			);
+			expect(prompts.confirmInput).toHaveBeenCalledWith(
+				"docs",
+				undefined,
+				true,
+			);
+			expect(prompts.multiselectInput).toHaveBeenCalledWith(
+				"tools",
+				{
+					options: [
+						{ label: "lint", value: "lint" },
+						{ label: "test", value: "test" },
+					],
+					required: true,
+				},
+				["test"],
+			);
+		});
+
+		it("should reject answers that fail validation", async () => {
+			vi.mocked(prompts.textInput).mockResolvedValueOnce("acme");
+
+			await expect(
+				promptTemplateVariable("scope", {
+					type: "text",
+					validate: { pattern: "^@", message: "start with @" },
+				}),
+			).rejects.toThrow('Invalid value "acme" for "scope": start with @');
+		});
+	});
+
+	describe("getPackageTemplateVariables", () => {
+		it("should read definitions from the chosen template", async () => {
+			await getPackageTemplateVariables(Language.TYPESCRIPT, "basic", {});
+
+			expect(resolveTemplatesDir).toHaveBeenCalledWith(
+				Language.TYPESCRIPT,
+				"package/basic",
+			);
+			expect(readTemplateVariables).toHaveBeenCalledWith(
+				"/templates/package/basic",
+			);
+			expect(tasks.runWithTasks).toHaveBeenCalledWith(
+				"Reading template variables",
+				expect.any(Function),
+			);
+		});
+
+		it("should read definitions directly from a local templates dir", async () => {
+			setRegistrySource({ kind: "local", path: "/fixtures/templates" });
+
+			await getPackageTemplateVariables(Language.TYPESCRIPT, "basic", {});
+
+			expect(readTemplateVariables).toHaveBeenCalled();
+			expect(tasks.runWithTasks).not.toHaveBeenCalled();
+		});
+
+		it("should use --var values, prompt for the rest and skip inactive variables", async () => {
+			vi.mocked(readTemplateVariables).mockResolvedValue({
+				framework: { type: "select", options: ["react", "vue"] },
+				docs: { type: "confirm" },
+				router: { type: "confirm", when: { framework: "react" } },
+				license: { type: "text", when: "public" },
+			});
+			vi.mocked(prompts.confirmInput).mockResolvedValueOnce(true);
+			vi.mocked(prompts.textInput).mockResolvedValueOnce("MIT");
+
+			const values = await getPackageTemplateVariables(
+				Language.TYPESCRIPT,
+				"basic",
+				{ public: true },
+				{ framework: "vue" },
+			);
+
+			expect(values).toEqual({ framework: "vue", docs: true, license: "MIT" });
+			expect(prompts.confirmInput).toHaveBeenCalledTimes(1);
+			expect(prompts.selectInput).not.toHaveBeenCalled();
+		});
+
+		it("should throw for --var values the template does not declare", async () => {
+			vi.mocked(readTemplateVariables).mockResolvedValue({
+				docs: { type: "confirm" },
+			});
+
+			await expect(
+				getPackageTemplateVariables(
+					Language.TYPESCRIPT,
+					"basic",
+					{},
+					{ framwork: "vue" },
+				),
+			).rejects.toThrow(
+				'Unknown template variable "framwork" for template "basic" (declared: docs).',
+			);
+		});
+
+		it("should throw for invalid --var values", async () => {
+			vi.mocked(readTemplateVariables).mockResolvedValue({
+				docs: { type: "confirm" },
+			});
+
+			await expect(
+				getPackageTemplateVariables(
+					Language.TYPESCRIPT,
+					"basic",
+					{},
+					{ docs: "maybe" },
+				),
+			).rejects.toThrow('Invalid value "maybe" for "docs"');
+		});
+	});
+
+	describe("getPackageTemplateFeatures", () => {
+		const features = {
+			playground: { description: "Vite playground", files: ["playground"] },
+			stryker: { files: ["stryker.config.mjs"] },
+			husky: { default: false, files: [".husky"] },
+		};
+
+		it("should return no features without prompting when none are declared", async () => {
+			await expect(
+				getPackageTemplateFeatures(Language.TYPESCRIPT, "basic"),
+			).resolves.toEqual({});
+
+			expect(resolveTemplatesDir).toHaveBeenCalledWith(
+				Language.TYPESCRIPT,
+				"package/basic",
+			);
+			expect(tasks.runWithTasks).toHaveBeenCalledWith(
+				"Reading template features",
+				expect.any(Function),
+			);
+			expect(prompts.multiselectInput).not.toHaveBeenCalled();
+		});
+
+		it("should offer every feature preselected by its default", async () => {
+			setRegistrySource({ kind: "local", path: "/fixtures/templates" });
+			vi.mocked(readTemplateFeatures).mockResolvedValue(features);
+			vi.mocked(prompts.multiselectInput).mockResolvedValueOnce([
+				"stryker",
+				"husky",
+			]);
+
+			const selection = await getPackageTemplateFeatures(
+				Language.TYPESCRIPT,
+				"react",
+			);
+
+			expect(tasks.runWithTasks).not.toHaveBeenCalled();
+			expect(prompts.multiselectInput).toHaveBeenCalledWith(
+				"Which optional features would you like to include?",
+				{
+					options: [
+						{
+							label: "playground",
+							value: "playground",
+							hint: "Vite playground",
+						},
+						{ label: "stryker", value: "stryker", hint: undefined },
+						{ label: "husky", value: "husky", hint: undefined },
+					],
+					required: false,
+				},
+				["playground", "stryker"],
+			);
+			expect(selection).toEqual({
+				playground: false,
+				stryker: true,
+				husky: true,
+			});
+		});
+
+		it("should only offer features not set by --feature / --no-feature", async () => {
+			vi.mocked(readTemplateFeatures).mockResolvedValue(features);
+			vi.mocked(prompts.multiselectInput).mockResolvedValueOnce([]);
+
+			const selection = await getPackageTemplateFeatures(
+				Language.TYPESCRIPT,
+				"react",
+				{ enableFeatures: ["husky"], disableFeatures: ["playground"] },
+			);
+
+			expect(
+				vi.mocked(prompts.multiselectInput).mock.calls[0]?.[1]?.options,
+			).toEqual([{ label: "stryker", value: "stryker", hint: undefined }]);
+			expect(Object.entries(selection)).toEqual([
+				["playground", false],
+				["stryker", false],
+				["husky", true],
+			]);
+		});
+
+		it("should not prompt when every feature is set by a flag", async () => {
+			vi.mocked(readTemplateFeatures).mockResolvedValue({
+				stryker: features.stryker,
+			});
+
+			await expect(
+				getPackageTemplateFeatures(Language.TYPESCRIPT, "react", {
+					disableFeatures: ["stryker"],
+				}),
+			).resolves.toEqual({ stryker: false });
+			expect(prompts.multiselectInput).not.toHaveBeenCalled();
+		});
+
+		it("should throw for features the template does not declare", async () => {
+			vi.mocked(readTemplateFeatures).mockResolvedValue(features);
+
+			await expect(
+				getPackageTemplateFeatures(Language.TYPESCRIPT, "react", {
+					enableFeatures: ["storybook"],
+				}),
+			).rejects.toThrow(
+				'Unknown feature "storybook" for template "react" (declared: playground, stryker, husky).',
+			);
+		});
+	});
+
 	describe("promptAuthorName", () => {
 		it("should prompt for author's full name with git username as default", async () => {
 			vi.mocked(getGitUsername).mockResolvedValue("John");
@@ -1,17 +1,40 @@
 import { primaryText } from "../../cli/logger";
 import prompts from "../../cli/prompts";
 import tasks from "../../cli/tasks";
-import { IS_LOCAL_MODE, Language } from "../../core/constants";
+import {
+	Language,
+	type TemplateFeature,
+	type TemplateVariable,
+} from "../../core/constants";
+import {
+	isFeatureSelectedByDefault,
+	readTemplateFeatures,
+	resolveFeatureFlags,
+	type TemplateFeatureFlags,
+	type TemplateFeatureSelection,
+} from "../../core/features";
 import { getGitEmail, getGitUsername } from "../../core/git";
 import {
 	LANGUAGE_PACKAGE_REGISTRY,
 	validatePackageName,
 } from "../../core/pkg-manager";
+import { getTemplateRegistry } from "../../core/registry";
 import {
 	listAvailableTemplates,
 	listLanguageNames,
+	resolveTemplatesDir,
 } from "../../core/templates";
 import { capitalizeFirstLetter, toSlug } from "../../core/utils";
+import {
+	coerceVariableValue,
+	getVariableDefault,
+	isVariableActive,
+	readTemplateVariables,
+	type TemplateVariableFlags,
+	type TemplateVariableValue,
+	type TemplateVariableValues,
+	validateVariableValue,
+} from "../../core/variables";
 import { getIdeFormatSelection } from "../instructions/config";
 import type { IdeFormat } from "../instructions/ide-formats";
 
@@ -38,41 +61,57 @@ export type GeneratePackageConfiguration = {
 	public: boolean;
 	/** Whether to include agent instructions for the package. */
 	includeInstructions?: boolean;
-	/** IDE format for agent instructions (when includeInstructions is true). */
-	instructionsIdeFormat?: IdeFormat;
+	/** IDE formats for agent instructions (when includeInstructions is true). */
+	instructionsIdeFormats?: IdeFormat[];
 	/** Optional full name of the author (Only required for public packages). */
 	authorName?: string;
 	/** Optional Git username (Only required for public packages). */
 	authorGitUsername?: string;
 	/** Optional Git email address (Only required for public packages). */
 	authorGitEmail?: string;
+	/** Answers to the variables declared in the template's yehle.yaml. */
+	variables?: TemplateVariableValues;
+	/** Whether each optional feature declared in the template's yehle.yaml is included. */
+	features?: TemplateFeatureSelection;
 };
 
 /** Describes the configuration for adding instructions during package creation. */
 export type GeneratePackageInstructionsConfiguration = {
 	includeInstructions: boolean;
-	ideFormat?: IdeFormat;
+	ideFormats?: IdeFormat[];
 };
 
 /**
- * Gather configuration for package creation via CLI flags or prompts (language, name, template, visibility, instructions, author).
- * @param cliFlags - Optional CLI options (lang, name, template, public, includeInstructions, instructionsIdeFormat, etc.).
+ * Gather configuration for package creation via CLI flags or prompts (language, name, template, visibility, template variables, features, instructions, author).
+ * @param cliFlags - Optional CLI options (lang, name, template, public, vars, enableFeatures, disableFeatures, includeInstructions, instructionsIdeFormats, etc.).
  * @returns Promise resolving to the full package configuration.
  */
 export async function getGeneratePackageConfiguration(
-	cliFlags: Partial<GeneratePackageConfiguration> = {},
+	cliFlags: Partial<GeneratePackageConfiguration> &
+		TemplateVariableFlags &
+		TemplateFeatureFlags = {},
 ): Promise<GeneratePackageConfiguration> {
 	const lang = await getPackageLanguage(cliFlags);
 	const name = await getPackageName(lang, cliFlags);
 	const template = await getPackageTemplate(lang, cliFlags);
 	const isPublic = await getPackageVisibility(lang, cliFlags);
+	const variables = await getPackageTemplateVariables(
+		lang,
+		template,
+		{ lang, name, template, public: isPublic },
+		cliFlags.vars,
+	);
+	const features = await getPackageTemplateFeatures(lang, template, {
+		enableFeatures: cliFlags.enableFeatures,
+		disableFeatures: cliFlags.disableFeatures,
+	});
 
 	const instructionsResult = await getGeneratePackageInstructionsConfiguration({
 		includeInstructions: cliFlags.includeInstructions,
-		ideFormat: cliFlags.instructionsIdeFormat,
+		ideFormats: cliFlags.instructionsIdeFormats,
 	});
 	const includeInstructions = instructionsResult.includeInstructions;
-	const instructionsIdeFormat = instructionsResult.ideFormat;
+	const instructionsIdeFormats = instructionsResult.ideFormats;
 
 	let authorName: string | undefined;
 	let authorGitEmail: string | undefined;
@@ -89,10 +128,12 @@ export async function getGeneratePackageConfiguration(
 		template: template,
 		public: isPublic,
 		includeInstructions: includeInstructions,
-		instructionsIdeFormat: instructionsIdeFormat,
+		instructionsIdeFormats: instructionsIdeFormats,
 		authorName: authorName,
 		authorGitEmail: authorGitEmail,
 		authorGitUsername: authorGitUsername,
+		variables: variables,
+		features: features,
 	};
 
 	return answers;
@@ -172,7 +213,7 @@ export async function getPackageTemplate(
 	let candidateTemplates: string[] = [];
 
 	// If it's running in local mode, fetch templates without spinner
-	if (IS_LOCAL_MODE) {
+	if (getTemplateRegistry().isLocal) {
 		candidateTemplates = await listAvailableTemplates(language, "package");
 	}
 
@@ -245,8 +286,161 @@ export async function getPackageVisibility(
 }
 
 /**
- * Prompt for whether to include agent instructions during package creation, and for IDE format if yes.
- * @param cliFlags - Optional flags (includeInstructions, ideFormat).
+ * Prompt for a single template variable using the prompt matching its type.
+ * @param name - Variable name (used as the message when none is declared).
+ * @param variable - Variable definition from yehle.yaml.
+ * @returns Promise resolving to the validated answer.
+ * @throws Error when the answer fails the variable's validation.
+ */
+export async function promptTemplateVariable(
+	name: string,
+	variable: TemplateVariable,
+): Promise<TemplateVariableValue> {
+	const message = variable.message ?? name;
+	const initial = getVariableDefault(variable);
+	const options = (variable.options ?? []).map((option) =>
+		typeof option === "string"
+			? { label: option, value: option }
+			: { ...option, label: option.label ?? option.value },
+	);
+
+	let value: TemplateVariableValue;
+	switch (variable.type) {
+		case "text":
+			value = await prompts.textInput(message, undefined, String(initial));
+			break;
+		case "select":
+			value = await prompts.selectInput<string>(
+				message,
+				{ options },
+				String(initial),
+			);
+			break;
+		case "confirm":
+			value = await prompts.confirmInput(message, undefined, Boolean(initial));
+			break;
+		case "multiselect":
+			value = await prompts.multiselectInput(
+				message,
+				{
+					options,
+					required: Boolean(variable.validate?.required),
+				},
+				initial as string[],
+			);
+			break;
+	}
+
+	validateVariableValue(name, variable, value);
+	return value;
+}
+
+/**
+ * Resolve the variables declared in the chosen template's yehle.yaml.
+ * Values passed via --var are used as given; the others are prompted for in declaration order.
+ * Variables whose when: condition does not hold for the answers so far are skipped.
+ * @param language - The selected programming language.
+ * @param template - The chosen template.
+ * @param context - Answers gathered so far (lang, name, template, public) that when: conditions may refer to.
+ * @param vars - Raw values passed via --var, by variable name.
+ * @returns Promise resolving to the answers by variable name.
+ * @throws Error when a --var names an undeclared variable or a value fails validation.
+ */
+export async function getPackageTemplateVariables(
+	language: Language,
+	template: string,
+	context: Record<string, unknown>,
+	vars: Record<string, string> = {},
+): Promise<TemplateVariableValues> {
+	let definitions: Record<string, TemplateVariable> = {};
+	const readDefinitions = async () => {
+		const templateDir = await resolveTemplatesDir(
+			language,
+			`package/${template}`,
+		);
+		definitions = await readTemplateVariables(templateDir);
+	};
+
+	if (getTemplateRegistry().isLocal) await readDefinitions();
+	else await tasks.runWithTasks("Reading template variables", readDefinitions);
+
+	const declared = Object.keys(definitions);
+	for (const key of Object.keys(vars)) {
+		if (!declared.includes(key))
+			throw new Error(
+				`Unknown template variable "${key}" for template "${template}" (declared: ${declared.join(", ") || "none"}).`,
+			);
+	}
+
+	const values: TemplateVariableValues = {};
+	for (const [name, variable] of Object.entries(definitions)) {
+		if (!isVariableActive(variable, { ...context, ...values })) continue;
+		values[name] =
+			name in vars
+				? coerceVariableValue(name, variable, vars[name])
+				: await promptTemplateVariable(name, variable);
+	}
+	return values;
+}
+
+/**
+ * Resolve which optional features declared in the chosen template's yehle.yaml are included.
+ * Features passed via --feature / --no-feature are used as given; the others are offered in a multiselect,
+ * preselected according to their default.
+ * @param language - The selected programming language.
+ * @param template - The chosen template.
+ * @param flags - Feature names passed via --feature and --no-feature.
+ * @returns Promise resolving to whether each declared feature is included.
+ * @throws Error when a flag names an undeclared feature or a feature is both enabled and disabled.
+ */
+export async function getPackageTemplateFeatures(
+	language: Language,
+	template: string,
+	flags: TemplateFeatureFlags = {},
+): Promise<TemplateFeatureSelection> {
+	let definitions: Record<string, TemplateFeature> = {};
+	const readDefinitions = async () => {
+		const templateDir = await resolveTemplatesDir(
+			language,
+			`package/${template}`,
+		);
+		definitions = await readTemplateFeatures(templateDir);
+	};
+
+	if (getTemplateRegistry().isLocal) await readDefinitions();
+	else await tasks.runWithTasks("Reading template features", readDefinitions);
+
+	const selection = resolveFeatureFlags(definitions, flags, template);
+	const undecided = Object.entries(definitions).filter(
+		([name]) => !(name in selection),
+	);
+	if (undecided.length > 0) {
+		const chosen = await prompts.multiselectInput(
+			"Which optional features would you like to include?",
+			{
+				options: undecided.map(([name, feature]) => ({
+					label: name,
+					value: name,
+					hint: feature.description,
+				})),
+				required: false,
+			},
+			undecided
+				.filter(([, feature]) => isFeatureSelectedByDefault(feature))
+				.map(([name]) => name),
+		);
+		for (const [name] of undecided) selection[name] = chosen.includes(name);
+	}
+
+	// Report every declared feature, in declaration order
+	return Object.fromEntries(
+		Object.keys(definitions).map((name) => [name, selection[name]]),
+	);
+}
+
+/**
+ * Prompt for whether to include agent instructions during package creation, and for IDE formats if yes.
+ * @param cliFlags - Optional flags (includeInstructions, ideFormats).
  * @returns Promise resolving to the package instructions configuration.
  */
 export async function getGeneratePackageInstructionsConfiguration(
@@ -262,8 +456,8 @@ export async function getGeneratePackageInstructionsConfiguration(
 
 	if (!includeInstructions) return { includeInstructions: false };
 
-	const ideFormat = await getIdeFormatSelection(cliFlags.ideFormat);
-	return { includeInstructions: true, ideFormat: ideFormat };
+	const ideFormats = await getIdeFormatSelection(cliFlags.ideFormats);
+	return { includeInstructions: true, ideFormats: ideFormats };
 }
 
 /**
@@ -19,24 +19,26 @@ vi.mock("spdx-license-list/licenses/MIT.json", () => ({
 	},
 }));
 
-vi.mock("../../core/constants", async (importOriginal) => {
-	const actual = await importOriginal<typeof import("../../core/constants")>();
-	return {
-		...actual,
-		IS_LOCAL_MODE: false,
-	};
-});
-
 vi.mock("../../core/fs", () => ({
 	copyDirSafeAsync: vi.fn(),
 	ensureDirAsync: vi.fn(),
 	isDirAsync: vi.fn(),
+	mergeIntoJSONFile: vi.fn(),
+	readMustachePartials: vi.fn(() => Promise.resolve({})),
 	removeFilesByBasename: vi.fn(),
 	renderMustacheTemplates: vi.fn(),
-	stripKeyFromJSONFile: vi.fn(),
 	writeFileAsync: vi.fn(),
 }));
 
+vi.mock("../../core/features", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../core/features")>();
+	return {
+		...actual,
+		readTemplateFeatures: vi.fn(() => Promise.resolve({})),
+		removeUnselectedFeatureFiles: vi.fn(),
+	};
+});
+
 vi.mock("../../core/git", () => ({
 	getGitEmail: vi.fn(),
 	getGitUsername: vi.fn(),
@@ -54,6 +56,32 @@ vi.mock("../../core/templates", () => ({
 	resolveTemplatesDir: vi.fn(),
 }));
 
+vi.mock("../../core/inheritance", async (importOriginal) => {
+	const actual =
+		await importOriginal<typeof import("../../core/inheritance")>();
+	const { resolveTemplatesDir } = await import("../../core/templates");
+	return {
+		...actual,
+		applyDeletionMarkers: vi.fn(),
+		resolveTemplateChain: vi.fn(
+			async (lang: string, projectSpec: string, template: string) => [
+				{
+					id: `${lang}/${projectSpec}/${template}`,
+					dir: await resolveTemplatesDir(lang, `${projectSpec}/${template}`),
+				},
+			],
+		),
+	};
+});
+
+vi.mock("../../core/merge", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../core/merge")>();
+	return {
+		...actual,
+		readTemplateMergeStrategies: vi.fn(() => Promise.resolve({})),
+	};
+});
+
 vi.mock("../../core/instructions", async (importOriginal) => {
 	const actual =
 		await importOriginal<typeof import("../../core/instructions")>();
@@ -88,11 +116,13 @@ vi.mock("../../cli/tasks", () => ({
 }));
 
 import { Language } from "../../core/constants";
+import { readTemplateFeatures } from "../../core/features";
 import {
 	isDirAsync,
+	mergeIntoJSONFile,
+	readMustachePartials,
 	removeFilesByBasename,
 	renderMustacheTemplates,
-	stripKeyFromJSONFile,
 } from "../../core/fs";
 import { resolveTemplatesDir } from "../../core/templates";
 
@@ -144,14 +174,14 @@ describe("resources/package/setup", () => {
 			expect(writeInstructionToFile).not.toHaveBeenCalled();
 		});
 
-		it("should no-op when instructionsIdeFormat is missing", async () => {
+		it("should no-op when instructionsIdeFormats is missing", async () => {
 			await addPackageInstructions("/target", {
 				lang: Language.TYPESCRIPT,
 				name: "pkg",
 				template: "basic",
 				public: false,
 				includeInstructions: true,
-				instructionsIdeFormat: undefined,
+				instructionsIdeFormats: undefined,
 			});
 
 			expect(listAvailableInstructions).not.toHaveBeenCalled();
@@ -178,7 +208,7 @@ describe("resources/package/setup", () => {
 				template: "basic",
 				public: false,
 				includeInstructions: true,
-				instructionsIdeFormat: "cursor",
+				instructionsIdeFormats: ["cursor"],
 			});
 
 			expect(
@@ -232,7 +262,7 @@ describe("resources/package/setup", () => {
 				template: "basic",
 				public: false,
 				includeInstructions: true,
-				instructionsIdeFormat: "cursor",
+				instructionsIdeFormats: ["cursor"],
 			});
 
 			expect(listAvailableInstructions).toHaveBeenCalledWith(
@@ -295,7 +325,7 @@ describe("resources/package/setup", () => {
 				template: "basic",
 				public: false,
 				includeInstructions: true,
-				instructionsIdeFormat: "cursor",
+				instructionsIdeFormats: ["cursor"],
 			});
 
 			expect(writeInstructionToFile).toHaveBeenCalledWith(
@@ -354,7 +384,7 @@ describe("resources/package/setup", () => {
 				template: "basic",
 				public: false,
 				includeInstructions: true,
-				instructionsIdeFormat: "cursor",
+				instructionsIdeFormats: ["cursor"],
 			});
 
 			expect(writeInstructionToFile).toHaveBeenCalledWith(
@@ -405,7 +435,7 @@ describe("resources/package/setup", () => {
 				template: "basic",
 				public: false,
 				includeInstructions: true,
-				instructionsIdeFormat: "cursor",
+				instructionsIdeFormats: ["cursor"],
 			});
 
 			expect(writeInstructionToFile).toHaveBeenCalledWith(
@@ -464,7 +494,7 @@ describe("resources/package/setup", () => {
 				template: "basic",
 				public: false,
 				includeInstructions: true,
-				instructionsIdeFormat: "cursor",
+				instructionsIdeFormats: ["cursor"],
 			});
 
 			expect(writeInstructionToFile).toHaveBeenCalledWith(
@@ -519,7 +549,7 @@ describe("resources/package/setup", () => {
 				template: "basic",
 				public: false,
 				includeInstructions: true,
-				instructionsIdeFormat: "cursor",
+				instructionsIdeFormats: ["cursor"],
 			});
 
 			expect(writeInstructionToFile).toHaveBeenCalledWith(
@@ -547,12 +577,16 @@ describe("resources/package/setup", () => {
 			const expectedMetadata = {
 				packageManagerVersion,
 				templateHasPlayground: true,
+				feature: {},
 				...generateConfig,
 			};
 
 			vi.mocked(resolveTemplatesDir).mockResolvedValue("/template/dir");
 			vi.mocked(isDirAsync).mockResolvedValue(true);
 			vi.mocked(renderMustacheTemplates).mockResolvedValue();
+			vi.mocked(readMustachePartials).mockResolvedValueOnce({
+				badges: "<badges />",
+			});
 
 			await applyTemplateModifications(
 				targetDir,
@@ -563,6 +597,7 @@ describe("resources/package/setup", () => {
 			expect(renderMustacheTemplates).toHaveBeenCalledWith(
 				targetDir,
 				expectedMetadata,
+				{ badges: "<badges />" },
 			);
 		});
 
@@ -648,55 +683,46 @@ describe("resources/package/setup", () => {
 			expect(removeFilesByBasename).not.toHaveBeenCalled();
 		});
 
-		it("should remove the 'root' property from biome.json if it exists", async () => {
+		it("should expose selected features and merge their package.json fragments", async () => {
 			const targetDir = "/path/to/package";
 			const generateConfig = {
 				lang: Language.TYPESCRIPT,
 				name: "test-package",
-				template: "basic",
-				public: true,
+				template: "react",
+				public: false,
+				features: { playground: false, stryker: true },
 			};
-			const packageManagerVersion = "pnpm@9.0.0";
-			const biomeJsonPath = "/path/to/package/biome.json";
 
 			vi.mocked(resolveTemplatesDir).mockResolvedValue("/template/dir");
-			vi.mocked(isDirAsync).mockResolvedValue(false);
-			vi.mocked(renderMustacheTemplates).mockResolvedValue();
-			vi.mocked(stripKeyFromJSONFile).mockResolvedValue();
-
-			await applyTemplateModifications(
-				targetDir,
-				generateConfig,
-				packageManagerVersion,
-			);
-
-			expect(stripKeyFromJSONFile).toHaveBeenCalledWith(biomeJsonPath, "root");
-		});
-
-		it("should call stripKeyFromJSONFile for biome.json even when file does not exist", async () => {
-			const targetDir = "/path/to/package";
-			const generateConfig = {
-				lang: Language.TYPESCRIPT,
-				name: "test-package",
-				template: "basic",
-				public: true,
-			};
-			const packageManagerVersion = "pnpm@9.0.0";
+			vi.mocked(isDirAsync).mockResolvedValue(true);
+			vi.mocked(readTemplateFeatures).mockResolvedValue({
+				playground: {
+					files: ["playground"],
+					packageJson: { scripts: { playground: "vite" } },
+				},
+				stryker: {
+					files: ["stryker.config.mjs"],
+					packageJson: { scripts: { "test-mutations": "stryker run" } },
+				},
+				husky: {
+					default: false,
+					packageJson: { scripts: { prepare: "husky" } },
+				},
+			});
 
-			vi.mocked(resolveTemplatesDir).mockResolvedValue("/template/dir");
-			vi.mocked(isDirAsync).mockResolvedValue(false);
-			vi.mocked(renderMustacheTemplates).mockResolvedValue();
-			vi.mocked(stripKeyFromJSONFile).mockResolvedValue();
+			await applyTemplateModifications(targetDir, generateConfig, "pnpm@9.0.0");
 
-			await applyTemplateModifications(
+			expect(renderMustacheTemplates).toHaveBeenCalledWith(
 				targetDir,
-				generateConfig,
-				packageManagerVersion,
+				expect.objectContaining({
+					templateHasPlayground: false,
+					feature: { playground: false, stryker: true, husky: false },
+				}),
+				{},
 			);
-
-			expect(stripKeyFromJSONFile).toHaveBeenCalledWith(
-				"/path/to/package/biome.json",
-				"root",
+			expect(mergeIntoJSONFile).toHaveBeenCalledWith(
+				"/path/to/package/package.json",
+				[{ scripts: { "test-mutations": "stryker run" } }],
 			);
 		});
 	});
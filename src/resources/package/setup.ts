@@ -1,9 +1,15 @@
+import {
+	getSelectedPackageJsonFragments,
+	readTemplateFeatures,
+} from "../../core/features";
 import {
 	addProjectInstructions,
 	applyTemplateModifications as applyCoreTemplateModifications,
 	buildTemplateMetadata,
+	readTemplatePartials,
 	type WriteInstructionFn,
 } from "../../core/setup";
+import { resolveTemplatesDir } from "../../core/templates";
 import { writeInstructionToFile } from "../instructions/ide-formats";
 import type { GeneratePackageConfiguration } from "./config";
 import { templatePublicPaths } from "./config";
@@ -19,6 +25,11 @@ export async function applyTemplateModifications(
 		templatePath,
 		packageManagerVersion,
 		generateConfig,
+		generateConfig.variables,
+		generateConfig.features,
+	);
+	const featureDefinitions = await readTemplateFeatures(
+		await resolveTemplatesDir(generateConfig.lang, templatePath),
 	);
 
 	const publicFiles = [
@@ -31,7 +42,20 @@ export async function applyTemplateModifications(
 		metadata,
 		isPublic: generateConfig.public,
 		publicOnlyFiles: publicFiles,
-		stripJsonKeys: [{ file: "biome.json", key: "root" }],
+		partials: await readTemplatePartials(
+			generateConfig.lang,
+			"package",
+			generateConfig.template,
+		),
+		mergeJson: [
+			{
+				file: "package.json",
+				fragments: getSelectedPackageJsonFragments(
+					featureDefinitions,
+					generateConfig.features ?? {},
+				),
+			},
+		],
 	});
 }
 
@@ -46,7 +70,7 @@ export async function addPackageInstructions(
 			projectSpec: "package",
 			template: generateConfig.template,
 			includeInstructions: generateConfig.includeInstructions,
-			instructionsIdeFormat: generateConfig.instructionsIdeFormat,
+			instructionsIdeFormats: generateConfig.instructionsIdeFormats,
 		},
 		writeInstructionToFile as WriteInstructionFn,
 	);
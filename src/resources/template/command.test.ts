@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../cli/logger", () => ({
+	primaryText: vi.fn((s: string) => s),
+	defaultText: vi.fn((s: string) => s),
+}));
+
+vi.mock("chalk", () => ({
+	default: {
+		bold: vi.fn((s: string) => s),
+	},
+}));
+
+vi.mock("../../cli/tasks", () => ({
+	default: {
+		runWithTasks: vi.fn(
+			async (
+				_goal: string,
+				_task: unknown,
+				subtasks: { task: () => Promise<void> }[],
+			) => {
+				for (const subtask of subtasks) await subtask.task();
+			},
+		),
+	},
+}));
+
+vi.mock("../../core/lint", () => ({
+	lintTemplates: vi.fn(),
+}));
+
+vi.mock("../../core/registry", () => ({
+	getTemplateRegistry: () => ({
+		source: { kind: "local", path: "/work/templates" },
+	}),
+}));
+
+vi.mock("../../core/registry.source", () => ({
+	configureRegistrySource: vi.fn(),
+	formatRegistrySource: vi.fn((source: { path: string }) => source.path),
+}));
+
+// Import after mocks
+import { lintTemplates } from "../../core/lint";
+import { configureRegistrySource } from "../../core/registry.source";
+import manageTemplates from "./command";
+
+describe("resources/template/command", () => {
+	let logSpy: ReturnType<typeof vi.spyOn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		logSpy.mockRestore();
+	});
+
+	/** All lines printed via console.log. */
+	function printed(): string[] {
+		return logSpy.mock.calls.map((call: unknown[]) => String(call[0] ?? ""));
+	}
+
+	describe("lint", () => {
+		it("should lint the current directory by default and report a clean tree", async () => {
+			vi.mocked(lintTemplates).mockResolvedValue([]);
+
+			await manageTemplates("lint");
+
+			expect(configureRegistrySource).toHaveBeenCalledWith({
+				templatesDir: ".",
+			});
+			expect(printed()).toContain("No problems found in /work/templates");
+		});
+
+		it("should print each problem with its location and fail", async () => {
+			vi.mocked(lintTemplates).mockResolvedValue([
+				{
+					file: "typescript/package/basic/yehle.yaml",
+					line: 3,
+					message: 'toolingInstructions entry "npm" has no instruction.',
+				},
+				{
+					file: "typescript/package/basic/package.mustache.json",
+					message: "Invalid JSON: Unexpected token.",
+				},
+			]);
+
+			await expect(manageTemplates("lint", "../templates")).rejects.toThrow(
+				"Found 2 problems in /work/templates.",
+			);
+
+			expect(configureRegistrySource).toHaveBeenCalledWith({
+				templatesDir: "../templates",
+			});
+			expect(printed()).toEqual(
+				expect.arrayContaining([
+					'typescript/package/basic/yehle.yaml:3 toolingInstructions entry "npm" has no instruction.',
+					"typescript/package/basic/package.mustache.json Invalid JSON: Unexpected token.",
+				]),
+			);
+		});
+	});
+
+	it("should reject unknown actions", async () => {
+		await expect(manageTemplates("publish")).rejects.toThrow(
+			'Unknown template action "publish" (expected lint).',
+		);
+	});
+});
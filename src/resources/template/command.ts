@@ -0,0 +1,77 @@
+import chalk from "chalk";
+import { defaultText, primaryText } from "../../cli/logger";
+import tasks from "../../cli/tasks";
+import { lintTemplates, type TemplateLintProblem } from "../../core/lint";
+import { getTemplateRegistry } from "../../core/registry";
+import {
+	configureRegistrySource,
+	formatRegistrySource,
+} from "../../core/registry.source";
+
+/** Actions supported by `yehle template <action>`. */
+export const TEMPLATE_ACTIONS = ["lint"] as const;
+
+export type TemplateAction = (typeof TEMPLATE_ACTIONS)[number];
+
+/**
+ * Lint the templates tree at a path and print every problem with its file and line.
+ * @param templatesPath - The templates/ directory or a checkout that contains one.
+ * @returns Promise that resolves when no problems were found.
+ * @throws Error when the tree has problems (after printing them).
+ */
+async function lintTemplatesTree(templatesPath: string): Promise<void> {
+	await configureRegistrySource({ templatesDir: templatesPath });
+	const source = formatRegistrySource(getTemplateRegistry().source);
+
+	let problems: TemplateLintProblem[] = [];
+	console.log();
+	await tasks.runWithTasks("Linting templates", undefined, [
+		{
+			title: `Lint ${source}`,
+			task: async () => {
+				problems = await lintTemplates();
+			},
+		},
+	]);
+
+	console.log();
+	if (problems.length === 0) {
+		console.log(`No problems found in ${primaryText(source)}`);
+		console.log();
+		return;
+	}
+
+	for (const problem of problems) {
+		const location = problem.line
+			? `${problem.file}:${problem.line}`
+			: problem.file;
+		console.log(`${chalk.bold(location)} ${defaultText(problem.message)}`);
+	}
+	throw new Error(
+		`Found ${problems.length} ${problems.length === 1 ? "problem" : "problems"} in ${source}.`,
+	);
+}
+
+/**
+ * Tools for template authors: lint a templates tree before publishing it.
+ * @param action - One of TEMPLATE_ACTIONS.
+ * @param templatesPath - The templates/ directory or a checkout that contains one (default: the current directory).
+ * @returns Promise that resolves when the action has completed and its summary has been printed.
+ * @throws Error when the action is unknown or the templates have problems.
+ */
+export async function manageTemplates(
+	action: string,
+	templatesPath = ".",
+): Promise<void> {
+	switch (action) {
+		case "lint":
+			await lintTemplatesTree(templatesPath);
+			return;
+		default:
+			throw new Error(
+				`Unknown template action "${action}" (expected ${TEMPLATE_ACTIONS.join(", ")}).`,
+			);
+	}
+}
+
+export default manageTemplates;
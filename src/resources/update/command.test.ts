@@ -0,0 +1,282 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("chalk", () => ({
+	default: {
+		bold: vi.fn((text) => text),
+	},
+}));
+
+// Mock internal modules
+vi.mock("../../cli/logger", () => ({
+	default: {
+		intro: vi.fn(),
+		warn: vi.fn(),
+	},
+	defaultText: vi.fn((text) => text),
+	primaryText: vi.fn((text) => text),
+}));
+
+vi.mock("../../cli/tasks", () => ({
+	default: {
+		runWithTasks: vi.fn(
+			async (
+				_goal: string,
+				task?: () => Promise<void>,
+				subtasks?: { task?: () => Promise<void> }[],
+			) => {
+				if (task) await task();
+				for (const sub of subtasks ?? []) if (sub.task) await sub.task();
+			},
+		),
+	},
+}));
+
+vi.mock("../../core/conflicts", () => ({
+	createStagingDirectory: vi.fn(async () => "/tmp/yehle-staging-1"),
+	KEEP_BOTH_SUFFIX: ".yehle-new",
+	removeStagingDirectory: vi.fn(),
+}));
+
+vi.mock("../../core/features", () => ({
+	isFeatureSelectedByDefault: vi.fn(() => true),
+	readTemplateFeatures: vi.fn(async () => ({})),
+}));
+
+vi.mock("../../core/fs", () => ({
+	writeFileAsync: vi.fn(),
+}));
+
+vi.mock("../../core/manifest", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../core/manifest")>();
+	return {
+		...actual,
+		hashProjectFiles: vi.fn(async () => ({ "README.md": "beef" })),
+		readProjectManifest: vi.fn(),
+		writeProjectManifest: vi.fn(),
+	};
+});
+
+vi.mock("../../core/pkg-manager", () => ({
+	ensurePackageManager: vi.fn(async () => "10.0.0"),
+	LANGUAGE_PACKAGE_MANAGER: { typescript: "pnpm" },
+}));
+
+vi.mock("../../core/registry.source", async (importOriginal) => {
+	const actual =
+		await importOriginal<typeof import("../../core/registry.source")>();
+	return {
+		...actual,
+		configureRegistrySource: vi.fn(async () => ({
+			kind: "github",
+			owner: "acme",
+			repo: "templates",
+			ref: "v2.0.0",
+		})),
+	};
+});
+
+vi.mock("../../core/setup", () => ({
+	createProjectDirectory: vi.fn(async (dir: string) => `${dir}/my-lib`),
+	writeTemplateFiles: vi.fn(),
+}));
+
+vi.mock("../../core/templates", () => ({
+	pinRegistryToCommit: vi.fn(),
+	resolveTemplatesDir: vi.fn(async () => "/templates/typescript/package/basic"),
+}));
+
+vi.mock("../../core/update", () => ({
+	applyProjectUpdate: vi.fn(),
+	formatProjectUpdatePatch: vi.fn(async () => "diff --git a/x b/x\n"),
+	planProjectUpdate: vi.fn(async () => []),
+}));
+
+vi.mock("../../core/variables", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../core/variables")>();
+	return {
+		...actual,
+		readTemplateVariables: vi.fn(async () => ({})),
+	};
+});
+
+vi.mock("../package/config", () => ({
+	promptTemplateVariable: vi.fn(),
+}));
+
+vi.mock("../package/setup", () => ({
+	addPackageInstructions: vi.fn(),
+	applyTemplateModifications: vi.fn(),
+}));
+
+// Import after mocks
+import logger from "../../cli/logger";
+import { writeFileAsync } from "../../core/fs";
+import {
+	type ProjectManifest,
+	readProjectManifest,
+	writeProjectManifest,
+} from "../../core/manifest";
+import { configureRegistrySource } from "../../core/registry.source";
+import { writeTemplateFiles } from "../../core/setup";
+import { pinRegistryToCommit } from "../../core/templates";
+import {
+	applyProjectUpdate,
+	formatProjectUpdatePatch,
+	planProjectUpdate,
+} from "../../core/update";
+import { readTemplateVariables } from "../../core/variables";
+import { promptTemplateVariable } from "../package/config";
+import { updateProject } from "./command";
+
+describe("resources/update/command", () => {
+	const manifest: ProjectManifest = {
+		version: 1,
+		generatedAt: "2026-01-01T00:00:00.000Z",
+		source: { registry: "github:acme/templates", ref: "v1.0.0", commit: "c1" },
+		template: { lang: "typescript", projectSpec: "package", name: "basic" },
+		answers: {
+			name: "my-lib",
+			public: false,
+			variables: { framework: "react" },
+			features: {},
+		},
+		files: { "README.md": "f00d" },
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(process, "cwd").mockReturnValue("/project");
+		vi.mocked(readProjectManifest).mockResolvedValue(manifest);
+		vi.mocked(pinRegistryToCommit)
+			.mockResolvedValueOnce("c1")
+			.mockResolvedValueOnce("c2");
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should refuse projects without a manifest", async () => {
+		vi.mocked(readProjectManifest).mockResolvedValue(undefined);
+
+		await expect(updateProject()).rejects.toThrow(
+			"only projects generated by yehle can be updated",
+		);
+	});
+
+	it("should merge the template at the new ref against the recorded commit and record it", async () => {
+		vi.mocked(planProjectUpdate).mockResolvedValue([
+			{ path: "README.md", status: "updated", content: Buffer.from("v2") },
+		]);
+
+		await updateProject({ ref: "v2.0.0" });
+
+		expect(configureRegistrySource).toHaveBeenNthCalledWith(1, {
+			registry: "github:acme/templates",
+			ref: "c1",
+			offline: undefined,
+		});
+		expect(configureRegistrySource).toHaveBeenNthCalledWith(2, {
+			registry: "github:acme/templates",
+			ref: "v2.0.0",
+			offline: undefined,
+			templatesDir: undefined,
+		});
+		expect(writeTemplateFiles).toHaveBeenCalledTimes(2);
+		expect(planProjectUpdate).toHaveBeenCalledWith({
+			projectDir: "/project",
+			baseDir: "/tmp/yehle-staging-1/base/my-lib",
+			nextDir: "/tmp/yehle-staging-1/next/my-lib",
+			recordedFiles: { "README.md": "f00d" },
+			nextLabel: "template c2",
+		});
+		expect(applyProjectUpdate).toHaveBeenCalledWith("/project", [
+			{ path: "README.md", status: "updated", content: Buffer.from("v2") },
+		]);
+		expect(writeProjectManifest).toHaveBeenCalledWith(
+			"/project",
+			expect.objectContaining({
+				source: {
+					registry: "github:acme/templates",
+					ref: "v2.0.0",
+					commit: "c2",
+				},
+				files: { "README.md": "beef" },
+				updatedAt: expect.any(String),
+			}),
+		);
+	});
+
+	it("should merge without a base when the recorded commit can't be reproduced", async () => {
+		vi.mocked(pinRegistryToCommit).mockReset().mockResolvedValue("c9");
+
+		await updateProject();
+
+		expect(logger.warn).toHaveBeenCalledWith(
+			expect.stringContaining("can't be reproduced"),
+		);
+		expect(writeTemplateFiles).toHaveBeenCalledTimes(1);
+		expect(planProjectUpdate).toHaveBeenCalledWith(
+			expect.objectContaining({ baseDir: undefined }),
+		);
+	});
+
+	it("should leave the project alone when the template has no changes", async () => {
+		await updateProject();
+
+		expect(applyProjectUpdate).not.toHaveBeenCalled();
+		expect(writeProjectManifest).not.toHaveBeenCalled();
+		expect(console.log).toHaveBeenCalledWith(
+			expect.stringContaining("Already up to date"),
+		);
+	});
+
+	it("should write a patch including the manifest instead of applying changes with --patch", async () => {
+		vi.mocked(planProjectUpdate).mockResolvedValue([
+			{ path: "README.md", status: "updated", content: Buffer.from("v2") },
+		]);
+
+		await updateProject({ patch: "update.patch" });
+
+		expect(formatProjectUpdatePatch).toHaveBeenCalledWith("/project", [
+			{ path: "README.md", status: "updated", content: Buffer.from("v2") },
+			expect.objectContaining({ path: ".yehle/manifest.json" }),
+		]);
+		expect(writeFileAsync).toHaveBeenCalledWith(
+			"/project/update.patch",
+			"diff --git a/x b/x\n",
+		);
+		expect(applyProjectUpdate).not.toHaveBeenCalled();
+		expect(writeProjectManifest).not.toHaveBeenCalled();
+	});
+
+	it("should reuse recorded answers, apply --var overrides and prompt for new variables", async () => {
+		vi.mocked(readTemplateVariables).mockResolvedValue({
+			framework: { prompt: "Framework?", type: "string" },
+			port: { prompt: "Port?", type: "number" },
+			token: { prompt: "Token?", type: "string", secret: true },
+		});
+		vi.mocked(promptTemplateVariable)
+			.mockResolvedValueOnce(3000)
+			.mockResolvedValueOnce("s3cret");
+		vi.mocked(planProjectUpdate).mockResolvedValue([
+			{ path: "README.md", status: "updated", content: Buffer.from("v2") },
+		]);
+
+		await updateProject({ vars: { framework: "vue" } });
+
+		expect(promptTemplateVariable).toHaveBeenCalledTimes(2);
+		expect(writeProjectManifest).toHaveBeenCalledWith(
+			"/project",
+			expect.objectContaining({
+				answers: expect.objectContaining({
+					variables: { framework: "vue", port: 3000 },
+				}),
+			}),
+		);
+		await expect(updateProject({ vars: { nope: "1" } })).rejects.toThrow(
+			'Unknown template variable "nope"',
+		);
+	});
+});
@@ -0,0 +1,268 @@
+import path from "node:path";
+import chalk from "chalk";
+import logger, { defaultText, primaryText } from "../../cli/logger";
+import tasks from "../../cli/tasks";
+import {
+	createStagingDirectory,
+	KEEP_BOTH_SUFFIX,
+	removeStagingDirectory,
+} from "../../core/conflicts";
+import type { Language } from "../../core/constants";
+import { writeFileAsync } from "../../core/fs";
+import {
+	getProjectManifestPath,
+	hashProjectFiles,
+	PROJECT_MANIFEST_FILENAME,
+	type ProjectManifest,
+	readProjectManifest,
+	writeProjectManifest,
+	YEHLE_PROJECT_DIR,
+} from "../../core/manifest";
+import {
+	ensurePackageManager,
+	LANGUAGE_PACKAGE_MANAGER,
+} from "../../core/pkg-manager";
+import {
+	configureRegistrySource,
+	formatRegistrySource,
+	type RegistryOptions,
+} from "../../core/registry.source";
+import { pinRegistryToCommit } from "../../core/templates";
+import {
+	applyProjectUpdate,
+	formatProjectUpdatePatch,
+	type ProjectFileUpdate,
+	type ProjectFileUpdateStatus,
+	planProjectUpdate,
+} from "../../core/update";
+import {
+	omitSecretVariables,
+	type TemplateVariableFlags,
+} from "../../core/variables";
+import {
+	configureRecordedRegistrySource,
+	renderPackage,
+	resolveProjectFeatures,
+	resolveProjectVariables,
+	toPackageConfiguration,
+} from "./setup";
+
+/** Options of `yehle update`. */
+export type UpdateProjectOptions = RegistryOptions &
+	TemplateVariableFlags & {
+		/** Write the changes as a patch to this file instead of applying them (--patch). */
+		patch?: string;
+	};
+
+/** How each update status is described in the summary, in the order they are listed. */
+const UPDATE_STATUS_LABELS: Record<ProjectFileUpdateStatus, string> = {
+	added: "Added",
+	updated: "Updated",
+	merged: "Merged with your changes",
+	conflicted: "Merged with conflicts to resolve",
+	"kept-both": `Kept your version (template version saved with ${KEEP_BOTH_SUFFIX})`,
+	deleted: "Deleted (removed from the template)",
+	skipped: "Skipped",
+};
+
+/**
+ * Print what the update did (or would do) to each file.
+ * @param updates - Planned changes.
+ */
+function printUpdateSummary(updates: ProjectFileUpdate[]): void {
+	for (const status of Object.keys(
+		UPDATE_STATUS_LABELS,
+	) as ProjectFileUpdateStatus[]) {
+		const files = updates.filter((update) => update.status === status);
+		if (files.length === 0) continue;
+		console.log(`  ${UPDATE_STATUS_LABELS[status]}:`);
+		for (const update of files)
+			console.log(
+				`    - ${primaryText(update.path)}${update.reason ? defaultText(` (${update.reason})`) : ""}`,
+			);
+	}
+}
+
+/**
+ * Bring the project in the current directory up to date with a newer version of its template.
+ * The template is rendered at the commit recorded in .yehle/manifest.json and at the new ref with the recorded answers,
+ * and the template's changes are three-way merged into the project; conflicts are marked git-style.
+ * With patch, nothing is changed and the changes are written to a patch file instead.
+ * @param options - Optional CLI-style options (registry, ref, offline, templatesDir, vars, patch).
+ * @returns Promise that resolves when the project has been updated (or the patch written) and a summary printed.
+ * @throws Error when the project has no manifest, the package manager is missing, or template steps fail.
+ */
+export async function updateProject(
+	options: UpdateProjectOptions = {},
+): Promise<void> {
+	await logger.intro("updating project...");
+
+	const projectDir = process.cwd();
+	const manifest = await readProjectManifest(projectDir);
+	if (!manifest)
+		throw new Error(
+			`No project manifest found at ${getProjectManifestPath(projectDir)}; only projects generated by yehle can be updated.`,
+		);
+	if (manifest.template.projectSpec !== "package")
+		throw new Error(
+			`Updating ${manifest.template.projectSpec} projects is not supported.`,
+		);
+
+	const packageManagerVersion = await ensurePackageManager(
+		LANGUAGE_PACKAGE_MANAGER[manifest.template.lang as Language],
+	);
+
+	const stagingDir = await createStagingDirectory();
+	try {
+		// The original render is the merge base; it can only be reproduced at the recorded commit
+		let baseDir: string | undefined;
+		if (await configureRecordedRegistrySource(manifest, options.offline)) {
+			const config = toPackageConfiguration(
+				manifest,
+				manifest.answers.variables,
+				manifest.answers.features,
+			);
+			await tasks.runWithTasks("Rendering the original template", async () => {
+				baseDir = await renderPackage(
+					path.join(stagingDir, "base"),
+					config,
+					packageManagerVersion,
+				);
+			});
+		}
+		if (!baseDir)
+			logger.warn(
+				"The template as originally generated can't be reproduced, so files you changed are merged without a common base and may conflict more often.",
+			);
+
+		const registrySource = await configureRegistrySource({
+			registry: options.templatesDir
+				? undefined
+				: (options.registry ?? manifest.source.registry),
+			ref: options.ref,
+			offline: options.offline,
+			templatesDir: options.templatesDir,
+		});
+		const nextCommit = await pinRegistryToCommit();
+		const { values, definitions } = await resolveProjectVariables(
+			manifest,
+			options.vars,
+		);
+		const features = await resolveProjectFeatures(manifest);
+		const nextConfig = toPackageConfiguration(manifest, values, features);
+
+		let nextDir = "";
+		let updates: ProjectFileUpdate[] = [];
+		await tasks.runWithTasks("Updating template", undefined, [
+			{
+				title: `Render "${manifest.template.name}" template at ${nextCommit ?? "the latest version"}`,
+				task: async () => {
+					nextDir = await renderPackage(
+						path.join(stagingDir, "next"),
+						nextConfig,
+						packageManagerVersion,
+					);
+				},
+			},
+			{
+				title: "Merge template changes",
+				task: async () => {
+					updates = await planProjectUpdate({
+						projectDir,
+						baseDir,
+						nextDir,
+						recordedFiles: manifest.files,
+						nextLabel: `template ${nextCommit?.slice(0, 7) ?? "latest"}`,
+					});
+				},
+			},
+		]);
+
+		const nextManifest: ProjectManifest = {
+			...manifest,
+			updatedAt: new Date().toISOString(),
+			source: {
+				registry: formatRegistrySource({ ...registrySource, ref: undefined }),
+				ref: registrySource.ref,
+				commit: nextCommit,
+			},
+			answers: {
+				...manifest.answers,
+				variables: omitSecretVariables(values, definitions),
+				features,
+			},
+			files: await hashProjectFiles(nextDir),
+		};
+
+		console.log();
+		if (updates.length === 0) {
+			console.log(
+				chalk.bold(
+					"Already up to date: the template has no changes for this project.",
+				),
+			);
+			console.log();
+			return;
+		}
+
+		if (options.patch) {
+			const patchPath = path.resolve(projectDir, options.patch);
+			// The patch also records the new template version, so applying it leaves the project ready for the next update
+			const patch = await formatProjectUpdatePatch(projectDir, [
+				...updates,
+				{
+					path: `${YEHLE_PROJECT_DIR}/${PROJECT_MANIFEST_FILENAME}`,
+					status: "updated",
+					content: Buffer.from(`${JSON.stringify(nextManifest, null, 2)}\n`),
+				},
+			]);
+			await writeFileAsync(patchPath, patch);
+
+			console.log(
+				chalk.bold(
+					`Template changes written to ${patchPath}; nothing else was changed:`,
+				),
+			);
+			printUpdateSummary(updates);
+			console.log();
+			console.log(
+				`Apply them with ${primaryText(`git apply ${options.patch}`)}`,
+			);
+			console.log();
+			return;
+		}
+
+		await tasks.runWithTasks("Applying template changes", undefined, [
+			{
+				title: "Write updated files",
+				task: async () => {
+					await applyProjectUpdate(projectDir, updates);
+				},
+			},
+			{
+				title: "Record template version",
+				task: async () => {
+					await writeProjectManifest(projectDir, nextManifest);
+				},
+			},
+		]);
+
+		const conflicted = updates.filter(
+			(update) => update.status === "conflicted",
+		);
+		console.log();
+		console.log(chalk.bold("Project updated! Changes:"));
+		printUpdateSummary(updates);
+		console.log();
+		if (conflicted.length > 0)
+			console.log(
+				`Resolve the conflict markers in ${conflicted.map((update) => primaryText(update.path)).join(", ")}, then review the changes with ${primaryText("git diff")}.`,
+			);
+		else console.log(`Review the changes with ${primaryText("git diff")}.`);
+		console.log();
+	} finally {
+		await removeStagingDirectory(stagingDir);
+	}
+}
+
+export default updateProject;
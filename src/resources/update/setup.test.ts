@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../core/registry.source", async (importOriginal) => {
+	const actual =
+		await importOriginal<typeof import("../../core/registry.source")>();
+	return {
+		...actual,
+		configureRegistrySource: vi.fn(),
+	};
+});
+
+vi.mock("../../core/templates", () => ({
+	pinRegistryToCommit: vi.fn(),
+	resolveTemplatesDir: vi.fn(async () => "/templates/typescript/package/basic"),
+}));
+
+vi.mock("../../core/features", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../core/features")>();
+	return {
+		...actual,
+		readTemplateFeatures: vi.fn(async () => ({})),
+	};
+});
+
+// Import after mocks
+import { readTemplateFeatures } from "../../core/features";
+import type { ProjectManifest } from "../../core/manifest";
+import { configureRegistrySource } from "../../core/registry.source";
+import { pinRegistryToCommit } from "../../core/templates";
+import {
+	configureRecordedRegistrySource,
+	resolveProjectFeatures,
+	toPackageConfiguration,
+} from "./setup";
+
+describe("resources/update/setup", () => {
+	const manifest: ProjectManifest = {
+		version: 1,
+		generatedAt: "2026-01-01T00:00:00.000Z",
+		source: { registry: "github:acme/templates", ref: "v1.0.0", commit: "c1" },
+		template: { lang: "typescript", projectSpec: "package", name: "basic" },
+		answers: {
+			name: "my-lib",
+			public: true,
+			authorName: "Ada",
+			variables: { framework: "react" },
+			features: { storybook: false },
+		},
+		instructions: { ideFormats: ["cursor"] },
+		files: {},
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe("configureRecordedRegistrySource", () => {
+		it("should pin remote registries to the recorded commit", async () => {
+			vi.mocked(pinRegistryToCommit).mockResolvedValue("c1");
+
+			await expect(
+				configureRecordedRegistrySource(manifest, true),
+			).resolves.toBe(true);
+			expect(configureRegistrySource).toHaveBeenCalledWith({
+				registry: "github:acme/templates",
+				ref: "c1",
+				offline: true,
+			});
+		});
+
+		it("should only accept local registries still at the recorded commit", async () => {
+			vi.mocked(pinRegistryToCommit).mockResolvedValue("c2");
+			const local = {
+				...manifest,
+				source: { registry: "/work/templates", commit: "c1" },
+			};
+
+			await expect(configureRecordedRegistrySource(local)).resolves.toBe(false);
+			expect(configureRegistrySource).toHaveBeenCalledWith({
+				registry: "/work/templates",
+				ref: undefined,
+				offline: undefined,
+			});
+		});
+
+		it("should not reproduce sources without a recorded commit", async () => {
+			await expect(
+				configureRecordedRegistrySource({
+					...manifest,
+					source: { registry: "github:acme/templates" },
+				}),
+			).resolves.toBe(false);
+			expect(configureRegistrySource).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("resolveProjectFeatures", () => {
+		it("should keep recorded choices and default new features", async () => {
+			vi.mocked(readTemplateFeatures).mockResolvedValue({
+				storybook: { prompt: "Storybook?", default: true },
+				docs: { prompt: "Docs?", default: true },
+			});
+
+			await expect(resolveProjectFeatures(manifest)).resolves.toEqual({
+				storybook: false,
+				docs: true,
+			});
+		});
+	});
+
+	describe("toPackageConfiguration", () => {
+		it("should build the package configuration from the recorded answers", () => {
+			expect(
+				toPackageConfiguration(manifest, { framework: "vue" }, {}),
+			).toEqual(
+				expect.objectContaining({
+					lang: "typescript",
+					name: "my-lib",
+					template: "basic",
+					public: true,
+					authorName: "Ada",
+					includeInstructions: true,
+					instructionsIdeFormats: ["cursor"],
+					variables: { framework: "vue" },
+				}),
+			);
+		});
+	});
+});
@@ -0,0 +1,176 @@
+import type { Language, TemplateVariable } from "../../core/constants";
+import {
+	isFeatureSelectedByDefault,
+	readTemplateFeatures,
+	type TemplateFeatureSelection,
+} from "../../core/features";
+import type { ProjectManifest } from "../../core/manifest";
+import {
+	configureRegistrySource,
+	parseRegistrySource,
+} from "../../core/registry.source";
+import { createProjectDirectory, writeTemplateFiles } from "../../core/setup";
+import { pinRegistryToCommit, resolveTemplatesDir } from "../../core/templates";
+import { toSlug } from "../../core/utils";
+import {
+	coerceVariableValue,
+	isVariableActive,
+	readTemplateVariables,
+	type TemplateVariableValues,
+} from "../../core/variables";
+import type { IdeFormat } from "../instructions/ide-formats";
+import {
+	type GeneratePackageConfiguration,
+	promptTemplateVariable,
+} from "../package/config";
+import {
+	addPackageInstructions,
+	applyTemplateModifications,
+} from "../package/setup";
+
+/**
+ * Answer the variables of the active template: recorded answers are reused, --var values override them,
+ * and variables without an answer (new variables and secrets, which are not recorded) are prompted for.
+ * @param manifest - Project manifest.
+ * @param vars - Raw values passed via --var, by variable name.
+ * @returns Promise resolving to the answers and the variable definitions they were checked against.
+ * @throws Error when a --var names an undeclared variable or a value fails validation.
+ */
+export async function resolveProjectVariables(
+	manifest: ProjectManifest,
+	vars: Record<string, string> = {},
+): Promise<{
+	values: TemplateVariableValues;
+	definitions: Record<string, TemplateVariable>;
+}> {
+	const { lang, name: template } = manifest.template;
+	const definitions = await readTemplateVariables(
+		await resolveTemplatesDir(lang, `package/${template}`),
+	);
+
+	const declared = Object.keys(definitions);
+	for (const key of Object.keys(vars))
+		if (!declared.includes(key))
+			throw new Error(
+				`Unknown template variable "${key}" for template "${template}" (declared: ${declared.join(", ") || "none"}).`,
+			);
+
+	const context = {
+		lang,
+		name: manifest.answers.name,
+		template,
+		public: manifest.answers.public,
+	};
+	const recorded = manifest.answers.variables;
+	const values: TemplateVariableValues = {};
+	for (const [name, variable] of Object.entries(definitions)) {
+		if (!isVariableActive(variable, { ...context, ...values })) continue;
+		values[name] =
+			name in vars
+				? coerceVariableValue(name, variable, vars[name])
+				: name in recorded
+					? recorded[name]
+					: await promptTemplateVariable(name, variable);
+	}
+	return { values, definitions };
+}
+
+/**
+ * Choose the features of the active template: recorded choices are kept and new features use their default.
+ * @param manifest - Project manifest.
+ * @returns Promise resolving to whether each declared feature is included.
+ */
+export async function resolveProjectFeatures(
+	manifest: ProjectManifest,
+): Promise<TemplateFeatureSelection> {
+	const definitions = await readTemplateFeatures(
+		await resolveTemplatesDir(
+			manifest.template.lang,
+			`package/${manifest.template.name}`,
+		),
+	);
+	return Object.fromEntries(
+		Object.entries(definitions).map(([name, feature]) => [
+			name,
+			manifest.answers.features[name] ?? isFeatureSelectedByDefault(feature),
+		]),
+	);
+}
+
+/**
+ * Build the package configuration recorded in a manifest.
+ * @param manifest - Project manifest.
+ * @param variables - Answers to the template's variables.
+ * @param features - Feature selection.
+ * @returns The package configuration.
+ */
+export function toPackageConfiguration(
+	manifest: ProjectManifest,
+	variables: TemplateVariableValues,
+	features: TemplateFeatureSelection,
+): GeneratePackageConfiguration {
+	return {
+		lang: manifest.template.lang as Language,
+		name: manifest.answers.name,
+		template: manifest.template.name,
+		public: manifest.answers.public,
+		authorName: manifest.answers.authorName,
+		authorGitUsername: manifest.answers.authorGitUsername,
+		authorGitEmail: manifest.answers.authorGitEmail,
+		includeInstructions: Boolean(manifest.instructions),
+		instructionsIdeFormats: manifest.instructions?.ideFormats as IdeFormat[],
+		variables,
+		features,
+	};
+}
+
+/**
+ * Render a package from the active registry into a directory, without hooks or git.
+ * @param dir - Directory to render into.
+ * @param config - Package configuration (from the manifest's answers).
+ * @param packageManagerVersion - Version of the package manager to record in the package.
+ * @returns Promise resolving to the rendered package directory.
+ */
+export async function renderPackage(
+	dir: string,
+	config: GeneratePackageConfiguration,
+	packageManagerVersion: string,
+): Promise<string> {
+	const targetDir = await createProjectDirectory(dir, toSlug(config.name));
+	await writeTemplateFiles(targetDir, {
+		lang: config.lang,
+		projectSpec: "package",
+		template: config.template,
+		features: config.features,
+		license:
+			config.public && config.authorName
+				? { public: true, authorName: config.authorName }
+				: undefined,
+	});
+	await applyTemplateModifications(targetDir, config, packageManagerVersion);
+	if (config.includeInstructions)
+		await addPackageInstructions(targetDir, config);
+	return targetDir;
+}
+
+/**
+ * Point the registry at the commit a project was generated from.
+ * Local registries can't be pinned, so they only qualify while their checkout is still at that commit;
+ * tarballs have no commit at all.
+ * @param manifest - Project manifest.
+ * @param offline - Only use cached templates.
+ * @returns Promise resolving to true when the active registry is at the recorded commit.
+ */
+export async function configureRecordedRegistrySource(
+	manifest: ProjectManifest,
+	offline?: boolean,
+): Promise<boolean> {
+	const source = parseRegistrySource(manifest.source.registry);
+	if (!manifest.source.commit || source.kind === "tarball") return false;
+	await configureRegistrySource({
+		registry: manifest.source.registry,
+		ref: source.kind === "local" ? undefined : manifest.source.commit,
+		offline,
+	});
+	return (await pinRegistryToCommit()) === manifest.source.commit;
+}